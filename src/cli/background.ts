@@ -43,20 +43,16 @@ export function ignoreStdioErrorsForBackgroundDaemon(): void {
   process.stderr?.on?.('error', () => {});
 }
 
-export async function startBackgroundProcess(spawnProcess: typeof spawn = spawn): Promise<void> {
+// Runs difit with `childArgs` as a detached process and resolves once it reports where it listens
+export async function spawnBackgroundChild(
+  childArgs: string[],
+  spawnProcess: typeof spawn = spawn,
+): Promise<BackgroundServerInfo> {
   const scriptPath = process.argv[1];
   if (!scriptPath) {
     throw new Error('Unable to determine difit entrypoint for background process');
   }
 
-  const childArgs = process.argv.slice(2).filter((arg) => arg !== '--background');
-  if (!childArgs.includes('--keep-alive')) {
-    childArgs.push('--keep-alive');
-  }
-  if (!childArgs.includes('--no-open')) {
-    childArgs.push('--no-open');
-  }
-
   const child = spawnProcess(process.execPath, [scriptPath, ...childArgs], {
     detached: true,
     stdio: ['ignore', 'ignore', 'pipe', 'ipc'],
@@ -68,7 +64,7 @@ export async function startBackgroundProcess(spawnProcess: typeof spawn = spawn)
 
   child.stderr?.setEncoding('utf8');
 
-  await new Promise<void>((resolve, reject) => {
+  return new Promise<BackgroundServerInfo>((resolve, reject) => {
     let settled = false;
     let stderr = '';
 
@@ -100,9 +96,8 @@ export async function startBackgroundProcess(spawnProcess: typeof spawn = spawn)
       }
 
       finish(() => {
-        console.log(JSON.stringify(handshake));
         releaseBackgroundChild(child);
-        resolve();
+        resolve(handshake);
       });
     };
 
@@ -139,3 +134,16 @@ export async function startBackgroundProcess(spawnProcess: typeof spawn = spawn)
     child.once('close', onClose);
   });
 }
+
+export async function startBackgroundProcess(spawnProcess: typeof spawn = spawn): Promise<void> {
+  const childArgs = process.argv.slice(2).filter((arg) => arg !== '--background');
+  if (!childArgs.includes('--keep-alive')) {
+    childArgs.push('--keep-alive');
+  }
+  if (!childArgs.includes('--no-open')) {
+    childArgs.push('--no-open');
+  }
+
+  const handshake = await spawnBackgroundChild(childArgs, spawnProcess);
+  console.log(JSON.stringify(handshake));
+}
@@ -1,6 +1,20 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 import { createCommentCommand } from './comment.js';
+import { resolveDaemonSessionUrl } from './daemon.js';
+import { getPrPatch, getPrReviewCommentIds, publishPrReview } from './github.js';
+
+vi.mock('./daemon.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./daemon.js')>()),
+  resolveDaemonSessionUrl: vi.fn(),
+}));
+
+vi.mock('./github.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./github.js')>()),
+  getPrPatch: vi.fn(),
+  getPrReviewCommentIds: vi.fn(),
+  publishPrReview: vi.fn(),
+}));
 
 describe('createCommentCommand', () => {
   const command = createCommentCommand();
@@ -9,20 +23,21 @@ describe('createCommentCommand', () => {
     expect(command.name()).toBe('comment');
   });
 
-  it('has "add", "get", and "resolve" subcommands', () => {
+  it('has "add", "get", "resolve", and "publish" subcommands', () => {
     const subcommandNames = command.commands.map((c) => c.name());
     expect(subcommandNames).toContain('add');
     expect(subcommandNames).toContain('get');
     expect(subcommandNames).toContain('resolve');
+    expect(subcommandNames).toContain('publish');
   });
 
   describe('add subcommand', () => {
     const addCommand = command.commands.find((c) => c.name() === 'add')!;
 
-    it('requires --port option', () => {
-      const portOption = addCommand.options.find((o) => o.long === '--port');
-      expect(portOption).toBeDefined();
-      expect(portOption?.mandatory).toBe(true);
+    it('targets a review by --port, --repo or --session', () => {
+      expect(addCommand.options.find((o) => o.long === '--port')?.mandatory).toBe(false);
+      expect(addCommand.options.find((o) => o.long === '--repo')).toBeDefined();
+      expect(addCommand.options.find((o) => o.long === '--session')).toBeDefined();
     });
 
     it('accepts optional json argument', () => {
@@ -36,10 +51,10 @@ describe('createCommentCommand', () => {
   describe('get subcommand', () => {
     const getCommand = command.commands.find((c) => c.name() === 'get')!;
 
-    it('requires --port option', () => {
-      const portOption = getCommand.options.find((o) => o.long === '--port');
-      expect(portOption).toBeDefined();
-      expect(portOption?.mandatory).toBe(true);
+    it('targets a review by --port, --repo or --session', () => {
+      expect(getCommand.options.find((o) => o.long === '--port')?.mandatory).toBe(false);
+      expect(getCommand.options.find((o) => o.long === '--repo')).toBeDefined();
+      expect(getCommand.options.find((o) => o.long === '--session')).toBeDefined();
     });
 
     it('has --format option with choices', () => {
@@ -57,10 +72,10 @@ describe('createCommentCommand', () => {
       expect(resolveCommand.aliases()).toContain('remove');
     });
 
-    it('requires --port option', () => {
-      const portOption = resolveCommand.options.find((o) => o.long === '--port');
-      expect(portOption).toBeDefined();
-      expect(portOption?.mandatory).toBe(true);
+    it('targets a review by --port, --repo or --session', () => {
+      expect(resolveCommand.options.find((o) => o.long === '--port')?.mandatory).toBe(false);
+      expect(resolveCommand.options.find((o) => o.long === '--repo')).toBeDefined();
+      expect(resolveCommand.options.find((o) => o.long === '--session')).toBeDefined();
     });
 
     it('accepts variadic threadIds argument', () => {
@@ -71,6 +86,21 @@ describe('createCommentCommand', () => {
       expect(args[0].variadic).toBe(true);
     });
   });
+
+  describe('publish subcommand', () => {
+    const publishCommand = command.commands.find((c) => c.name() === 'publish')!;
+
+    it('requires the --pr option but not --port', () => {
+      expect(publishCommand.options.find((o) => o.long === '--port')?.mandatory).toBe(false);
+      expect(publishCommand.options.find((o) => o.long === '--pr')?.mandatory).toBe(true);
+    });
+
+    it('leaves the review pending by default', () => {
+      const eventOption = publishCommand.options.find((o) => o.long === '--event');
+      expect(eventOption?.defaultValue).toBe('pending');
+      expect(eventOption?.argChoices).toEqual(['pending', 'comment', 'approve', 'request-changes']);
+    });
+  });
 });
 
 function jsonResponse(body: unknown, status = 200): Response {
@@ -218,6 +248,19 @@ describe('comment subcommand integration', () => {
       expect(process.exit).toHaveBeenCalledWith(1);
     });
 
+    it('reaches a daemon review when no port is given', async () => {
+      vi.mocked(resolveDaemonSessionUrl).mockResolvedValue('http://localhost:4966/s/abc123');
+      mockFetch.mockResolvedValue(textResponse('Comments output text'));
+
+      const command = createCommentCommand();
+      await command.parseAsync(['node', 'difit', 'get', '--repo', '/work/app']);
+
+      expect(resolveDaemonSessionUrl).toHaveBeenCalledWith(
+        expect.objectContaining({ repo: '/work/app' }),
+      );
+      expect(mockFetch).toHaveBeenCalledWith('http://localhost:4966/s/abc123/api/comments-output');
+    });
+
     it('handles empty text output silently', async () => {
       mockFetch.mockResolvedValue(textResponse('  '));
 
@@ -324,4 +367,160 @@ describe('comment subcommand integration', () => {
       expect(process.exit).toHaveBeenCalledWith(1);
     });
   });
+
+  describe('publish', () => {
+    const prUrl = 'https://github.com/owner/repo/pull/7';
+
+    beforeEach(() => {
+      vi.mocked(getPrPatch).mockReturnValue(
+        [
+          'diff --git a/src/app.ts b/src/app.ts',
+          'index 1111111..2222222 100644',
+          '--- a/src/app.ts',
+          '+++ b/src/app.ts',
+          '@@ -1,2 +1,2 @@',
+          ' keep',
+          '-old',
+          '+new',
+          '',
+        ].join('\n'),
+      );
+      vi.mocked(getPrReviewCommentIds).mockReturnValue(new Map());
+      vi.mocked(publishPrReview).mockImplementation((_pr, plan) => ({
+        reviewId: 99,
+        state: 'PENDING',
+        comments: plan.comments.length,
+        replies: plan.replies.length,
+        unmapped: plan.unmapped,
+        published: Object.fromEntries(
+          plan.comments.flatMap(({ messageIds }, index) =>
+            messageIds.map((messageId) => [messageId, 500 + index]),
+          ),
+        ),
+      }));
+    });
+
+    const createThread = (id: string, line: number) => ({
+      id,
+      filePath: 'src/app.ts',
+      createdAt: '2026-03-25T10:00:00Z',
+      updatedAt: '2026-03-25T10:00:00Z',
+      position: { side: 'new', line },
+      messages: [
+        {
+          id,
+          body: `Comment ${id}`,
+          createdAt: '2026-03-25T10:00:00Z',
+          updatedAt: '2026-03-25T10:00:00Z',
+        },
+      ],
+    });
+
+    it('publishes server threads to the PR as a pending review', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ version: 1, threads: [createThread('a', 2)] }));
+
+      const command = createCommentCommand();
+      await command.parseAsync(['node', 'difit', 'publish', '--port', '4966', '--pr', prUrl]);
+
+      expect(mockFetch).toHaveBeenCalledWith('http://localhost:4966/api/comments-json');
+      expect(publishPrReview).toHaveBeenCalledWith(
+        prUrl,
+        {
+          comments: [
+            {
+              messageIds: ['a'],
+              comment: { path: 'src/app.ts', body: 'Comment a', side: 'RIGHT', line: 2 },
+            },
+          ],
+          replies: [],
+          unmapped: [],
+        },
+        { event: 'pending', body: undefined },
+      );
+      expect(JSON.parse(consoleOutput[0]!)).toEqual({
+        success: true,
+        reviewId: 99,
+        state: 'PENDING',
+        comments: 1,
+        replies: 0,
+        unmapped: [],
+      });
+      expect(process.exit).not.toHaveBeenCalled();
+    });
+
+    it('does not post the same comments again when publishing twice', async () => {
+      vi.mocked(publishPrReview).mockClear();
+      let publishedComments: Record<string, number> = {};
+      mockFetch.mockImplementation(async (url, init) => {
+        if (String(url).endsWith('/api/published-comments')) {
+          const body = JSON.parse(String(init?.body)) as {
+            publishedComments: Record<string, number>;
+          };
+          publishedComments = { ...publishedComments, ...body.publishedComments };
+          return jsonResponse({ success: true });
+        }
+        return jsonResponse({ version: 1, threads: [createThread('a', 2)], publishedComments });
+      });
+
+      const args = ['node', 'difit', 'publish', '--port', '4966', '--pr', prUrl];
+      await createCommentCommand().parseAsync(args);
+      await createCommentCommand().parseAsync(args);
+
+      expect(publishedComments).toEqual({ a: 500 });
+      expect(vi.mocked(publishPrReview).mock.calls.map(([, plan]) => plan.comments.length)).toEqual(
+        [1, 0],
+      );
+      expect(JSON.parse(consoleOutput[1]!)).toMatchObject({ comments: 0, replies: 0 });
+    });
+
+    it('reports comments it could not map and exits with an error', async () => {
+      mockFetch.mockResolvedValue(
+        jsonResponse({ version: 1, threads: [createThread('a', 2), createThread('b', 20)] }),
+      );
+
+      const command = createCommentCommand();
+      await command.parseAsync([
+        'node',
+        'difit',
+        'publish',
+        '--port',
+        '4966',
+        '--pr',
+        prUrl,
+        '--event',
+        'comment',
+        '--body',
+        'Summary',
+      ]);
+
+      expect(publishPrReview).toHaveBeenCalledWith(prUrl, expect.anything(), {
+        event: 'comment',
+        body: 'Summary',
+      });
+      const output = JSON.parse(consoleOutput[0]!) as { success: boolean; unmapped: unknown[] };
+      expect(output.success).toBe(false);
+      expect(output.unmapped).toEqual([
+        {
+          threadId: 'b',
+          filePath: 'src/app.ts',
+          position: { side: 'new', line: 20 },
+          reason: 'Line 20 is outside the pull request diff.',
+        },
+      ]);
+      expect(process.exit).toHaveBeenCalledWith(1);
+    });
+
+    it('surfaces gh errors', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ version: 1, threads: [createThread('a', 2)] }));
+      vi.mocked(publishPrReview).mockImplementation(() => {
+        throw new Error('Validation Failed\nTry: gh auth login');
+      });
+
+      const command = createCommentCommand();
+      await command.parseAsync(['node', 'difit', 'publish', '--port', '4966', '--pr', prUrl]);
+
+      expect(consoleErrors[0]).toBe('Error: Validation Failed\nTry: gh auth login');
+      expect(process.exit).toHaveBeenCalledWith(1);
+    });
+  });
 });
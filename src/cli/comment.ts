@@ -1,8 +1,18 @@
 import { Command, Option } from 'commander';
 
+import { GitDiffParser } from '../server/git-diff.js';
+import type { DiffCommentThread } from '../types/diff.js';
 import { parseCommentImportValue } from '../utils/commentImports.js';
 
-import { detectStdinSource, readStdin } from './utils.js';
+import { resolveDaemonSessionUrl } from './daemon.js';
+import {
+  buildPrReviewPublishPlan,
+  getPrPatch,
+  getPrReviewCommentIds,
+  publishPrReview,
+  type PrReviewEvent,
+} from './github.js';
+import { detectStdinSource, handleCommandError, readStdin } from './utils.js';
 
 interface CommentImportResponse {
   success?: boolean;
@@ -11,13 +21,32 @@ interface CommentImportResponse {
   warnings?: string[];
 }
 
-function handleCommandError(error: unknown, port: number): never {
-  if (error instanceof TypeError && error.message.includes('fetch failed')) {
-    console.error(`Error: Cannot connect to difit server on port ${port}. Is the server running?`);
-  } else {
-    console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+// A review is reached by the port of its own server, or through the daemon by repository or
+// session ID
+interface ReviewTargetOptions {
+  port?: number;
+  repo?: string;
+  session?: string;
+}
+
+function addReviewTargetOptions(command: Command): Command {
+  return command
+    .option('--port <port>', 'port of a difit server started without --daemon', parseInt)
+    .option('--repo <path>', 'repository of the daemon review (default: current directory)')
+    .option('--session <id>', 'ID of the daemon review, as shown by `difit ls`');
+}
+
+async function resolveServerUrl(target: ReviewTargetOptions): Promise<string> {
+  if (target.port !== undefined) {
+    return `http://localhost:${target.port}`;
   }
-  process.exit(1);
+  return resolveDaemonSessionUrl(target);
+}
+
+function describeConnectionError(target: ReviewTargetOptions): string {
+  return target.port !== undefined
+    ? `Cannot connect to difit server on port ${target.port}. Is the server running?`
+    : 'Cannot connect to the difit daemon. Is it running?';
 }
 
 async function parseCommentAddInput(json?: string): Promise<string> {
@@ -39,58 +68,57 @@ async function parseCommentAddInput(json?: string): Promise<string> {
 
 export function createCommentCommand(): Command {
   const comment = new Command('comment').description(
-    'Add, retrieve, or resolve comments on a running difit server',
+    'Add, retrieve, resolve, or publish comments on a running difit server',
   );
 
-  comment
-    .command('add')
-    .description('Add comments to a running difit server')
-    .argument('[json]', 'comment import JSON (object or array)')
-    .requiredOption('--port <port>', 'port of the running difit server', parseInt)
-    .action(async (json: string | undefined, opts: { port: number }) => {
-      try {
-        const input = await parseCommentAddInput(json);
-        const imports = parseCommentImportValue(input);
-
-        const response = await fetch(`http://localhost:${opts.port}/api/comment-imports`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(imports),
-        });
+  addReviewTargetOptions(
+    comment
+      .command('add')
+      .description('Add comments to a running difit server')
+      .argument('[json]', 'comment import JSON (object or array)'),
+  ).action(async (json: string | undefined, opts: ReviewTargetOptions) => {
+    try {
+      const input = await parseCommentAddInput(json);
+      const imports = parseCommentImportValue(input);
 
-        if (!response.ok) {
-          const errorBody = (await response.json().catch(() => ({}))) as {
-            error?: string;
-          };
-          console.error(`Error: ${errorBody.error ?? 'Failed to add comments'}`);
-          process.exit(1);
-        }
+      const response = await fetch(`${await resolveServerUrl(opts)}/api/comment-imports`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(imports),
+      });
 
-        const result = (await response.json()) as CommentImportResponse;
-        console.log(
-          JSON.stringify({
-            success: result.success ?? true,
-            importId: result.importId,
-            count: result.count ?? imports.length,
-            warnings: result.warnings ?? [],
-          }),
-        );
-      } catch (error) {
-        handleCommandError(error, opts.port);
+      if (!response.ok) {
+        const errorBody = (await response.json().catch(() => ({}))) as {
+          error?: string;
+        };
+        console.error(`Error: ${errorBody.error ?? 'Failed to add comments'}`);
+        process.exit(1);
       }
-    });
 
-  comment
-    .command('get')
-    .description('Retrieve comments from a running difit server')
-    .requiredOption('--port <port>', 'port of the running difit server', parseInt)
+      const result = (await response.json()) as CommentImportResponse;
+      console.log(
+        JSON.stringify({
+          success: result.success ?? true,
+          importId: result.importId,
+          count: result.count ?? imports.length,
+          warnings: result.warnings ?? [],
+        }),
+      );
+    } catch (error) {
+      handleCommandError(error, describeConnectionError(opts));
+    }
+  });
+
+  addReviewTargetOptions(
+    comment.command('get').description('Retrieve comments from a running difit server'),
+  )
     .addOption(
       new Option('--format <format>', 'output format').choices(['text', 'json']).default('text'),
     )
-    .action(async (opts: { port: number; format: string }) => {
+    .action(async (opts: ReviewTargetOptions & { format: string }) => {
       try {
         const endpoint = opts.format === 'json' ? '/api/comments-json' : '/api/comments-output';
-        const response = await fetch(`http://localhost:${opts.port}${endpoint}`);
+        const response = await fetch(`${await resolveServerUrl(opts)}${endpoint}`);
 
         if (!response.ok) {
           console.error('Error: Failed to retrieve comments');
@@ -107,76 +135,143 @@ export function createCommentCommand(): Command {
           }
         }
       } catch (error) {
-        handleCommandError(error, opts.port);
+        handleCommandError(error, describeConnectionError(opts));
       }
     });
 
-  comment
-    .command('resolve')
-    .alias('remove')
-    .description('Resolve (remove) comment threads on a running difit server')
-    .argument('<threadIds...>', 'thread IDs to resolve')
-    .requiredOption('--port <port>', 'port of the running difit server', parseInt)
-    .action(async (threadIds: string[], opts: { port: number }) => {
-      try {
-        const results = await Promise.all(
-          threadIds.map(
-            async (
-              threadId,
-            ): Promise<{
-              threadId: string;
-              status: 'resolved' | 'notFound' | 'error';
+  addReviewTargetOptions(
+    comment
+      .command('resolve')
+      .alias('remove')
+      .description('Resolve (remove) comment threads on a running difit server')
+      .argument('<threadIds...>', 'thread IDs to resolve'),
+  ).action(async (threadIds: string[], opts: ReviewTargetOptions) => {
+    try {
+      const serverUrl = await resolveServerUrl(opts);
+      const results = await Promise.all(
+        threadIds.map(
+          async (
+            threadId,
+          ): Promise<{
+            threadId: string;
+            status: 'resolved' | 'notFound' | 'error';
+            error?: string;
+          }> => {
+            const response = await fetch(
+              `${serverUrl}/api/comments/${encodeURIComponent(threadId)}`,
+              { method: 'DELETE' },
+            );
+
+            if (response.ok) {
+              return { threadId, status: 'resolved' };
+            }
+
+            if (response.status === 404) {
+              return { threadId, status: 'notFound' };
+            }
+
+            const errorBody = (await response.json().catch(() => ({}))) as {
               error?: string;
-            }> => {
-              const response = await fetch(
-                `http://localhost:${opts.port}/api/comments/${encodeURIComponent(threadId)}`,
-                { method: 'DELETE' },
+            };
+            return {
+              threadId,
+              status: 'error',
+              error: errorBody.error ?? `Failed to resolve thread ${threadId}`,
+            };
+          },
+        ),
+      );
+
+      const resolved = results.filter((r) => r.status === 'resolved').map((r) => r.threadId);
+      const notFound = results.filter((r) => r.status === 'notFound').map((r) => r.threadId);
+      const errors = results
+        .filter((r) => r.status === 'error')
+        .map((r) => ({
+          threadId: r.threadId,
+          error: r.error ?? `Failed to resolve thread ${r.threadId}`,
+        }));
+
+      console.log(
+        JSON.stringify({
+          success: notFound.length === 0 && errors.length === 0,
+          resolved,
+          notFound,
+          errors,
+        }),
+      );
+      if (notFound.length > 0 || errors.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      handleCommandError(error, describeConnectionError(opts));
+    }
+  });
+
+  addReviewTargetOptions(
+    comment
+      .command('publish')
+      .description('Publish comments from a running difit server as a GitHub PR review'),
+  )
+    .requiredOption('--pr <url>', 'GitHub PR URL to publish the review to')
+    .addOption(
+      new Option('--event <event>', 'submit the review instead of leaving it pending')
+        .choices(['pending', 'comment', 'approve', 'request-changes'])
+        .default('pending'),
+    )
+    .option('--body <text>', 'summary body of the review')
+    .action(
+      async (opts: ReviewTargetOptions & { pr: string; event: PrReviewEvent; body?: string }) => {
+        try {
+          const serverUrl = await resolveServerUrl(opts);
+          const response = await fetch(`${serverUrl}/api/comments-json`);
+          if (!response.ok) {
+            console.error('Error: Failed to retrieve comments');
+            process.exit(1);
+          }
+
+          const { threads, publishedComments } = (await response.json()) as {
+            threads: DiffCommentThread[];
+            publishedComments?: Record<string, number>;
+          };
+          const { files } = new GitDiffParser().parseStdinDiff(getPrPatch(opts.pr));
+          // Messages an earlier publish posted count as already on GitHub
+          const publishedCommentIds = new Map([
+            ...getPrReviewCommentIds(opts.pr),
+            ...Object.entries(publishedComments ?? {}),
+          ]);
+          const plan = buildPrReviewPublishPlan(threads, files, publishedCommentIds);
+          const { published, ...result } = publishPrReview(opts.pr, plan, {
+            event: opts.event,
+            body: opts.body,
+          });
+
+          if (Object.keys(published).length > 0) {
+            const recordResponse = await fetch(`${serverUrl}/api/published-comments`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ publishedComments: published }),
+            });
+            if (!recordResponse.ok) {
+              console.error(
+                'Warning: Could not record the published comments; publishing again will post them twice',
               );
+            }
+          }
 
-              if (response.ok) {
-                return { threadId, status: 'resolved' };
-              }
-
-              if (response.status === 404) {
-                return { threadId, status: 'notFound' };
-              }
-
-              const errorBody = (await response.json().catch(() => ({}))) as {
-                error?: string;
-              };
-              return {
-                threadId,
-                status: 'error',
-                error: errorBody.error ?? `Failed to resolve thread ${threadId}`,
-              };
-            },
-          ),
-        );
-
-        const resolved = results.filter((r) => r.status === 'resolved').map((r) => r.threadId);
-        const notFound = results.filter((r) => r.status === 'notFound').map((r) => r.threadId);
-        const errors = results
-          .filter((r) => r.status === 'error')
-          .map((r) => ({
-            threadId: r.threadId,
-            error: r.error ?? `Failed to resolve thread ${r.threadId}`,
-          }));
-
-        console.log(
-          JSON.stringify({
-            success: notFound.length === 0 && errors.length === 0,
-            resolved,
-            notFound,
-            errors,
-          }),
-        );
-        if (notFound.length > 0 || errors.length > 0) {
-          process.exit(1);
+          console.log(
+            JSON.stringify({
+              success: result.unmapped.length === 0,
+              ...result,
+            }),
+          );
+          if (result.unmapped.length > 0) {
+            process.exit(1);
+          }
+        } catch (error) {
+          handleCommandError(error, describeConnectionError(opts));
         }
-      } catch (error) {
-        handleCommandError(error, opts.port);
-      }
-    });
+      },
+    );
 
   return comment;
 }
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { readDaemonInfo } from '../server/daemon.js';
+
+import { spawnBackgroundChild } from './background.js';
+import { createDaemonCommands, registerDaemonSession } from './daemon.js';
+
+vi.mock('../server/daemon.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../server/daemon.js')>()),
+  readDaemonInfo: vi.fn(),
+}));
+
+vi.mock('./background.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./background.js')>()),
+  spawnBackgroundChild: vi.fn(),
+}));
+
+const daemon = { pid: 4242, port: 4966, url: 'http://localhost:4966' };
+const session = {
+  id: 'abc123def456',
+  repoPath: '/work/app',
+  selection: { baseCommitish: 'HEAD~1', targetCommitish: 'HEAD' },
+  url: 'http://localhost:4966/s/abc123def456/',
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('daemon commands', () => {
+  const originalFetch = globalThis.fetch;
+  let mockFetch: ReturnType<typeof vi.fn<typeof fetch>>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn<typeof fetch>();
+    globalThis.fetch = mockFetch;
+    vi.mocked(readDaemonInfo).mockReset();
+    vi.mocked(spawnBackgroundChild).mockReset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it('provides "daemon", "ls", "stop" and "attach" commands', () => {
+    expect(createDaemonCommands().map((command) => command.name())).toEqual([
+      'daemon',
+      'ls',
+      'stop',
+      'attach',
+    ]);
+  });
+
+  describe('registerDaemonSession', () => {
+    it('adds the review to the running daemon', async () => {
+      vi.mocked(readDaemonInfo).mockResolvedValue(daemon);
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ pid: daemon.pid, sessions: [] }))
+        .mockResolvedValueOnce(jsonResponse({ ...session, created: true }));
+
+      const registered = await registerDaemonSession(
+        { repoPath: session.repoPath, selection: session.selection },
+        {},
+      );
+
+      expect(spawnBackgroundChild).not.toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://localhost:4966/api/daemon/sessions',
+        expect.objectContaining({ method: 'POST' }),
+      );
+      expect(registered).toMatchObject({ id: session.id, created: true, pid: 4242, port: 4966 });
+    });
+
+    it('starts the daemon when the recorded one no longer answers', async () => {
+      vi.mocked(readDaemonInfo).mockResolvedValue(daemon);
+      vi.mocked(spawnBackgroundChild).mockResolvedValue({ ...daemon, pid: 5151 });
+      mockFetch
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(jsonResponse({ ...session, created: true }));
+
+      const registered = await registerDaemonSession(
+        { repoPath: session.repoPath, selection: session.selection },
+        { preferredPort: 5000 },
+      );
+
+      expect(spawnBackgroundChild).toHaveBeenCalledWith(['daemon', '--port', '5000']);
+      expect(registered.pid).toBe(5151);
+    });
+  });
+
+  describe('stop', () => {
+    const stop = () => {
+      const command = createDaemonCommands().find((candidate) => candidate.name() === 'stop');
+      if (!command) throw new Error('stop command missing');
+      return command;
+    };
+
+    it('stops the given session', async () => {
+      vi.mocked(readDaemonInfo).mockResolvedValue(daemon);
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ pid: daemon.pid, sessions: [session] }))
+        .mockResolvedValueOnce(jsonResponse({ success: true, id: session.id }));
+
+      await stop().parseAsync([session.id], { from: 'user' });
+
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        `http://localhost:4966/api/daemon/sessions/${session.id}`,
+        { method: 'DELETE' },
+      );
+      expect(console.log).toHaveBeenCalledWith(JSON.stringify({ success: true, id: session.id }));
+    });
+
+    it('requires a session ID or --all', async () => {
+      await stop().parseAsync([], { from: 'user' });
+
+      expect(console.error).toHaveBeenCalledWith('Error: Provide a session ID or --all');
+      expect(process.exit).toHaveBeenCalledWith(1);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { Command, Option } from 'commander';
+import open from 'open';
+
+import {
+  readDaemonInfo,
+  startDaemon,
+  type DaemonInfo,
+  type DaemonSessionInfo,
+  type DaemonSessionRequest,
+} from '../server/daemon.js';
+
+import {
+  BACKGROUND_CHILD_ENV,
+  emitBackgroundHandshake,
+  ignoreStdioErrorsForBackgroundDaemon,
+  spawnBackgroundChild,
+} from './background.js';
+import { getGitRoot, handleCommandError } from './utils.js';
+
+const DAEMON_REQUEST_TIMEOUT_MS = 2_000;
+
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  const body = (await response.json().catch(() => ({}))) as { error?: string };
+  return body.error ?? fallback;
+}
+
+async function fetchDaemonSessions(daemon: DaemonInfo): Promise<DaemonSessionInfo[]> {
+  const response = await fetch(`${daemon.url}/api/daemon/sessions`, {
+    signal: AbortSignal.timeout(DAEMON_REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to list daemon sessions'));
+  }
+  const { sessions } = (await response.json()) as { sessions: DaemonSessionInfo[] };
+  return sessions;
+}
+
+// The info file outlives a daemon that crashed or was killed, so only trust it if it answers
+async function findRunningDaemon(): Promise<DaemonInfo | null> {
+  const daemon = await readDaemonInfo();
+  if (!daemon) return null;
+  try {
+    await fetchDaemonSessions(daemon);
+    return daemon;
+  } catch {
+    return null;
+  }
+}
+
+async function requireRunningDaemon(): Promise<DaemonInfo> {
+  const daemon = await findRunningDaemon();
+  if (!daemon) {
+    throw new Error('No difit daemon is running. Start a review with `difit --daemon`');
+  }
+  return daemon;
+}
+
+function describeSelection({ selection }: DaemonSessionInfo): string {
+  const range = selection.baseCommitish
+    ? `${selection.baseCommitish}..${selection.targetCommitish}`
+    : selection.targetCommitish;
+  return selection.pathspecs?.length ? `${range} -- ${selection.pathspecs.join(' ')}` : range;
+}
+
+// Picks the session by id, or else the newest one reviewing the repository at `repo`
+async function findDaemonSession(
+  daemon: DaemonInfo,
+  { session, repo }: { session?: string; repo?: string },
+): Promise<DaemonSessionInfo> {
+  const sessions = await fetchDaemonSessions(daemon);
+  if (session) {
+    const match = sessions.find((candidate) => candidate.id === session);
+    if (!match) throw new Error(`Session not found: ${session}`);
+    return match;
+  }
+
+  const repoPath = getGitRoot(repo);
+  const match = sessions
+    .filter((candidate) => candidate.repoPath === repoPath)
+    .sort((left, right) => right.createdAt.localeCompare(left.createdAt))[0];
+  if (!match) throw new Error(`No difit daemon session is reviewing ${repoPath}`);
+  return match;
+}
+
+/**
+ * Hosts a review in the daemon, starting the daemon in the background first if none is running.
+ * The daemon reuses the session when the repository and selection are already being reviewed.
+ */
+export async function registerDaemonSession(
+  request: DaemonSessionRequest,
+  { preferredPort, host }: { preferredPort?: number; host?: string },
+): Promise<DaemonSessionInfo & { created: boolean; pid: number; port: number }> {
+  const daemon =
+    (await findRunningDaemon()) ??
+    (await spawnBackgroundChild([
+      'daemon',
+      ...(preferredPort ? ['--port', String(preferredPort)] : []),
+      ...(host ? ['--host', host] : []),
+    ]));
+
+  const response = await fetch(`${daemon.url}/api/daemon/sessions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to start the review'));
+  }
+  const session = (await response.json()) as DaemonSessionInfo & { created: boolean };
+  return { ...session, pid: daemon.pid, port: daemon.port };
+}
+
+// Base URL of the API for a daemon session, for commands that talk to a review
+export async function resolveDaemonSessionUrl(target: {
+  session?: string;
+  repo?: string;
+}): Promise<string> {
+  const session = await findDaemonSession(await requireRunningDaemon(), target);
+  return session.url.replace(/\/$/, '');
+}
+
+export function createDaemonCommands(): Command[] {
+  const daemon = new Command('daemon')
+    .description('Run the difit daemon, which hosts reviews of many repositories on one port')
+    .option('--port <port>', 'preferred port (auto-assigned if occupied)', parseInt)
+    .option('--host <host>', 'host address to bind', '')
+    .action(async (opts: { port?: number; host: string }) => {
+      try {
+        const { port, url } = await startDaemon({
+          preferredPort: opts.port,
+          host: opts.host,
+          onShutdown: () => process.exit(0),
+        });
+
+        if (process.env[BACKGROUND_CHILD_ENV] === '1') {
+          emitBackgroundHandshake({ port, url, pid: process.pid });
+          ignoreStdioErrorsForBackgroundDaemon();
+          return;
+        }
+
+        console.log(`\n🚀 difit daemon started on ${url}`);
+        console.log('Start reviews with `difit --daemon`, list them with `difit ls`');
+        console.log('\nPress Ctrl+C to stop the daemon');
+      } catch (error) {
+        handleCommandError(error);
+      }
+    });
+
+  const ls = new Command('ls')
+    .description('List the reviews hosted by the difit daemon')
+    .option('--json', 'print the sessions as JSON')
+    .action(async (opts: { json?: boolean }) => {
+      try {
+        const running = await findRunningDaemon();
+        const sessions = running ? await fetchDaemonSessions(running) : [];
+        if (opts.json) {
+          console.log(JSON.stringify(sessions));
+          return;
+        }
+        if (!running) {
+          console.log('No difit daemon is running');
+          return;
+        }
+        if (sessions.length === 0) {
+          console.log(`No reviews are hosted by the difit daemon on ${running.url}`);
+          return;
+        }
+        for (const session of sessions) {
+          console.log(
+            `${session.id}  ${session.repoPath}  ${describeSelection(session)}  ${session.url}`,
+          );
+        }
+      } catch (error) {
+        handleCommandError(error);
+      }
+    });
+
+  const stop = new Command('stop')
+    .description('Stop a review hosted by the difit daemon, or the daemon itself')
+    .argument('[id]', 'session ID shown by `difit ls`')
+    .option('--all', 'stop every review and shut the daemon down')
+    .action(async (id: string | undefined, opts: { all?: boolean }) => {
+      try {
+        if (!id && !opts.all) {
+          throw new Error('Provide a session ID or --all');
+        }
+        const running = await requireRunningDaemon();
+        const response = opts.all
+          ? await fetch(`${running.url}/api/daemon/shutdown`, { method: 'POST' })
+          : await fetch(`${running.url}/api/daemon/sessions/${encodeURIComponent(id ?? '')}`, {
+              method: 'DELETE',
+            });
+        if (!response.ok) {
+          throw new Error(await readErrorMessage(response, 'Failed to stop the review'));
+        }
+        console.log(JSON.stringify(await response.json()));
+      } catch (error) {
+        handleCommandError(error);
+      }
+    });
+
+  const attach = new Command('attach')
+    .description('Open a review hosted by the difit daemon in the browser')
+    .argument('[id]', 'session ID (default: the newest review of the current repository)')
+    .option('--repo <path>', 'repository whose review to open (default: current directory)')
+    .addOption(new Option('--no-open', 'print the URL without opening the browser'))
+    .action(async (id: string | undefined, opts: { repo?: string; open: boolean }) => {
+      try {
+        const session = await findDaemonSession(await requireRunningDaemon(), {
+          session: id,
+          repo: opts.repo,
+        });
+        console.log(session.url);
+        if (opts.open) {
+          await open(session.url);
+        }
+      } catch (error) {
+        handleCommandError(error);
+      }
+    });
+
+  return [daemon, ls, stop, attach];
+}
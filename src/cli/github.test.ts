@@ -1,6 +1,14 @@
 import { afterEach, describe, expect, it, vi } from 'vitest';
 
-import { parseGitHubPrUrl, parsePrCommentImportsResponse } from './github';
+import type { DiffCommentThread, DiffFile } from '../types/diff';
+
+import {
+  buildPrReviewPublishPlan,
+  matchPublishedReviewComments,
+  parseGitHubPrUrl,
+  parsePrCommentImportsResponse,
+  parsePrReviewCommentIdsResponse,
+} from './github';
 
 function createReviewComment(overrides: Record<string, unknown> = {}) {
   return {
@@ -33,6 +41,57 @@ function createReviewThread(overrides: Record<string, unknown> = {}) {
   };
 }
 
+function createLocalThread(overrides: Partial<DiffCommentThread> = {}): DiffCommentThread {
+  return {
+    id: 'local-1',
+    filePath: 'src/example.ts',
+    createdAt: '2026-03-25T10:00:00Z',
+    updatedAt: '2026-03-25T10:00:00Z',
+    position: { side: 'new', line: 11 },
+    messages: [
+      {
+        id: 'local-1',
+        body: 'Local comment',
+        author: 'User',
+        createdAt: '2026-03-25T10:00:00Z',
+        updatedAt: '2026-03-25T10:00:00Z',
+      },
+    ],
+    ...overrides,
+  };
+}
+
+const prFile: DiffFile = {
+  path: 'src/example.ts',
+  status: 'modified',
+  additions: 2,
+  deletions: 1,
+  chunks: [
+    {
+      header: '@@ -10,3 +10,4 @@',
+      oldStart: 10,
+      oldLines: 3,
+      newStart: 10,
+      newLines: 4,
+      lines: [
+        { type: 'normal', content: 'a', oldLineNumber: 10, newLineNumber: 10 },
+        { type: 'delete', content: 'b', oldLineNumber: 11 },
+        { type: 'add', content: 'c', newLineNumber: 11 },
+        { type: 'add', content: 'd', newLineNumber: 12 },
+        { type: 'normal', content: 'e', oldLineNumber: 12, newLineNumber: 13 },
+      ],
+    },
+    {
+      header: '@@ -40,1 +41,1 @@',
+      oldStart: 40,
+      oldLines: 1,
+      newStart: 41,
+      newLines: 1,
+      lines: [{ type: 'normal', content: 'f', oldLineNumber: 40, newLineNumber: 41 }],
+    },
+  ],
+};
+
 afterEach(() => {
   vi.restoreAllMocks();
 });
@@ -298,6 +357,205 @@ describe('CLI GitHub utils', () => {
     });
   });
 
+  describe('buildPrReviewPublishPlan', () => {
+    it('maps positions to GitHub line, side and start_line', () => {
+      const plan = buildPrReviewPublishPlan(
+        [
+          createLocalThread(),
+          createLocalThread({ id: 'removed', position: { side: 'old', line: 11 } }),
+          createLocalThread({
+            id: 'range',
+            position: { side: 'new', line: { start: 10, end: 12 } },
+          }),
+        ],
+        [prFile],
+        new Map(),
+      );
+
+      expect(plan.comments.map(({ comment }) => comment)).toEqual([
+        { path: 'src/example.ts', body: 'Local comment', side: 'RIGHT', line: 11 },
+        { path: 'src/example.ts', body: 'Local comment', side: 'LEFT', line: 11 },
+        {
+          path: 'src/example.ts',
+          body: 'Local comment',
+          side: 'RIGHT',
+          line: 12,
+          start_side: 'RIGHT',
+          start_line: 10,
+        },
+      ]);
+      expect(plan.replies).toEqual([]);
+      expect(plan.unmapped).toEqual([]);
+    });
+
+    it('replies to imported threads with only the messages GitHub does not have', () => {
+      const plan = buildPrReviewPublishPlan(
+        [
+          createLocalThread({
+            id: 'PRRC_root',
+            messages: [
+              { ...createLocalThread().messages[0], id: 'PRRC_root', body: 'From GitHub' },
+              { ...createLocalThread().messages[0], id: 'PRRC_reply', body: 'Also from GitHub' },
+              { ...createLocalThread().messages[0], id: 'local-reply', body: 'Fixed in 1234abc' },
+            ],
+          }),
+          createLocalThread({
+            id: 'PRRC_done',
+            messages: [{ ...createLocalThread().messages[0], id: 'PRRC_done' }],
+          }),
+        ],
+        [prFile],
+        new Map([
+          ['PRRC_root', 101],
+          ['PRRC_reply', 102],
+          ['PRRC_done', 103],
+        ]),
+      );
+
+      expect(plan.comments).toEqual([]);
+      expect(plan.replies).toEqual([
+        {
+          threadId: 'PRRC_root',
+          messageId: 'local-reply',
+          commentId: 101,
+          body: 'Fixed in 1234abc',
+        },
+      ]);
+    });
+
+    it('skips messages an earlier publish posted and replies under their comment', () => {
+      const thread = createLocalThread();
+      const plan = buildPrReviewPublishPlan(
+        [
+          {
+            ...thread,
+            messages: [...thread.messages, { ...thread.messages[0], id: 'local-2', body: 'Done' }],
+          },
+        ],
+        [prFile],
+        new Map([['local-1', 201]]),
+      );
+
+      expect(plan.comments).toEqual([]);
+      expect(plan.replies).toEqual([
+        { threadId: 'local-1', messageId: 'local-2', commentId: 201, body: 'Done' },
+      ]);
+    });
+
+    it('folds local follow-ups into the new review comment', () => {
+      const thread = createLocalThread();
+      const plan = buildPrReviewPublishPlan(
+        [
+          {
+            ...thread,
+            messages: [...thread.messages, { ...thread.messages[0], id: 'local-2', body: 'Also' }],
+          },
+        ],
+        [prFile],
+        new Map(),
+      );
+
+      expect(plan.comments).toEqual([
+        {
+          messageIds: ['local-1', 'local-2'],
+          comment: expect.objectContaining({ body: 'Local comment\n\nAlso' }),
+        },
+      ]);
+    });
+
+    it('reports comments that cannot be placed on the PR diff', () => {
+      const plan = buildPrReviewPublishPlan(
+        [
+          createLocalThread({ id: 'other-file', filePath: 'src/other.ts' }),
+          createLocalThread({ id: 'outside', position: { side: 'new', line: 30 } }),
+          createLocalThread({
+            id: 'two-hunks',
+            position: { side: 'new', line: { start: 12, end: 41 } },
+          }),
+        ],
+        [prFile],
+        new Map(),
+      );
+
+      expect(plan.comments).toEqual([]);
+      expect(plan.unmapped).toEqual([
+        {
+          threadId: 'other-file',
+          filePath: 'src/other.ts',
+          position: { side: 'new', line: 11 },
+          reason: 'File is not part of the pull request diff.',
+        },
+        {
+          threadId: 'outside',
+          filePath: 'src/example.ts',
+          position: { side: 'new', line: 30 },
+          reason: 'Line 30 is outside the pull request diff.',
+        },
+        {
+          threadId: 'two-hunks',
+          filePath: 'src/example.ts',
+          position: { side: 'new', line: { start: 12, end: 41 } },
+          reason: 'Lines 12-41 span more than one hunk of the pull request diff.',
+        },
+      ]);
+    });
+  });
+
+  describe('matchPublishedReviewComments', () => {
+    it('records the created comment for each message it carries', () => {
+      const comment = { path: 'src/example.ts', side: 'RIGHT' as const, line: 11 };
+
+      const published = matchPublishedReviewComments(
+        [
+          { messageIds: ['a', 'a-2'], comment: { ...comment, body: 'First' } },
+          { messageIds: ['b'], comment: { ...comment, body: 'Same' } },
+          { messageIds: ['c'], comment: { ...comment, body: 'Same' } },
+        ],
+        [
+          { id: 301, path: 'src/example.ts', body: 'First' },
+          { id: 302, path: 'src/example.ts', body: 'Same' },
+          { id: 303, path: 'src/example.ts', body: 'Same' },
+        ],
+      );
+
+      expect(published).toEqual({ a: 301, 'a-2': 301, b: 302, c: 303 });
+    });
+  });
+
+  describe('parsePrReviewCommentIdsResponse', () => {
+    it('collects REST IDs for every review comment', () => {
+      const result = parsePrReviewCommentIdsResponse({
+        data: {
+          repository: {
+            pullRequest: {
+              reviewThreads: {
+                nodes: [
+                  {
+                    comments: {
+                      nodes: [
+                        { id: 'PRRC_1', databaseId: 11 },
+                        { id: 'PRRC_2', databaseId: null },
+                      ],
+                    },
+                  },
+                ],
+                pageInfo: { hasNextPage: true, endCursor: 'cursor-1' },
+              },
+            },
+          },
+        },
+      });
+
+      expect(result).toEqual({ commentIds: new Map([['PRRC_1', 11]]), endCursor: 'cursor-1' });
+    });
+
+    it('throws GraphQL errors', () => {
+      expect(() =>
+        parsePrReviewCommentIdsResponse({ errors: [{ message: 'Could not resolve to a PR' }] }),
+      ).toThrow('Could not resolve to a PR');
+    });
+  });
+
   describe('parseGitHubPrUrl', () => {
     it('should parse valid GitHub PR URLs', () => {
       const result = parseGitHubPrUrl('https://github.com/owner/repo/pull/123');
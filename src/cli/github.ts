@@ -1,6 +1,12 @@
 import { execFileSync } from 'child_process';
 
-import type { CommentImport, DiffCommentPosition, DiffLineRange } from '../types/diff.js';
+import type {
+  CommentImport,
+  DiffCommentPosition,
+  DiffCommentThread,
+  DiffFile,
+  DiffLineRange,
+} from '../types/diff.js';
 
 interface PullRequestInfo {
   owner: string;
@@ -69,6 +75,106 @@ interface PrCommentImportsPage {
   };
 }
 
+interface GitHubReviewCommentIdsResponse {
+  data?: {
+    repository?: {
+      pullRequest?: {
+        reviewThreads?: {
+          nodes?: Array<{
+            comments?: {
+              nodes?: Array<{ id?: string | null; databaseId?: number | null }> | null;
+            } | null;
+          }> | null;
+          pageInfo?: GitHubReviewThreadsPageInfo | null;
+        } | null;
+      } | null;
+    } | null;
+  } | null;
+  errors?: Array<{
+    message?: string | null;
+  }> | null;
+}
+
+type GitHubReviewSide = 'LEFT' | 'RIGHT';
+
+interface PrReviewComment {
+  path: string;
+  body: string;
+  side: GitHubReviewSide;
+  line: number;
+  start_side?: GitHubReviewSide;
+  start_line?: number;
+}
+
+// A new review comment and the difit messages it carries
+interface PlannedPrReviewComment {
+  messageIds: string[];
+  comment: PrReviewComment;
+}
+
+interface PrReviewReply {
+  threadId: string;
+  messageId: string;
+  commentId: number;
+  body: string;
+}
+
+interface UnmappedPrComment {
+  threadId: string;
+  filePath: string;
+  position: DiffCommentPosition;
+  reason: string;
+}
+
+interface PrReviewPublishPlan {
+  comments: PlannedPrReviewComment[];
+  replies: PrReviewReply[];
+  unmapped: UnmappedPrComment[];
+}
+
+export type PrReviewEvent = 'pending' | 'comment' | 'approve' | 'request-changes';
+
+interface PrReviewPublishResult {
+  reviewId: number | null;
+  state: string | null;
+  comments: number;
+  replies: number;
+  unmapped: UnmappedPrComment[];
+  // REST IDs of the comments this publish created, by the message ID they came from
+  published: Record<string, number>;
+}
+
+const PR_REVIEW_EVENTS = new Map<PrReviewEvent, string | undefined>([
+  // Leaving the event out of the request is how GitHub creates a pending review
+  ['pending', undefined],
+  ['comment', 'COMMENT'],
+  ['approve', 'APPROVE'],
+  ['request-changes', 'REQUEST_CHANGES'],
+]);
+
+const PR_REVIEW_COMMENT_IDS_GRAPHQL_QUERY = `
+query($owner: String!, $repo: String!, $number: Int!, $endCursor: String) {
+  repository(owner: $owner, name: $repo) {
+    pullRequest(number: $number) {
+      reviewThreads(first: 100, after: $endCursor) {
+        nodes {
+          comments(first: 100) {
+            nodes {
+              id
+              databaseId
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+}
+`;
+
 const PR_REVIEW_THREADS_GRAPHQL_QUERY = `
 query($owner: String!, $repo: String!, $number: Int!, $endCursor: String) {
   repository(owner: $owner, name: $repo) {
@@ -303,6 +409,112 @@ function toCommentImportsForThread(thread: GitHubReviewThreadNode): CommentImpor
   return commentImports;
 }
 
+function toGitHubSide(side: DiffCommentPosition['side']): GitHubReviewSide {
+  return side === 'old' ? 'LEFT' : 'RIGHT';
+}
+
+// GitHub only accepts review comments on lines inside a hunk of the PR diff,
+// and a multi-line comment has to stay within one hunk.
+function findChunkIndex(file: DiffFile, side: DiffCommentPosition['side'], line: number): number {
+  return file.chunks.findIndex((chunk) =>
+    chunk.lines.some(
+      (diffLine) => (side === 'old' ? diffLine.oldLineNumber : diffLine.newLineNumber) === line,
+    ),
+  );
+}
+
+function toPrReviewComment(
+  thread: DiffCommentThread,
+  file: DiffFile | undefined,
+  body: string,
+): PrReviewComment | string {
+  if (!file) {
+    return 'File is not part of the pull request diff.';
+  }
+
+  const { side, line } = thread.position;
+  const start = typeof line === 'number' ? line : line.start;
+  const end = typeof line === 'number' ? line : line.end;
+  const endChunkIndex = findChunkIndex(file, side, end);
+  if (endChunkIndex === -1) {
+    return `Line ${end} is outside the pull request diff.`;
+  }
+
+  const githubSide = toGitHubSide(side);
+  if (start === end) {
+    return { path: file.path, body, side: githubSide, line: end };
+  }
+
+  const startChunkIndex = findChunkIndex(file, side, start);
+  if (startChunkIndex === -1) {
+    return `Line ${start} is outside the pull request diff.`;
+  }
+  if (startChunkIndex !== endChunkIndex) {
+    return `Lines ${start}-${end} span more than one hunk of the pull request diff.`;
+  }
+
+  return {
+    path: file.path,
+    body,
+    side: githubSide,
+    line: end,
+    start_side: githubSide,
+    start_line: start,
+  };
+}
+
+/**
+ * Splits difit threads into new review comments and replies to threads GitHub already has.
+ * `publishedCommentIds` maps the IDs of messages that are on GitHub to the REST IDs the reply
+ * endpoint expects: imported messages keep their comment node IDs, and messages an earlier
+ * publish posted are recorded by their own IDs.
+ */
+export function buildPrReviewPublishPlan(
+  threads: DiffCommentThread[],
+  files: DiffFile[],
+  publishedCommentIds: Map<string, number>,
+): PrReviewPublishPlan {
+  const filesByPath = new Map(files.map((file) => [file.path, file]));
+  const plan: PrReviewPublishPlan = { comments: [], replies: [], unmapped: [] };
+
+  for (const thread of threads) {
+    const newMessages = thread.messages.filter((message) => !publishedCommentIds.has(message.id));
+    if (newMessages.length === 0) {
+      continue;
+    }
+
+    const rootCommentId = publishedCommentIds.get(thread.id);
+    if (rootCommentId !== undefined) {
+      for (const message of newMessages) {
+        plan.replies.push({
+          threadId: thread.id,
+          messageId: message.id,
+          commentId: rootCommentId,
+          body: message.body,
+        });
+      }
+      continue;
+    }
+
+    // A review comment can't carry replies yet, so local follow-ups join the first message
+    const body = newMessages.map((message) => message.body).join('\n\n');
+    const comment = toPrReviewComment(thread, filesByPath.get(thread.filePath), body);
+    if (typeof comment === 'string') {
+      plan.unmapped.push({
+        threadId: thread.id,
+        filePath: thread.filePath,
+        position: thread.position,
+        reason: comment,
+      });
+      continue;
+    }
+
+    plan.comments.push({ messageIds: newMessages.map((message) => message.id), comment });
+  }
+
+  return plan;
+}
+
 export function parseGitHubPrUrl(url: string): PullRequestInfo | null {
   try {
     const urlObj = new URL(url);
@@ -326,6 +538,14 @@ export function parseGitHubPrUrl(url: string): PullRequestInfo | null {
   }
 }
 
+function getPullRequestInfo(prArg: string): PullRequestInfo {
+  const pullRequestInfo = parseGitHubPrUrl(prArg);
+  if (!pullRequestInfo) {
+    throw new Error('Invalid GitHub PR URL');
+  }
+  return pullRequestInfo;
+}
+
 export function getPrPatch(prArg: string): string {
   try {
     const patch = execFileSync('gh', ['pr', 'diff', prArg], {
@@ -374,12 +594,7 @@ export function parsePrCommentImportsResponse(
 }
 
 export function getPrCommentImports(prArg: string): Promise<CommentImport[]> {
-  const pullRequestInfo = parseGitHubPrUrl(prArg);
-  if (!pullRequestInfo) {
-    throw new Error('Invalid GitHub PR URL');
-  }
-
-  const { owner, repo, pullNumber, hostname } = pullRequestInfo;
+  const { owner, repo, pullNumber, hostname } = getPullRequestInfo(prArg);
   const commentImports: CommentImport[] = [];
   let endCursor: string | null = null;
 
@@ -434,3 +649,188 @@ export function getPrCommentImports(prArg: string): Promise<CommentImport[]> {
     }
   }
 }
+
+// POSTs `payload` to the endpoint, or GETs it when there is no payload
+function runGhApi(hostname: string, endpoint: string, payload?: unknown): unknown {
+  try {
+    const stdout =
+      payload === undefined
+        ? execFileSync('gh', ['api', '--hostname', hostname, endpoint], {
+            encoding: 'utf8',
+            stdio: ['ignore', 'pipe', 'pipe'],
+          })
+        : execFileSync(
+            'gh',
+            ['api', '--hostname', hostname, '--method', 'POST', endpoint, '--input', '-'],
+            {
+              encoding: 'utf8',
+              input: JSON.stringify(payload),
+              stdio: ['pipe', 'pipe', 'pipe'],
+            },
+          );
+    return JSON.parse(stdout) as unknown;
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`Invalid JSON returned from gh api ${endpoint}`);
+    }
+
+    throw formatGhCommandError(error);
+  }
+}
+
+export function parsePrReviewCommentIdsResponse(response: GitHubReviewCommentIdsResponse): {
+  commentIds: Map<string, number>;
+  endCursor: string | null;
+} {
+  const errors = response.errors?.map((error) => error.message).filter((message) => message) ?? [];
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  const reviewThreads = response.data?.repository?.pullRequest?.reviewThreads;
+  const commentIds = new Map<string, number>();
+  for (const thread of reviewThreads?.nodes ?? []) {
+    for (const comment of thread.comments?.nodes ?? []) {
+      if (typeof comment.id === 'string' && isPositiveInteger(comment.databaseId)) {
+        commentIds.set(comment.id, comment.databaseId);
+      }
+    }
+  }
+
+  const hasNextPage = reviewThreads?.pageInfo?.hasNextPage === true;
+  if (hasNextPage && !reviewThreads?.pageInfo?.endCursor) {
+    throw new Error('GitHub GraphQL response indicated more pages without endCursor.');
+  }
+
+  return {
+    commentIds,
+    endCursor: hasNextPage ? (reviewThreads?.pageInfo?.endCursor ?? null) : null,
+  };
+}
+
+// Includes resolved and outdated threads, so replies can go to any thread imported from the PR
+export function getPrReviewCommentIds(prArg: string): Map<string, number> {
+  const { owner, repo, pullNumber, hostname } = getPullRequestInfo(prArg);
+  const commentIds = new Map<string, number>();
+  let endCursor: string | null = null;
+
+  do {
+    const response = runGhApi(hostname, 'graphql', {
+      query: PR_REVIEW_COMMENT_IDS_GRAPHQL_QUERY,
+      variables: { owner, repo, number: pullNumber, endCursor },
+    }) as GitHubReviewCommentIdsResponse;
+    const page = parsePrReviewCommentIdsResponse(response);
+    for (const [nodeId, databaseId] of page.commentIds) {
+      commentIds.set(nodeId, databaseId);
+    }
+    endCursor = page.endCursor;
+  } while (endCursor);
+
+  return commentIds;
+}
+
+export function publishPrReview(
+  prArg: string,
+  plan: PrReviewPublishPlan,
+  options: { event: PrReviewEvent; body?: string },
+): PrReviewPublishResult {
+  const { owner, repo, pullNumber, hostname } = getPullRequestInfo(prArg);
+  const pullEndpoint = `repos/${owner}/${repo}/pulls/${pullNumber}`;
+
+  const published: Record<string, number> = {};
+
+  // Replies go out first: GitHub rejects new review comments from a user who
+  // already has a pending review on the pull request.
+  for (const reply of plan.replies) {
+    const created = runGhApi(hostname, `${pullEndpoint}/comments/${reply.commentId}/replies`, {
+      body: reply.body,
+    }) as { id?: number };
+    if (isPositiveInteger(created.id)) {
+      published[reply.messageId] = created.id;
+    }
+  }
+
+  const event = PR_REVIEW_EVENTS.get(options.event);
+  if (plan.comments.length === 0 && !options.body && !event) {
+    return {
+      reviewId: null,
+      state: null,
+      comments: 0,
+      replies: plan.replies.length,
+      unmapped: plan.unmapped,
+      published,
+    };
+  }
+
+  const review = runGhApi(hostname, `${pullEndpoint}/reviews`, {
+    ...(options.body ? { body: options.body } : {}),
+    ...(event ? { event } : {}),
+    comments: plan.comments.map(({ comment }) => comment),
+  }) as { id?: number; state?: string };
+
+  if (isPositiveInteger(review.id) && plan.comments.length > 0) {
+    Object.assign(
+      published,
+      matchPublishedReviewComments(
+        plan.comments,
+        listReviewComments(hostname, `${pullEndpoint}/reviews/${review.id}/comments`),
+      ),
+    );
+  }
+
+  return {
+    reviewId: review.id ?? null,
+    state: review.state ?? null,
+    comments: plan.comments.length,
+    replies: plan.replies.length,
+    unmapped: plan.unmapped,
+    published,
+  };
+}
+
+interface CreatedReviewComment {
+  id: number;
+  path: string;
+  body: string;
+}
+
+const REVIEW_COMMENTS_PER_PAGE = 100;
+
+function listReviewComments(hostname: string, endpoint: string): CreatedReviewComment[] {
+  const comments: CreatedReviewComment[] = [];
+  for (let page = 1; ; page += 1) {
+    const response = runGhApi(
+      hostname,
+      `${endpoint}?per_page=${REVIEW_COMMENTS_PER_PAGE}&page=${page}`,
+    );
+    const pageComments = Array.isArray(response) ? (response as CreatedReviewComment[]) : [];
+    comments.push(...pageComments);
+    if (pageComments.length < REVIEW_COMMENTS_PER_PAGE) {
+      return comments;
+    }
+  }
+}
+
+// The review response has no comment IDs, so each planned comment is matched to the created
+// comment with its path and body
+export function matchPublishedReviewComments(
+  planned: PlannedPrReviewComment[],
+  created: CreatedReviewComment[],
+): Record<string, number> {
+  const published: Record<string, number> = {};
+  const unclaimed = [...created];
+  for (const { messageIds, comment } of planned) {
+    const index = unclaimed.findIndex(
+      (candidate) =>
+        isPositiveInteger(candidate.id) &&
+        candidate.path === comment.path &&
+        candidate.body === comment.body,
+    );
+    if (index === -1) continue;
+    const [match] = unclaimed.splice(index, 1);
+    for (const messageId of messageIds) {
+      published[messageId] = match.id;
+    }
+  }
+  return published;
+}
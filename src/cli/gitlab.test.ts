@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { getMrPatch, parseGitLabMrUrl, parseMrCommentImportsResponse } from './gitlab';
+
+function createNote(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 101,
+    type: 'DiffNote',
+    body: 'Imported note',
+    system: false,
+    resolvable: true,
+    resolved: false,
+    created_at: '2026-03-25T09:00:00Z',
+    updated_at: '2026-03-25T09:05:00Z',
+    author: { username: 'tanuki' },
+    position: {
+      position_type: 'text',
+      old_path: 'src/example.ts',
+      new_path: 'src/example.ts',
+      old_line: null,
+      new_line: 12,
+    },
+    ...overrides,
+  };
+}
+
+function createDiscussion(id: string, notes: Record<string, unknown>[]) {
+  return { id, notes };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('CLI GitLab utils', () => {
+  describe('parseMrCommentImportsResponse', () => {
+    it('imports unresolved diff discussions, sorts notes, and skips the rest', () => {
+      const result = parseMrCommentImportsResponse([
+        createDiscussion('open', [
+          createNote({
+            id: 202,
+            body: 'Reply',
+            created_at: '2026-03-25T09:10:00Z',
+            updated_at: '2026-03-25T09:12:00Z',
+            author: { username: 'reviewer-2' },
+          }),
+          createNote({ id: 201, body: 'Root', author: { username: 'reviewer-1' } }),
+          createNote({ id: 203, body: 'changed the description', system: true }),
+        ]),
+        createDiscussion('resolved', [createNote({ id: 301, resolved: true })]),
+        createDiscussion('general', [
+          createNote({ id: 401, type: null, resolvable: false, position: null }),
+        ]),
+        createDiscussion('image', [
+          createNote({ id: 501, position: { position_type: 'image', new_path: 'logo.png' } }),
+        ]),
+      ]);
+
+      expect(result).toEqual([
+        {
+          type: 'thread',
+          id: '201',
+          filePath: 'src/example.ts',
+          position: { side: 'new', line: 12 },
+          body: 'Root',
+          author: 'reviewer-1',
+          createdAt: '2026-03-25T09:00:00Z',
+          updatedAt: '2026-03-25T09:05:00Z',
+        },
+        {
+          type: 'reply',
+          id: '202',
+          filePath: 'src/example.ts',
+          position: { side: 'new', line: 12 },
+          body: 'Reply',
+          author: 'reviewer-2',
+          createdAt: '2026-03-25T09:10:00Z',
+          updatedAt: '2026-03-25T09:12:00Z',
+        },
+      ]);
+    });
+
+    it('maps removed lines and multi-line ranges to diff positions', () => {
+      const result = parseMrCommentImportsResponse([
+        createDiscussion('old-side', [
+          createNote({
+            id: 1,
+            position: {
+              position_type: 'text',
+              old_path: 'src/old.ts',
+              new_path: 'src/new.ts',
+              old_line: 7,
+              new_line: null,
+            },
+          }),
+        ]),
+        createDiscussion('range', [
+          createNote({
+            id: 2,
+            position: {
+              position_type: 'text',
+              old_path: 'src/example.ts',
+              new_path: 'src/example.ts',
+              old_line: null,
+              new_line: 20,
+              line_range: {
+                start: { type: 'new', old_line: null, new_line: 15 },
+                end: { type: 'new', old_line: null, new_line: 20 },
+              },
+            },
+          }),
+        ]),
+      ]);
+
+      expect(result.map(({ filePath, position }) => ({ filePath, position }))).toEqual([
+        { filePath: 'src/new.ts', position: { side: 'old', line: 7 } },
+        { filePath: 'src/example.ts', position: { side: 'new', line: { start: 15, end: 20 } } },
+      ]);
+    });
+
+    it('warns and skips discussions with invalid line mapping', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = parseMrCommentImportsResponse([
+        createDiscussion('no-line', [
+          createNote({
+            position: { position_type: 'text', new_path: 'src/example.ts', new_line: null },
+          }),
+        ]),
+        createDiscussion('bad-range', [
+          createNote({
+            position: {
+              position_type: 'text',
+              new_path: 'src/example.ts',
+              new_line: 5,
+              line_range: {
+                start: { type: 'new', new_line: 9 },
+                end: { type: 'new', new_line: 5 },
+              },
+            },
+          }),
+        ]),
+      ]);
+
+      expect(result).toEqual([]);
+      expect(warnSpy).toHaveBeenCalledWith(
+        'Warning: Skipping MR discussion no-line: Note is missing old_line and new_line.',
+      );
+      expect(warnSpy).toHaveBeenCalledWith(
+        'Warning: Skipping MR discussion bad-range: Note has an invalid multi-line range.',
+      );
+    });
+
+    it('rejects responses that are not a discussion list', () => {
+      expect(() => parseMrCommentImportsResponse({ message: '404 Not Found' })).toThrow(
+        'GitLab discussions response is not an array',
+      );
+    });
+  });
+
+  describe('getMrPatch', () => {
+    it('rejects URLs that are not merge requests', () => {
+      expect(() => getMrPatch('https://gitlab.com/group/project/-/issues/7')).toThrow(
+        'Invalid GitLab MR URL',
+      );
+    });
+  });
+
+  describe('parseGitLabMrUrl', () => {
+    it('parses project paths with nested groups', () => {
+      expect(
+        parseGitLabMrUrl('https://gitlab.example.com/group/sub/project/-/merge_requests/42/diffs'),
+      ).toEqual({
+        projectPath: 'group/sub/project',
+        mergeRequestIid: 42,
+        hostname: 'gitlab.example.com',
+      });
+    });
+
+    it('keeps the port of self-hosted instances', () => {
+      expect(
+        parseGitLabMrUrl('https://gitlab.internal:8443/team/app/-/merge_requests/3?tab=notes'),
+      ).toEqual({
+        projectPath: 'team/app',
+        mergeRequestIid: 3,
+        hostname: 'gitlab.internal:8443',
+      });
+    });
+
+    it('returns null for invalid URLs', () => {
+      expect(parseGitLabMrUrl('https://gitlab.com/group/project')).toBeNull();
+      expect(parseGitLabMrUrl('https://gitlab.com/group/project/-/merge_requests/abc')).toBeNull();
+      expect(parseGitLabMrUrl('https://gitlab.com/-/merge_requests/1')).toBeNull();
+      expect(parseGitLabMrUrl('not-a-url')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { execFileSync } from 'child_process';
+
+import type { CommentImport, DiffCommentPosition, DiffLineRange } from '../types/diff.js';
+
+interface MergeRequestInfo {
+  projectPath: string;
+  mergeRequestIid: number;
+  hostname: string;
+}
+
+interface GitLabNoteAuthor {
+  username?: string | null;
+}
+
+interface GitLabLineRangeEdge {
+  type?: string | null;
+  old_line?: number | null;
+  new_line?: number | null;
+}
+
+interface GitLabNotePosition {
+  position_type?: string | null;
+  old_path?: string | null;
+  new_path?: string | null;
+  old_line?: number | null;
+  new_line?: number | null;
+  line_range?: {
+    start?: GitLabLineRangeEdge | null;
+    end?: GitLabLineRangeEdge | null;
+  } | null;
+}
+
+interface GitLabDiscussionNote {
+  id?: number | string | null;
+  type?: string | null;
+  body?: string | null;
+  system?: boolean | null;
+  resolvable?: boolean | null;
+  resolved?: boolean | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  author?: GitLabNoteAuthor | null;
+  position?: GitLabNotePosition | null;
+}
+
+interface GitLabDiscussion {
+  id?: string | null;
+  notes?: GitLabDiscussionNote[] | null;
+}
+
+// GitLab caps per_page at 100 for the discussions endpoint
+const DISCUSSIONS_PAGE_SIZE = 100;
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function formatGlabCommandError(error: unknown): Error {
+  const stderr = (error as { stderr?: Buffer | string }).stderr;
+  const stderrText =
+    typeof stderr === 'string'
+      ? stderr.trim()
+      : Buffer.isBuffer(stderr)
+        ? stderr.toString('utf8').trim()
+        : '';
+  const message =
+    stderrText || (error instanceof Error ? error.message : 'Unknown error while running glab');
+  return new Error(`${message}\nTry: glab auth login`);
+}
+
+function warnMrCommentImport(discussionId: string | undefined, message: string): void {
+  const discussionLabel = discussionId ? ` ${discussionId}` : '';
+  console.warn(`Warning: Skipping MR discussion${discussionLabel}: ${message}`);
+}
+
+function getEdgeLine(edge: GitLabLineRangeEdge, side: 'old' | 'new'): number | null | undefined {
+  return side === 'old' ? edge.old_line : edge.new_line;
+}
+
+// GitLab anchors a note on the new line when the line exists there, and on the old line
+// for removed lines; multi-line notes add a line_range whose end matches that anchor.
+function getNotePosition(
+  discussionId: string | undefined,
+  position: GitLabNotePosition,
+): DiffCommentPosition | null {
+  const side = isPositiveInteger(position.new_line) ? 'new' : 'old';
+  const line = side === 'new' ? position.new_line : position.old_line;
+  if (!isPositiveInteger(line)) {
+    warnMrCommentImport(discussionId, 'Note is missing old_line and new_line.');
+    return null;
+  }
+
+  const start = position.line_range?.start;
+  if (!start) {
+    return { side, line };
+  }
+
+  const startLine = getEdgeLine(start, side);
+  if (!isPositiveInteger(startLine) || startLine > line) {
+    warnMrCommentImport(discussionId, 'Note has an invalid multi-line range.');
+    return null;
+  }
+
+  if (startLine === line) {
+    return { side, line };
+  }
+
+  const range: DiffLineRange = { start: startLine, end: line };
+  return { side, line: range };
+}
+
+function hasRequiredNoteFields(note: GitLabDiscussionNote): note is GitLabDiscussionNote & {
+  id: number | string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+} {
+  return (
+    (typeof note.id === 'number' || typeof note.id === 'string') &&
+    typeof note.body === 'string' &&
+    typeof note.created_at === 'string' &&
+    typeof note.updated_at === 'string'
+  );
+}
+
+function toCommentImportsForDiscussion(discussion: GitLabDiscussion): CommentImport[] {
+  const discussionId = discussion.id ?? undefined;
+  const notes = [...(discussion.notes ?? [])]
+    .filter((note) => !note.system)
+    .sort((left, right) => (left.created_at ?? '').localeCompare(right.created_at ?? ''));
+
+  const rootNote = notes[0];
+  if (!rootNote || rootNote.type !== 'DiffNote' || !rootNote.resolvable || rootNote.resolved) {
+    return [];
+  }
+
+  const position = rootNote.position;
+  if (!position || position.position_type !== 'text') {
+    return [];
+  }
+
+  const filePath = position.new_path ?? position.old_path;
+  if (typeof filePath !== 'string' || filePath.trim().length === 0) {
+    warnMrCommentImport(discussionId, 'Discussion is missing path.');
+    return [];
+  }
+
+  const commentPosition = getNotePosition(discussionId, position);
+  if (!commentPosition) {
+    return [];
+  }
+
+  if (!hasRequiredNoteFields(rootNote)) {
+    warnMrCommentImport(discussionId, 'Discussion has a note with missing fields.');
+    return [];
+  }
+
+  const commentImports: CommentImport[] = [
+    {
+      type: 'thread',
+      id: String(rootNote.id),
+      filePath,
+      position: commentPosition,
+      body: rootNote.body,
+      author: rootNote.author?.username ?? undefined,
+      createdAt: rootNote.created_at,
+      updatedAt: rootNote.updated_at,
+    },
+  ];
+
+  for (const note of notes.slice(1)) {
+    if (!hasRequiredNoteFields(note)) {
+      warnMrCommentImport(discussionId, 'Discussion has a note with missing fields.');
+      continue;
+    }
+
+    commentImports.push({
+      type: 'reply',
+      id: String(note.id),
+      filePath,
+      position: commentPosition,
+      body: note.body,
+      author: note.author?.username ?? undefined,
+      createdAt: note.created_at,
+      updatedAt: note.updated_at,
+    });
+  }
+
+  return commentImports;
+}
+
+export function parseGitLabMrUrl(url: string): MergeRequestInfo | null {
+  try {
+    const urlObj = new URL(url);
+    const pathParts = urlObj.pathname.split('/').filter(Boolean);
+
+    // <group>/<subgroup...>/<project>/-/merge_requests/<iid>
+    const separatorIndex = pathParts.indexOf('-');
+    if (separatorIndex < 2 || pathParts[separatorIndex + 1] !== 'merge_requests') {
+      return null;
+    }
+
+    const mergeRequestIid = parseInt(pathParts[separatorIndex + 2] ?? '', 10);
+    if (isNaN(mergeRequestIid)) {
+      return null;
+    }
+
+    return {
+      projectPath: pathParts.slice(0, separatorIndex).join('/'),
+      mergeRequestIid,
+      hostname: urlObj.host,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function getMergeRequestInfo(mrArg: string): MergeRequestInfo {
+  const mergeRequestInfo = parseGitLabMrUrl(mrArg);
+  if (!mergeRequestInfo) {
+    throw new Error('Invalid GitLab MR URL');
+  }
+  return mergeRequestInfo;
+}
+
+export function getMrPatch(mrArg: string): string {
+  const { projectPath, mergeRequestIid, hostname } = getMergeRequestInfo(mrArg);
+
+  try {
+    const patch = execFileSync(
+      'glab',
+      ['mr', 'diff', String(mergeRequestIid), '--raw', '--repo', `${hostname}/${projectPath}`],
+      {
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+      },
+    );
+
+    if (!patch.trim()) {
+      throw new Error('No diff content returned from glab mr diff');
+    }
+
+    return patch;
+  } catch (error) {
+    throw formatGlabCommandError(error);
+  }
+}
+
+export function parseMrCommentImportsResponse(discussions: unknown): CommentImport[] {
+  if (!Array.isArray(discussions)) {
+    throw new Error('GitLab discussions response is not an array');
+  }
+
+  return (discussions as GitLabDiscussion[]).flatMap((discussion) =>
+    toCommentImportsForDiscussion(discussion),
+  );
+}
+
+export function getMrCommentImports(mrArg: string): Promise<CommentImport[]> {
+  const { projectPath, mergeRequestIid, hostname } = getMergeRequestInfo(mrArg);
+  const endpoint = `projects/${encodeURIComponent(projectPath)}/merge_requests/${mergeRequestIid}/discussions`;
+  const commentImports: CommentImport[] = [];
+
+  for (let page = 1; ; page++) {
+    try {
+      const stdout = execFileSync(
+        'glab',
+        [
+          'api',
+          '--hostname',
+          hostname,
+          `${endpoint}?per_page=${DISCUSSIONS_PAGE_SIZE}&page=${page}`,
+        ],
+        {
+          encoding: 'utf8',
+          stdio: ['ignore', 'pipe', 'pipe'],
+        },
+      );
+      const discussions = JSON.parse(stdout) as unknown;
+      commentImports.push(...parseMrCommentImportsResponse(discussions));
+
+      if (!Array.isArray(discussions) || discussions.length < DISCUSSIONS_PAGE_SIZE) {
+        return Promise.resolve(commentImports);
+      }
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error('Invalid JSON returned from glab api');
+      }
+
+      if (error instanceof Error && !('stderr' in (error as object))) {
+        throw error;
+      }
+
+      throw formatGlabCommandError(error);
+    }
+  }
+}
@@ -28,6 +28,8 @@ const {
   findUntrackedFiles,
   markFilesIntentToAdd,
   parseCommentOptions,
+  parseCommitRange,
+  parseInterdiffArguments,
   shouldReadStdin,
 } = await import('./utils.js');
 const { getPrPatch, getPrCommentImports } = await import('./github.js');
@@ -496,6 +498,134 @@ describe('CLI index.ts', () => {
     });
   });
 
+  describe('--commits option', () => {
+    const createCommitsProgram = () => {
+      const program = new Command();
+
+      program
+        .argument('[commit-ish]', 'commit-ish', 'HEAD')
+        .argument('[compare-with]', 'compare-with')
+        .option('--commits <range>', 'commits')
+        .action(async (commitish: string, compareWith: string | undefined, options: any) => {
+          if (commitish !== 'HEAD' || compareWith) {
+            console.error('Error: --commits option cannot be used with positional arguments');
+            process.exit(1);
+            return;
+          }
+
+          const parsedRange = parseCommitRange(options.commits);
+          if (!parsedRange.valid) {
+            console.error(`Error: ${parsedRange.error}`);
+            process.exit(1);
+            return;
+          }
+
+          const commitRange = parsedRange.range;
+          await startServer({
+            selection: {
+              baseCommitish: commitRange.baseCommitish,
+              targetCommitish: commitRange.targetCommitish,
+              baseMode: 'merge-base',
+            },
+            commitRange,
+            diffMode: DiffMode.SPECIFIC,
+          });
+        });
+
+      return program;
+    };
+
+    it('starts with the combined merge-base view and the commit range', async () => {
+      await createCommitsProgram().parseAsync(['--commits', 'main..feature'], { from: 'user' });
+
+      expect(mockStartServer).toHaveBeenCalledWith({
+        selection: {
+          baseCommitish: 'main',
+          targetCommitish: 'feature',
+          baseMode: 'merge-base',
+        },
+        commitRange: { baseCommitish: 'main', targetCommitish: 'feature' },
+        diffMode: DiffMode.SPECIFIC,
+      });
+    });
+
+    it('rejects --commits with positional arguments', async () => {
+      await createCommitsProgram().parseAsync(['HEAD~3', '--commits', 'main..feature'], {
+        from: 'user',
+      });
+
+      expect(console.error).toHaveBeenCalledWith(
+        'Error: --commits option cannot be used with positional arguments',
+      );
+      expect(process.exit).toHaveBeenCalledWith(1);
+      expect(mockStartServer).not.toHaveBeenCalled();
+    });
+
+    it('rejects values that are not ranges', async () => {
+      await createCommitsProgram().parseAsync(['--commits', 'feature'], { from: 'user' });
+
+      expect(console.error).toHaveBeenCalledWith(
+        'Error: Invalid commit range "feature". Use the form <base>..<target> (e.g. main..feature)',
+      );
+      expect(process.exit).toHaveBeenCalledWith(1);
+      expect(mockStartServer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('--interdiff option', () => {
+    const createInterdiffProgram = () => {
+      const program = new Command();
+
+      program
+        .argument('[commit-ish]', 'commit-ish', 'HEAD')
+        .argument('[compare-with]', 'compare-with')
+        .option('--interdiff <tips...>', 'interdiff')
+        .option('--onto <base>', 'onto')
+        .action(async (_commitish: string, _compareWith: string | undefined, options: any) => {
+          const parsedInterdiff = parseInterdiffArguments(options.interdiff, options.onto);
+          if (!parsedInterdiff.valid) {
+            console.error(`Error: ${parsedInterdiff.error}`);
+            process.exit(1);
+            return;
+          }
+
+          const interdiff = parsedInterdiff.range;
+          await startServer({
+            selection: {
+              baseCommitish: interdiff.onto ?? interdiff.oldTip,
+              targetCommitish: interdiff.newTip,
+              baseMode: 'merge-base',
+            },
+            interdiff,
+          });
+        });
+
+      return program;
+    };
+
+    it('passes both tips and the --onto base to startServer', async () => {
+      await createInterdiffProgram().parseAsync(
+        ['--interdiff', 'abc1234', 'feature', '--onto', 'main'],
+        { from: 'user' },
+      );
+
+      expect(mockStartServer).toHaveBeenCalledWith({
+        selection: { baseCommitish: 'main', targetCommitish: 'feature', baseMode: 'merge-base' },
+        interdiff: { oldTip: 'abc1234', newTip: 'feature', onto: 'main' },
+      });
+    });
+
+    it('rejects a single tip', async () => {
+      await createInterdiffProgram().parseAsync(['--interdiff', 'feature'], { from: 'user' });
+
+      expect(console.error).toHaveBeenCalledWith(
+        'Error: --interdiff requires exactly two revisions: <old-tip> <new-tip>',
+      );
+      expect(process.exit).toHaveBeenCalledWith(1);
+      expect(mockStartServer).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Version option', () => {
     it('supports --version flag', async () => {
       const program = new Command();
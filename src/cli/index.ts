@@ -1,26 +1,48 @@
 #!/usr/bin/env node
 
+import { resolve } from 'path';
+
 import { Command } from 'commander';
 import { simpleGit, type SimpleGit } from 'simple-git';
 
 import pkg from '../../package.json' with { type: 'json' };
+import { getDefaultCommentStoreDir } from '../server/comment-store.js';
 import { startServer } from '../server/server.js';
-import { type CommentImport, type DiffSelection } from '../types/diff.js';
-import { createDiffSelection } from '../utils/diffSelection.js';
+import {
+  type CommentImport,
+  type CommitRange,
+  type DiffSelection,
+  type InterdiffRange,
+  type NoIndexPaths,
+} from '../types/diff.js';
+import {
+  createDiffSelection,
+  createMergeSelection,
+  parseStashTarget,
+  withPathspecs,
+} from '../utils/diffSelection.js';
 import { DiffMode } from '../types/watch.js';
 
 import {
   shouldReadStdin,
   findUntrackedFiles,
+  isMergeCommit,
   markFilesIntentToAdd,
   promptUser,
   parseCommentOptions,
+  parseCommitRange,
+  parseInterdiffArguments,
+  parseNoIndexPaths,
   validateDiffArguments,
   getGitRoot,
   readStdin,
+  splitPathspecArguments,
 } from './utils.js';
 import { createCommentCommand } from './comment.js';
+import { createDaemonCommands, registerDaemonSession } from './daemon.js';
 import { getPrPatch, getPrCommentImports } from './github.js';
+import { getMrPatch, getMrCommentImports } from './gitlab.js';
+import { createNotesCommand } from './notes.js';
 import {
   BACKGROUND_CHILD_ENV,
   emitBackgroundHandshake,
@@ -38,6 +60,7 @@ function resolveDiffSelection(
   commitish: string,
   compareWith?: string,
   mergeBase?: boolean,
+  pathspecs?: string[],
 ): DiffSelection {
   let baseCommitish: string;
 
@@ -51,7 +74,12 @@ function resolveDiffSelection(
     baseCommitish = commitish + '^';
   }
 
-  return createDiffSelection(baseCommitish, commitish, mergeBase ? 'merge-base' : undefined);
+  return createDiffSelection(
+    baseCommitish,
+    commitish,
+    mergeBase ? 'merge-base' : undefined,
+    pathspecs,
+  );
 }
 
 function determineDiffMode(selection: DiffSelection, compareWith?: string): DiffMode {
@@ -74,6 +102,11 @@ function determineDiffMode(selection: DiffSelection, compareWith?: string): Diff
   if (targetCommitish === '.') {
     return DiffMode.DOT;
   }
+
+  // Stash entries never move with HEAD, so there is nothing to watch
+  if (parseStashTarget(targetCommitish)) {
+    return DiffMode.SPECIFIC;
+  }
   // Default mode: HEAD^ vs HEAD or HEAD vs other commits (watch for HEAD changes)
   return DiffMode.DEFAULT;
 }
@@ -84,14 +117,34 @@ interface CliOptions {
   open: boolean;
   comment: string[];
   pr?: string;
+  mr?: string;
   clean?: boolean;
   includeUntracked?: boolean;
   keepAlive?: boolean;
   background?: boolean;
   context?: number;
   mergeBase?: boolean;
+  combined?: boolean;
+  commits?: string;
+  interdiff?: string[];
+  onto?: string;
+  // Commander turns `--no-index` into `index: false`
+  index: boolean;
+  sessionDir?: string;
+  notes?: boolean;
+  daemon?: boolean;
 }
 
+const SUBCOMMANDS = new Set(['comment', 'notes', 'daemon', 'ls', 'stop', 'attach']);
+
+// Commander has no notion of git pathspecs, so peel them off before parsing.
+// Subcommands keep their arguments untouched.
+const rawArgs = process.argv.slice(2);
+const { args: cliArgs, pathspecs } =
+  rawArgs[0] && SUBCOMMANDS.has(rawArgs[0])
+    ? { args: rawArgs, pathspecs: [] }
+    : splitPathspecArguments(rawArgs);
+
 const program = new Command();
 
 program
@@ -100,6 +153,7 @@ program
   .version(pkg.version, '-v, --version', 'output the version number')
   .enablePositionalOptions()
   .addCommand(createCommentCommand())
+  .addCommand(createNotesCommand())
   .argument(
     '[commit-ish]',
     'Git commit, tag, branch, HEAD~n reference, or "working"/"staged"/"."',
@@ -109,6 +163,7 @@ program
     '[compare-with]',
     'Optional: Compare with this commit/branch (shows diff between commit-ish and compare-with)',
   )
+  .usage('[options] [commit-ish] [compare-with] [-- <pathspec>...]')
   .option('--port <port>', 'preferred port (auto-assigned if occupied)', parseInt)
   .option('--host <host>', 'host address to bind', '')
   .option('--no-open', 'do not automatically open browser')
@@ -119,6 +174,10 @@ program
     [],
   )
   .option('--pr <url>', 'GitHub PR URL to review (e.g., https://github.com/owner/repo/pull/123)')
+  .option(
+    '--mr <url>',
+    'GitLab MR URL to review (e.g., https://gitlab.com/group/project/-/merge_requests/123)',
+  )
   .option('--clean', 'start with a clean slate by clearing all existing comments')
   .option('--include-untracked', 'automatically include untracked files in diff')
   .option('--keep-alive', 'keep server running even after browser disconnects')
@@ -128,12 +187,29 @@ program
     '--merge-base',
     'resolve the base revision with git merge-base before diffing (Git revision mode only)',
   )
+  .option('--combined', 'show a merge commit as a combined diff against all of its parents')
+  .option(
+    '--commits <range>',
+    'step through the commits of a range one at a time (e.g., main..feature)',
+  )
+  .option(
+    '--interdiff <tips...>',
+    'compare two versions of a rebased branch with git range-diff (<old-tip> <new-tip>)',
+  )
+  .option('--onto <base>', 'base the --interdiff branch versions were built on (e.g., main)')
+  .option('--no-index', 'compare two files or directories on disk with git diff --no-index')
+  .option(
+    '--session-dir <dir>',
+    'directory to save comment sessions in across restarts (default: .git/difit)',
+  )
+  .option('--notes', 'read and write review threads in git notes on the target commit')
+  .option('--daemon', 'host the review in the shared difit daemon and output JSON session info')
   .action(async (commitish: string, compareWith: string | undefined, options: CliOptions) => {
     try {
       const isBackgroundChild = process.env[BACKGROUND_CHILD_ENV] === '1';
       const backgroundMode = options.background || isBackgroundChild;
       let stdinDiff: string | undefined;
-      let stdinReviewLabel = 'diff from stdin';
+      let reviewLabel = 'diff from stdin';
       let manualCommentImports: CommentImport[] = [];
       let commentImports: CommentImport[] = [];
 
@@ -145,6 +221,18 @@ program
         process.exit(1);
       }
 
+      if (options.daemon && options.background) {
+        console.error('Error: --daemon option cannot be used with --background');
+        process.exit(1);
+      }
+
+      if (options.daemon && options.sessionDir) {
+        console.error(
+          'Error: --daemon option cannot be used with --session-dir (the daemon keeps comments in .git/difit)',
+        );
+        process.exit(1);
+      }
+
       if (options.background && !isBackgroundChild) {
         await startBackgroundProcess();
         return;
@@ -165,25 +253,138 @@ program
         options.open = false;
       }
 
-      if (options.pr) {
+      if (options.pr && options.mr) {
+        console.error('Error: --pr and --mr options cannot be used together');
+        process.exit(1);
+      }
+      // --pr and --mr both review a patch fetched from the hosting service
+      const remoteReviewOption = options.pr ? '--pr' : options.mr ? '--mr' : undefined;
+
+      if (
+        options.combined &&
+        (remoteReviewOption || options.commits || options.interdiff || !options.index)
+      ) {
+        console.error(
+          'Error: --combined option cannot be used with --pr, --mr, --commits, --interdiff or --no-index',
+        );
+        process.exit(1);
+      }
+
+      let commitRange: CommitRange | undefined;
+      if (options.commits !== undefined) {
+        if (remoteReviewOption) {
+          console.error(`Error: --commits option cannot be used with ${remoteReviewOption}`);
+          process.exit(1);
+        }
+
+        if (commitish !== 'HEAD' || compareWith) {
+          console.error('Error: --commits option cannot be used with positional arguments');
+          process.exit(1);
+        }
+
+        if (options.mergeBase) {
+          console.error(
+            'Error: --merge-base option cannot be used with --commits (the combined view always uses the merge-base)',
+          );
+          process.exit(1);
+        }
+
+        const parsedRange = parseCommitRange(options.commits);
+        if (!parsedRange.valid) {
+          console.error(`Error: ${parsedRange.error}`);
+          process.exit(1);
+        }
+        commitRange = parsedRange.range;
+      }
+
+      let interdiffRange: InterdiffRange | undefined;
+      if (options.onto !== undefined && options.interdiff === undefined) {
+        console.error('Error: --onto option requires --interdiff');
+        process.exit(1);
+      }
+
+      if (options.interdiff !== undefined) {
+        if (remoteReviewOption || options.commits !== undefined) {
+          console.error('Error: --interdiff option cannot be used with --pr, --mr or --commits');
+          process.exit(1);
+        }
+
+        if (commitish !== 'HEAD' || compareWith) {
+          console.error('Error: --interdiff option cannot be used with positional arguments');
+          process.exit(1);
+        }
+
+        if (options.mergeBase) {
+          console.error('Error: --merge-base option cannot be used with --interdiff');
+          process.exit(1);
+        }
+
+        const parsedInterdiff = parseInterdiffArguments(options.interdiff, options.onto);
+        if (!parsedInterdiff.valid) {
+          console.error(`Error: ${parsedInterdiff.error}`);
+          process.exit(1);
+        }
+        interdiffRange = parsedInterdiff.range;
+      }
+
+      let noIndexPaths: NoIndexPaths | undefined;
+      if (!options.index) {
+        if (remoteReviewOption || commitRange || interdiffRange) {
+          console.error(
+            'Error: --no-index option cannot be used with --pr, --mr, --commits or --interdiff',
+          );
+          process.exit(1);
+        }
+
+        if (options.mergeBase) {
+          console.error('Error: --merge-base option cannot be used with --no-index');
+          process.exit(1);
+        }
+
+        if (pathspecs.length > 0) {
+          console.error('Error: pathspecs after -- cannot be used with --no-index');
+          process.exit(1);
+        }
+
+        const parsedNoIndex = parseNoIndexPaths(program.args);
+        if (!parsedNoIndex.valid) {
+          console.error(`Error: ${parsedNoIndex.error}`);
+          process.exit(1);
+        }
+        noIndexPaths = parsedNoIndex.paths;
+        reviewLabel = `${noIndexPaths.oldPath} -> ${noIndexPaths.newPath} (--no-index)`;
+      }
+
+      if (pathspecs.length > 0 && (remoteReviewOption || commitRange || interdiffRange)) {
+        console.error(
+          'Error: pathspecs after -- cannot be used with --pr, --mr, --commits or --interdiff',
+        );
+        process.exit(1);
+      }
+
+      if (remoteReviewOption) {
         if (commitish !== 'HEAD' || compareWith) {
-          console.error('Error: --pr option cannot be used with positional arguments');
+          console.error(
+            `Error: ${remoteReviewOption} option cannot be used with positional arguments`,
+          );
           process.exit(1);
         }
 
         if (options.mergeBase) {
-          console.error('Error: --merge-base option cannot be used with --pr');
+          console.error(`Error: --merge-base option cannot be used with ${remoteReviewOption}`);
           process.exit(1);
         }
 
         if (options.context !== undefined) {
-          console.error('Error: --context option cannot be used with --pr');
+          console.error(`Error: --context option cannot be used with ${remoteReviewOption}`);
           process.exit(1);
         }
+      }
 
+      if (options.pr) {
         try {
           stdinDiff = getPrPatch(options.pr);
-          stdinReviewLabel = options.pr;
+          reviewLabel = options.pr;
         } catch (error) {
           console.error(
             `Error resolving PR: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -199,11 +400,30 @@ program
             `Warning: Failed to load PR review comments: ${error instanceof Error ? error.message : 'Unknown error'}`,
           );
         }
-      } else {
+      } else if (options.mr) {
+        try {
+          stdinDiff = getMrPatch(options.mr);
+          reviewLabel = options.mr;
+        } catch (error) {
+          console.error(
+            `Error resolving MR: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          );
+          process.exit(1);
+        }
+
+        try {
+          const mrCommentImports = await getMrCommentImports(options.mr);
+          commentImports = [...mrCommentImports, ...manualCommentImports];
+        } catch (error) {
+          console.warn(
+            `Warning: Failed to load MR discussions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          );
+        }
+      } else if (!commitRange && !interdiffRange && !noIndexPaths) {
         // Check if we should read from stdin
         const readFromStdin = shouldReadStdin({
           commitish,
-          hasPositionalArgs: program.args.length > 0,
+          hasPositionalArgs: program.args.length > 0 || pathspecs.length > 0,
           hasPrOption: false,
         });
 
@@ -216,6 +436,10 @@ program
             console.error('Error: --merge-base option cannot be used with stdin diff');
             process.exit(1);
           }
+          if (options.combined) {
+            console.error('Error: --combined option cannot be used with stdin diff');
+            process.exit(1);
+          }
           // Read unified diff from stdin
           stdinDiff = await readStdin();
           if (!stdinDiff.trim()) {
@@ -225,10 +449,20 @@ program
         }
       }
 
-      if (stdinDiff) {
-        // Start server with stdin diff (including --pr patch)
+      if (options.daemon && (stdinDiff || noIndexPaths)) {
+        console.error(
+          'Error: --daemon only hosts reviews of a Git repository, not --pr, --mr, --no-index or stdin diffs',
+        );
+        process.exit(1);
+      }
+
+      if (stdinDiff || noIndexPaths) {
+        // Start server with stdin diff (including --pr/--mr patch) or the two --no-index paths;
+        // neither lives in the repository, so there is nothing to watch
         const { url, port } = await startServer({
-          stdinDiff,
+          ...(noIndexPaths
+            ? { noIndex: noIndexPaths, contextLines: options.context }
+            : { stdinDiff }),
           preferredPort: options.port,
           host: options.host,
           openBrowser: options.open,
@@ -246,7 +480,7 @@ program
         }
 
         console.log(`\n🚀 difit server started on ${url}`);
-        console.log(`📋 Reviewing: ${stdinReviewLabel}`);
+        console.log(`📋 Reviewing: ${reviewLabel}`);
         if (options.keepAlive) {
           console.log('🔒 Keep-alive mode: server will stay running after browser disconnects');
         }
@@ -263,7 +497,39 @@ program
         repoPath = undefined;
       }
 
-      const selection = resolveDiffSelection(commitish, compareWith, options.mergeBase);
+      // In --commits mode the initial view combines every commit of the range,
+      // and in --interdiff mode it shows the whole new version of the branch
+      let selection: DiffSelection;
+      let baseArgument = compareWith;
+      if (commitRange) {
+        selection = createDiffSelection(
+          commitRange.baseCommitish,
+          commitRange.targetCommitish,
+          'merge-base',
+        );
+        baseArgument = commitRange.baseCommitish;
+      } else if (interdiffRange) {
+        baseArgument = interdiffRange.onto ?? interdiffRange.oldTip;
+        selection = createDiffSelection(baseArgument, interdiffRange.newTip, 'merge-base');
+      } else {
+        selection = resolveDiffSelection(commitish, compareWith, options.mergeBase, pathspecs);
+        if (options.combined) {
+          if (
+            compareWith ||
+            options.mergeBase ||
+            isSpecialArg(commitish) ||
+            parseStashTarget(commitish)
+          ) {
+            console.error('Error: --combined option takes a single merge commit');
+            process.exit(1);
+          }
+          if (!(await isMergeCommit(simpleGit(repoPath), commitish))) {
+            console.error(`Error: --combined requires a merge commit, but ${commitish} is not one`);
+            process.exit(1);
+          }
+          selection = withPathspecs(createMergeSelection(commitish, 'combined'), pathspecs);
+        }
+      }
 
       if (options.mergeBase && isSpecialArg(selection.baseCommitish)) {
         console.error(
@@ -281,23 +547,50 @@ program
         }
       }
 
-      const validation = validateDiffArguments(selection.targetCommitish, compareWith);
+      const validation = validateDiffArguments(selection.targetCommitish, baseArgument);
       if (!validation.valid) {
         console.error(`Error: ${validation.error}`);
         process.exit(1);
       }
 
-      const { url, port, isEmpty } = await startServer({
+      const reviewOptions = {
         selection,
-        preferredPort: options.port,
-        host: options.host,
-        openBrowser: options.open,
+        ...(commitRange ? { commitRange } : {}),
+        ...(interdiffRange ? { interdiff: interdiffRange } : {}),
         clearComments: options.clean,
-        keepAlive: options.keepAlive,
         contextLines: options.context,
-        diffMode: determineDiffMode(selection, compareWith),
+        diffMode: determineDiffMode(selection, baseArgument),
         repoPath,
+        commentNotes: options.notes,
         ...(commentImports.length > 0 ? { commentImports } : {}),
+      };
+
+      if (options.daemon) {
+        if (!repoPath) {
+          console.error('Error: --daemon must be run inside a Git repository');
+          process.exit(1);
+        }
+        const session = await registerDaemonSession(
+          { ...reviewOptions, repoPath },
+          { preferredPort: options.port, host: options.host },
+        );
+        console.log(JSON.stringify(session));
+        return;
+      }
+
+      const commentStoreDir = options.sessionDir
+        ? resolve(options.sessionDir)
+        : repoPath
+          ? await getDefaultCommentStoreDir(repoPath)
+          : undefined;
+
+      const { url, port, isEmpty } = await startServer({
+        ...reviewOptions,
+        commentStoreDir,
+        preferredPort: options.port,
+        host: options.host,
+        openBrowser: options.open,
+        keepAlive: options.keepAlive,
       });
 
       if (backgroundMode) {
@@ -309,7 +602,13 @@ program
       }
 
       console.log(`\n🚀 difit server started on ${url}`);
-      console.log(`📋 Reviewing: ${selection.targetCommitish}`);
+      console.log(
+        `📋 Reviewing: ${
+          interdiffRange
+            ? `${interdiffRange.oldTip} -> ${interdiffRange.newTip} (interdiff)`
+            : (options.commits ?? selection.targetCommitish)
+        }${pathspecs.length > 0 ? ` -- ${pathspecs.join(' ')}` : ''}`,
+      );
 
       if (options.keepAlive) {
         console.log('🔒 Keep-alive mode: server will stay running after browser disconnects');
@@ -354,7 +653,11 @@ program
     }
   });
 
-void program.parseAsync();
+for (const command of createDaemonCommands()) {
+  program.addCommand(command);
+}
+
+void program.parseAsync(cliArgs, { from: 'user' });
 
 async function handleUntrackedFiles(git: SimpleGit, addAutomatically?: boolean): Promise<void> {
   const files = await findUntrackedFiles(git);
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { pullCommentNotes, pushCommentNotes } from '../server/git-notes.js';
+
+import { createNotesCommand } from './notes.js';
+
+vi.mock('../server/git-notes.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../server/git-notes.js')>()),
+  pullCommentNotes: vi.fn(),
+  pushCommentNotes: vi.fn(),
+}));
+
+describe('createNotesCommand', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('has "push" and "pull" subcommands', () => {
+    const command = createNotesCommand();
+
+    expect(command.name()).toBe('notes');
+    expect(command.commands.map((c) => c.name())).toEqual(['push', 'pull']);
+  });
+
+  it('pushes to origin unless another remote is given', async () => {
+    vi.mocked(pushCommentNotes).mockResolvedValue(undefined);
+
+    await createNotesCommand().parseAsync(['push'], { from: 'user' });
+    await createNotesCommand().parseAsync(['push', 'upstream'], { from: 'user' });
+
+    expect(vi.mocked(pushCommentNotes).mock.calls.map(([, remote]) => remote)).toEqual([
+      'origin',
+      'upstream',
+    ]);
+  });
+
+  it('reports how many commits a pull updated', async () => {
+    vi.mocked(pullCommentNotes).mockResolvedValue(2);
+
+    await createNotesCommand().parseAsync(['pull'], { from: 'user' });
+
+    expect(console.log).toHaveBeenCalledWith(
+      '📥 Pulled review threads from origin (2 commits updated)',
+    );
+  });
+
+  it('exits with an error when git fails', async () => {
+    vi.mocked(pushCommentNotes).mockRejectedValue(new Error('failed to push some refs'));
+
+    await createNotesCommand().parseAsync(['push'], { from: 'user' });
+
+    expect(console.error).toHaveBeenCalledWith('Error: failed to push some refs');
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,41 @@
+import { Command } from 'commander';
+
+import { COMMENT_NOTES_REF, pullCommentNotes, pushCommentNotes } from '../server/git-notes.js';
+
+import { handleCommandError } from './utils.js';
+
+export function createNotesCommand(): Command {
+  const notes = new Command('notes').description(
+    `Share review threads stored in git notes (${COMMENT_NOTES_REF}) with a remote`,
+  );
+
+  notes
+    .command('push')
+    .description('Push review threads to a remote')
+    .argument('[remote]', 'remote to push to', 'origin')
+    .action(async (remote: string) => {
+      try {
+        await pushCommentNotes(process.cwd(), remote);
+        console.log(`📤 Pushed review threads to ${remote}`);
+      } catch (error) {
+        handleCommandError(error);
+      }
+    });
+
+  notes
+    .command('pull')
+    .description('Fetch review threads from a remote and merge them into the local ones')
+    .argument('[remote]', 'remote to pull from', 'origin')
+    .action(async (remote: string) => {
+      try {
+        const updated = await pullCommentNotes(process.cwd(), remote);
+        console.log(
+          `📥 Pulled review threads from ${remote} (${updated} ${updated === 1 ? 'commit' : 'commits'} updated)`,
+        );
+      } catch (error) {
+        handleCommandError(error);
+      }
+    });
+
+  return notes;
+}
@@ -3,8 +3,12 @@ import { describe, it, expect } from 'vitest';
 import {
   detectStdinSource,
   parseCommentOptions,
+  parseCommitRange,
+  parseInterdiffArguments,
+  parseNoIndexPaths,
   shortHash,
   shouldReadStdin,
+  splitPathspecArguments,
   validateCommitish,
   validateDiffArguments,
 } from './utils';
@@ -223,6 +227,16 @@ describe('CLI Utils', () => {
       expect(validateCommitish('@~2^1')).toBe(true);
     });
 
+    it('should validate stash entries', () => {
+      expect(validateCommitish('stash@{0}')).toBe(true);
+      expect(validateCommitish('stash@{12}')).toBe(true);
+      expect(validateCommitish('stash@{0}^')).toBe(true);
+      expect(validateCommitish('stash@{0}^2')).toBe(true);
+      expect(validateCommitish('stash@{0}^3')).toBe(true);
+      expect(validateCommitish('stash@{-1}')).toBe(false);
+      expect(validateCommitish('main@{0}')).toBe(false);
+    });
+
     it('should validate branch names', () => {
       // Valid branch names according to git rules
       expect(validateCommitish('main')).toBe(true);
@@ -437,6 +451,129 @@ describe('CLI Utils', () => {
     });
   });
 
+  describe('splitPathspecArguments', () => {
+    it('treats everything after -- as pathspecs', () => {
+      expect(
+        splitPathspecArguments(['HEAD', '--context', '5', '--', 'src/', ':!*.snap', '--port']),
+      ).toEqual({
+        args: ['HEAD', '--context', '5'],
+        pathspecs: ['src/', ':!*.snap', '--port'],
+      });
+    });
+
+    it('keeps the default revision when only pathspecs are given', () => {
+      expect(splitPathspecArguments(['--', 'packages/app'])).toEqual({
+        args: [],
+        pathspecs: ['packages/app'],
+      });
+    });
+
+    it('leaves arguments without a separator untouched', () => {
+      expect(splitPathspecArguments(['main', 'feature'])).toEqual({
+        args: ['main', 'feature'],
+        pathspecs: [],
+      });
+    });
+  });
+
+  describe('parseCommitRange', () => {
+    it('parses two-dot ranges', () => {
+      expect(parseCommitRange('main..feature')).toEqual({
+        valid: true,
+        range: { baseCommitish: 'main', targetCommitish: 'feature' },
+      });
+      expect(parseCommitRange('origin/main..feature/login')).toEqual({
+        valid: true,
+        range: { baseCommitish: 'origin/main', targetCommitish: 'feature/login' },
+      });
+    });
+
+    it('defaults an omitted side to HEAD', () => {
+      expect(parseCommitRange('main..')).toEqual({
+        valid: true,
+        range: { baseCommitish: 'main', targetCommitish: 'HEAD' },
+      });
+      expect(parseCommitRange('..feature')).toEqual({
+        valid: true,
+        range: { baseCommitish: 'HEAD', targetCommitish: 'feature' },
+      });
+    });
+
+    it('rejects values that are not ranges', () => {
+      expect(parseCommitRange('main...feature')).toEqual({
+        valid: false,
+        error:
+          'Symmetric commit range "main...feature" is not supported. Use the form <base>..<target> (e.g. main..feature)',
+      });
+      expect(parseCommitRange('feature')).toEqual({
+        valid: false,
+        error: 'Invalid commit range "feature". Use the form <base>..<target> (e.g. main..feature)',
+      });
+    });
+
+    it('rejects special arguments and identical endpoints', () => {
+      expect(parseCommitRange('main..staged')).toEqual({
+        valid: false,
+        error: 'Invalid commit-ish in commit range: staged',
+      });
+      expect(parseCommitRange('..')).toEqual({
+        valid: false,
+        error: 'Cannot compare HEAD with itself',
+      });
+    });
+  });
+
+  describe('parseNoIndexPaths', () => {
+    it('accepts two existing paths', () => {
+      expect(parseNoIndexPaths(['src', 'package.json'])).toEqual({
+        valid: true,
+        paths: { oldPath: 'src', newPath: 'package.json' },
+      });
+    });
+
+    it('requires exactly two paths that exist', () => {
+      expect(parseNoIndexPaths(['src'])).toEqual({
+        valid: false,
+        error: '--no-index requires exactly two paths: <path-a> <path-b>',
+      });
+      expect(parseNoIndexPaths(['src', 'does-not-exist'])).toEqual({
+        valid: false,
+        error: 'No such file or directory: does-not-exist',
+      });
+    });
+  });
+
+  describe('parseInterdiffArguments', () => {
+    it('accepts two tips with an optional --onto base', () => {
+      expect(parseInterdiffArguments(['abc1234', 'feature'])).toEqual({
+        valid: true,
+        range: { oldTip: 'abc1234', newTip: 'feature' },
+      });
+      expect(parseInterdiffArguments(['abc1234', 'feature'], 'origin/main')).toEqual({
+        valid: true,
+        range: { oldTip: 'abc1234', newTip: 'feature', onto: 'origin/main' },
+      });
+    });
+
+    it('requires exactly two tips', () => {
+      expect(parseInterdiffArguments(['feature'])).toEqual({
+        valid: false,
+        error: '--interdiff requires exactly two revisions: <old-tip> <new-tip>',
+      });
+    });
+
+    it('rejects special arguments and identical tips', () => {
+      expect(parseInterdiffArguments(['abc1234', 'feature'], '.')).toEqual({
+        valid: false,
+        error: 'Invalid commit-ish for --interdiff: .',
+      });
+      expect(parseInterdiffArguments(['feature', 'feature'])).toEqual({
+        valid: false,
+        error: 'Cannot compare feature with itself',
+      });
+    });
+  });
+
   describe('shortHash', () => {
     it('should return first 7 characters of hash', () => {
       expect(shortHash('a1b2c3d4e5f6789012345678901234567890abcd')).toBe('a1b2c3d');
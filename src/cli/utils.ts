@@ -1,10 +1,10 @@
 import { execSync } from 'child_process';
-import { fstatSync, type Stats } from 'node:fs';
+import { existsSync, fstatSync, type Stats } from 'node:fs';
 import { createInterface } from 'node:readline/promises';
 
 import type { SimpleGit } from 'simple-git';
 
-import type { CommentImport } from '../types/diff.js';
+import type { CommentImport, CommitRange, InterdiffRange, NoIndexPaths } from '../types/diff.js';
 import { parseCommentImportValue } from '../utils/commentImports.js';
 
 type StdinStat = Pick<Stats, 'isFIFO' | 'isFile' | 'isSocket'>;
@@ -47,11 +47,12 @@ export function shouldReadStdin(options: ShouldReadStdinOptions): boolean {
   return stdinSource === 'pipe' || stdinSource === 'file' || stdinSource === 'socket';
 }
 
-export function getGitRoot(): string {
+export function getGitRoot(cwd?: string): string {
   try {
     const result = execSync('git rev-parse --show-toplevel', {
       encoding: 'utf8',
       stdio: 'pipe',
+      cwd,
     });
     return result.trim();
   } catch {
@@ -87,6 +88,7 @@ function isValidCommitishBase(baseCommitish: string): boolean {
     /^[a-f0-9]{4,40}$/i, // SHA hashes
     /^HEAD$/, // HEAD
     /^@$/, // @ is Git alias for HEAD
+    /^stash@\{\d+\}$/, // stash entries
   ];
 
   if (validBasePatterns.some((pattern) => pattern.test(baseCommitish))) {
@@ -223,6 +225,103 @@ export function validateDiffArguments(
   return { valid: true };
 }
 
+// Split `difit [args] -- <pathspec>...` like git does: everything after the
+// first `--` is a pathspec rather than a revision or option.
+export function splitPathspecArguments(args: string[]): { args: string[]; pathspecs: string[] } {
+  const separatorIndex = args.indexOf('--');
+  if (separatorIndex === -1) {
+    return { args, pathspecs: [] };
+  }
+
+  return {
+    args: args.slice(0, separatorIndex),
+    pathspecs: args.slice(separatorIndex + 1).filter((pathspec) => pathspec.length > 0),
+  };
+}
+
+// Parse a `base..target` (or `base...target`) range for --commits.
+// An omitted side defaults to HEAD, like git log does.
+export function parseCommitRange(
+  range: string,
+): { valid: true; range: CommitRange } | { valid: false; error: string } {
+  // `a...b` holds the commits of both sides, which can't be stepped through as one line
+  if (range.includes('...')) {
+    return {
+      valid: false,
+      error: `Symmetric commit range "${range}" is not supported. Use the form <base>..<target> (e.g. main..feature)`,
+    };
+  }
+
+  const match = range.trim().match(/^(.*?)\.\.(.*)$/);
+  if (!match) {
+    return {
+      valid: false,
+      error: `Invalid commit range "${range}". Use the form <base>..<target> (e.g. main..feature)`,
+    };
+  }
+
+  const baseCommitish = match[1] || 'HEAD';
+  const targetCommitish = match[2] || 'HEAD';
+  const specialArgs = ['working', 'staged', '.'];
+
+  for (const commitish of [baseCommitish, targetCommitish]) {
+    if (specialArgs.includes(commitish) || !validateCommitish(commitish)) {
+      return { valid: false, error: `Invalid commit-ish in commit range: ${commitish}` };
+    }
+  }
+
+  if (baseCommitish === targetCommitish) {
+    return { valid: false, error: `Cannot compare ${targetCommitish} with itself` };
+  }
+
+  return { valid: true, range: { baseCommitish, targetCommitish } };
+}
+
+// Validate the `--interdiff <old-tip> <new-tip>` pair and optional `--onto` base.
+export function parseInterdiffArguments(
+  tips: string[],
+  onto?: string,
+): { valid: true; range: InterdiffRange } | { valid: false; error: string } {
+  if (tips.length !== 2) {
+    return {
+      valid: false,
+      error: '--interdiff requires exactly two revisions: <old-tip> <new-tip>',
+    };
+  }
+
+  const [oldTip, newTip] = tips;
+  const specialArgs = ['working', 'staged', '.'];
+
+  for (const commitish of onto === undefined ? tips : [...tips, onto]) {
+    if (specialArgs.includes(commitish) || !validateCommitish(commitish)) {
+      return { valid: false, error: `Invalid commit-ish for --interdiff: ${commitish}` };
+    }
+  }
+
+  if (oldTip === newTip) {
+    return { valid: false, error: `Cannot compare ${newTip} with itself` };
+  }
+
+  return { valid: true, range: onto === undefined ? { oldTip, newTip } : { oldTip, newTip, onto } };
+}
+
+// Validate the `--no-index <path-a> <path-b>` pair; both must exist on disk.
+export function parseNoIndexPaths(
+  paths: string[],
+): { valid: true; paths: NoIndexPaths } | { valid: false; error: string } {
+  if (paths.length !== 2) {
+    return { valid: false, error: '--no-index requires exactly two paths: <path-a> <path-b>' };
+  }
+
+  const missingPath = paths.find((path) => !existsSync(path));
+  if (missingPath !== undefined) {
+    return { valid: false, error: `No such file or directory: ${missingPath}` };
+  }
+
+  const [oldPath, newPath] = paths;
+  return { valid: true, paths: { oldPath, newPath } };
+}
+
 export async function findUntrackedFiles(git: SimpleGit): Promise<string[]> {
   const status = await git.status();
   return status.not_added;
@@ -233,6 +332,13 @@ export async function markFilesIntentToAdd(git: SimpleGit, files: string[]): Pro
   await git.add(['--intent-to-add', ...files]);
 }
 
+export async function isMergeCommit(git: SimpleGit, commitish: string): Promise<boolean> {
+  const secondParent = await git
+    .revparse(['--verify', '--quiet', `${commitish}^2`])
+    .catch(() => '');
+  return secondParent !== '';
+}
+
 export async function promptUser(message: string): Promise<boolean> {
   const rl = createInterface({
     input: process.stdin,
@@ -254,3 +360,14 @@ export async function readStdin(): Promise<string> {
   }
   return Buffer.concat(chunks).toString('utf8');
 }
+
+// Reports a subcommand failure and exits. Commands that talk to a running server pass
+// `connectionError` to explain fetch's bare "fetch failed"
+export function handleCommandError(error: unknown, connectionError?: string): never {
+  if (connectionError && error instanceof TypeError && error.message.includes('fetch failed')) {
+    console.error(`Error: ${connectionError}`);
+  } else {
+    console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  process.exit(1);
+}
@@ -1,15 +1,34 @@
-import { Columns, AlignLeft, Settings, PanelLeftClose, PanelLeft, Keyboard } from 'lucide-react';
+import {
+  Columns,
+  AlignLeft,
+  Settings,
+  PanelLeftClose,
+  PanelLeft,
+  Keyboard,
+  GitCompare,
+  GitCommitHorizontal,
+  FileDiff,
+  FileCode,
+  Search,
+} from 'lucide-react';
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 
 import {
+  type BlameCommit,
+  type CommitRequest,
+  type DiffChunk,
   type DiffCommentThread,
+  type DiffFile,
   type DiffResponse,
   type DiffSelection,
   type DiffViewMode,
   type DiffSide,
+  type HunkAction,
   type LineNumber,
   type CommentThread,
+  type MovedLineLink,
   type RevisionsResponse,
+  type ViewedFileRecord,
 } from '../types/diff';
 import { DEFAULT_DIFF_VIEW_MODE, normalizeDiffViewMode } from '../utils/diffMode';
 import { mergeCommentThreads } from '../utils/commentImports';
@@ -18,22 +37,31 @@ import {
   diffSelectionsEqual,
   getDiffSelectionKey,
   normalizeBaseMode,
+  withPathspecs,
 } from '../utils/diffSelection';
 
 import { Checkbox } from './components/Checkbox';
 import { CommentsDropdown } from './components/CommentsDropdown';
 import { CommentsListModal } from './components/CommentsListModal';
+import { CommitModal } from './components/CommitModal';
+import { CommitStepper } from './components/CommitStepper';
 import { DiffQuickMenu } from './components/DiffQuickMenu';
+import { DiffSearchPanel } from './components/DiffSearchPanel';
 import { DiffViewer } from './components/DiffViewer';
+import { FileHistoryDrawer } from './components/FileHistoryDrawer';
 import { FileList } from './components/FileList';
 import { GitHubIcon } from './components/GitHubIcon';
 import { HelpModal } from './components/HelpModal';
+import { RangeDiffViewer } from './components/RangeDiffViewer';
 import { Logo } from './components/Logo';
+import { MergeViewSwitcher } from './components/MergeViewSwitcher';
+import { PatchSeriesNavigator } from './components/PatchSeriesNavigator';
+import { PathspecFilter } from './components/PathspecFilter';
 import { ReloadButton } from './components/ReloadButton';
 import { RevisionDetailModal } from './components/RevisionDetailModal';
 import { SettingsModal } from './components/SettingsModal';
 import { SparkleAnimation } from './components/SparkleAnimation';
-import { WordHighlightProvider } from './contexts/WordHighlightContext';
+import { DiffViewProviders } from './contexts/DiffViewProviders';
 import { useAppearanceSettings } from './hooks/useAppearanceSettings';
 import { useDiffComments } from './hooks/useDiffComments';
 import { useExpandedLines, type MergedChunk } from './hooks/useExpandedLines';
@@ -43,17 +71,33 @@ import { useLazyDiffRendering } from './hooks/useLazyDiffRendering';
 import { useViewedFiles } from './hooks/useViewedFiles';
 import { useViewport } from './hooks/useViewport';
 import { fetchClientSettings, saveClientSettings } from './services/userSettings';
+import { resolveApiUrl } from './utils/apiUrl';
 import { hasMultipleCommentAuthors } from './utils/commentAuthors';
 import { copyTextToClipboard } from './utils/clipboard';
+import { buildCommitMessageDraft, commitStagedChanges } from './utils/commit';
+import {
+  createSearchPattern,
+  searchDiff,
+  type DiffSearchMatch,
+  type DiffSearchOptions,
+} from './utils/diffSearch';
 import { getFileElementId } from './utils/domUtils';
-import { findCommentPosition } from './utils/navigation/positionHelpers';
+import {
+  getStoredFileViewModes,
+  storeFileViewModes,
+  toggleFullFileViewMode,
+} from './utils/fileViewModes';
+import { createHunkActionRequest, runHunkAction } from './utils/hunkActions';
+import { findCommentPosition, findLinePosition } from './utils/navigation/positionHelpers';
 import { resolveEventSourceUrl } from './utils/eventSourceUrl';
 import {
   EMPTY_MERGED_CHUNKS_STATE,
   buildMergedChunksState,
   getMergedChunksForVersion,
 } from './utils/mergedChunks';
+import { isMoveOnlyFile, markMovedLines } from './utils/movedCode';
 import { buildFileLineIndex, isThreadOutdated } from './utils/outdatedComments';
+import { applySuggestions, getSuggestionApplyRequest } from './utils/suggestionApply';
 
 const EMPTY_COMMENT_THREADS: CommentThread[] = [];
 const EMPTY_MERGED_CHUNKS: MergedChunk[] = [];
@@ -70,6 +114,7 @@ const parseDiffViewMode = (value: unknown): DiffViewMode | null => {
     case 'side-by-side':
     case 'unified':
     case 'inline':
+    case 'full':
       return normalizeDiffViewMode(value);
     default:
       return null;
@@ -130,6 +175,9 @@ function App() {
   const [diffData, setDiffData] = useState<DiffResponse | null>(null);
   const [diffDataVersion, setDiffDataVersion] = useState(0);
   const [diffMode, setDiffMode] = useState<DiffViewMode>(getInitialDiffViewMode);
+  const [fileViewModes, setFileViewModes] = useState(() => new Map<string, DiffViewMode>());
+  // Repository the per-file modes were loaded for; null until the first diff arrives
+  const fileViewModesRepositoryRef = useRef<string | null>(null);
   const [ignoreWhitespace, setIgnoreWhitespace] = useState(true);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -141,13 +189,31 @@ function App() {
   const [showSparkles, setShowSparkles] = useState(false);
   const [hasTriggeredSparkles, setHasTriggeredSparkles] = useState(false);
   const [isCommentsListOpen, setIsCommentsListOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchOptions, setSearchOptions] = useState<DiffSearchOptions>({
+    query: '',
+    scope: 'all',
+    isRegex: false,
+    isCaseSensitive: false,
+  });
+  // A line to put the cursor on once its file has rendered (search results, moved code)
+  const [pendingLineJump, setPendingLineJump] = useState<{
+    filePath: string;
+    side: DiffSide;
+    lineNumber: number;
+  } | null>(null);
+  const [isCommitOpen, setIsCommitOpen] = useState(false);
   const [isRevisionModalOpen, setIsRevisionModalOpen] = useState(false);
+  // Set when the modal is opened from a blame entry rather than the revision selector
+  const [historyFilePath, setHistoryFilePath] = useState<string | null>(null);
+  const [blameRevisionSelection, setBlameRevisionSelection] = useState<DiffSelection | null>(null);
   const [collapsedFiles, setCollapsedFiles] = useState<Set<string>>(new Set());
   const collapsedInitializedRef = useRef(false);
   const diffScrollContainerRef = useRef<HTMLElement | null>(null);
 
   // Revision selector state
   const [revisionOptions, setRevisionOptions] = useState<RevisionsResponse | null>(null);
+  const [isFullDiffShownForInterdiff, setIsFullDiffShownForInterdiff] = useState(false);
   const [selectedRevision, setSelectedRevision] = useState<DiffSelection>(
     createDiffSelection('', ''),
   );
@@ -169,6 +235,7 @@ function App() {
       diffData.baseCommitish,
       diffData.targetCommitish,
       diffData.requestedBaseMode,
+      diffData.requestedPathspecs,
     );
   }, [diffData]);
   const resolvedSelectionKey = useMemo(() => {
@@ -224,15 +291,19 @@ function App() {
     if (resolvedSelection.baseMode === 'merge-base') {
       params.set('baseMode', resolvedSelection.baseMode);
     }
+    for (const pathspec of resolvedSelection.pathspecs ?? []) {
+      params.append('pathspec', pathspec);
+    }
 
     return params.toString();
   }, [resolvedSelection]);
   const getCommentApiUrl = useCallback(
     (path: string) => {
+      const url = resolveApiUrl(path);
       if (!commentSessionQueryString) {
-        return path;
+        return url;
       }
-      return `${path}?${commentSessionQueryString}`;
+      return `${url}?${commentSessionQueryString}`;
     },
     [commentSessionQueryString],
   );
@@ -251,7 +322,10 @@ function App() {
     }
   }, [bootstrappedCommentsKey, commentsContextKey]);
 
-  const fetchServerThreads = useCallback(async (): Promise<DiffCommentThread[]> => {
+  const fetchServerSession = useCallback(async (): Promise<{
+    threads: DiffCommentThread[];
+    viewedFiles: ViewedFileRecord[];
+  }> => {
     const response = await fetch(getCommentApiUrl('/api/comments-json'));
     if (!response.ok) {
       throw new Error(`Failed to fetch comments: ${response.status} ${response.statusText}`);
@@ -260,21 +334,28 @@ function App() {
     const payload = (await response.json()) as {
       version?: number;
       threads?: DiffCommentThread[];
+      viewedFiles?: ViewedFileRecord[];
     };
     if (typeof payload.version === 'number') {
       serverCommentVersionRef.current = payload.version;
     }
-    return Array.isArray(payload.threads) ? payload.threads : [];
+    return {
+      threads: Array.isArray(payload.threads) ? payload.threads : [],
+      viewedFiles: Array.isArray(payload.viewedFiles) ? payload.viewedFiles : [],
+    };
   }, [getCommentApiUrl]);
 
+  // Viewed files are sent with comments so the server can keep them across restarts; they are
+  // left out until the browser's own have loaded, so an empty list never overwrites the server's
   const syncThreadsToServer = useCallback(
-    async (nextThreads: DiffCommentThread[]) => {
+    async (nextThreads: DiffCommentThread[], viewedFiles?: ViewedFileRecord[]) => {
       const response = await fetch(getCommentApiUrl('/api/comments'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           threads: nextThreads,
           baseVersion: serverCommentVersionRef.current ?? undefined,
+          viewedFiles,
         }),
       });
       if (!response.ok) {
@@ -306,6 +387,8 @@ function App() {
     toggleFileViewed,
     setFilesViewed,
     clearViewedFiles,
+    viewedFileRecords,
+    mergeViewedFileRecords,
   } = useViewedFiles(
     resolvedSelection?.baseCommitish,
     resolvedSelection?.targetCommitish,
@@ -325,10 +408,28 @@ function App() {
   // Initialize collapsed files from viewed files (only once per diff)
   useEffect(() => {
     if (!collapsedInitializedRef.current && hasLoadedInitialViewedFiles) {
-      setCollapsedFiles(new Set(viewedFiles));
+      const initialCollapsed = new Set(viewedFiles);
+      if (settings.collapseMovedFiles) {
+        diffData?.files.filter(isMoveOnlyFile).forEach((file) => initialCollapsed.add(file.path));
+      }
+      setCollapsedFiles(initialCollapsed);
       collapsedInitializedRef.current = true;
     }
-  }, [viewedFiles, hasLoadedInitialViewedFiles]);
+  }, [viewedFiles, hasLoadedInitialViewedFiles, settings.collapseMovedFiles, diffData?.files]);
+
+  // Files viewed in another browser or before a restart come back with the server's session
+  const [pendingServerViewedFiles, setPendingServerViewedFiles] = useState<
+    ViewedFileRecord[] | null
+  >(null);
+  const canSyncViewedFiles = hasLoadedInitialViewedFiles && pendingServerViewedFiles === null;
+  useEffect(() => {
+    if (!pendingServerViewedFiles || !hasLoadedInitialViewedFiles) return;
+    const mergedPaths = mergeViewedFileRecords(pendingServerViewedFiles);
+    setPendingServerViewedFiles(null);
+    if (mergedPaths.length > 0) {
+      setCollapsedFiles((prev) => new Set([...prev, ...mergedPaths]));
+    }
+  }, [pendingServerViewedFiles, hasLoadedInitialViewedFiles, mergeViewedFileRecords]);
   const {
     renderedFilePaths,
     ensureFileRendered,
@@ -451,11 +552,48 @@ function App() {
     saveClientSettings({ diffViewMode: mode });
   }, []);
 
+  const handleToggleFullFile = useCallback(
+    (filePath: string) => {
+      setFileViewModes((current) => toggleFullFileViewMode(current, filePath, diffMode));
+    },
+    [diffMode],
+  );
+
+  const repositoryId = diffData?.repositoryId;
+  useEffect(() => {
+    if (!repositoryId || fileViewModesRepositoryRef.current === repositoryId) return;
+    fileViewModesRepositoryRef.current = repositoryId;
+    setFileViewModes(getStoredFileViewModes(repositoryId));
+  }, [repositoryId]);
+
+  useEffect(() => {
+    if (!fileViewModesRepositoryRef.current) return;
+    storeFileViewModes(fileViewModesRepositoryRef.current, fileViewModes);
+  }, [fileViewModes]);
+
+  // Per-file modes as rendered; split overrides fall back to unified on narrow screens, and
+  // combined merge diffs, which list every parent in one column, are never split
+  const renderedFileViewModes = useMemo(() => {
+    const modes = new Map<string, DiffViewMode>();
+    fileViewModes.forEach((mode, path) => {
+      modes.set(path, isMobile && mode === 'split' ? 'unified' : mode);
+    });
+    diffData?.files.forEach((file) => {
+      const isCombined = file.chunks.some((chunk) => chunk.parentStarts);
+      if (isCombined && (modes.get(file.path) ?? diffMode) === 'split') {
+        modes.set(file.path, 'unified');
+      }
+    });
+    return modes;
+  }, [fileViewModes, isMobile, diffData?.files, diffMode]);
+
   // Lift expand state to App level so navigation and rendering share the same merged chunks
   const {
     isLoading: isExpandLoading,
     expandLines,
     expandAllBetweenChunks,
+    expandWholeFile,
+    collapseExpandedLines,
     prefetchFileContent,
     getMergedChunks,
     lastUpdatedAt,
@@ -534,17 +672,22 @@ function App() {
     [normalizedThreads],
   );
   const threadsByFile = useMemo(() => {
+    const submodulePaths =
+      diffData?.files.filter((file) => file.status === 'submodule').map((file) => file.path) ?? [];
     const map = new Map<string, CommentThread[]>();
     normalizedThreads.forEach((thread) => {
-      const entry = map.get(thread.file);
+      // Threads on files inside a submodule are listed under the submodule entry
+      const fileKey =
+        submodulePaths.find((path) => thread.file.startsWith(`${path}/`)) ?? thread.file;
+      const entry = map.get(fileKey);
       if (entry) {
         entry.push(thread);
       } else {
-        map.set(thread.file, [thread]);
+        map.set(fileKey, [thread]);
       }
     });
     return map;
-  }, [normalizedThreads]);
+  }, [diffData, normalizedThreads]);
 
   // State to trigger comment creation from keyboard
   const [commentTrigger, setCommentTrigger] = useState<{
@@ -558,7 +701,7 @@ function App() {
   }, []);
   const handleCommentsChanged = useCallback(async () => {
     try {
-      const serverThreads = await fetchServerThreads();
+      const { threads: serverThreads } = await fetchServerSession();
       skipNextCommentSyncRef.current = true;
       replaceThreads(serverThreads);
       if (commentsContextKey) {
@@ -567,7 +710,7 @@ function App() {
     } catch (commentsError) {
       console.error('Failed to refresh comments from server:', commentsError);
     }
-  }, [commentsContextKey, fetchServerThreads, replaceThreads]);
+  }, [commentsContextKey, fetchServerSession, replaceThreads]);
 
   // File watch for reload functionality - initialize with callback
   const { shouldReload, reload, watchState } = useFileWatch(
@@ -584,6 +727,7 @@ function App() {
       files: navigableFiles,
       comments: normalizedThreads,
       viewMode: diffMode,
+      fileViewModes: renderedFileViewModes,
       reviewedFiles: viewedFiles,
       onToggleReviewed: toggleFileReviewed,
       getHoveredFileIndex,
@@ -663,6 +807,55 @@ function App() {
     [generateThreadPrompt],
   );
 
+  // Successful applies change the working tree, so the file watcher reloads the diff
+  const handleApplySuggestion = useCallback(async (thread: CommentThread) => {
+    const request = getSuggestionApplyRequest(thread);
+    if (!request) return;
+
+    const { failed } = await applySuggestions([request]);
+    if (failed[0]) {
+      throw new Error(failed[0].error);
+    }
+  }, []);
+
+  const suggestionApplyRequests = useMemo(
+    () =>
+      normalizedThreads.flatMap((thread) => {
+        const request = getSuggestionApplyRequest(thread);
+        return request ? [request] : [];
+      }),
+    [normalizedThreads],
+  );
+
+  const handleApplyAllSuggestions = useCallback(async () => {
+    const count = suggestionApplyRequests.length;
+    if (count === 0 || !confirm(`Apply ${count} suggestions to the working tree?`)) return;
+
+    try {
+      const { applied, failed } = await applySuggestions(suggestionApplyRequests);
+      if (failed.length > 0) {
+        const threadsById = new Map(normalizedThreads.map((thread) => [thread.id, thread]));
+        const details = failed.map(({ threadId, error }) => {
+          const thread = threadsById.get(threadId);
+          const line = Array.isArray(thread?.line) ? thread.line.join('-') : thread?.line;
+          return `- ${thread?.file ?? threadId}:${line ?? '?'}: ${error}`;
+        });
+        alert(
+          `Applied ${applied.length} of ${count} suggestions. Not applied:\n${details.join('\n')}`,
+        );
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to apply suggestions');
+    }
+  }, [normalizedThreads, suggestionApplyRequests]);
+
+  // Like applied suggestions, the file watcher picks up the index/working-tree change
+  const handleHunkAction = useCallback(
+    (file: DiffFile, chunk: DiffChunk, action: HunkAction, lineIndices?: number[]) =>
+      runHunkAction(createHunkActionRequest(file, chunk, action, lineIndices)),
+    [],
+  );
+
   const handleMouseDown = (e: React.MouseEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -706,8 +899,11 @@ function App() {
           params.set('target', requestedSelection.targetCommitish);
         if (requestedSelection?.baseMode === 'merge-base')
           params.set('baseMode', requestedSelection.baseMode);
+        for (const pathspec of requestedSelection?.pathspecs ?? []) {
+          params.append('pathspec', pathspec);
+        }
 
-        const response = await fetch(`/api/diff?${params}`, {
+        const response = await fetch(resolveApiUrl(`/api/diff?${params}`), {
           signal: controller.signal,
         });
         if (!response.ok) throw new Error('Failed to fetch diff data');
@@ -715,7 +911,7 @@ function App() {
         if (diffRequestIdRef.current !== requestId) {
           return;
         }
-        setDiffData(data);
+        setDiffData({ ...data, files: markMovedLines(data.files) });
         setDiffDataVersion((prev) => prev + 1);
 
         // Update resolved revision state from server response
@@ -729,7 +925,12 @@ function App() {
           const requestedTarget = data.requestedTargetCommitish ?? data.targetCommitish;
           if (requestedBase && requestedTarget) {
             setSelectedRevision(
-              createDiffSelection(requestedBase, requestedTarget, data.requestedBaseMode),
+              createDiffSelection(
+                requestedBase,
+                requestedTarget,
+                data.requestedBaseMode,
+                data.requestedPathspecs,
+              ),
             );
           }
         }
@@ -767,7 +968,7 @@ function App() {
   }, []);
 
   useEffect(() => {
-    if (isMobile && diffMode !== 'unified') {
+    if (isMobile && diffMode === 'split') {
       setDiffMode('unified');
     }
   }, [diffMode, isMobile]);
@@ -854,7 +1055,7 @@ function App() {
 
   // Fetch revision options on mount
   useEffect(() => {
-    fetch('/api/revisions')
+    fetch(resolveApiUrl('/api/revisions'))
       .then((res) => (res.ok ? res.json() : null))
       .then((data: RevisionsResponse | null) => {
         setRevisionOptions(data);
@@ -887,6 +1088,29 @@ function App() {
     [fetchDiffData, selectedRevision],
   );
 
+  // Revision menus pick revisions only; the path filter stays as it is
+  const revisionMenuSelection = useMemo(() => withPathspecs(selectedRevision), [selectedRevision]);
+  const handleRevisionMenuSelect = useCallback(
+    (nextSelection: DiffSelection) =>
+      void handleRevisionChange(withPathspecs(nextSelection, selectedRevision.pathspecs)),
+    [handleRevisionChange, selectedRevision.pathspecs],
+  );
+  const handlePathspecsChange = useCallback(
+    (pathspecs: string[]) => void handleRevisionChange(withPathspecs(selectedRevision, pathspecs)),
+    [handleRevisionChange, selectedRevision],
+  );
+
+  // The staged changes are HEAD now, so move on to reviewing that commit
+  const handleCommit = useCallback(
+    async (request: CommitRequest) => {
+      await commitStagedChanges(request);
+      await handleRevisionChange(
+        withPathspecs(createDiffSelection('HEAD^', 'HEAD'), selectedRevision.pathspecs),
+      );
+    },
+    [handleRevisionChange, selectedRevision.pathspecs],
+  );
+
   // Clear comments and viewed files on initial load if requested via CLI flag
   const hasCleanedRef = useRef(false);
   useEffect(() => {
@@ -922,7 +1146,8 @@ function App() {
 
     const bootstrapComments = async () => {
       try {
-        const serverThreads = await fetchServerThreads();
+        const { threads: serverThreads, viewedFiles: serverViewedFiles } =
+          await fetchServerSession();
         const nextThreads = shouldReplaceFromServer
           ? serverThreads
           : mergeCommentThreads(serverThreads, threads).threads;
@@ -932,6 +1157,9 @@ function App() {
 
         skipNextCommentSyncRef.current = true;
         replaceThreads(nextThreads);
+        if (serverViewedFiles.length > 0) {
+          setPendingServerViewedFiles(serverViewedFiles);
+        }
 
         if (
           !shouldReplaceFromServer &&
@@ -964,7 +1192,7 @@ function App() {
   }, [
     bootstrappedCommentsKey,
     commentsContextKey,
-    fetchServerThreads,
+    fetchServerSession,
     hasLoadedComments,
     replaceThreads,
     syncThreadsToServer,
@@ -996,9 +1224,11 @@ function App() {
       return;
     }
 
+    const syncedViewedFiles = canSyncViewedFiles ? viewedFileRecords : undefined;
     const data = JSON.stringify({
       threads,
       baseVersion: serverCommentVersionRef.current ?? undefined,
+      viewedFiles: syncedViewedFiles,
     });
     const commentsApiUrl = getCommentApiUrl('/api/comments');
 
@@ -1017,14 +1247,21 @@ function App() {
       };
     }
 
-    syncThreadsToServer(threads).catch((syncError) => {
+    syncThreadsToServer(threads, syncedViewedFiles).catch((syncError) => {
       console.error('Failed to sync comments:', syncError);
     });
 
     return () => {
       window.removeEventListener('beforeunload', sendCommentsBeforeUnload);
     };
-  }, [getCommentApiUrl, hasBootstrappedComments, syncThreadsToServer, threads]);
+  }, [
+    canSyncViewedFiles,
+    getCommentApiUrl,
+    hasBootstrappedComments,
+    syncThreadsToServer,
+    threads,
+    viewedFileRecords,
+  ]);
 
   // Establish SSE connection for tab close detection
   useEffect(() => {
@@ -1105,10 +1342,68 @@ function App() {
     }
   };
 
+  const { pattern: searchPattern, error: searchError } = useMemo(
+    () => createSearchPattern(searchOptions),
+    [searchOptions],
+  );
+  const activeSearchPattern = isSearchOpen ? searchPattern : null;
+  // Searches the merged chunks, so expanded context lines are found too
+  const searchResults = useMemo(
+    () =>
+      activeSearchPattern
+        ? searchDiff(navigableFiles, activeSearchPattern, searchOptions.scope)
+        : [],
+    [activeSearchPattern, navigableFiles, searchOptions.scope],
+  );
+
+  const jumpToLine = useCallback(
+    (filePath: string, side: DiffSide, lineNumber: number) => {
+      ensureFileRendered(filePath);
+      setCollapsedFiles((prev) => {
+        if (!prev.has(filePath)) return prev;
+        const next = new Set(prev);
+        next.delete(filePath);
+        return next;
+      });
+      setPendingLineJump({ filePath, side, lineNumber });
+    },
+    [ensureFileRendered],
+  );
+
+  const handleSelectSearchMatch = useCallback(
+    (filePath: string, match: DiffSearchMatch) => {
+      jumpToLine(filePath, match.side, match.lineNumber);
+    },
+    [jumpToLine],
+  );
+
+  const handleJumpToMovedLine = useCallback(
+    (link: MovedLineLink) => {
+      jumpToLine(link.path, link.side, link.lineNumber);
+    },
+    [jumpToLine],
+  );
+
+  // Lazily rendered files get their merged chunks one render after they mount, so the
+  // cursor is placed once the target file's lines are in the DOM
+  useEffect(() => {
+    if (!pendingLineJump) return;
+    const { filePath, side, lineNumber } = pendingLineJump;
+    if (!getMergedChunksForVersion(mergedChunksState, diffDataVersion, filePath)) return;
+
+    setPendingLineJump(null);
+    const fileIndex = navigableFiles.findIndex((file) => file.path === filePath);
+    const file = navigableFiles[fileIndex];
+    const position = file ? findLinePosition(file, fileIndex, lineNumber, side) : null;
+    if (position) {
+      setCursorPosition(position);
+    }
+  }, [pendingLineJump, mergedChunksState, diffDataVersion, navigableFiles, setCursorPosition]);
+
   const handleOpenInEditor = useCallback(
     async (filePath: string, lineNumber: number) => {
       try {
-        const response = await fetch('/api/open-in-editor', {
+        const response = await fetch(resolveApiUrl('/api/open-in-editor'), {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -1138,6 +1433,11 @@ function App() {
     [settings.editor],
   );
 
+  const handleOpenBlameCommit = useCallback((commit: BlameCommit) => {
+    setBlameRevisionSelection(createDiffSelection(`${commit.shortHash}^`, commit.shortHash));
+    setIsRevisionModalOpen(true);
+  }, []);
+
   const handleGlobalClick = (e: React.MouseEvent) => {
     // Clear cursor position
     setCursorPosition(null);
@@ -1196,9 +1496,19 @@ function App() {
     settings.editor.id !== 'none' &&
     settings.editor.command.trim() !== '' &&
     settings.editor.argsTemplate.trim() !== '';
+  const canApplySuggestions = diffData.applySuggestionsAvailable === true;
+  const isHistoryAvailable = diffData.historyAvailable !== false;
+  const hunkActions = diffData.hunkActions?.length ? diffData.hunkActions : undefined;
+  const isInterdiffViewActive = Boolean(revisionOptions?.interdiff) && !isFullDiffShownForInterdiff;
+  // The range-diff takes the place of the file list while the interdiff view is active
+  const listedFiles = isInterdiffViewActive ? [] : diffData.files;
 
   return (
-    <WordHighlightProvider>
+    <DiffViewProviders
+      searchPattern={activeSearchPattern}
+      searchScope={searchOptions.scope}
+      onJumpToMovedLine={handleJumpToMovedLine}
+    >
       <div className="h-screen flex flex-col" onClickCapture={handleGlobalClick}>
         <header
           className={`bg-github-bg-secondary border-b border-github-border flex ${
@@ -1284,6 +1594,17 @@ function App() {
                     <AlignLeft size={14} />
                     Unified
                   </button>
+                  <button
+                    onClick={() => handleDiffModeChange('full')}
+                    className={`px-3 py-1.5 text-xs font-medium rounded transition-all duration-200 flex items-center gap-1.5 cursor-pointer ${
+                      diffMode === 'full'
+                        ? 'bg-github-bg-primary text-github-text-primary shadow-sm'
+                        : 'text-github-text-secondary hover:text-github-text-primary'
+                    }`}
+                  >
+                    <FileCode size={14} />
+                    Full
+                  </button>
                 </div>
               )}
               <Checkbox
@@ -1300,12 +1621,36 @@ function App() {
                 changeType={watchState.lastChangeType}
                 compact={isMobile}
               />
+              <button
+                type="button"
+                onClick={() => setIsSearchOpen((open) => !open)}
+                className={`inline-flex items-center gap-1.5 px-2 py-1 text-xs rounded border transition-colors ${
+                  isSearchOpen
+                    ? 'border-github-accent text-github-text-primary'
+                    : 'border-github-border text-github-text-secondary hover:text-github-text-primary'
+                }`}
+                title="Search the diff"
+                aria-pressed={isSearchOpen}
+              >
+                <Search size={14} aria-hidden="true" />
+                {!isMobile && 'Search'}
+              </button>
             </div>
             <div
               className={`flex flex-wrap items-center text-sm text-github-text-secondary ${
                 isMobile ? 'gap-3' : 'gap-4'
               }`}
             >
+              {diffData.commitAvailable && (
+                <button
+                  onClick={() => setIsCommitOpen(true)}
+                  className="inline-flex items-center gap-1.5 rounded bg-github-accent px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-github-accent/90"
+                  title="Commit the staged changes"
+                >
+                  <GitCommitHorizontal size={14} aria-hidden="true" />
+                  Commit
+                </button>
+              )}
               {!isMobile && threads.length > 0 && (
                 <CommentsDropdown
                   commentsCount={threads.length}
@@ -1313,6 +1658,8 @@ function App() {
                   onCopyAll={handleCopyAllComments}
                   onDeleteAll={clearAllComments}
                   onViewAll={() => setIsCommentsListOpen(true)}
+                  suggestionsCount={canApplySuggestions ? suggestionApplyRequests.length : 0}
+                  onApplyAllSuggestions={() => void handleApplyAllSuggestions()}
                 />
               )}
               <div className="flex flex-col gap-1 items-center">
@@ -1345,16 +1692,80 @@ function App() {
                   />
                 </div>
               </div>
+              {revisionOptions?.interdiff && (
+                <div className="flex bg-github-bg-tertiary border border-github-border rounded-md p-0.5">
+                  <button
+                    type="button"
+                    onClick={() => setIsFullDiffShownForInterdiff(false)}
+                    aria-pressed={isInterdiffViewActive}
+                    title="Show what changed between the two versions of the branch"
+                    className={`px-2 py-1 text-xs font-medium rounded transition-all duration-200 flex items-center gap-1.5 cursor-pointer ${
+                      isInterdiffViewActive
+                        ? 'bg-github-bg-primary text-github-text-primary shadow-sm'
+                        : 'text-github-text-secondary hover:text-github-text-primary'
+                    }`}
+                  >
+                    <GitCompare size={12} />
+                    Interdiff
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setIsFullDiffShownForInterdiff(true)}
+                    aria-pressed={!isInterdiffViewActive}
+                    title="Show the whole diff of the new version"
+                    className={`px-2 py-1 text-xs font-medium rounded transition-all duration-200 flex items-center gap-1.5 cursor-pointer ${
+                      !isInterdiffViewActive
+                        ? 'bg-github-bg-primary text-github-text-primary shadow-sm'
+                        : 'text-github-text-secondary hover:text-github-text-primary'
+                    }`}
+                  >
+                    <FileDiff size={12} />
+                    Full diff
+                  </button>
+                </div>
+              )}
+              {revisionOptions?.commitRange && revisionOptions.commitRange.commits.length > 0 && (
+                <CommitStepper
+                  range={revisionOptions.commitRange}
+                  selection={revisionMenuSelection}
+                  onSelectDiff={handleRevisionMenuSelect}
+                  compact={!isDesktop}
+                />
+              )}
+              {diffData.mergeParents && diffData.mergeParents.length > 1 && (
+                <MergeViewSwitcher
+                  selection={revisionMenuSelection}
+                  parents={diffData.mergeParents}
+                  onSelectDiff={handleRevisionMenuSelect}
+                  compact={!isDesktop}
+                />
+              )}
+              {revisionOptions && !isInterdiffViewActive && (
+                <PathspecFilter
+                  pathspecs={selectedRevision.pathspecs ?? []}
+                  onChange={handlePathspecsChange}
+                  compact={!isDesktop}
+                />
+              )}
               {revisionOptions ? (
                 <DiffQuickMenu
                   options={revisionOptions}
-                  selection={selectedRevision}
+                  selection={revisionMenuSelection}
                   resolvedBaseRevision={resolvedBaseRevision}
                   resolvedTargetRevision={resolvedTargetRevision}
-                  onSelectDiff={(selection) => void handleRevisionChange(selection)}
+                  onSelectDiff={handleRevisionMenuSelect}
                   onOpenAdvanced={() => setIsRevisionModalOpen(true)}
                   compact={!isDesktop}
                 />
+              ) : diffData.patchSeries && diffData.patchSeries.length > 0 ? (
+                <PatchSeriesNavigator
+                  series={diffData.patchSeries}
+                  currentRef={diffData.targetCommitish}
+                  onSelectPatch={(ref) =>
+                    handleRevisionMenuSelect(createDiffSelection('stdin', ref))
+                  }
+                  compact={!isDesktop}
+                />
               ) : (
                 <span className="text-xs">
                   Reviewing:{' '}
@@ -1377,14 +1788,21 @@ function App() {
         </header>
         {revisionOptions && (
           <RevisionDetailModal
-            key={isRevisionModalOpen ? getDiffSelectionKey(selectedRevision) : 'closed'}
+            key={
+              isRevisionModalOpen
+                ? getDiffSelectionKey(blameRevisionSelection ?? selectedRevision)
+                : 'closed'
+            }
             isOpen={isRevisionModalOpen}
-            onClose={() => setIsRevisionModalOpen(false)}
+            onClose={() => {
+              setIsRevisionModalOpen(false);
+              setBlameRevisionSelection(null);
+            }}
             options={revisionOptions}
-            selection={selectedRevision}
-            resolvedBaseRevision={resolvedBaseRevision}
-            resolvedTargetRevision={resolvedTargetRevision}
-            onApply={(selection) => void handleRevisionChange(selection)}
+            selection={blameRevisionSelection ?? revisionMenuSelection}
+            resolvedBaseRevision={blameRevisionSelection ? undefined : resolvedBaseRevision}
+            resolvedTargetRevision={blameRevisionSelection ? undefined : resolvedTargetRevision}
+            onApply={handleRevisionMenuSelect}
           />
         )}
 
@@ -1475,7 +1893,8 @@ function App() {
             ref={diffScrollContainerRef}
             className={`flex-1 overflow-y-auto ${showMobileCommentsBar ? 'pb-16' : ''}`}
           >
-            {diffData.files.map((file, fileIndex) => {
+            {isInterdiffViewActive && <RangeDiffViewer />}
+            {listedFiles.map((file, fileIndex) => {
               const fileThreads = threadsByFile.get(file.path) ?? EMPTY_COMMENT_THREADS;
               const mergedChunks =
                 getMergedChunksForVersion(mergedChunksState, diffDataVersion, file.path) ??
@@ -1503,7 +1922,7 @@ function App() {
                       file={file}
                       threads={fileThreads}
                       showAuthorBadges={showAuthorBadges}
-                      diffMode={diffMode}
+                      diffMode={renderedFileViewModes.get(file.path) ?? diffMode}
                       reviewedFiles={viewedFiles}
                       isChangedSinceViewed={changedSinceViewedFiles.has(file.path)}
                       onToggleReviewed={handleViewedButtonToggle}
@@ -1516,7 +1935,13 @@ function App() {
                       onReplyToThread={handleReplyToThread}
                       onRemoveMessage={removeMessage}
                       onUpdateMessage={updateMessage}
+                      onApplySuggestion={canApplySuggestions ? handleApplySuggestion : undefined}
+                      hunkActions={hunkActions}
+                      onHunkAction={hunkActions ? handleHunkAction : undefined}
                       onOpenInEditor={canOpenInEditor ? handleOpenInEditor : undefined}
+                      onOpenBlameCommit={isHistoryAvailable ? handleOpenBlameCommit : undefined}
+                      onOpenFileHistory={isHistoryAvailable ? setHistoryFilePath : undefined}
+                      onToggleFullFile={handleToggleFullFile}
                       syntaxTheme={settings.syntaxTheme}
                       baseCommitish={diffData.baseCommitish}
                       targetCommitish={diffData.targetCommitish}
@@ -1531,6 +1956,8 @@ function App() {
                       mergedChunks={mergedChunks}
                       expandLines={expandLines}
                       expandAllBetweenChunks={expandAllBetweenChunks}
+                      expandWholeFile={expandWholeFile}
+                      collapseExpandedLines={collapseExpandedLines}
                       prefetchFileContent={prefetchFileContent}
                       isExpandLoading={isExpandLoading}
                       diffVersion={diffDataVersion}
@@ -1570,6 +1997,8 @@ function App() {
               onCopyAll={handleCopyAllComments}
               onDeleteAll={clearAllComments}
               onViewAll={() => setIsCommentsListOpen(true)}
+              suggestionsCount={canApplySuggestions ? suggestionApplyRequests.length : 0}
+              onApplyAllSuggestions={() => void handleApplyAllSuggestions()}
               direction="up"
               compact
             />
@@ -1587,6 +2016,27 @@ function App() {
 
         <HelpModal isOpen={isHelpOpen} onClose={() => setIsHelpOpen(false)} />
 
+        {historyFilePath && (
+          <FileHistoryDrawer
+            key={historyFilePath}
+            filePath={historyFilePath}
+            onClose={() => setHistoryFilePath(null)}
+            diffMode={diffMode}
+            syntaxTheme={settings.syntaxTheme}
+          />
+        )}
+
+        {diffData.commitAvailable && (
+          <CommitModal
+            key={isCommitOpen ? 'open' : 'closed'}
+            isOpen={isCommitOpen}
+            onClose={() => setIsCommitOpen(false)}
+            initialMessage={buildCommitMessageDraft(diffData.files)}
+            includesUnstagedChanges={diffData.requestedTargetCommitish === '.'}
+            onCommit={handleCommit}
+          />
+        )}
+
         <CommentsListModal
           isOpen={isCommentsListOpen}
           onClose={() => setIsCommentsListOpen(false)}
@@ -1598,10 +2048,21 @@ function App() {
           onReplyToThread={handleReplyToThread}
           onRemoveMessage={removeMessage}
           onUpdateMessage={updateMessage}
+          onApplySuggestion={canApplySuggestions ? handleApplySuggestion : undefined}
           syntaxTheme={settings.syntaxTheme}
         />
+        {isSearchOpen && (
+          <DiffSearchPanel
+            options={searchOptions}
+            onOptionsChange={setSearchOptions}
+            results={searchResults}
+            error={searchError}
+            onSelectMatch={handleSelectSearchMatch}
+            onClose={() => setIsSearchOpen(false)}
+          />
+        )}
       </div>
-    </WordHighlightProvider>
+    </DiffViewProviders>
   );
 }
 
@@ -0,0 +1,35 @@
+import type { BlameCommit } from '../../types/diff';
+import { formatBlameDate, isUncommittedBlame, type BlameGutterEntry } from '../utils/blame';
+
+interface BlameGutterCellProps {
+  entry: BlameGutterEntry | null;
+  onOpenCommit?: (commit: BlameCommit) => void;
+}
+
+export function BlameGutterCell({ entry, onOpenCommit }: BlameGutterCellProps) {
+  const commit = entry?.isRunStart ? entry.commit : null;
+
+  return (
+    <td className="w-64 min-w-64 max-w-64 px-2 text-xs leading-5 text-github-text-muted bg-github-bg-secondary border-r border-github-border select-none align-top overflow-hidden">
+      {commit &&
+        (isUncommittedBlame(commit) ? (
+          <span className="italic">Not committed yet</span>
+        ) : (
+          <button
+            type="button"
+            onClick={(e) => {
+              // Keep the row from treating the click as a line selection
+              e.stopPropagation();
+              onOpenCommit?.(commit);
+            }}
+            className="flex w-full min-w-0 items-baseline gap-2 text-left hover:text-github-text-primary"
+            title={`${commit.shortHash} ${commit.summary}\n${commit.author}, ${formatBlameDate(commit.authorTime)}`}
+          >
+            <span className="shrink-0 font-mono">{formatBlameDate(commit.authorTime)}</span>
+            <span className="shrink-0 max-w-[6rem] truncate">{commit.author}</span>
+            <span className="min-w-0 truncate">{commit.summary}</span>
+          </button>
+        ))}
+    </td>
+  );
+}
@@ -3,6 +3,7 @@ import userEvent from '@testing-library/user-event';
 import { describe, expect, it, vi } from 'vitest';
 
 import type { CommentThread } from '../../types/diff';
+import { WordHighlightProvider } from '../contexts/WordHighlightContext';
 
 import { CommentThreadCard } from './CommentThreadCard';
 
@@ -417,4 +418,60 @@ describe('CommentThreadCard', () => {
 
     expect(onRemoveMessage).toHaveBeenCalledWith('thread-1', 'message-2');
   });
+
+  describe('apply suggestion', () => {
+    const suggestionThread: CommentThread = {
+      ...mockThread,
+      messages: [{ ...mockThread.messages[0]!, body: '```suggestion\nconst value = 2;\n```' }],
+    };
+
+    const renderCard = (thread: CommentThread, onApplySuggestion?: () => Promise<void>) =>
+      render(
+        <WordHighlightProvider>
+          <CommentThreadCard
+            thread={thread}
+            onGeneratePrompt={() => 'thread prompt'}
+            onRemoveThread={vi.fn()}
+            onReplyToThread={vi.fn().mockResolvedValue(undefined)}
+            onRemoveMessage={vi.fn()}
+            onUpdateMessage={vi.fn()}
+            onApplySuggestion={onApplySuggestion}
+          />
+        </WordHighlightProvider>,
+      );
+
+    it('only offers the action for threads with an applicable suggestion', () => {
+      const { unmount } = renderCard(mockThread, vi.fn().mockResolvedValue(undefined));
+      expect(screen.queryByRole('button', { name: /Apply suggestion/ })).not.toBeInTheDocument();
+      unmount();
+
+      renderCard(suggestionThread);
+      expect(screen.queryByRole('button', { name: /Apply suggestion/ })).not.toBeInTheDocument();
+    });
+
+    it('applies the suggestion of the thread', async () => {
+      const user = userEvent.setup();
+      const onApplySuggestion = vi.fn().mockResolvedValue(undefined);
+      renderCard(suggestionThread, onApplySuggestion);
+
+      await user.click(screen.getByRole('button', { name: /Apply suggestion/ }));
+
+      expect(onApplySuggestion).toHaveBeenCalledWith(suggestionThread);
+      expect(await screen.findByText('Applied!')).toBeInTheDocument();
+    });
+
+    it('shows why a suggestion could not be applied', async () => {
+      const user = userEvent.setup();
+      renderCard(
+        suggestionThread,
+        vi.fn().mockRejectedValue(new Error('File has changed since the comment was made')),
+      );
+
+      await user.click(screen.getByRole('button', { name: /Apply suggestion/ }));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent(
+        'File has changed since the comment was made',
+      );
+    });
+  });
 });
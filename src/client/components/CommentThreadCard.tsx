@@ -1,9 +1,19 @@
-import { Check, ChevronDown, ChevronRight, Copy, Edit2, MessageSquare, Trash2 } from 'lucide-react';
+import {
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Edit2,
+  MessageSquare,
+  Trash2,
+  Wand2,
+} from 'lucide-react';
 import React, { useEffect, useRef, useState } from 'react';
 
 import { type CommentThread, type DiffCommentMessage } from '../../types/diff';
 import { useClickOutside } from '../hooks/useClickOutside';
 import { copyTextToClipboard } from '../utils/clipboard';
+import { getSuggestionApplyRequest } from '../utils/suggestionApply';
 
 import { CommentBodyRenderer } from './CommentBodyRenderer';
 import { CommentForm } from './CommentForm';
@@ -196,6 +206,7 @@ interface CommentThreadCardProps {
   onReplyToThread: (threadId: string, body: string) => Promise<void>;
   onRemoveMessage: (threadId: string, messageId: string) => void;
   onUpdateMessage: (threadId: string, messageId: string, newBody: string) => void;
+  onApplySuggestion?: (thread: CommentThread) => Promise<void>;
   onClick?: (e: React.MouseEvent) => void;
   syntaxTheme?: AppearanceSettings['syntaxTheme'];
 }
@@ -209,10 +220,13 @@ export function CommentThreadCard({
   onReplyToThread,
   onRemoveMessage,
   onUpdateMessage,
+  onApplySuggestion,
   onClick,
   syntaxTheme,
 }: CommentThreadCardProps) {
   const [isCopied, setIsCopied] = useState(false);
+  const [applyState, setApplyState] = useState<'idle' | 'applying' | 'applied'>('idle');
+  const [applyError, setApplyError] = useState<string | null>(null);
   const [isReplying, setIsReplying] = useState(false);
   const [isCollapsed, setIsCollapsed] = useState(false);
   const lineLabel = Array.isArray(thread.line)
@@ -236,8 +250,24 @@ export function CommentThreadCard({
     }
   };
 
+  const handleApplySuggestion = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!onApplySuggestion) return;
+    setApplyState('applying');
+    setApplyError(null);
+    try {
+      await onApplySuggestion(thread);
+      setApplyState('applied');
+      setTimeout(() => setApplyState('idle'), 2000);
+    } catch (error) {
+      setApplyState('idle');
+      setApplyError(error instanceof Error ? error.message : 'Failed to apply suggestion');
+    }
+  };
+
   const rootMessage = thread.messages[0];
   if (!rootMessage) return null;
+  const canApplySuggestion = Boolean(onApplySuggestion && getSuggestionApplyRequest(thread));
 
   return (
     <div
@@ -299,6 +329,24 @@ export function CommentThreadCard({
         </div>
         {!isCollapsed && (
           <div className="flex items-center gap-2">
+            {canApplySuggestion && (
+              <button
+                type="button"
+                onClick={handleApplySuggestion}
+                disabled={applyState === 'applying'}
+                className="whitespace-nowrap rounded border border-github-border bg-github-bg-secondary px-2 py-1 text-xs text-github-text-primary transition-all hover:bg-github-bg-primary disabled:opacity-50"
+                title="Replace the commented lines in the working tree with the suggestion"
+              >
+                <span className="inline-flex items-center gap-1">
+                  {applyState === 'applied' ? <Check size={12} /> : <Wand2 size={12} />}
+                  {applyState === 'applied'
+                    ? 'Applied!'
+                    : applyState === 'applying'
+                      ? 'Applying...'
+                      : 'Apply suggestion'}
+                </span>
+              </button>
+            )}
             <button
               type="button"
               onClick={handleCopyThread}
@@ -321,6 +369,11 @@ export function CommentThreadCard({
 
       {!isCollapsed && (
         <div className="space-y-3">
+          {applyError && (
+            <p className="text-xs text-github-danger" role="alert">
+              {applyError}
+            </p>
+          )}
           <ThreadMessageItem
             message={rootMessage}
             isRootMessage={true}
@@ -1,4 +1,4 @@
-import { Copy, Eraser, ChevronDown, Check, List } from 'lucide-react';
+import { Copy, Eraser, ChevronDown, Check, List, Wand2 } from 'lucide-react';
 import { useState, useRef } from 'react';
 
 import { useClickOutside } from '../hooks/useClickOutside';
@@ -9,6 +9,8 @@ interface CommentsDropdownProps {
   onCopyAll: () => void;
   onDeleteAll: () => void;
   onViewAll?: () => void;
+  suggestionsCount?: number;
+  onApplyAllSuggestions?: () => void;
   direction?: 'down' | 'up';
   compact?: boolean;
 }
@@ -19,6 +21,8 @@ export function CommentsDropdown({
   onCopyAll,
   onDeleteAll,
   onViewAll,
+  suggestionsCount = 0,
+  onApplyAllSuggestions,
   direction = 'down',
   compact = false,
 }: CommentsDropdownProps) {
@@ -39,6 +43,11 @@ export function CommentsDropdown({
     setIsOpen(false);
   };
 
+  const handleApplyAllSuggestions = () => {
+    onApplyAllSuggestions?.();
+    setIsOpen(false);
+  };
+
   const handleViewAll = () => {
     onViewAll?.();
     setIsOpen(false);
@@ -127,6 +136,15 @@ export function CommentsDropdown({
               View All Comments
             </button>
           )}
+          {onApplyAllSuggestions && suggestionsCount > 0 && (
+            <button
+              onClick={handleApplyAllSuggestions}
+              className="w-full text-left px-3 py-2 text-xs flex items-center gap-2 text-github-text-primary hover:bg-github-bg-tertiary transition-colors"
+            >
+              <Wand2 size={12} />
+              Apply All Suggestions ({suggestionsCount})
+            </button>
+          )}
           <button
             onClick={handleDeleteAll}
             className="w-full text-left px-3 py-2 text-xs flex items-center gap-2 text-github-text-primary hover:bg-github-bg-tertiary transition-colors"
@@ -0,0 +1,62 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { HotkeysProvider } from 'react-hotkeys-hook';
+import { describe, expect, it, vi } from 'vitest';
+
+import { CommitModal } from './CommitModal';
+
+const renderModal = (onCommit = vi.fn().mockResolvedValue(undefined), onClose = vi.fn()) => {
+  render(
+    <HotkeysProvider>
+      <CommitModal
+        isOpen
+        onClose={onClose}
+        initialMessage="Update src/example.ts"
+        onCommit={onCommit}
+      />
+    </HotkeysProvider>,
+  );
+  return { onCommit, onClose };
+};
+
+describe('CommitModal', () => {
+  it('commits the edited message with the chosen options', async () => {
+    const { onCommit, onClose } = renderModal();
+
+    expect(screen.getByRole('textbox', { name: 'Commit message' })).toHaveValue(
+      'Update src/example.ts',
+    );
+    fireEvent.change(screen.getByRole('textbox', { name: 'Commit message' }), {
+      target: { value: 'Fix the example' },
+    });
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Add Signed-off-by' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Commit' }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(onCommit).toHaveBeenCalledWith({
+      message: 'Fix the example',
+      amend: false,
+      signoff: true,
+    });
+  });
+
+  it('keeps the modal open and shows hook output when the commit fails', async () => {
+    const { onClose } = renderModal(
+      vi.fn().mockRejectedValue(new Error('pre-commit: lint failed\nsrc/example.ts:1')),
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Commit' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('pre-commit: lint failed');
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('disables committing with an empty message', () => {
+    renderModal();
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Commit message' }), {
+      target: { value: '   ' },
+    });
+
+    expect(screen.getByRole('button', { name: 'Commit' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,127 @@
+import { GitCommitHorizontal, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useHotkeysContext } from 'react-hotkeys-hook';
+
+import type { CommitRequest } from '../../types/diff';
+
+import { Checkbox } from './Checkbox';
+
+interface CommitModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialMessage: string;
+  // In `.` mode the diff also shows unstaged edits, which git commit leaves out
+  includesUnstagedChanges?: boolean;
+  onCommit: (request: CommitRequest) => Promise<void>;
+}
+
+export function CommitModal({
+  isOpen,
+  onClose,
+  initialMessage,
+  includesUnstagedChanges = false,
+  onCommit,
+}: CommitModalProps) {
+  const [message, setMessage] = useState(initialMessage);
+  const [amend, setAmend] = useState(false);
+  const [signoff, setSignoff] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { enableScope, disableScope } = useHotkeysContext();
+
+  useEffect(() => {
+    if (isOpen) {
+      disableScope('navigation');
+    } else {
+      enableScope('navigation');
+    }
+
+    return () => {
+      enableScope('navigation');
+    };
+  }, [isOpen, enableScope, disableScope]);
+
+  if (!isOpen) return null;
+
+  const handleCommit = async () => {
+    setIsCommitting(true);
+    setError(null);
+    try {
+      await onCommit({ message, amend, signoff });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to commit');
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <div className="relative bg-github-bg-secondary border border-github-border rounded-lg shadow-lg w-full max-w-2xl mx-4">
+        <div className="flex items-center justify-between p-4 border-b border-github-border">
+          <h2 className="text-lg font-semibold text-github-text-primary">Commit</h2>
+          <button
+            onClick={onClose}
+            className="text-github-text-secondary hover:text-github-text-primary p-1"
+            aria-label="Close commit"
+          >
+            <X size={18} />
+          </button>
+        </div>
+        <div className="p-4 space-y-4">
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && message.trim()) {
+                e.preventDefault();
+                void handleCommit();
+              }
+            }}
+            aria-label="Commit message"
+            rows={10}
+            className="w-full resize-y rounded border border-github-border bg-github-bg-primary p-2 font-mono text-sm text-github-text-primary focus:border-github-accent focus:outline-none"
+            autoFocus
+          />
+          {includesUnstagedChanges && (
+            <p className="text-xs text-github-text-secondary">
+              Only staged changes are committed; unstaged edits stay in the working tree.
+            </p>
+          )}
+          <div className="flex items-center gap-4">
+            <Checkbox checked={amend} onChange={setAmend} label="Amend previous commit" />
+            <Checkbox checked={signoff} onChange={setSignoff} label="Add Signed-off-by" />
+          </div>
+          {error && (
+            <pre
+              className="max-h-48 overflow-auto whitespace-pre-wrap rounded border border-github-danger/50 bg-github-bg-primary p-2 text-xs text-github-danger"
+              role="alert"
+            >
+              {error}
+            </pre>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 text-xs font-medium rounded border border-github-border text-github-text-secondary hover:text-github-text-primary transition-colors"
+              type="button"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => void handleCommit()}
+              disabled={isCommitting || message.trim() === ''}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded bg-github-accent text-white hover:bg-github-accent/90 transition-colors disabled:opacity-50"
+              type="button"
+            >
+              <GitCommitHorizontal size={14} aria-hidden="true" />
+              {isCommitting ? 'Committing...' : 'Commit'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
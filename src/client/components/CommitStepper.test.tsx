@@ -0,0 +1,112 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { type CommitRangeResponse } from '../../types/diff';
+import { EMPTY_TREE_HASH } from '../../utils/diffSelection';
+
+import { CommitStepper } from './CommitStepper';
+
+const range: CommitRangeResponse = {
+  baseCommitish: 'main',
+  targetCommitish: 'feature',
+  commits: [
+    { hash: '1111111aaaa', shortHash: '1111111', message: 'Add parser' },
+    { hash: '2222222bbbb', shortHash: '2222222', message: 'Handle empty input' },
+    { hash: '3333333cccc', shortHash: '3333333', message: 'Document parser' },
+  ],
+};
+
+describe('CommitStepper', () => {
+  it('starts stepping from the first commit when viewing the combined diff', () => {
+    const onSelectDiff = vi.fn();
+
+    render(
+      <CommitStepper
+        range={range}
+        selection={{ baseCommitish: 'main', targetCommitish: 'feature', baseMode: 'merge-base' }}
+        onSelectDiff={onSelectDiff}
+      />,
+    );
+
+    expect(screen.getByRole('button', { name: /Combined/ })).toHaveAttribute(
+      'aria-pressed',
+      'true',
+    );
+    expect(screen.getByText('3 commits')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Previous commit' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next commit' }));
+
+    expect(onSelectDiff).toHaveBeenCalledWith({
+      baseCommitish: '1111111^',
+      targetCommitish: '1111111',
+    });
+  });
+
+  it('compares a root commit with the empty tree', () => {
+    const onSelectDiff = vi.fn();
+    const rootCommit = {
+      hash: '0000000dddd',
+      shortHash: '0000000',
+      message: 'Initial',
+      isRoot: true,
+    };
+
+    render(
+      <CommitStepper
+        range={{ ...range, commits: [rootCommit, ...range.commits] }}
+        selection={{ baseCommitish: '1111111^', targetCommitish: '1111111' }}
+        onSelectDiff={onSelectDiff}
+      />,
+    );
+
+    expect(screen.getByText('2/4')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Previous commit' }));
+
+    expect(onSelectDiff).toHaveBeenCalledWith({
+      baseCommitish: EMPTY_TREE_HASH,
+      targetCommitish: '0000000',
+    });
+  });
+
+  it('steps to neighbouring commits and back to the combined view', () => {
+    const onSelectDiff = vi.fn();
+
+    render(
+      <CommitStepper
+        range={range}
+        selection={{ baseCommitish: '2222222^', targetCommitish: '2222222' }}
+        onSelectDiff={onSelectDiff}
+      />,
+    );
+
+    expect(screen.getByText('2/3')).toBeInTheDocument();
+    expect(screen.getByText('Handle empty input')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Previous commit' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Next commit' }));
+    fireEvent.click(screen.getByRole('button', { name: /Combined/ }));
+
+    expect(onSelectDiff.mock.calls).toEqual([
+      [{ baseCommitish: '1111111^', targetCommitish: '1111111' }],
+      [{ baseCommitish: '3333333^', targetCommitish: '3333333' }],
+      [{ baseCommitish: 'main', targetCommitish: 'feature', baseMode: 'merge-base' }],
+    ]);
+  });
+
+  it('disables the next button on the last commit', () => {
+    render(
+      <CommitStepper
+        range={range}
+        selection={{ baseCommitish: '3333333^', targetCommitish: '3333333' }}
+        onSelectDiff={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByRole('button', { name: 'Next commit' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: /By commit/ })).toHaveAttribute(
+      'aria-pressed',
+      'true',
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { ChevronLeft, ChevronRight, GitCommitHorizontal, Layers } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { type CommitInfo, type CommitRangeResponse, type DiffSelection } from '../../types/diff';
+import {
+  createDiffSelection,
+  diffSelectionsEqual,
+  EMPTY_TREE_HASH,
+} from '../../utils/diffSelection';
+
+interface CommitStepperProps {
+  range: CommitRangeResponse;
+  selection: DiffSelection;
+  onSelectDiff: (selection: DiffSelection) => void;
+  compact?: boolean;
+}
+
+// Same pair the quick menu uses for a single commit, so both stay in sync
+// and comments made on a commit stay keyed to that commit. A root commit has
+// no `^`, so it is compared with the empty tree.
+const getCommitSelection = (commit: CommitInfo): DiffSelection =>
+  createDiffSelection(commit.isRoot ? EMPTY_TREE_HASH : `${commit.shortHash}^`, commit.shortHash);
+
+export function CommitStepper({
+  range,
+  selection,
+  onSelectDiff,
+  compact = false,
+}: CommitStepperProps) {
+  const { commits } = range;
+  const [lastStepIndex, setLastStepIndex] = useState(0);
+
+  const combinedSelection = useMemo(
+    () => createDiffSelection(range.baseCommitish, range.targetCommitish, 'merge-base'),
+    [range.baseCommitish, range.targetCommitish],
+  );
+  const isCombined = diffSelectionsEqual(selection, combinedSelection);
+  const currentIndex = commits.findIndex((commit) =>
+    diffSelectionsEqual(selection, getCommitSelection(commit)),
+  );
+  const currentCommit = currentIndex >= 0 ? commits[currentIndex] : undefined;
+
+  const selectCommit = (index: number) => {
+    const commit = commits[index];
+    if (!commit) return;
+    setLastStepIndex(index);
+    onSelectDiff(getCommitSelection(commit));
+  };
+
+  const getToggleClasses = (active: boolean) =>
+    `px-2 py-1 text-xs font-medium rounded transition-all duration-200 flex items-center gap-1.5 cursor-pointer ${
+      active
+        ? 'bg-github-bg-primary text-github-text-primary shadow-sm'
+        : 'text-github-text-secondary hover:text-github-text-primary'
+    }`;
+  const stepButtonClasses =
+    'p-1 rounded text-github-text-secondary hover:text-github-text-primary hover:bg-github-bg-tertiary disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent cursor-pointer transition-colors';
+
+  const rangeLabel = `${range.baseCommitish}..${range.targetCommitish}`;
+  const positionLabel = currentCommit
+    ? `${currentIndex + 1}/${commits.length}`
+    : `${commits.length} commit${commits.length === 1 ? '' : 's'}`;
+
+  return (
+    <div className="flex items-center gap-1" role="group" aria-label="Commit stepper">
+      <div className="flex bg-github-bg-tertiary border border-github-border rounded-md p-0.5">
+        <button
+          type="button"
+          onClick={() => onSelectDiff(combinedSelection)}
+          className={getToggleClasses(isCombined)}
+          aria-pressed={isCombined}
+          title={`Show all commits of ${rangeLabel} combined`}
+        >
+          <Layers size={12} />
+          {!compact && 'Combined'}
+        </button>
+        <button
+          type="button"
+          onClick={() => selectCommit(currentCommit ? currentIndex : lastStepIndex)}
+          className={getToggleClasses(Boolean(currentCommit))}
+          aria-pressed={Boolean(currentCommit)}
+          title={`Review ${rangeLabel} one commit at a time`}
+        >
+          <GitCommitHorizontal size={12} />
+          {!compact && 'By commit'}
+        </button>
+      </div>
+      <button
+        type="button"
+        onClick={() => selectCommit(currentIndex - 1)}
+        disabled={currentIndex <= 0}
+        className={stepButtonClasses}
+        aria-label="Previous commit"
+        title="Previous commit"
+      >
+        <ChevronLeft size={14} />
+      </button>
+      <span
+        className="flex items-center gap-1.5 text-xs max-w-[280px]"
+        title={currentCommit ? `${currentCommit.shortHash} ${currentCommit.message}` : rangeLabel}
+      >
+        <span className="text-github-text-muted whitespace-nowrap">{positionLabel}</span>
+        {currentCommit && (
+          <>
+            <code className="text-github-text-primary font-mono">{currentCommit.shortHash}</code>
+            {!compact && (
+              <span className="text-github-text-secondary truncate">{currentCommit.message}</span>
+            )}
+          </>
+        )}
+      </span>
+      <button
+        type="button"
+        onClick={() => selectCommit(currentCommit ? currentIndex + 1 : 0)}
+        disabled={currentIndex >= commits.length - 1}
+        className={stepButtonClasses}
+        aria-label="Next commit"
+        title="Next commit"
+      >
+        <ChevronRight size={14} />
+      </button>
+    </div>
+  );
+}
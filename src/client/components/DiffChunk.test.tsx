@@ -4,6 +4,7 @@ import { describe, expect, it, vi } from 'vitest';
 
 import type { DiffChunk as DiffChunkData } from '../../types/diff';
 import { DEFAULT_DIFF_VIEW_MODE } from '../../utils/diffMode';
+import { DiffSearchProvider } from '../contexts/DiffSearchContext';
 import { WordHighlightProvider } from '../contexts/WordHighlightContext';
 
 import { DiffChunk } from './DiffChunk';
@@ -225,3 +226,203 @@ describe('DiffChunk range comments', () => {
     });
   });
 });
+
+describe('DiffChunk hunk actions', () => {
+  const renderChunk = (onHunkAction = vi.fn().mockResolvedValue(undefined)) => {
+    const result = renderWithProviders(
+      <DiffChunk
+        chunk={testChunk}
+        chunkIndex={0}
+        threads={[]}
+        mode="unified"
+        onAddComment={asyncNoop}
+        onGenerateThreadPrompt={() => ''}
+        onRemoveThread={noop}
+        onReplyToThread={asyncNoop}
+        onRemoveMessage={noop}
+        onUpdateMessage={noop}
+        hunkActions={['stage', 'discard']}
+        onHunkAction={onHunkAction}
+        filename="src/example.ts"
+      />,
+    );
+    return { ...result, onHunkAction };
+  };
+
+  it('stages the whole hunk', async () => {
+    const { onHunkAction } = renderChunk();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Stage hunk' }));
+
+    await waitFor(() => {
+      expect(onHunkAction).toHaveBeenCalledWith(testChunk, 'stage', undefined);
+    });
+  });
+
+  it('offers the changed lines of the comment selection', async () => {
+    const { container, onHunkAction } = renderChunk();
+
+    const rows = container.querySelectorAll('[data-diff-line-row="true"]');
+    fireEvent.click(rows[1]!);
+    fireEvent.click(rows[2]!, { shiftKey: true });
+    fireEvent.click(screen.getByRole('button', { name: 'Stage selected lines' }));
+
+    await waitFor(() => {
+      expect(onHunkAction).toHaveBeenCalledWith(testChunk, 'stage', [2]);
+    });
+  });
+
+  it('asks for confirmation before discarding and shows errors', async () => {
+    const { onHunkAction } = renderChunk(
+      vi.fn().mockRejectedValue(new Error('error: patch failed: src/example.ts:10')),
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Discard hunk' }));
+    expect(onHunkAction).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByRole('button', { name: 'Discard' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'error: patch failed: src/example.ts:10',
+    );
+    expect(onHunkAction).toHaveBeenCalledWith(testChunk, 'discard', undefined);
+  });
+});
+
+describe('DiffChunk blame gutter', () => {
+  const blameCommit = {
+    hash: '1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+    shortHash: '1111111',
+    author: 'Alice',
+    authorTime: 1700000000,
+    summary: 'Add constants',
+  };
+  const blame = (lineNumber: number) => (lineNumber <= 11 ? blameCommit : null);
+
+  const renderChunk = (mode: 'unified' | 'split') => {
+    const onOpenBlameCommit = vi.fn();
+    const result = renderWithProviders(
+      <DiffChunk
+        chunk={testChunk}
+        chunkIndex={0}
+        threads={[]}
+        mode={mode}
+        onAddComment={asyncNoop}
+        onGenerateThreadPrompt={() => ''}
+        onRemoveThread={noop}
+        onReplyToThread={asyncNoop}
+        onRemoveMessage={noop}
+        onUpdateMessage={noop}
+        blame={blame}
+        onOpenBlameCommit={onOpenBlameCommit}
+        filename="src/example.ts"
+      />,
+    );
+    return { ...result, onOpenBlameCommit };
+  };
+
+  it.each(['unified', 'split'] as const)(
+    'labels each run of base lines once in %s mode',
+    (mode) => {
+      const { onOpenBlameCommit } = renderChunk(mode);
+
+      const entries = screen.getAllByRole('button', { name: /Add constants/ });
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toHaveTextContent('2023-11-14');
+      expect(entries[0]).toHaveTextContent('Alice');
+
+      fireEvent.click(entries[0]!);
+      expect(onOpenBlameCommit).toHaveBeenCalledWith(blameCommit);
+      expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+    },
+  );
+
+  it('keeps split-view line selection working next to the gutter', () => {
+    const { container } = renderChunk('split');
+
+    const rows = container.querySelectorAll('[data-diff-line-row="true"]');
+    fireEvent.click(rows[0]!.querySelector('td[data-side="new"]')!);
+    fireEvent.click(rows[2]!.querySelector('td[data-side="new"]')!, { shiftKey: true });
+
+    expect(screen.getByRole('textbox')).toBeInTheDocument();
+  });
+});
+
+describe('DiffChunk search highlights', () => {
+  it.each(['unified', 'split'] as const)(
+    'marks matches on lines in the search scope in %s mode',
+    (mode) => {
+      const { container } = render(
+        <WordHighlightProvider>
+          <DiffSearchProvider pattern={/second|third/g} scope="added">
+            <DiffChunk
+              chunk={testChunk}
+              chunkIndex={0}
+              threads={[]}
+              mode={mode}
+              onAddComment={asyncNoop}
+              onGenerateThreadPrompt={() => ''}
+              onRemoveThread={noop}
+              onReplyToThread={asyncNoop}
+              onRemoveMessage={noop}
+              onUpdateMessage={noop}
+              filename="src/example.ts"
+            />
+          </DiffSearchProvider>
+        </WordHighlightProvider>,
+      );
+
+      const marks = Array.from(container.querySelectorAll('mark.search-match'));
+      expect(marks.map((mark) => mark.textContent)).toEqual(['third']);
+    },
+  );
+});
+
+describe('DiffChunk combined diffs', () => {
+  const combinedChunk: DiffChunkData = {
+    header: '@@@ -1,2 -1,2 +1,2 @@@',
+    oldStart: 1,
+    oldLines: 2,
+    newStart: 1,
+    newLines: 2,
+    lines: [
+      {
+        type: 'normal',
+        content: 'shared',
+        oldLineNumber: 1,
+        newLineNumber: 1,
+        parentMarkers: '  ',
+      },
+      { type: 'delete', content: 'TWO side', parentMarkers: ' -' },
+      { type: 'add', content: 'resolved', newLineNumber: 2, parentMarkers: '++' },
+    ],
+  };
+
+  it('marks lines only a later parent had as read-only', () => {
+    const { container } = renderWithProviders(
+      <DiffChunk
+        chunk={combinedChunk}
+        chunkIndex={0}
+        threads={[]}
+        mode="unified"
+        onAddComment={asyncNoop}
+        onGenerateThreadPrompt={() => ''}
+        onRemoveThread={noop}
+        onReplyToThread={asyncNoop}
+        onRemoveMessage={noop}
+        onUpdateMessage={noop}
+        filename="src/example.ts"
+      />,
+    );
+
+    const rows = container.querySelectorAll('[data-diff-line-row="true"]');
+    expect(screen.getByText('^2')).toHaveAttribute(
+      'title',
+      'Only in parent ^2, so it has no line number to comment on',
+    );
+
+    fireEvent.mouseEnter(rows[1]!);
+    expect(container.querySelector('[data-comment-button="true"]')).toBeNull();
+    fireEvent.mouseEnter(rows[2]!);
+    expect(container.querySelector('[data-comment-button="true"]')).not.toBeNull();
+  });
+});
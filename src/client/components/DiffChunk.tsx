@@ -1,16 +1,20 @@
 import React, { useState, useEffect, useCallback, useMemo, memo } from 'react';
 
 import {
+  type BlameCommit,
   type DiffChunk as DiffChunkType,
   type DiffLine,
   type DiffSide,
   type CommentThread,
   type LineNumber,
   type DiffViewMode,
+  type HunkAction,
   type LineSelection,
 } from '../../types/diff';
 import { DEFAULT_DIFF_VIEW_MODE } from '../../utils/diffMode';
 import { type CursorPosition } from '../hooks/keyboardNavigation';
+import { getBlameGutterEntries, type BlameLookup } from '../utils/blame';
+import { getSelectedChangeIndices } from '../utils/hunkActions';
 import {
   computeWordLevelDiff,
   shouldComputeWordDiff,
@@ -20,6 +24,7 @@ import {
 import { CommentForm } from './CommentForm';
 import { CommentThreadCard } from './CommentThreadCard';
 import { DiffLineRow } from './DiffLineRow';
+import { HunkActionBar } from './HunkActionBar';
 import type { AppearanceSettings } from './SettingsModal';
 import { SideBySideDiffChunk } from './SideBySideDiffChunk';
 
@@ -39,6 +44,13 @@ interface DiffChunkProps {
   onReplyToThread: (threadId: string, body: string) => Promise<void>;
   onRemoveMessage: (threadId: string, messageId: string) => void;
   onUpdateMessage: (threadId: string, messageId: string, newBody: string) => void;
+  onApplySuggestion?: (thread: CommentThread) => Promise<void>;
+  hunkActions?: HunkAction[];
+  onHunkAction?: (
+    chunk: DiffChunkType,
+    action: HunkAction,
+    lineIndices?: number[],
+  ) => Promise<void>;
   mode?: DiffViewMode;
   syntaxTheme?: AppearanceSettings['syntaxTheme'];
   cursor?: CursorPosition | null;
@@ -57,6 +69,8 @@ interface DiffChunkProps {
   onCommentTriggerHandled?: () => void;
   filename?: string;
   onOpenInEditor?: (filePath: string, lineNumber: number) => void;
+  blame?: BlameLookup | null;
+  onOpenBlameCommit?: (commit: BlameCommit) => void;
 }
 
 export const DiffChunk = memo(function DiffChunk({
@@ -70,6 +84,9 @@ export const DiffChunk = memo(function DiffChunk({
   onReplyToThread,
   onRemoveMessage,
   onUpdateMessage,
+  onApplySuggestion,
+  hunkActions,
+  onHunkAction,
   mode = DEFAULT_DIFF_VIEW_MODE,
   syntaxTheme,
   cursor = null,
@@ -79,6 +96,8 @@ export const DiffChunk = memo(function DiffChunk({
   onCommentTriggerHandled,
   filename,
   onOpenInEditor,
+  blame,
+  onOpenBlameCommit,
 }: DiffChunkProps) {
   const [startLine, setStartLine] = useState<number | null>(null);
   const [endLine, setEndLine] = useState<number | null>(null);
@@ -271,8 +290,8 @@ export const DiffChunk = memo(function DiffChunk({
   };
 
   const getCommentLayout = (line: DiffLine): 'left' | 'right' | 'full' => {
-    // In unified mode, always use full width for comments
-    if (mode === 'unified') {
+    // In unified and full modes, always use full width for comments
+    if (mode !== 'split') {
       return 'full';
     }
 
@@ -385,6 +404,23 @@ export const DiffChunk = memo(function DiffChunk({
     return map;
   }, [chunk.lines]);
 
+  const selectedChangeIndices = useMemo(
+    () => getSelectedChangeIndices(chunk.lines, commentingLine),
+    [chunk.lines, commentingLine],
+  );
+
+  const blameEntries = useMemo(
+    () =>
+      blame && mode !== 'split'
+        ? getBlameGutterEntries(
+            chunk.lines.map((line) => line.oldLineNumber),
+            blame,
+          )
+        : null,
+    [blame, chunk.lines, mode],
+  );
+  const columnCount = blameEntries ? 4 : 3;
+
   // Use side-by-side component for split mode
   if (mode === 'split') {
     return (
@@ -399,7 +435,12 @@ export const DiffChunk = memo(function DiffChunk({
         onReplyToThread={onReplyToThread}
         onRemoveMessage={onRemoveMessage}
         onUpdateMessage={onUpdateMessage}
+        onApplySuggestion={onApplySuggestion}
+        hunkActions={hunkActions}
+        onHunkAction={onHunkAction}
         onOpenInEditor={onOpenInEditor}
+        blame={blame}
+        onOpenBlameCommit={onOpenBlameCommit}
         syntaxTheme={syntaxTheme}
         cursor={cursor}
         fileIndex={fileIndex}
@@ -413,6 +454,13 @@ export const DiffChunk = memo(function DiffChunk({
 
   return (
     <div className="bg-github-bg-primary">
+      {hunkActions && onHunkAction && (
+        <HunkActionBar
+          actions={hunkActions}
+          selectedLineIndices={selectedChangeIndices}
+          onAction={(action, lineIndices) => onHunkAction(chunk, action, lineIndices)}
+        />
+      )}
       <table className="w-full table-fixed border-collapse font-mono text-sm leading-5">
         <tbody>
           {chunk.lines.map((line, index) => {
@@ -491,6 +539,8 @@ export const DiffChunk = memo(function DiffChunk({
                   syntaxTheme={syntaxTheme}
                   filename={filename}
                   diffSegments={wordLevelDiffMap.get(index)}
+                  blameEntry={blameEntries ? (blameEntries[index] ?? null) : undefined}
+                  onOpenBlameCommit={onOpenBlameCommit}
                   onClick={(e) => {
                     // Determine the side based on line type for unified mode
                     const side = line.type === 'delete' ? 'left' : 'right';
@@ -510,7 +560,7 @@ export const DiffChunk = memo(function DiffChunk({
                   const layout = getCommentLayout(line);
                   return (
                     <tr key={thread.id} className="bg-github-bg-secondary">
-                      <td colSpan={3} className="p-0 border-t border-github-border">
+                      <td colSpan={columnCount} className="p-0 border-t border-github-border">
                         <div
                           className={`flex ${
                             layout === 'left'
@@ -529,6 +579,7 @@ export const DiffChunk = memo(function DiffChunk({
                               onReplyToThread={onReplyToThread}
                               onRemoveMessage={onRemoveMessage}
                               onUpdateMessage={onUpdateMessage}
+                              onApplySuggestion={onApplySuggestion}
                               syntaxTheme={syntaxTheme}
                             />
                           </div>
@@ -542,7 +593,7 @@ export const DiffChunk = memo(function DiffChunk({
                   commentingLine.side === currentLineSide &&
                   formTargetLineNumber === currentLineNumber && (
                     <tr className="bg-[var(--bg-secondary)]">
-                      <td colSpan={3} className="p-0">
+                      <td colSpan={columnCount} className="p-0">
                         <div
                           className={`flex ${
                             getCommentLayout(line) === 'left'
@@ -1,13 +1,16 @@
 import { type DiffLine, type ExpandedLine } from '../../types/diff';
+import { useDiffSearchHighlight } from '../contexts/DiffSearchContext';
 import { useFileLevelTokensLookup } from '../contexts/FileLevelTokensContext';
 import { type DiffSegment } from '../utils/wordLevelDiff';
 
 import { EnhancedPrismSyntaxHighlighter } from './EnhancedPrismSyntaxHighlighter';
+import { MovedLineButton } from './MovedLineButton';
 import type { AppearanceSettings } from './SettingsModal';
 import { WordLevelDiffHighlighter } from './WordLevelDiffHighlighter';
 
 interface DiffCodeLineProps {
-  line: Pick<DiffLine | ExpandedLine, 'type' | 'content' | 'oldLineNumber' | 'newLineNumber'>;
+  line: Pick<DiffLine | ExpandedLine, 'type' | 'content' | 'oldLineNumber' | 'newLineNumber'> &
+    Pick<DiffLine, 'parentMarkers' | 'moved'>;
   syntaxTheme?: AppearanceSettings['syntaxTheme'];
   filename?: string;
   diffSegments?: DiffSegment[];
@@ -25,12 +28,12 @@ const getLinePrefix = (type: DiffLine['type']) => {
   }
 };
 
-const getPrefixClass = (type: DiffLine['type']) => {
+const getPrefixClass = (type: DiffLine['type'], isMoved: boolean) => {
   switch (type) {
     case 'add':
-      return 'text-github-accent bg-diff-addition-bg';
+      return `text-github-accent ${isMoved ? 'bg-diff-moved-bg' : 'bg-diff-addition-bg'}`;
     case 'delete':
-      return 'text-github-danger bg-diff-deletion-bg';
+      return `text-github-danger ${isMoved ? 'bg-diff-moved-bg' : 'bg-diff-deletion-bg'}`;
     default:
       return 'text-github-text-muted bg-github-bg-secondary';
   }
@@ -44,6 +47,8 @@ export function DiffCodeLine({
   showPrefixBorder = true,
 }: DiffCodeLineProps) {
   const { getOldTokens, getNewTokens } = useFileLevelTokensLookup();
+  const { getLineMatchRanges } = useDiffSearchHighlight();
+  const highlightRanges = getLineMatchRanges(line.content, line.type);
   const getPrecomputedTokens = () => {
     const oldSideTokens =
       line.oldLineNumber != null ? (getOldTokens?.(line.oldLineNumber) ?? null) : null;
@@ -61,15 +66,18 @@ export function DiffCodeLine({
   return (
     <div className="flex items-center relative min-h-[16px]">
       <span
-        className={`w-5 text-center flex-shrink-0 ${showPrefixBorder ? 'border-r border-github-border' : ''} ${getPrefixClass(
+        className={`${line.parentMarkers ? 'min-w-5 px-1 whitespace-pre' : 'w-5'} text-center flex-shrink-0 ${showPrefixBorder ? 'border-r border-github-border' : ''} ${getPrefixClass(
           line.type,
+          line.moved !== undefined,
         )}`}
       >
-        {getLinePrefix(line.type)}
+        {/* Combined merge diffs show one column per parent, like `git diff --cc` */}
+        {line.parentMarkers ?? getLinePrefix(line.type)}
       </span>
       {diffSegments ? (
         <WordLevelDiffHighlighter
           segments={diffSegments}
+          highlightRanges={highlightRanges}
           className="flex-1 px-3 text-github-text-primary whitespace-pre-wrap break-all overflow-wrap-break-word select-text"
         />
       ) : (
@@ -79,8 +87,10 @@ export function DiffCodeLine({
           syntaxTheme={syntaxTheme}
           filename={filename}
           precomputedTokens={getPrecomputedTokens()}
+          highlightRanges={highlightRanges}
         />
       )}
+      <MovedLineButton line={line} />
     </div>
   );
 }
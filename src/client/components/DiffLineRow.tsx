@@ -1,8 +1,10 @@
 import React from 'react';
 
-import { type DiffLine, type ExpandedLine } from '../../types/diff';
+import { type BlameCommit, type DiffLine, type ExpandedLine } from '../../types/diff';
+import { type BlameGutterEntry } from '../utils/blame';
 import { type DiffSegment } from '../utils/wordLevelDiff';
 
+import { BlameGutterCell } from './BlameGutterCell';
 import { CommentButton } from './CommentButton';
 import { DiffCodeLine } from './DiffCodeLine';
 import { OpenInEditorButton } from './OpenInEditorButton';
@@ -24,6 +26,9 @@ interface DiffLineRowProps {
   onClick?: (e: React.MouseEvent<HTMLTableRowElement>) => void;
   filename?: string;
   diffSegments?: DiffSegment[];
+  // undefined hides the blame gutter; null renders an empty gutter cell
+  blameEntry?: BlameGutterEntry | null;
+  onOpenBlameCommit?: (commit: BlameCommit) => void;
 }
 
 const getLineClass = (line: DiffLine | ExpandedLine) => {
@@ -31,6 +36,9 @@ const getLineClass = (line: DiffLine | ExpandedLine) => {
   if ('isExpanded' in line && line.isExpanded) {
     return 'bg-github-bg-tertiary/80';
   }
+  if (line.moved) {
+    return 'bg-diff-moved-bg';
+  }
   switch (line.type) {
     case 'add':
       return 'bg-diff-addition-bg';
@@ -41,6 +49,14 @@ const getLineClass = (line: DiffLine | ExpandedLine) => {
   }
 };
 
+// Combined-diff line numbers follow the first parent, so a line only a later parent had
+// carries no number and cannot be commented on. Returns that parent as `^N`.
+const getUnnumberedParent = (line: DiffLine | ExpandedLine) => {
+  if (!line.parentMarkers || line.oldLineNumber || line.newLineNumber) return undefined;
+  const parentIndex = line.parentMarkers.indexOf('-');
+  return parentIndex === -1 ? undefined : `^${parentIndex + 1}`;
+};
+
 export const DiffLineRow: React.FC<DiffLineRowProps> = React.memo(
   ({
     line,
@@ -58,8 +74,11 @@ export const DiffLineRow: React.FC<DiffLineRowProps> = React.memo(
     onClick,
     filename,
     diffSegments,
+    blameEntry,
+    onOpenBlameCommit,
   }) => {
     const lineNumber = line.newLineNumber || line.oldLineNumber;
+    const unnumberedParent = getUnnumberedParent(line);
     const showLineActions = hoveredLineIndex === index && lineNumber;
 
     const highlightClass = isCurrentLine ? 'keyboard-cursor' : '';
@@ -74,8 +93,19 @@ export const DiffLineRow: React.FC<DiffLineRowProps> = React.memo(
         onMouseMove={onMouseMove}
         onClick={onClick}
       >
+        {blameEntry !== undefined && (
+          <BlameGutterCell entry={blameEntry} onOpenCommit={onOpenBlameCommit} />
+        )}
         <td className="w-[var(--line-number-width)] min-w-[var(--line-number-width)] max-w-[var(--line-number-width)] px-2 text-right text-github-text-muted bg-github-bg-secondary border-r border-github-border select-none align-top relative">
-          {line.oldLineNumber || ''}
+          {unnumberedParent ? (
+            <span
+              title={`Only in parent ${unnumberedParent}, so it has no line number to comment on`}
+            >
+              {unnumberedParent}
+            </span>
+          ) : (
+            line.oldLineNumber || ''
+          )}
         </td>
         <td className="w-[var(--line-number-width)] min-w-[var(--line-number-width)] max-w-[var(--line-number-width)] px-2 text-right text-github-text-muted bg-github-bg-secondary border-r border-github-border select-none align-top relative overflow-visible">
           <span>{line.newLineNumber || ''}</span>
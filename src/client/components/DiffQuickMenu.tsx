@@ -18,8 +18,10 @@ import { useEffect, useMemo, useState, type KeyboardEvent } from 'react';
 import { type CommitInfo, type DiffSelection, type RevisionsResponse } from '../../types/diff';
 import {
   createDiffSelection,
+  createStashSelection,
   diffSelectionsEqual,
   normalizeBaseMode,
+  parseStashTarget,
 } from '../../utils/diffSelection';
 
 interface DiffQuickMenuProps {
@@ -171,6 +173,14 @@ export function DiffQuickMenu({
   }, [isOpen]);
 
   const currentLabel = useMemo(() => {
+    const stashTarget = parseStashTarget(selection.targetCommitish);
+    if (
+      stashTarget &&
+      diffSelectionsEqual(selection, createStashSelection(stashTarget.stashRef, stashTarget.part))
+    ) {
+      return `${stashTarget.stashRef} (${stashTarget.part === 'index' ? 'index' : 'working tree'})`;
+    }
+
     const currentSelectionIsPreviousPair = isPreviousPair(selection);
     const commitMatch = options.commits.find((commit) => {
       if (!currentSelectionIsPreviousPair) return false;
@@ -0,0 +1,94 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { DiffSearchFileResult, DiffSearchMatch, DiffSearchOptions } from '../utils/diffSearch';
+
+import { DiffSearchPanel } from './DiffSearchPanel';
+
+const options: DiffSearchOptions = {
+  query: 'value',
+  scope: 'all',
+  isRegex: false,
+  isCaseSensitive: false,
+};
+
+const results: DiffSearchFileResult[] = [
+  {
+    filePath: 'src/a.ts',
+    matches: [
+      {
+        side: 'old',
+        lineNumber: 3,
+        lineType: 'delete',
+        content: 'return value;',
+        ranges: [[7, 12]],
+      },
+      { side: 'new', lineNumber: 4, lineType: 'add', content: 'value++', ranges: [[0, 5]] },
+    ],
+  },
+  {
+    filePath: 'src/b.ts',
+    matches: [
+      { side: 'new', lineNumber: 9, lineType: 'normal', content: 'value', ranges: [[0, 5]] },
+    ],
+  },
+];
+
+const renderPanel = (overrides: Partial<React.ComponentProps<typeof DiffSearchPanel>> = {}) => {
+  const props = {
+    options,
+    onOptionsChange: vi.fn(),
+    results,
+    error: null,
+    onSelectMatch: vi.fn(),
+    onClose: vi.fn(),
+    ...overrides,
+  };
+  render(<DiffSearchPanel {...props} />);
+  return props;
+};
+
+describe('DiffSearchPanel', () => {
+  it('lists matches grouped by file and jumps to a clicked match', () => {
+    const { onSelectMatch } = renderPanel();
+
+    expect(screen.getByText('3 matches in 2 files')).toBeInTheDocument();
+    expect(screen.getByText('src/a.ts')).toBeInTheDocument();
+    expect(screen.getByText('src/b.ts')).toBeInTheDocument();
+
+    const matchButton = screen
+      .getAllByRole('button')
+      .find((button) => button.textContent === '4+value++');
+    fireEvent.click(matchButton!);
+    expect(onSelectMatch).toHaveBeenCalledWith('src/a.ts', results[0]!.matches[1]);
+  });
+
+  it('walks through matches with Enter and closes with Escape', () => {
+    const onSelectMatch = vi.fn<(filePath: string, match: DiffSearchMatch) => void>();
+    const { onClose } = renderPanel({ onSelectMatch });
+    const input = screen.getByRole('textbox', { name: 'Search query' });
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    fireEvent.keyDown(input, { key: 'Enter', shiftKey: true });
+
+    expect(onSelectMatch.mock.calls.map(([, match]) => match.lineNumber)).toEqual([3, 4, 3]);
+
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('updates the options and shows pattern errors', () => {
+    const { onOptionsChange } = renderPanel({ error: 'Invalid regular expression: /(/' });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Use regular expression' }));
+    expect(onOptionsChange).toHaveBeenCalledWith({ ...options, isRegex: true });
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Lines to search' }), {
+      target: { value: 'added' },
+    });
+    expect(onOptionsChange).toHaveBeenCalledWith({ ...options, scope: 'added' });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Invalid regular expression');
+  });
+});
@@ -0,0 +1,198 @@
+import { CaseSensitive, Regex, Search, X } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+
+import {
+  MAX_DIFF_SEARCH_MATCHES,
+  splitByMatchRanges,
+  type DiffSearchFileResult,
+  type DiffSearchMatch,
+  type DiffSearchOptions,
+  type DiffSearchScope,
+} from '../utils/diffSearch';
+
+interface DiffSearchPanelProps {
+  options: DiffSearchOptions;
+  onOptionsChange: (options: DiffSearchOptions) => void;
+  results: DiffSearchFileResult[];
+  error: string | null;
+  onSelectMatch: (filePath: string, match: DiffSearchMatch) => void;
+  onClose: () => void;
+}
+
+const SCOPE_LABELS = new Map<DiffSearchScope, string>([
+  ['all', 'All lines'],
+  ['added', 'Added'],
+  ['removed', 'Removed'],
+  ['context', 'Context'],
+]);
+
+const getMatchPrefix = (match: DiffSearchMatch) =>
+  match.lineType === 'add' ? '+' : match.side === 'old' ? '-' : ' ';
+
+export function DiffSearchPanel({
+  options,
+  onOptionsChange,
+  results,
+  error,
+  onSelectMatch,
+  onClose,
+}: DiffSearchPanelProps) {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const flatMatches = useMemo(
+    () => results.flatMap(({ filePath, matches }) => matches.map((match) => ({ filePath, match }))),
+    [results],
+  );
+
+  useEffect(() => {
+    setActiveIndex(null);
+  }, [results]);
+
+  const selectMatch = (index: number) => {
+    const entry = flatMatches[index];
+    if (!entry) return;
+    setActiveIndex(index);
+    onSelectMatch(entry.filePath, entry.match);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'Enter' && flatMatches.length > 0) {
+      e.preventDefault();
+      // Enter walks forward through the matches, Shift+Enter backward, wrapping around
+      const step = e.shiftKey ? -1 : 1;
+      const start = activeIndex ?? (e.shiftKey ? 0 : -1);
+      selectMatch((start + step + flatMatches.length) % flatMatches.length);
+    }
+  };
+
+  const toggleButtonClass = (isActive: boolean) =>
+    `p-1 rounded border transition-colors ${
+      isActive
+        ? 'border-github-accent text-github-accent bg-github-bg-primary'
+        : 'border-transparent text-github-text-secondary hover:text-github-text-primary'
+    }`;
+
+  let flatIndex = 0;
+
+  return (
+    <div
+      className="fixed right-4 top-20 z-40 flex max-h-[70vh] w-[28rem] max-w-[calc(100vw-2rem)] flex-col rounded-lg border border-github-border bg-github-bg-secondary shadow-lg"
+      role="search"
+      aria-label="Search diff"
+    >
+      <div className="flex items-center gap-2 border-b border-github-border p-3">
+        <Search size={14} className="shrink-0 text-github-text-secondary" aria-hidden="true" />
+        <input
+          type="text"
+          value={options.query}
+          onChange={(e) => onOptionsChange({ ...options, query: e.target.value })}
+          onKeyDown={handleKeyDown}
+          placeholder="Search the diff"
+          aria-label="Search query"
+          className="min-w-0 flex-1 rounded border border-github-border bg-github-bg-primary px-2 py-1 text-sm text-github-text-primary focus:border-github-accent focus:outline-none"
+          autoFocus
+        />
+        <button
+          type="button"
+          onClick={() => onOptionsChange({ ...options, isCaseSensitive: !options.isCaseSensitive })}
+          className={toggleButtonClass(options.isCaseSensitive)}
+          title="Match case"
+          aria-pressed={options.isCaseSensitive}
+        >
+          <CaseSensitive size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={() => onOptionsChange({ ...options, isRegex: !options.isRegex })}
+          className={toggleButtonClass(options.isRegex)}
+          title="Use regular expression"
+          aria-pressed={options.isRegex}
+        >
+          <Regex size={16} />
+        </button>
+        <button
+          onClick={onClose}
+          className="p-1 text-github-text-secondary hover:text-github-text-primary"
+          aria-label="Close search"
+        >
+          <X size={16} />
+        </button>
+      </div>
+      <div className="flex items-center justify-between gap-2 border-b border-github-border px-3 py-2 text-xs text-github-text-secondary">
+        <select
+          value={options.scope}
+          onChange={(e) =>
+            onOptionsChange({ ...options, scope: e.target.value as DiffSearchScope })
+          }
+          aria-label="Lines to search"
+          className="rounded border border-github-border bg-github-bg-tertiary p-1 text-xs text-github-text-primary"
+        >
+          {Array.from(SCOPE_LABELS, ([scope, label]) => (
+            <option key={scope} value={scope}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {options.query !== '' && !error && (
+          <span>
+            {flatMatches.length >= MAX_DIFF_SEARCH_MATCHES
+              ? `First ${MAX_DIFF_SEARCH_MATCHES} matches`
+              : `${flatMatches.length} ${flatMatches.length === 1 ? 'match' : 'matches'}`}{' '}
+            in {results.length} {results.length === 1 ? 'file' : 'files'}
+          </span>
+        )}
+      </div>
+      {error && (
+        <p className="px-3 py-2 text-xs text-github-danger" role="alert">
+          {error}
+        </p>
+      )}
+      <div className="min-h-0 flex-1 overflow-y-auto">
+        {results.map(({ filePath, matches }) => (
+          <div key={filePath}>
+            <div className="sticky top-0 truncate bg-github-bg-tertiary px-3 py-1 font-mono text-xs text-github-text-primary">
+              {filePath}
+            </div>
+            <ul>
+              {matches.map((match) => {
+                const index = flatIndex++;
+                return (
+                  <li key={`${match.side}:${match.lineNumber}`}>
+                    <button
+                      type="button"
+                      onClick={() => selectMatch(index)}
+                      aria-current={index === activeIndex}
+                      className={`flex w-full gap-2 px-3 py-1 text-left font-mono text-xs hover:bg-github-bg-tertiary ${
+                        index === activeIndex ? 'bg-github-bg-tertiary' : ''
+                      }`}
+                    >
+                      <span className="w-10 shrink-0 text-right text-github-text-muted">
+                        {match.lineNumber}
+                      </span>
+                      <span className="shrink-0 text-github-text-muted">
+                        {getMatchPrefix(match)}
+                      </span>
+                      <span className="min-w-0 truncate whitespace-pre text-github-text-primary">
+                        {splitByMatchRanges(match.content, 0, match.ranges).map((part, partIndex) =>
+                          part.isMatch ? (
+                            <mark key={partIndex} className="search-match">
+                              {part.text}
+                            </mark>
+                          ) : (
+                            part.text
+                          ),
+                        )}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
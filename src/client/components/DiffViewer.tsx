@@ -1,15 +1,20 @@
 import React, { useState, useEffect, useRef, useCallback, memo } from 'react';
 
 import {
+  type BlameCommit,
+  type DiffChunk,
   type DiffFile,
   type DiffViewMode,
   type DiffSide,
   type CommentThread,
+  type HunkAction,
   type LineNumber,
 } from '../../types/diff';
+import { isStdinRef } from '../../utils/diffSelection';
 import { FileLevelTokensProvider } from '../contexts/FileLevelTokensContext';
 import { type CursorPosition } from '../hooks/keyboardNavigation';
 import { type MergedChunk } from '../hooks/useExpandedLines';
+import { useFileBlame } from '../hooks/useFileBlame';
 import { useFileLevelTokens } from '../hooks/useFileLevelTokens';
 import { isWholeFileHighlightExtension } from '../utils/languageDetection';
 import { getViewerForFile } from '../viewers/registry';
@@ -17,6 +22,7 @@ import type { DiffViewerBodyProps } from '../viewers/types';
 
 import { DiffViewerHeader } from './DiffViewerHeader';
 import type { AppearanceSettings } from './SettingsModal';
+import { SubmoduleDiffViewer } from './SubmoduleDiffViewer';
 
 interface DiffViewerProps {
   file: DiffFile;
@@ -41,7 +47,18 @@ interface DiffViewerProps {
   onReplyToThread: (threadId: string, body: string) => Promise<void>;
   onRemoveMessage: (threadId: string, messageId: string) => void;
   onUpdateMessage: (threadId: string, messageId: string, newBody: string) => void;
+  onApplySuggestion?: (thread: CommentThread) => Promise<void>;
+  hunkActions?: HunkAction[];
+  onHunkAction?: (
+    file: DiffFile,
+    chunk: DiffChunk,
+    action: HunkAction,
+    lineIndices?: number[],
+  ) => Promise<void>;
   onOpenInEditor?: (filePath: string, lineNumber: number) => void;
+  onOpenBlameCommit?: (commit: BlameCommit) => void;
+  onOpenFileHistory?: (filePath: string) => void;
+  onToggleFullFile?: (filePath: string) => void;
   syntaxTheme?: AppearanceSettings['syntaxTheme'];
   baseCommitish?: string;
   targetCommitish?: string;
@@ -60,6 +77,8 @@ interface DiffViewerProps {
     chunkIndex: number,
     hiddenLines: number,
   ) => Promise<void>;
+  expandWholeFile: (file: DiffFile) => Promise<void>;
+  collapseExpandedLines: (file: DiffFile) => void;
   prefetchFileContent: (file: DiffFile) => Promise<void>;
   isExpandLoading: boolean;
   onLineClick?: (
@@ -192,7 +211,13 @@ export const DiffViewer = memo(function DiffViewer({
   onReplyToThread,
   onRemoveMessage,
   onUpdateMessage,
+  onApplySuggestion,
+  hunkActions,
+  onHunkAction,
   onOpenInEditor,
+  onOpenBlameCommit,
+  onOpenFileHistory,
+  onToggleFullFile,
   syntaxTheme,
   baseCommitish,
   targetCommitish,
@@ -205,6 +230,8 @@ export const DiffViewer = memo(function DiffViewer({
   mergedChunks,
   expandLines,
   expandAllBetweenChunks,
+  expandWholeFile,
+  collapseExpandedLines,
   prefetchFileContent,
   isExpandLoading,
   diffVersion,
@@ -212,14 +239,24 @@ export const DiffViewer = memo(function DiffViewer({
   const isCollapsed = collapsedFiles.has(file.path);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isVisible, setIsVisible] = useState(false);
+  const [isBlameVisible, setIsBlameVisible] = useState(false);
 
   const viewer = getViewerForFile(file);
-  const hasBlobContent = baseCommitish !== 'stdin' && targetCommitish !== 'stdin';
-  const canExpandHiddenLines = hasBlobContent && (viewer.canExpandHiddenLines?.(file) ?? false);
+  const isSubmodule = file.status === 'submodule';
+  const hasBlobContent = !isStdinRef(baseCommitish) && !isStdinRef(targetCommitish);
+  const canExpandHiddenLines =
+    !isSubmodule && hasBlobContent && (viewer.canExpandHiddenLines?.(file) ?? false);
   // Tokenize the whole file so embedded blocks (e.g. <script>/<style>) are
   // highlighted by their own language instead of line-by-line, which can't see
   // the surrounding context.
   const wholeFileHighlight = viewer.id === 'default' && isWholeFileHighlightExtension(file.path);
+  // These viewers fall back to the text diff, where blame lines up with the code
+  const canShowBlame =
+    onOpenBlameCommit !== undefined &&
+    ['default', 'dependencies', 'structured', 'table'].includes(viewer.id) &&
+    !isSubmodule &&
+    hasBlobContent &&
+    file.status !== 'added';
 
   // Observe visibility for lazy prefetch
   useEffect(() => {
@@ -243,6 +280,21 @@ export const DiffViewer = memo(function DiffViewer({
     }
   }, [isVisible, isCollapsed, canExpandHiddenLines, file, prefetchFileContent]);
 
+  // Full mode loads both blobs and reveals every unchanged line; leaving it hides them again
+  const isFullFile = diffMode === 'full' && canExpandHiddenLines;
+  const wasFullFileRef = useRef(false);
+  useEffect(() => {
+    if (isFullFile) {
+      wasFullFileRef.current = true;
+      if (!isCollapsed) {
+        void expandWholeFile(file);
+      }
+    } else if (wasFullFileRef.current) {
+      wasFullFileRef.current = false;
+      collapseExpandedLines(file);
+    }
+  }, [isFullFile, isCollapsed, file, expandWholeFile, collapseExpandedLines]);
+
   const handleAddComment = useCallback(
     async (line: LineNumber, body: string, codeContent?: string, side?: DiffSide) => {
       try {
@@ -332,6 +384,13 @@ export const DiffViewer = memo(function DiffViewer({
     reloadKey: diffVersion,
   });
 
+  const blame = useFileBlame({
+    file,
+    enabled: canShowBlame && isBlameVisible,
+    baseCommitish,
+    reloadKey: diffVersion,
+  });
+
   const lineNumberWidth = '4em';
   const ViewerComponent = viewer.Component;
   const viewerProps: DiffViewerBodyProps = {
@@ -354,7 +413,12 @@ export const DiffViewer = memo(function DiffViewer({
     onReplyToThread,
     onRemoveMessage,
     onUpdateMessage,
+    onApplySuggestion,
+    hunkActions,
+    onHunkAction,
     onOpenInEditor,
+    blame,
+    onOpenBlameCommit,
     onLineClick,
     commentTrigger,
     onCommentTriggerHandled,
@@ -375,12 +439,41 @@ export const DiffViewer = memo(function DiffViewer({
         onToggleCollapsed={onToggleCollapsed}
         onToggleAllCollapsed={onToggleAllCollapsed}
         onToggleReviewed={onToggleReviewed}
+        isBlameVisible={isBlameVisible}
+        onToggleBlame={canShowBlame ? () => setIsBlameVisible((visible) => !visible) : undefined}
+        onOpenHistory={
+          onOpenFileHistory && !isSubmodule && hasBlobContent
+            ? () => onOpenFileHistory(file.path)
+            : undefined
+        }
+        isFullFile={diffMode === 'full'}
+        onToggleFullFile={
+          onToggleFullFile && canExpandHiddenLines ? () => onToggleFullFile(file.path) : undefined
+        }
       />
 
       {!isCollapsed && (
         <FileLevelTokensProvider value={fileLevelTokens}>
           <div className="overflow-y-auto">
-            <ViewerComponent {...viewerProps} />
+            {isSubmodule ? (
+              <SubmoduleDiffViewer
+                file={file}
+                threads={threads}
+                showAuthorBadges={showAuthorBadges}
+                diffMode={diffMode}
+                syntaxTheme={syntaxTheme}
+                onAddComment={onAddComment}
+                onGenerateThreadPrompt={onGenerateThreadPrompt}
+                onRemoveThread={onRemoveThread}
+                onReplyToThread={onReplyToThread}
+                onRemoveMessage={onRemoveMessage}
+                onUpdateMessage={onUpdateMessage}
+                onApplySuggestion={onApplySuggestion}
+                onOpenInEditor={onOpenInEditor}
+              />
+            ) : (
+              <ViewerComponent {...viewerProps} />
+            )}
           </div>
         </FileLevelTokensProvider>
       )}
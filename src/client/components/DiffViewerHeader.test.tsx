@@ -48,4 +48,34 @@ describe('DiffViewerHeader', () => {
       screen.queryByLabelText('Updated since you last viewed this file'),
     ).not.toBeInTheDocument();
   });
+
+  it('shows where a copied file came from and how similar it is', () => {
+    render(
+      <DiffViewerHeader
+        {...baseProps}
+        file={{
+          ...file,
+          path: 'src/copy.ts',
+          oldPath: 'src/app.ts',
+          status: 'copied',
+          similarity: 92,
+        }}
+      />,
+    );
+
+    expect(screen.getByText('(copied from src/app.ts)')).toBeInTheDocument();
+    expect(screen.getByText('copy')).toBeInTheDocument();
+    expect(screen.getByText('92%')).toHaveAttribute('title', '92% similar to src/app.ts');
+  });
+
+  it('shows a badge for mode changes', () => {
+    render(
+      <DiffViewerHeader {...baseProps} file={{ ...file, oldMode: '100644', newMode: '100755' }} />,
+    );
+
+    expect(screen.getByText('+x')).toHaveAttribute(
+      'title',
+      'File mode changed from 100644 to 100755',
+    );
+  });
 });
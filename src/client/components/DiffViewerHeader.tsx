@@ -3,16 +3,23 @@ import {
   ChevronDown,
   ChevronRight,
   Copy,
+  FileClock,
+  FileCode,
   FileDiff,
   FilePen,
   FilePlus,
+  Files,
+  FileSymlink,
   FileX,
+  FolderGit2,
+  History,
   Square,
 } from 'lucide-react';
 import { useState } from 'react';
 
 import type { DiffFile } from '../../types/diff';
 import { copyTextToClipboard } from '../utils/clipboard';
+import { getFileBadges } from '../utils/fileBadges';
 
 interface DiffViewerHeaderProps {
   file: DiffFile;
@@ -23,6 +30,12 @@ interface DiffViewerHeaderProps {
   onToggleCollapsed: (path: string) => void;
   onToggleAllCollapsed: (shouldCollapse: boolean) => void;
   onToggleReviewed: (path: string) => void;
+  isBlameVisible?: boolean;
+  // Omitted for files without a base revision to blame
+  onToggleBlame?: () => void;
+  onOpenHistory?: () => void;
+  isFullFile?: boolean;
+  onToggleFullFile?: () => void;
 }
 
 const getFileIcon = (status: DiffFile['status']) => {
@@ -33,6 +46,12 @@ const getFileIcon = (status: DiffFile['status']) => {
       return <FileX size={16} className="text-github-danger" />;
     case 'renamed':
       return <FilePen size={16} className="text-github-warning" />;
+    case 'copied':
+      return <Files size={16} className="text-github-warning" />;
+    case 'typechanged':
+      return <FileSymlink size={16} className="text-github-warning" />;
+    case 'submodule':
+      return <FolderGit2 size={16} className="text-github-text-secondary" />;
     default:
       return <FileDiff size={16} className="text-github-text-secondary" />;
   }
@@ -47,6 +66,11 @@ export const DiffViewerHeader = ({
   onToggleCollapsed,
   onToggleAllCollapsed,
   onToggleReviewed,
+  isBlameVisible = false,
+  onToggleBlame,
+  onOpenHistory,
+  isFullFile = false,
+  onToggleFullFile,
 }: DiffViewerHeaderProps) => {
   const [isCopied, setIsCopied] = useState(false);
 
@@ -102,9 +126,18 @@ export const DiffViewerHeader = ({
         </button>
         {file.oldPath && file.oldPath !== file.path && (
           <span className="text-xs text-github-text-muted italic">
-            (renamed from {file.oldPath})
+            ({file.status === 'copied' ? 'copied' : 'renamed'} from {file.oldPath})
           </span>
         )}
+        {getFileBadges(file).map((badge) => (
+          <span
+            key={badge.label}
+            className="px-1.5 py-0.5 rounded border border-github-border text-xs font-mono text-github-text-secondary whitespace-nowrap"
+            title={badge.title}
+          >
+            {badge.label}
+          </span>
+        ))}
       </div>
 
       <div className="flex items-center gap-3">
@@ -125,6 +158,43 @@ export const DiffViewerHeader = ({
             -{file.deletions}
           </span>
         </div>
+        {onToggleBlame && (
+          <button
+            onClick={onToggleBlame}
+            className={`bg-transparent border-none cursor-pointer px-1.5 py-1 rounded text-sm transition-all hover:bg-github-bg-tertiary ${
+              isBlameVisible
+                ? 'text-github-accent'
+                : 'text-github-text-secondary hover:text-github-text-primary'
+            }`}
+            title={isBlameVisible ? 'Hide blame' : 'Show blame'}
+            aria-pressed={isBlameVisible}
+          >
+            <History size={14} />
+          </button>
+        )}
+        {onToggleFullFile && (
+          <button
+            onClick={onToggleFullFile}
+            className={`bg-transparent border-none cursor-pointer px-1.5 py-1 rounded text-sm transition-all hover:bg-github-bg-tertiary ${
+              isFullFile
+                ? 'text-github-accent'
+                : 'text-github-text-secondary hover:text-github-text-primary'
+            }`}
+            title={isFullFile ? 'Show changes only' : 'Show full file'}
+            aria-pressed={isFullFile}
+          >
+            <FileCode size={14} />
+          </button>
+        )}
+        {onOpenHistory && (
+          <button
+            onClick={onOpenHistory}
+            className="bg-transparent border-none cursor-pointer px-1.5 py-1 rounded text-sm transition-all hover:bg-github-bg-tertiary text-github-text-secondary hover:text-github-text-primary"
+            title="Show file history"
+          >
+            <FileClock size={14} />
+          </button>
+        )}
         <button
           onClick={() => onToggleReviewed(file.path)}
           className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all duration-200 ${
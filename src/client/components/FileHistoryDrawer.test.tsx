@@ -0,0 +1,114 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { HotkeysProvider } from 'react-hotkeys-hook';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { DiffResponse, FileHistoryResponse } from '../../types/diff';
+import type { DiffViewerBodyProps } from '../viewers/types';
+
+import { FileHistoryDrawer } from './FileHistoryDrawer';
+
+vi.mock('../viewers/registry', () => ({
+  getViewerForFile: () => ({
+    id: 'default',
+    match: () => true,
+    Component: ({ file, baseCommitish, targetCommitish }: DiffViewerBodyProps) => (
+      <div data-testid="history-viewer">{`${file.path} ${baseCommitish}..${targetCommitish}`}</div>
+    ),
+  }),
+}));
+
+const history: FileHistoryResponse = {
+  path: 'src/parser.ts',
+  entries: [
+    {
+      hash: '3333333ccccccccccccccccccccccccccccccccc',
+      shortHash: '3333333',
+      author: 'Alice',
+      authorTime: 1710000000,
+      summary: 'Tweak parser',
+      path: 'src/parser.ts',
+    },
+    {
+      hash: '2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+      shortHash: '2222222',
+      author: 'Bob',
+      authorTime: 1705000000,
+      summary: 'Move parser',
+      path: 'src/parser.ts',
+      oldPath: 'lib/parser.ts',
+    },
+    {
+      hash: '1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      shortHash: '1111111',
+      author: 'Alice',
+      authorTime: 1700000000,
+      summary: 'Add parser',
+      path: 'lib/parser.ts',
+    },
+  ],
+};
+
+const historyDiff: DiffResponse = {
+  commit: '1111111...3333333',
+  baseCommitish: '1111111',
+  targetCommitish: '3333333',
+  isEmpty: false,
+  files: [
+    {
+      path: 'src/parser.ts',
+      oldPath: 'lib/parser.ts',
+      status: 'renamed',
+      additions: 1,
+      deletions: 1,
+      chunks: [],
+    },
+  ],
+};
+
+describe('FileHistoryDrawer', () => {
+  beforeEach(() => {
+    vi.mocked(global.fetch).mockImplementation(async (input) => {
+      const body = String(input).startsWith('/api/file-history-diff/') ? historyDiff : history;
+      return { ok: true, json: async () => body } as Response;
+    });
+  });
+
+  it('diffs the two selected versions across a rename', async () => {
+    render(
+      <HotkeysProvider>
+        <FileHistoryDrawer filePath="src/parser.ts" onClose={vi.fn()} diffMode="unified" />
+      </HotkeysProvider>,
+    );
+
+    expect(await screen.findByText('renamed from lib/parser.ts')).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith('/api/file-history/src%2Fparser.ts');
+
+    fireEvent.click(screen.getByRole('button', { name: /Tweak parser/ }));
+    expect(screen.queryByTestId('history-viewer')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /Add parser/ }));
+
+    expect(await screen.findByTestId('history-viewer')).toHaveTextContent(
+      'src/parser.ts 1111111..3333333',
+    );
+    expect(screen.getByText('lib/parser.ts → src/parser.ts')).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/file-history-diff/src%2Fparser.ts?base=1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa&target=3333333ccccccccccccccccccccccccccccccccc&oldPath=lib%2Fparser.ts',
+    );
+  });
+
+  it('shows why the history could not be loaded', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      statusText: 'Internal Server Error',
+      json: async () => ({ error: 'fatal: bad revision' }),
+    } as Response);
+
+    render(
+      <HotkeysProvider>
+        <FileHistoryDrawer filePath="src/parser.ts" onClose={vi.fn()} diffMode="unified" />
+      </HotkeysProvider>,
+    );
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('fatal: bad revision');
+  });
+});
@@ -0,0 +1,220 @@
+import { FileClock, X } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useHotkeysContext } from 'react-hotkeys-hook';
+
+import type { DiffResponse, DiffViewMode, FileHistoryResponse } from '../../types/diff';
+import { formatBlameDate } from '../utils/blame';
+import {
+  fetchFileHistory,
+  fetchFileHistoryDiff,
+  getHistoryComparison,
+  toggleHistorySelection,
+} from '../utils/fileHistory';
+import { toUnexpandedMergedChunks } from '../utils/mergedChunks';
+import { getViewerForFile } from '../viewers/registry';
+
+import type { AppearanceSettings } from './SettingsModal';
+
+interface FileHistoryDrawerProps {
+  filePath: string;
+  onClose: () => void;
+  diffMode: DiffViewMode;
+  syntaxTheme?: AppearanceSettings['syntaxTheme'];
+}
+
+const noop = () => {};
+const asyncNoop = async () => {};
+
+export function FileHistoryDrawer({
+  filePath,
+  onClose,
+  diffMode,
+  syntaxTheme,
+}: FileHistoryDrawerProps) {
+  const [history, setHistory] = useState<FileHistoryResponse | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [diff, setDiff] = useState<DiffResponse | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const { enableScope, disableScope } = useHotkeysContext();
+
+  useEffect(() => {
+    disableScope('navigation');
+    return () => {
+      enableScope('navigation');
+    };
+  }, [enableScope, disableScope]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchFileHistory(filePath)
+      .then((response) => {
+        if (!cancelled) setHistory(response);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setHistoryError(err instanceof Error ? err.message : 'Failed to load file history');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath]);
+
+  const comparison = useMemo(
+    () => (history ? getHistoryComparison(history.entries, selected) : null),
+    [history, selected],
+  );
+
+  useEffect(() => {
+    setDiff(null);
+    setDiffError(null);
+    if (!comparison) return;
+
+    let cancelled = false;
+    fetchFileHistoryDiff(comparison.base, comparison.target)
+      .then((response) => {
+        if (!cancelled) setDiff(response);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setDiffError(err instanceof Error ? err.message : 'Failed to load file history diff');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [comparison]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <div
+        className="relative flex h-full w-[min(95vw,1200px)] flex-col border-l border-github-border bg-github-bg-primary shadow-lg"
+        role="dialog"
+        aria-label={`History of ${filePath}`}
+      >
+        <div className="flex items-center justify-between gap-3 border-b border-github-border bg-github-bg-secondary p-4">
+          <h2 className="flex min-w-0 items-center gap-2 text-lg font-semibold text-github-text-primary">
+            <FileClock size={18} aria-hidden="true" />
+            <span className="truncate font-mono text-sm">{filePath}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-github-text-secondary hover:text-github-text-primary p-1"
+            aria-label="Close file history"
+          >
+            <X size={18} />
+          </button>
+        </div>
+        <div className="flex min-h-0 flex-1">
+          <div className="w-72 shrink-0 overflow-y-auto border-r border-github-border bg-github-bg-secondary">
+            <p className="px-3 py-2 text-xs text-github-text-muted">
+              Select two versions to compare them.
+            </p>
+            {historyError && (
+              <p className="px-3 py-2 text-xs text-github-danger" role="alert">
+                {historyError}
+              </p>
+            )}
+            {!history && !historyError && (
+              <p className="px-3 py-2 text-xs text-github-text-secondary">Loading history...</p>
+            )}
+            <ul>
+              {history?.entries.map((entry) => {
+                const isSelected = selected.includes(entry.hash);
+                return (
+                  <li key={entry.hash}>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setSelected((current) => toggleHistorySelection(current, entry.hash))
+                      }
+                      aria-pressed={isSelected}
+                      className={`w-full border-l-2 px-3 py-2 text-left text-xs transition-colors hover:bg-github-bg-tertiary ${
+                        isSelected
+                          ? 'border-github-accent bg-github-bg-tertiary'
+                          : 'border-transparent'
+                      }`}
+                    >
+                      <span className="block truncate text-github-text-primary">
+                        {entry.summary}
+                      </span>
+                      <span className="block text-github-text-muted">
+                        <code className="font-mono">{entry.shortHash}</code> · {entry.author} ·{' '}
+                        {formatBlameDate(entry.authorTime)}
+                      </span>
+                      {entry.oldPath && (
+                        <span className="block truncate italic text-github-text-muted">
+                          renamed from {entry.oldPath}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+          <div className="min-w-0 flex-1 overflow-y-auto">
+            {comparison && (
+              <div className="border-b border-github-border px-4 py-2 text-xs text-github-text-secondary">
+                <code className="font-mono">{comparison.base.shortHash}</code> →{' '}
+                <code className="font-mono">{comparison.target.shortHash}</code>
+                <span className="ml-2 text-github-text-muted">
+                  Comments can't be added to past versions.
+                </span>
+              </div>
+            )}
+            {diffError && (
+              <p className="px-4 py-3 text-xs text-github-danger" role="alert">
+                {diffError}
+              </p>
+            )}
+            {comparison && !diff && !diffError && (
+              <p className="px-4 py-3 text-xs text-github-text-secondary">Loading diff...</p>
+            )}
+            {diff?.files.length === 0 && (
+              <p className="px-4 py-3 text-xs text-github-text-muted">
+                No changes to this file between these versions.
+              </p>
+            )}
+            {diff?.files.map((file) => {
+              const ViewerComponent = getViewerForFile(file).Component;
+              return (
+                <div
+                  key={file.path}
+                  className="border-b border-github-border"
+                  style={{ '--line-number-width': '4em' } as React.CSSProperties}
+                >
+                  <div className="px-4 py-1.5 bg-github-bg-tertiary text-xs font-mono text-github-text-primary">
+                    {file.oldPath && file.oldPath !== file.path
+                      ? `${file.oldPath} → ${file.path}`
+                      : file.path}
+                  </div>
+                  <ViewerComponent
+                    file={file}
+                    threads={[]}
+                    diffMode={diffMode}
+                    syntaxTheme={syntaxTheme}
+                    baseCommitish={diff.baseCommitish}
+                    targetCommitish={diff.targetCommitish}
+                    mergedChunks={toUnexpandedMergedChunks(file)}
+                    isExpandLoading={false}
+                    expandHiddenLines={asyncNoop}
+                    expandAllBetweenChunks={asyncNoop}
+                    onAddComment={asyncNoop}
+                    onGenerateThreadPrompt={() => ''}
+                    onRemoveThread={noop}
+                    onReplyToThread={asyncNoop}
+                    onRemoveMessage={noop}
+                    onUpdateMessage={noop}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,10 @@ import {
   Folder,
   FilePlus,
   FileX,
+  FolderGit2,
   FilePen,
+  Files,
+  FileSymlink,
   Search,
   MessageSquare,
   ChevronsDownUp,
@@ -16,6 +19,7 @@ import { memo, useMemo, useRef, useState, type CSSProperties, type MouseEvent }
 
 import { type DiffFile, type CommentThread } from '../../types/diff';
 import { isSafariBrowser } from '../utils/browser';
+import { getFileBadges } from '../utils/fileBadges';
 
 import { Checkbox } from './Checkbox';
 
@@ -254,6 +258,12 @@ export const FileList = memo(function FileList({
         return <FileX size={16} className="text-github-danger" />;
       case 'renamed':
         return <FilePen size={16} className="text-github-warning" />;
+      case 'copied':
+        return <Files size={16} className="text-github-warning" />;
+      case 'typechanged':
+        return <FileSymlink size={16} className="text-github-warning" />;
+      case 'submodule':
+        return <FolderGit2 size={16} className="text-github-text-secondary" />;
       default:
         return <FileDiff size={16} className="text-github-text-secondary" />;
     }
@@ -434,6 +444,15 @@ export const FileList = memo(function FileList({
           >
             {node.name}
           </span>
+          {getFileBadges(file).map((badge) => (
+            <span
+              key={badge.label}
+              className="px-1 rounded border border-github-border text-[10px] font-mono text-github-text-secondary whitespace-nowrap"
+              title={badge.title}
+            >
+              {badge.label}
+            </span>
+          ))}
           {commentCount > 0 && (
             <span className="text-github-warning text-sm font-medium ml-auto flex items-center gap-1">
               <MessageSquare size={14} />
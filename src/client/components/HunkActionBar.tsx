@@ -0,0 +1,100 @@
+import { Minus, Plus, Undo2 } from 'lucide-react';
+import { useState, type ReactElement } from 'react';
+
+import type { HunkAction } from '../../types/diff';
+
+interface HunkActionBarProps {
+  actions: HunkAction[];
+  // Changed lines covered by the current comment selection in this chunk
+  selectedLineIndices: number[];
+  onAction: (action: HunkAction, lineIndices?: number[]) => Promise<void>;
+}
+
+const ACTION_LABELS = new Map<HunkAction, { label: string; icon: ReactElement }>([
+  ['stage', { label: 'Stage', icon: <Plus size={12} aria-hidden="true" /> }],
+  ['unstage', { label: 'Unstage', icon: <Minus size={12} aria-hidden="true" /> }],
+  ['discard', { label: 'Discard', icon: <Undo2 size={12} aria-hidden="true" /> }],
+]);
+
+export function HunkActionBar({ actions, selectedLineIndices, onAction }: HunkActionBarProps) {
+  const [pending, setPending] = useState<'hunk' | 'lines' | null>(null);
+  const [confirmingDiscard, setConfirmingDiscard] = useState<'hunk' | 'lines' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (actions.length === 0) {
+    return null;
+  }
+
+  const run = async (action: HunkAction, scope: 'hunk' | 'lines') => {
+    setConfirmingDiscard(null);
+    setPending(scope);
+    setError(null);
+    try {
+      await onAction(action, scope === 'lines' ? selectedLineIndices : undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action}`);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleClick = (action: HunkAction, scope: 'hunk' | 'lines') => {
+    // Discarding throws away working-tree edits that git can't bring back
+    if (action === 'discard') {
+      setConfirmingDiscard(scope);
+      return;
+    }
+    void run(action, scope);
+  };
+
+  const scopes: Array<'hunk' | 'lines'> =
+    selectedLineIndices.length > 0 ? ['hunk', 'lines'] : ['hunk'];
+  const buttonClass =
+    'inline-flex items-center gap-1 whitespace-nowrap rounded border border-github-border bg-github-bg-tertiary px-2 py-0.5 text-xs text-github-text-primary transition-all hover:bg-github-bg-primary disabled:opacity-50';
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2 border-b border-github-border bg-github-bg-secondary px-3 py-1">
+      {error && (
+        <p className="mr-auto text-xs text-github-danger" role="alert">
+          {error}
+        </p>
+      )}
+      {confirmingDiscard ? (
+        <>
+          <span className="text-xs text-github-text-secondary">
+            Discard {confirmingDiscard === 'lines' ? 'selected lines' : 'this hunk'}? This cannot be
+            undone.
+          </span>
+          <button
+            type="button"
+            onClick={() => void run('discard', confirmingDiscard)}
+            className={`${buttonClass} font-medium text-github-danger`}
+          >
+            Discard
+          </button>
+          <button type="button" onClick={() => setConfirmingDiscard(null)} className={buttonClass}>
+            Cancel
+          </button>
+        </>
+      ) : (
+        scopes.map((scope) =>
+          actions.map((action) => {
+            const { label, icon } = ACTION_LABELS.get(action) ?? { label: action, icon: null };
+            return (
+              <button
+                key={`${scope}-${action}`}
+                type="button"
+                onClick={() => handleClick(action, scope)}
+                disabled={pending !== null}
+                className={`${buttonClass} ${action === 'discard' ? 'text-github-danger' : ''}`}
+              >
+                {icon}
+                {label} {scope === 'lines' ? 'selected lines' : 'hunk'}
+              </button>
+            );
+          }),
+        )
+      )}
+    </div>
+  );
+}
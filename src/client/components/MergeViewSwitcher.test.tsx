@@ -0,0 +1,51 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { MergeViewSwitcher } from './MergeViewSwitcher';
+
+describe('MergeViewSwitcher', () => {
+  it('marks the current view and switches to the others', () => {
+    const onSelectDiff = vi.fn();
+
+    render(
+      <MergeViewSwitcher
+        selection={{ baseCommitish: 'abc1234^@', targetCommitish: 'abc1234' }}
+        parents={['1111111', '2222222']}
+        onSelectDiff={onSelectDiff}
+      />,
+    );
+
+    expect(screen.getByRole('button', { name: 'Combined' })).toHaveAttribute(
+      'aria-pressed',
+      'true',
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'vs 2nd parent' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Remerge' }));
+
+    expect(onSelectDiff.mock.calls).toEqual([
+      [{ baseCommitish: 'abc1234^2', targetCommitish: 'abc1234' }],
+      [{ baseCommitish: 'remerge:abc1234', targetCommitish: 'abc1234' }],
+    ]);
+  });
+
+  it('treats the plain commit view as the first parent view', () => {
+    const onSelectDiff = vi.fn();
+
+    render(
+      <MergeViewSwitcher
+        selection={{ baseCommitish: 'abc1234^', targetCommitish: 'abc1234' }}
+        parents={['1111111', '2222222', '3333333']}
+        onSelectDiff={onSelectDiff}
+      />,
+    );
+
+    const firstParent = screen.getByRole('button', { name: 'vs 1st parent' });
+    expect(firstParent).toHaveAttribute('aria-pressed', 'true');
+    // Octopus merges can't be redone by git
+    expect(screen.queryByRole('button', { name: 'Remerge' })).not.toBeInTheDocument();
+
+    fireEvent.click(firstParent);
+    expect(onSelectDiff).not.toHaveBeenCalled();
+  });
+});
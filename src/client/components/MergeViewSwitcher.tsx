@@ -0,0 +1,99 @@
+import { type DiffSelection } from '../../types/diff';
+import {
+  createMergeSelection,
+  diffSelectionsEqual,
+  getMergeView,
+  type MergeView,
+} from '../../utils/diffSelection';
+
+interface MergeViewSwitcherProps {
+  selection: DiffSelection;
+  // Short hashes of the merge commit's parents
+  parents: string[];
+  onSelectDiff: (selection: DiffSelection) => void;
+  compact?: boolean;
+}
+
+interface MergeViewOption {
+  view: MergeView;
+  label: string;
+  compactLabel: string;
+  title: string;
+}
+
+const getMergeViewOptions = (parents: string[]): MergeViewOption[] => [
+  {
+    view: 'combined',
+    label: 'Combined',
+    compactLabel: 'cc',
+    title: `Combined diff against all parents (${parents.join(', ')})`,
+  },
+  {
+    view: 'first-parent',
+    label: 'vs 1st parent',
+    compactLabel: '^1',
+    title: `Changes against the first parent ${parents[0]}`,
+  },
+  {
+    view: 'second-parent',
+    label: 'vs 2nd parent',
+    compactLabel: '^2',
+    title: `Changes against the second parent ${parents[1]}`,
+  },
+  // git can only redo a merge of two parents
+  ...(parents.length === 2
+    ? [
+        {
+          view: 'remerge' as const,
+          label: 'Remerge',
+          compactLabel: 'remerge',
+          title:
+            'Changes against an automatic re-merge of the parents, showing conflict resolutions',
+        },
+      ]
+    : []),
+];
+
+export function MergeViewSwitcher({
+  selection,
+  parents,
+  onSelectDiff,
+  compact = false,
+}: MergeViewSwitcherProps) {
+  const currentView = getMergeView(selection);
+
+  const getToggleClasses = (active: boolean) =>
+    `px-2 py-1 text-xs font-medium rounded transition-all duration-200 whitespace-nowrap cursor-pointer ${
+      active
+        ? 'bg-github-bg-primary text-github-text-primary shadow-sm'
+        : 'text-github-text-secondary hover:text-github-text-primary'
+    }`;
+
+  return (
+    <div
+      className="flex bg-github-bg-tertiary border border-github-border rounded-md p-0.5"
+      role="group"
+      aria-label="Merge view"
+    >
+      {getMergeViewOptions(parents).map(({ view, label, compactLabel, title }) => {
+        const viewSelection = createMergeSelection(selection.targetCommitish, view);
+        return (
+          <button
+            key={view}
+            type="button"
+            onClick={() => {
+              if (!diffSelectionsEqual(selection, viewSelection)) {
+                onSelectDiff(viewSelection);
+              }
+            }}
+            className={getToggleClasses(currentView === view)}
+            aria-pressed={currentView === view}
+            title={title}
+          >
+            {compact ? compactLabel : label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
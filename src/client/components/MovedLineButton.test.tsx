@@ -0,0 +1,31 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { MovedCodeProvider } from '../contexts/MovedCodeContext';
+
+import { MovedLineButton } from './MovedLineButton';
+
+describe('MovedLineButton', () => {
+  it('jumps to the counterpart of a moved line', () => {
+    const onJumpToMovedLine = vi.fn();
+    const moved = { path: 'src/config.ts', side: 'new' as const, lineNumber: 12 };
+
+    render(
+      <MovedCodeProvider onJumpToMovedLine={onJumpToMovedLine}>
+        <MovedLineButton line={{ type: 'delete', moved }} />
+      </MovedCodeProvider>,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Moved to src/config.ts:12' }));
+
+    expect(onJumpToMovedLine).toHaveBeenCalledWith(moved);
+  });
+
+  it('renders nothing without a place to jump to', () => {
+    const moved = { path: 'src/app.ts', side: 'old' as const, lineNumber: 3 };
+
+    const { container } = render(<MovedLineButton line={{ type: 'add', moved }} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,33 @@
+import { ArrowRightLeft } from 'lucide-react';
+
+import type { DiffLine } from '../../types/diff';
+import { useMovedCodeNavigation } from '../contexts/MovedCodeContext';
+
+interface MovedLineButtonProps {
+  line: Pick<DiffLine, 'type' | 'moved'>;
+}
+
+// Jumps from a moved line to where it was moved to (deleted lines) or from (added lines)
+export function MovedLineButton({ line }: MovedLineButtonProps) {
+  const { onJumpToMovedLine } = useMovedCodeNavigation();
+  const { moved } = line;
+  if (!moved || !onJumpToMovedLine) return null;
+
+  const label = `${line.type === 'delete' ? 'Moved to' : 'Moved from'} ${moved.path}:${moved.lineNumber}`;
+
+  return (
+    <button
+      type="button"
+      className="flex-shrink-0 self-start mx-1 p-0.5 rounded text-diff-moved-border opacity-70 hover:opacity-100 hover:bg-github-bg-tertiary cursor-pointer"
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        e.stopPropagation();
+        onJumpToMovedLine(moved);
+      }}
+      aria-label={label}
+      title={label}
+    >
+      <ArrowRightLeft size={12} />
+    </button>
+  );
+}
@@ -0,0 +1,49 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { type PatchSeriesEntry } from '../../types/diff';
+
+import { PatchSeriesNavigator } from './PatchSeriesNavigator';
+
+const series: PatchSeriesEntry[] = [
+  { ref: 'stdin:patch-1', author: 'Jane Doe', subject: 'Add parser', body: '' },
+  { ref: 'stdin:patch-2', author: 'Jane Doe', subject: 'Handle empty input', body: '' },
+  { ref: 'stdin:patch-3', author: 'Ren Tanaka', subject: 'Document parser', body: '' },
+];
+
+describe('PatchSeriesNavigator', () => {
+  it('shows the current patch and steps to its neighbours', () => {
+    const onSelectPatch = vi.fn();
+
+    render(
+      <PatchSeriesNavigator
+        series={series}
+        currentRef="stdin:patch-3"
+        onSelectPatch={onSelectPatch}
+      />,
+    );
+
+    expect(screen.getByRole('combobox', { name: 'Patch' })).toHaveValue('stdin:patch-3');
+    expect(screen.getByText('Ren Tanaka')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Next patch' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Previous patch' }));
+
+    expect(onSelectPatch).toHaveBeenCalledWith('stdin:patch-2');
+  });
+
+  it('jumps to any patch of the series', () => {
+    const onSelectPatch = vi.fn();
+
+    render(<PatchSeriesNavigator series={series} onSelectPatch={onSelectPatch} />);
+
+    expect(screen.getByRole('button', { name: 'Previous patch' })).toBeDisabled();
+    expect(screen.getByRole('option', { name: '[2/3] Handle empty input' })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Patch' }), {
+      target: { value: 'stdin:patch-3' },
+    });
+
+    expect(onSelectPatch).toHaveBeenCalledWith('stdin:patch-3');
+  });
+});
@@ -0,0 +1,74 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+import { type PatchSeriesEntry } from '../../types/diff';
+
+interface PatchSeriesNavigatorProps {
+  series: PatchSeriesEntry[];
+  currentRef?: string;
+  onSelectPatch: (ref: string) => void;
+  compact?: boolean;
+}
+
+export function PatchSeriesNavigator({
+  series,
+  currentRef,
+  onSelectPatch,
+  compact = false,
+}: PatchSeriesNavigatorProps) {
+  const currentIndex = Math.max(
+    series.findIndex((patch) => patch.ref === currentRef),
+    0,
+  );
+  const currentPatch = series[currentIndex];
+
+  const selectPatch = (index: number) => {
+    const patch = series[index];
+    if (patch) {
+      onSelectPatch(patch.ref);
+    }
+  };
+
+  const stepButtonClasses =
+    'p-1 rounded text-github-text-secondary hover:text-github-text-primary hover:bg-github-bg-tertiary disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent cursor-pointer transition-colors';
+
+  return (
+    <div className="flex items-center gap-1 min-w-0" role="group" aria-label="Patch series">
+      <button
+        type="button"
+        onClick={() => selectPatch(currentIndex - 1)}
+        disabled={currentIndex <= 0}
+        className={stepButtonClasses}
+        aria-label="Previous patch"
+        title="Previous patch"
+      >
+        <ChevronLeft size={14} />
+      </button>
+      <select
+        value={currentPatch?.ref}
+        onChange={(e) => onSelectPatch(e.target.value)}
+        aria-label="Patch"
+        className="text-xs bg-github-bg-tertiary border border-github-border rounded px-1 py-0.5 text-github-text-primary max-w-[360px] truncate"
+        title={currentPatch?.author ? `${currentPatch.subject}\n${currentPatch.author}` : undefined}
+      >
+        {series.map((patch, index) => (
+          <option key={patch.ref} value={patch.ref}>
+            {`[${index + 1}/${series.length}]${compact ? '' : ` ${patch.subject}`}`}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => selectPatch(currentIndex + 1)}
+        disabled={currentIndex >= series.length - 1}
+        className={stepButtonClasses}
+        aria-label="Next patch"
+        title="Next patch"
+      >
+        <ChevronRight size={14} />
+      </button>
+      {!compact && currentPatch?.author && (
+        <span className="text-xs text-github-text-muted truncate">{currentPatch.author}</span>
+      )}
+    </div>
+  );
+}
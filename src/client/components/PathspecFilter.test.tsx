@@ -0,0 +1,34 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { PathspecFilter } from './PathspecFilter';
+
+describe('PathspecFilter', () => {
+  it('applies one pathspec per line', () => {
+    const onChange = vi.fn();
+    render(<PathspecFilter pathspecs={[]} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Filter paths' }));
+    fireEvent.change(screen.getByLabelText('Git pathspecs (one per line)'), {
+      target: { value: 'packages/app/\n\n  :!*.snap  \n' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    expect(onChange).toHaveBeenCalledWith(['packages/app/', ':!*.snap']);
+    expect(screen.queryByLabelText('Git pathspecs (one per line)')).not.toBeInTheDocument();
+  });
+
+  it('shows the active pathspecs and clears them', () => {
+    const onChange = vi.fn();
+    render(<PathspecFilter pathspecs={['src/', ':!*.snap']} onChange={onChange} />);
+
+    const toggle = screen.getByRole('button', { name: 'Path filter: src/ :!*.snap' });
+    fireEvent.click(toggle);
+
+    expect(screen.getByLabelText('Git pathspecs (one per line)')).toHaveValue('src/\n:!*.snap');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear' }));
+
+    expect(onChange).toHaveBeenCalledWith([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { FolderSearch, X } from 'lucide-react';
+import { useRef, useState, type FormEvent } from 'react';
+
+import { useClickOutside } from '../hooks/useClickOutside';
+
+interface PathspecFilterProps {
+  pathspecs: string[];
+  onChange: (pathspecs: string[]) => void;
+  compact?: boolean;
+}
+
+const parsePathspecInput = (input: string) =>
+  input
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+export function PathspecFilter({ pathspecs, onChange, compact = false }: PathspecFilterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isFiltered = pathspecs.length > 0;
+  const summary = pathspecs.join(' ');
+
+  useClickOutside(containerRef, () => setIsOpen(false));
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      // One pathspec per line so entries containing spaces survive editing
+      setDraft(pathspecs.join('\n'));
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onChange(parsePathspecInput(draft));
+    setIsOpen(false);
+  };
+
+  const handleClear = () => {
+    onChange([]);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className={`flex items-center gap-1.5 px-2 py-1 text-xs rounded border transition-colors cursor-pointer ${
+          isFiltered
+            ? 'bg-diff-selected-bg border-diff-selected-border text-github-text-primary'
+            : 'bg-github-bg-tertiary border-github-border text-github-text-secondary hover:text-github-text-primary'
+        }`}
+        aria-expanded={isOpen}
+        aria-label={isFiltered ? `Path filter: ${summary}` : 'Filter paths'}
+        title={isFiltered ? `Limited to: ${summary}` : 'Limit the diff to some paths'}
+      >
+        <FolderSearch size={12} />
+        {!compact && (
+          <code className="max-w-[200px] truncate">{isFiltered ? summary : 'All paths'}</code>
+        )}
+      </button>
+
+      {isOpen && (
+        <form
+          onSubmit={handleSubmit}
+          className="absolute right-0 top-full mt-1 w-[300px] bg-github-bg-secondary border border-github-border rounded shadow-lg z-50 p-3 space-y-2"
+        >
+          <label
+            htmlFor="pathspec-filter-input"
+            className="block text-xs font-semibold text-github-text-secondary"
+          >
+            Git pathspecs (one per line)
+          </label>
+          <textarea
+            id="pathspec-filter-input"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            rows={4}
+            placeholder={'packages/app/\n:!*.snap'}
+            className="w-full resize-y rounded border border-github-border bg-github-bg-primary px-2 py-1.5 font-mono text-xs text-github-text-primary placeholder:text-github-text-muted focus:outline-none focus:border-blue-600"
+          />
+          <div className="flex justify-end gap-2">
+            {isFiltered && (
+              <button
+                type="button"
+                onClick={handleClear}
+                className="mr-auto flex items-center gap-1 px-2 py-1 text-xs text-github-text-secondary hover:text-github-text-primary transition-colors"
+              >
+                <X size={12} />
+                Clear
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="px-3 py-1 text-xs font-medium rounded border border-github-border text-github-text-secondary hover:text-github-text-primary transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1 text-xs font-medium rounded bg-github-accent text-white hover:bg-github-accent/90 transition-colors"
+            >
+              Apply
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
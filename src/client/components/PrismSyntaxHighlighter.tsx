@@ -2,6 +2,7 @@ import { Highlight, type Token, type RenderProps } from 'prism-react-renderer';
 import React, { useCallback } from 'react';
 
 import { useHighlightedCode } from '../hooks/useHighlightedCode';
+import { splitByMatchRanges, type MatchRange } from '../utils/diffSearch';
 import { getPrismLanguageFromFilename } from '../utils/languageDetection';
 import Prism from '../utils/prism';
 import { getSyntaxTheme } from '../utils/syntaxThemes';
@@ -26,6 +27,8 @@ export interface PrismSyntaxHighlighterProps {
   ) => React.ReactNode;
   onMouseOver?: (e: React.MouseEvent) => void;
   onMouseOut?: (e: React.MouseEvent) => void;
+  /** Character ranges of `code` to mark as search matches */
+  highlightRanges?: MatchRange[];
 }
 
 export const PrismSyntaxHighlighter = React.memo(function PrismSyntaxHighlighter({
@@ -38,6 +41,7 @@ export const PrismSyntaxHighlighter = React.memo(function PrismSyntaxHighlighter
   renderToken,
   onMouseOver,
   onMouseOut,
+  highlightRanges,
 }: PrismSyntaxHighlighterProps) {
   const detectedLang = language || (filename ? getPrismLanguageFromFilename(filename) : 'text');
   const { actualLang } = useHighlightedCode(code, detectedLang);
@@ -48,6 +52,8 @@ export const PrismSyntaxHighlighter = React.memo(function PrismSyntaxHighlighter
   const renderHighlight = useCallback(
     ({ style, tokens, getLineProps, getTokenProps }: RenderProps) => {
       const lines = precomputedTokens ?? tokens;
+      // Running character offset into `code`, used to place highlight ranges
+      let offset = 0;
       return (
         <span
           className={className}
@@ -57,19 +63,44 @@ export const PrismSyntaxHighlighter = React.memo(function PrismSyntaxHighlighter
         >
           {lines.map((line, i) => (
             <span key={i} {...getLineProps({ line })}>
-              {line.map((token, key) =>
-                renderToken ? (
-                  renderToken(token, key, getTokenProps)
-                ) : (
-                  <span key={key} {...getTokenProps({ token })} />
-                ),
-              )}
+              {line.map((token, key) => {
+                const renderPart = (part: Token, partKey: number) =>
+                  renderToken ? (
+                    renderToken(part, partKey, getTokenProps)
+                  ) : (
+                    <span key={partKey} {...getTokenProps({ token: part })} />
+                  );
+
+                const tokenOffset = offset;
+                offset += token.content.length;
+                if (!highlightRanges) {
+                  return renderPart(token, key);
+                }
+
+                // Split the token at match boundaries so matches keep their syntax colors
+                return (
+                  <React.Fragment key={key}>
+                    {splitByMatchRanges(token.content, tokenOffset, highlightRanges).map(
+                      (part, partKey) => {
+                        const rendered = renderPart({ ...token, content: part.text }, partKey);
+                        return part.isMatch ? (
+                          <mark key={partKey} className="search-match">
+                            {rendered}
+                          </mark>
+                        ) : (
+                          rendered
+                        );
+                      },
+                    )}
+                  </React.Fragment>
+                );
+              })}
             </span>
           ))}
         </span>
       );
     },
-    [className, onMouseOver, onMouseOut, renderToken, precomputedTokens],
+    [className, onMouseOver, onMouseOut, renderToken, precomputedTokens, highlightRanges],
   );
 
   const codeForHighlight = hasPrecomputed ? '' : code;
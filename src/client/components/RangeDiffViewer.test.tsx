@@ -0,0 +1,88 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { type RangeDiffResponse } from '../../types/diff';
+
+import { RangeDiffViewer } from './RangeDiffViewer';
+
+const rangeDiff: RangeDiffResponse = {
+  oldTip: 'abc1234',
+  newTip: 'feature',
+  onto: 'main',
+  pairs: [
+    {
+      status: 'unchanged',
+      old: { index: 1, shortHash: 'c0debee' },
+      new: { index: 1, shortHash: 'cab005e' },
+      title: 'Add a helpful message',
+      lines: [],
+    },
+    {
+      status: 'modified',
+      old: { index: 2, shortHash: 'f00dba1' },
+      new: { index: 2, shortHash: 'decafe1' },
+      title: 'Describe a bug',
+      lines: [
+        { type: 'hunk', content: '@@ src/bug.ts: export function crash()' },
+        { type: 'normal', content: '  return null;' },
+        { type: 'delete', content: '+throw new Error("unexpected");' },
+        { type: 'add', content: '+throw new Error("unexpected crash");' },
+      ],
+    },
+    {
+      status: 'added',
+      new: { index: 3, shortHash: '0ddba11' },
+      title: 'Prepare for the inevitable',
+      lines: [],
+    },
+  ],
+};
+
+describe('RangeDiffViewer', () => {
+  beforeEach(() => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => rangeDiff,
+    } as Response);
+  });
+
+  it('pairs the old and new patch lines of modified commits', async () => {
+    render(<RangeDiffViewer />);
+
+    expect(await screen.findByText(/2 of 3 commits changed/)).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith('/api/range-diff');
+
+    const removedLine = screen.getByText('+throw new Error("unexpected");');
+    const addedLine = screen.getByText('+throw new Error("unexpected crash");');
+    expect(removedLine).toHaveClass('bg-diff-deletion-bg');
+    expect(addedLine).toHaveClass('bg-diff-addition-bg');
+    // Changed lines sit on the same row so the two versions can be compared directly
+    expect(removedLine.parentElement).toBe(addedLine.parentElement);
+    expect(screen.getAllByText('return null;', { exact: false })).toHaveLength(2);
+  });
+
+  it('keeps unchanged commits collapsed until expanded', async () => {
+    render(<RangeDiffViewer />);
+
+    const unchangedHeader = await screen.findByRole('button', { name: /Add a helpful message/ });
+    expect(unchangedHeader).toHaveAttribute('aria-expanded', 'false');
+
+    fireEvent.click(unchangedHeader);
+
+    expect(unchangedHeader).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByText('The patch is identical in both versions.')).toBeInTheDocument();
+  });
+
+  it('shows an error when the range-diff cannot be loaded', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      statusText: 'Internal Server Error',
+    } as Response);
+
+    render(<RangeDiffViewer />);
+
+    expect(
+      await screen.findByText('Failed to load range-diff: Internal Server Error'),
+    ).toBeInTheDocument();
+  });
+});
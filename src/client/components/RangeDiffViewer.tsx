@@ -0,0 +1,215 @@
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import {
+  type DiffLine,
+  type RangeDiffPair,
+  type RangeDiffPairStatus,
+  type RangeDiffResponse,
+} from '../../types/diff';
+import { resolveApiUrl } from '../utils/apiUrl';
+
+type PairedRow =
+  | { kind: 'hunk'; content: string }
+  | { kind: 'line'; old?: DiffLine; new?: DiffLine };
+
+const STATUS_LABELS: Record<RangeDiffPairStatus, string> = {
+  unchanged: 'Unchanged',
+  modified: 'Modified',
+  removed: 'Dropped',
+  added: 'New',
+};
+
+const STATUS_BADGE_CLASSES: Record<RangeDiffPairStatus, string> = {
+  unchanged: 'bg-github-bg-tertiary text-github-text-secondary',
+  modified: 'bg-diff-selected-bg text-github-warning',
+  removed: 'bg-diff-deletion-bg text-github-danger',
+  added: 'bg-diff-addition-bg text-github-accent',
+};
+
+// Lay out the patch-of-patch like a split diff: the previous version's patch on the
+// left, the new version's patch on the right, with changed lines side by side.
+const buildPairedRows = (lines: DiffLine[]): PairedRow[] => {
+  const rows: PairedRow[] = [];
+  let deletions: DiffLine[] = [];
+  let additions: DiffLine[] = [];
+
+  const flush = () => {
+    const count = Math.max(deletions.length, additions.length);
+    for (let index = 0; index < count; index++) {
+      rows.push({ kind: 'line', old: deletions[index], new: additions[index] });
+    }
+    deletions = [];
+    additions = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'delete') {
+      if (additions.length > 0) flush();
+      deletions.push(line);
+    } else if (line.type === 'add') {
+      additions.push(line);
+    } else {
+      flush();
+      rows.push(
+        line.type === 'hunk'
+          ? { kind: 'hunk', content: line.content }
+          : { kind: 'line', old: line, new: line },
+      );
+    }
+  }
+  flush();
+
+  return rows;
+};
+
+const formatCommitRef = (ref: RangeDiffPair['old']) =>
+  ref ? `${ref.index}: ${ref.shortHash}` : '—';
+
+function RangeDiffCell({ line, side }: { line?: DiffLine; side: 'old' | 'new' }) {
+  const changedClass =
+    line?.type === 'delete'
+      ? 'bg-diff-deletion-bg'
+      : line?.type === 'add'
+        ? 'bg-diff-addition-bg'
+        : '';
+
+  return (
+    <td
+      className={`w-1/2 px-3 py-0.5 align-top whitespace-pre-wrap break-all ${changedClass} ${
+        side === 'old' ? 'border-r border-github-border' : ''
+      }`}
+    >
+      {line?.content ?? ''}
+    </td>
+  );
+}
+
+function RangeDiffPairCard({ pair }: { pair: RangeDiffPair }) {
+  const [isExpanded, setIsExpanded] = useState(pair.status === 'modified');
+  const rows = buildPairedRows(pair.lines);
+
+  return (
+    <section className="mb-4 bg-github-bg-secondary border border-github-border rounded-md overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        className="w-full flex items-center gap-3 px-4 py-2 text-left text-sm hover:bg-github-bg-tertiary cursor-pointer"
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <span
+          className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_BADGE_CLASSES[pair.status]}`}
+        >
+          {STATUS_LABELS[pair.status]}
+        </span>
+        <code className="text-xs text-github-text-secondary whitespace-nowrap">
+          {formatCommitRef(pair.old)} → {formatCommitRef(pair.new)}
+        </code>
+        <span className="text-github-text-primary truncate">{pair.title}</span>
+      </button>
+      {isExpanded && (
+        <div className="border-t border-github-border">
+          {rows.length === 0 ? (
+            <div className="px-4 py-3 text-xs text-github-text-muted">
+              {pair.status === 'added'
+                ? 'This commit only exists in the new version.'
+                : pair.status === 'removed'
+                  ? 'This commit was dropped from the new version.'
+                  : 'The patch is identical in both versions.'}
+            </div>
+          ) : (
+            <table className="w-full table-fixed font-mono text-xs text-github-text-primary">
+              <thead>
+                <tr className="text-github-text-secondary bg-github-bg-tertiary">
+                  <th className="w-1/2 px-3 py-1 text-left font-medium border-r border-github-border">
+                    Previous version
+                  </th>
+                  <th className="w-1/2 px-3 py-1 text-left font-medium">New version</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) =>
+                  row.kind === 'hunk' ? (
+                    <tr key={index} className="bg-diff-neutral-bg text-github-text-secondary">
+                      <td colSpan={2} className="px-3 py-0.5">
+                        {row.content}
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr key={index}>
+                      <RangeDiffCell line={row.old} side="old" />
+                      <RangeDiffCell line={row.new} side="new" />
+                    </tr>
+                  ),
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+export function RangeDiffViewer() {
+  const [rangeDiff, setRangeDiff] = useState<RangeDiffResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCanceled = false;
+
+    fetch(resolveApiUrl('/api/range-diff'))
+      .then((res) => {
+        if (!res.ok) {
+          throw new Error(`Failed to load range-diff: ${res.statusText}`);
+        }
+        return res.json() as Promise<RangeDiffResponse>;
+      })
+      .then((data) => {
+        if (!isCanceled) setRangeDiff(data);
+      })
+      .catch((err: unknown) => {
+        if (!isCanceled) setError(err instanceof Error ? err.message : 'Failed to load range-diff');
+      });
+
+    return () => {
+      isCanceled = true;
+    };
+  }, []);
+
+  if (error) {
+    return <div className="p-6 text-sm text-github-danger">{error}</div>;
+  }
+
+  if (!rangeDiff) {
+    return <div className="p-6 text-sm text-github-text-secondary">Loading range-diff...</div>;
+  }
+
+  const changedCount = rangeDiff.pairs.filter((pair) => pair.status !== 'unchanged').length;
+
+  return (
+    <div className="p-4">
+      <div className="mb-4 text-sm text-github-text-secondary">
+        <code className="text-github-text-primary">{rangeDiff.oldTip}</code> →{' '}
+        <code className="text-github-text-primary">{rangeDiff.newTip}</code>
+        {rangeDiff.onto && (
+          <>
+            {' '}
+            onto <code className="text-github-text-primary">{rangeDiff.onto}</code>
+          </>
+        )}
+        {' · '}
+        {changedCount === 0
+          ? 'No commits changed between the two versions'
+          : `${changedCount} of ${rangeDiff.pairs.length} commits changed`}
+      </div>
+      {rangeDiff.pairs.map((pair, index) => (
+        <RangeDiffPairCard
+          key={`${pair.old?.shortHash ?? '-'}:${pair.new?.shortHash ?? '-'}:${index}`}
+          pair={pair}
+        />
+      ))}
+    </div>
+  );
+}
@@ -39,4 +39,36 @@ describe('RevisionDetailModal', () => {
       targetCommitish: '.',
     });
   });
+
+  it('diffs a stash part against the commit the stash was made on', () => {
+    const onApply = vi.fn();
+
+    render(
+      <HotkeysProvider>
+        <RevisionDetailModal
+          isOpen
+          onClose={vi.fn()}
+          options={{
+            specialOptions: [],
+            branches: [{ name: 'main', current: true }],
+            commits: [],
+            stashes: [
+              { ref: 'stash@{1}', hash: 'fedcba9876', shortHash: 'fedcba9', message: 'WIP' },
+            ],
+          }}
+          selection={{ baseCommitish: 'main^', targetCommitish: 'main' }}
+          onApply={onApply}
+        />
+      </HotkeysProvider>,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /Target:/ }));
+    fireEvent.click(screen.getByRole('button', { name: 'stash@{1} index' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    expect(onApply).toHaveBeenCalledWith({
+      baseCommitish: 'stash@{1}^',
+      targetCommitish: 'stash@{1}^2',
+    });
+  });
 });
@@ -3,7 +3,11 @@ import { useEffect, useMemo, useState } from 'react';
 import { useHotkeysContext } from 'react-hotkeys-hook';
 
 import { type DiffSelection, type RevisionsResponse } from '../../types/diff';
-import { createDiffSelection } from '../../utils/diffSelection';
+import {
+  createDiffSelection,
+  createStashSelection,
+  parseStashTarget,
+} from '../../utils/diffSelection';
 
 import { RevisionSelector } from './RevisionSelector';
 
@@ -116,9 +120,15 @@ export function RevisionDetailModal({
               label="Target"
               value={localTarget}
               resolvedValue={resolvedTargetRevision}
-              onChange={(value) =>
-                setLocalSelection(createDiffSelection(localSelection.baseCommitish, value))
-              }
+              onChange={(value) => {
+                // A stash part is only meaningful against the commit it was made on
+                const stashTarget = parseStashTarget(value);
+                setLocalSelection(
+                  stashTarget
+                    ? createStashSelection(stashTarget.stashRef, stashTarget.part)
+                    : createDiffSelection(localSelection.baseCommitish, value),
+                );
+              }}
               options={options}
               disabledValues={targetDisabledValues}
             />
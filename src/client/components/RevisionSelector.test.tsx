@@ -154,4 +154,39 @@ describe('RevisionSelector', () => {
 
     expect(screen.queryByRole('button', { name: 'Merge Base' })).not.toBeInTheDocument();
   });
+
+  it('offers the working-tree and index parts of each stash', () => {
+    const onChange = vi.fn();
+    render(
+      <RevisionSelector
+        label="Target"
+        value="stash@{0}^2"
+        onChange={onChange}
+        options={{
+          ...options,
+          stashes: [
+            {
+              ref: 'stash@{0}',
+              hash: 'fedcba9876',
+              shortHash: 'fedcba9',
+              message: 'WIP on main: abc1234 Commit A',
+            },
+          ],
+        }}
+      />,
+    );
+
+    expect(screen.getByText('stash@{0} (index)')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /Target:/ }));
+
+    expect(screen.getByText('Stashes')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'stash@{0} index' })).toHaveClass(
+      'border-diff-selected-border',
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'stash@{0} working tree' }));
+
+    expect(onChange).toHaveBeenCalledWith('stash@{0}');
+  });
 });
@@ -19,9 +19,12 @@ import { ChevronDown, Search } from 'lucide-react';
 import { useRef, useState, type KeyboardEvent } from 'react';
 
 import { type RevisionsResponse } from '../../types/diff';
+import { createStashSelection, parseStashTarget } from '../../utils/diffSelection';
 
 const RESERVED_SPECIAL_OPTION_VALUES = new Set(['merge-base']);
 const EMPTY_DISABLED_VALUES: string[] = [];
+const STASH_PART_LABELS = { working: 'Working tree', index: 'Index' } as const;
+const STASH_PARTS = ['working', 'index'] as const;
 
 interface RevisionSelectorProps {
   label: string;
@@ -104,6 +107,12 @@ export function RevisionSelector({
     const commit = options.commits.find((c) => c.shortHash === value || c.hash === value);
     if (commit) return `${commit.shortHash} - ${commit.message}`;
 
+    // Check stash parts
+    const stashTarget = parseStashTarget(value);
+    if (stashTarget) {
+      return `${stashTarget.stashRef} (${STASH_PART_LABELS[stashTarget.part].toLowerCase()})`;
+    }
+
     return value || 'Select...';
   };
 
@@ -129,11 +138,20 @@ export function RevisionSelector({
   const filteredBranches = isWorkingStagedMode
     ? []
     : options.branches.filter((branch) => matchesQuery(branch.name));
+  const filteredStashes = isWorkingStagedMode
+    ? []
+    : (options.stashes ?? []).filter((stash) =>
+        matchesQuery(stash.ref, stash.shortHash, stash.hash, stash.message),
+      );
 
   const hasNoMatches =
     filteredSpecialOptions.length === 0 &&
     filteredCommits.length === 0 &&
-    filteredBranches.length === 0;
+    filteredBranches.length === 0 &&
+    filteredStashes.length === 0;
+
+  const getStashPartValue = (stashRef: string, part: (typeof STASH_PARTS)[number]) =>
+    createStashSelection(stashRef, part).targetCommitish;
 
   // Select the first enabled match when pressing Enter in the search box
   const handleSearchKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
@@ -143,7 +161,10 @@ export function RevisionSelector({
     const firstMatch =
       filteredSpecialOptions.find((opt) => !isDisabled(opt.value))?.value ??
       filteredCommits.find((commit) => !isDisabled(commit.shortHash))?.shortHash ??
-      filteredBranches.find((branch) => !isDisabled(branch.name))?.name;
+      filteredBranches.find((branch) => !isDisabled(branch.name))?.name ??
+      filteredStashes
+        .map((stash) => getStashPartValue(stash.ref, 'working'))
+        .find((stashValue) => !isDisabled(stashValue));
     if (firstMatch !== undefined) {
       handleSelect(firstMatch);
     }
@@ -297,6 +318,48 @@ export function RevisionSelector({
                 </div>
               )}
 
+              {/* Stashes - each entry offers its working-tree and index parts */}
+              {filteredStashes.length > 0 && (
+                <div className="border-t border-github-border">
+                  <div className="px-3 py-2 text-xs font-semibold text-github-text-secondary bg-github-bg-tertiary">
+                    Stashes
+                  </div>
+                  {filteredStashes.map((stash) => (
+                    <div key={stash.hash} className="px-3 py-2 text-xs">
+                      <div className="flex items-start gap-2">
+                        <code className="text-xs text-github-text-primary font-mono whitespace-nowrap">
+                          {stash.ref}
+                        </code>
+                        <span className="text-xs text-github-text-secondary flex-1 break-words">
+                          {stash.message}
+                        </span>
+                      </div>
+                      <div className="mt-1 flex gap-1">
+                        {STASH_PARTS.map((part) => {
+                          const stashValue = getStashPartValue(stash.ref, part);
+                          const disabled = isDisabled(stashValue);
+                          return (
+                            <button
+                              key={part}
+                              onClick={() => handleSelect(stashValue)}
+                              disabled={disabled}
+                              aria-label={`${stash.ref} ${STASH_PART_LABELS[part].toLowerCase()}`}
+                              className={`px-2 py-0.5 rounded border text-xs transition-colors ${
+                                stashValue === value
+                                  ? 'border-diff-selected-border bg-diff-selected-bg font-semibold'
+                                  : 'border-github-border hover:bg-github-bg-tertiary'
+                              } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                            >
+                              {STASH_PART_LABELS[part]}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Empty state when the query matches nothing */}
               {hasNoMatches && (
                 <div className="px-3 py-4 text-center text-xs text-github-text-muted">
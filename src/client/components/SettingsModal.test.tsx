@@ -30,6 +30,7 @@ const baseSettings = {
   },
   colorVision: 'normal' as const,
   autoViewedPatterns: [],
+  collapseMovedFiles: false,
 };
 
 describe('SettingsModal', () => {
@@ -301,4 +302,28 @@ describe('SettingsModal', () => {
       autoViewedPatterns: ['*.test.ts', 'src/generated/**'],
     });
   });
+
+  it('toggles collapsing of moved-only files from the system section', () => {
+    const onSettingsChange = vi.fn();
+
+    render(
+      <SettingsModal
+        isOpen={true}
+        onClose={vi.fn()}
+        settings={baseSettings}
+        onSettingsChange={onSettingsChange}
+      />,
+      { wrapper },
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /^System/ }));
+    fireEvent.click(
+      screen.getByRole('checkbox', { name: 'Collapse files that only contain moved code' }),
+    );
+
+    expect(onSettingsChange).toHaveBeenLastCalledWith({
+      ...baseSettings,
+      collapseMovedFiles: true,
+    });
+  });
 });
@@ -16,6 +16,7 @@ import {
   getThemesForResolvedTheme,
   isSyntaxThemeForResolvedTheme,
 } from '../utils/themeLoader';
+import { Checkbox } from './Checkbox';
 import { Tooltip } from './Tooltip';
 
 interface EditorSettings {
@@ -32,6 +33,8 @@ interface AppearanceSettings {
   editor: EditorSettings;
   colorVision: ColorVisionMode;
   autoViewedPatterns: string[];
+  // Collapse files whose changes are all code moved to or from another place in the diff
+  collapseMovedFiles: boolean;
 }
 
 interface SettingsModalProps {
@@ -56,6 +59,7 @@ const DEFAULT_SETTINGS: AppearanceSettings = {
   },
   colorVision: 'normal',
   autoViewedPatterns: [],
+  collapseMovedFiles: false,
 };
 
 const FONT_FAMILIES = [
@@ -168,6 +172,7 @@ export function SettingsModal({ isOpen, onClose, settings, onSettingsChange }: S
       ...settings,
       editor: { ...DEFAULT_SETTINGS.editor },
       autoViewedPatterns: DEFAULT_SETTINGS.autoViewedPatterns,
+      collapseMovedFiles: DEFAULT_SETTINGS.collapseMovedFiles,
     });
     setAutoViewedPatternsInput(formatAutoViewedPatterns(DEFAULT_SETTINGS.autoViewedPatterns));
   };
@@ -373,6 +378,23 @@ export function SettingsModal({ isOpen, onClose, settings, onSettingsChange }: S
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-github-text-primary mb-2">
+                    Moved Code
+                  </label>
+                  <p className="text-sm text-github-text-secondary mb-2">
+                    Blocks moved from one place in the diff to another are highlighted and linked to
+                    each other.
+                  </p>
+                  <Checkbox
+                    checked={settings.collapseMovedFiles}
+                    onChange={(checked) =>
+                      onSettingsChange({ ...settings, collapseMovedFiles: checked })
+                    }
+                    label="Collapse files that only contain moved code"
+                  />
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-github-text-primary mb-2">
                     Open In Editor
@@ -1,25 +1,33 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 
 import {
+  type BlameCommit,
   type DiffChunk as DiffChunkType,
   type DiffLine,
   type DiffSide,
   type CommentThread,
+  type HunkAction,
   type LineNumber,
   type LineSelection,
 } from '../../types/diff';
 import { type CursorPosition } from '../hooks/keyboardNavigation';
+import { getBlameGutterEntries, type BlameLookup } from '../utils/blame';
+import { getSelectedChangeIndices } from '../utils/hunkActions';
 import {
   computeWordLevelDiff,
   shouldComputeWordDiff,
   type WordLevelDiffResult,
 } from '../utils/wordLevelDiff';
+import { useDiffSearchHighlight } from '../contexts/DiffSearchContext';
 import { useFileLevelTokensLookup } from '../contexts/FileLevelTokensContext';
 
+import { BlameGutterCell } from './BlameGutterCell';
 import { CommentButton } from './CommentButton';
 import { CommentForm } from './CommentForm';
 import { CommentThreadCard } from './CommentThreadCard';
 import { EnhancedPrismSyntaxHighlighter } from './EnhancedPrismSyntaxHighlighter';
+import { HunkActionBar } from './HunkActionBar';
+import { MovedLineButton } from './MovedLineButton';
 import { OpenInEditorButton } from './OpenInEditorButton';
 import type { AppearanceSettings } from './SettingsModal';
 import { WordLevelDiffHighlighter } from './WordLevelDiffHighlighter';
@@ -40,6 +48,13 @@ interface SideBySideDiffChunkProps {
   onReplyToThread: (threadId: string, body: string) => Promise<void>;
   onRemoveMessage: (threadId: string, messageId: string) => void;
   onUpdateMessage: (threadId: string, messageId: string, newBody: string) => void;
+  onApplySuggestion?: (thread: CommentThread) => Promise<void>;
+  hunkActions?: HunkAction[];
+  onHunkAction?: (
+    chunk: DiffChunkType,
+    action: HunkAction,
+    lineIndices?: number[],
+  ) => Promise<void>;
   syntaxTheme?: AppearanceSettings['syntaxTheme'];
   cursor?: CursorPosition | null;
   fileIndex?: number;
@@ -57,6 +72,8 @@ interface SideBySideDiffChunkProps {
   onCommentTriggerHandled?: () => void;
   filename?: string;
   onOpenInEditor?: (filePath: string, lineNumber: number) => void;
+  blame?: BlameLookup | null;
+  onOpenBlameCommit?: (commit: BlameCommit) => void;
 }
 
 interface SideBySideLine {
@@ -85,6 +102,9 @@ const getSideBySideLineClass = (line: DiffLine | undefined, isExpanded: boolean)
   if (isExpanded) {
     return 'bg-github-bg-tertiary/80';
   }
+  if (line?.moved) {
+    return 'bg-diff-moved-bg';
+  }
   if (line?.type === 'delete') {
     return 'bg-diff-deletion-bg';
   }
@@ -101,7 +121,7 @@ const getClickedLineTarget = (
   target: HTMLElement,
   sideLine: SideBySideLine,
 ): ClickedLineTarget | null => {
-  const isInOldSide = target.closest('td:nth-child(1)') || target.closest('td:nth-child(2)');
+  const isInOldSide = target.closest('td[data-side="old"]');
   if (isInOldSide) {
     if (
       !sideLine.oldLineNumber ||
@@ -120,7 +140,7 @@ const getClickedLineTarget = (
     };
   }
 
-  const isInNewSide = target.closest('td:nth-child(3)') || target.closest('td:nth-child(4)');
+  const isInNewSide = target.closest('td[data-side="new"]');
   if (!isInNewSide) return null;
 
   if (
@@ -151,6 +171,9 @@ export function SideBySideDiffChunk({
   onReplyToThread,
   onRemoveMessage,
   onUpdateMessage,
+  onApplySuggestion,
+  hunkActions,
+  onHunkAction,
   syntaxTheme,
   cursor = null,
   fileIndex = 0,
@@ -159,8 +182,11 @@ export function SideBySideDiffChunk({
   onCommentTriggerHandled,
   filename,
   onOpenInEditor,
+  blame,
+  onOpenBlameCommit,
 }: SideBySideDiffChunkProps) {
   const { getOldTokens, getNewTokens } = useFileLevelTokensLookup();
+  const { getLineMatchRanges } = useDiffSearchHighlight();
   const [startLine, setStartLine] = useState<LineSelection | null>(null);
   const [endLine, setEndLine] = useState<LineSelection | null>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -507,8 +533,32 @@ export function SideBySideDiffChunk({
     [chunk.lines, convertToSideBySide],
   );
 
+  const blameEntries = useMemo(
+    () =>
+      blame
+        ? getBlameGutterEntries(
+            sideBySideLines.map((sideLine) => sideLine.oldLineNumber),
+            blame,
+          )
+        : null,
+    [blame, sideBySideLines],
+  );
+  const columnCount = blameEntries ? 5 : 4;
+
+  const selectedChangeIndices = useMemo(
+    () => getSelectedChangeIndices(chunk.lines, commentingLine),
+    [chunk.lines, commentingLine],
+  );
+
   return (
     <div className="bg-github-bg-primary overflow-hidden">
+      {hunkActions && onHunkAction && (
+        <HunkActionBar
+          actions={hunkActions}
+          selectedLineIndices={selectedChangeIndices}
+          onAction={(action, lineIndices) => onHunkAction(chunk, action, lineIndices)}
+        />
+      )}
       <table className="w-full table-fixed border-collapse font-mono text-sm leading-5">
         <tbody>
           {sideBySideLines.map((sideLine, index) => {
@@ -590,10 +640,8 @@ export function SideBySideDiffChunk({
                   onMouseEnter={(e) => {
                     const target = e.target;
                     if (!(target instanceof HTMLElement)) return;
-                    const isInOldSide =
-                      target.closest('td:nth-child(1)') || target.closest('td:nth-child(2)');
-                    const isInNewSide =
-                      target.closest('td:nth-child(3)') || target.closest('td:nth-child(4)');
+                    const isInOldSide = target.closest('td[data-side="old"]');
+                    const isInNewSide = target.closest('td[data-side="new"]');
 
                     if (isInOldSide && sideLine.oldLineNumber) {
                       setHoveredLine({
@@ -610,10 +658,8 @@ export function SideBySideDiffChunk({
                   onMouseMove={(e) => {
                     const target = e.target;
                     if (!(target instanceof HTMLElement)) return;
-                    const isInOldSide =
-                      target.closest('td:nth-child(1)') || target.closest('td:nth-child(2)');
-                    const isInNewSide =
-                      target.closest('td:nth-child(3)') || target.closest('td:nth-child(4)');
+                    const isInOldSide = target.closest('td[data-side="old"]');
+                    const isInNewSide = target.closest('td[data-side="new"]');
 
                     // Update hover state based on mouse position
                     if (isInOldSide && sideLine.oldLineNumber) {
@@ -656,8 +702,15 @@ export function SideBySideDiffChunk({
                   onMouseLeave={() => setHoveredLine(null)}
                 >
                   {/* Old side */}
+                  {blameEntries && (
+                    <BlameGutterCell
+                      entry={blameEntries[index] ?? null}
+                      onOpenCommit={onOpenBlameCommit}
+                    />
+                  )}
                   <td
                     id={oldLineNavId}
+                    data-side="old"
                     className={`w-[var(--line-number-width)] min-w-[var(--line-number-width)] max-w-[var(--line-number-width)] px-2 text-right text-github-text-muted bg-github-bg-secondary border-r border-github-border select-none align-top relative overflow-visible ${highlightOldCell ? cellHighlightClass : ''}`}
                   >
                     <span>{sideLine.oldLineNumber || ''}</span>
@@ -692,6 +745,7 @@ export function SideBySideDiffChunk({
                       )}
                   </td>
                   <td
+                    data-side="old"
                     className={`w-1/2 p-0 align-top border-r border-github-border relative ${getSideBySideLineClass(sideLine.oldLine, isExpandedLine(sideLine.oldLine))} ${getSelectedLineStyle('old', sideLine)} ${highlightOldCell ? cellHighlightClass : ''}`}
                   >
                     {sideLine.oldLine && (
@@ -699,6 +753,10 @@ export function SideBySideDiffChunk({
                         {sideLine.wordLevelDiff ? (
                           <WordLevelDiffHighlighter
                             segments={sideLine.wordLevelDiff.oldSegments}
+                            highlightRanges={getLineMatchRanges(
+                              sideLine.oldLine.content,
+                              sideLine.oldLine.type,
+                            )}
                             className="flex-1 text-github-text-primary whitespace-pre-wrap break-all overflow-wrap-break-word select-text"
                           />
                         ) : (
@@ -711,8 +769,13 @@ export function SideBySideDiffChunk({
                               getOldTokens,
                               sideLine.oldLine.oldLineNumber,
                             )}
+                            highlightRanges={getLineMatchRanges(
+                              sideLine.oldLine.content,
+                              sideLine.oldLine.type,
+                            )}
                           />
                         )}
+                        <MovedLineButton line={sideLine.oldLine} />
                       </div>
                     )}
                   </td>
@@ -720,6 +783,7 @@ export function SideBySideDiffChunk({
                   {/* New side */}
                   <td
                     id={newLineNavId}
+                    data-side="new"
                     className={`w-[var(--line-number-width)] min-w-[var(--line-number-width)] max-w-[var(--line-number-width)] px-2 text-right text-github-text-muted bg-github-bg-secondary border-r border-github-border select-none align-top relative overflow-visible ${highlightNewCell ? cellHighlightClass : ''}`}
                   >
                     <span>{sideLine.newLineNumber || ''}</span>
@@ -751,6 +815,7 @@ export function SideBySideDiffChunk({
                       )}
                   </td>
                   <td
+                    data-side="new"
                     className={`w-1/2 p-0 align-top relative ${getSideBySideLineClass(sideLine.newLine, isExpandedLine(sideLine.newLine))} ${getSelectedLineStyle('new', sideLine)} ${highlightNewCell ? cellHighlightClass : ''}`}
                   >
                     {sideLine.newLine && (
@@ -758,6 +823,10 @@ export function SideBySideDiffChunk({
                         {sideLine.wordLevelDiff ? (
                           <WordLevelDiffHighlighter
                             segments={sideLine.wordLevelDiff.newSegments}
+                            highlightRanges={getLineMatchRanges(
+                              sideLine.newLine.content,
+                              sideLine.newLine.type,
+                            )}
                             className="flex-1 text-github-text-primary whitespace-pre-wrap break-all overflow-wrap-break-word select-text"
                           />
                         ) : (
@@ -770,8 +839,13 @@ export function SideBySideDiffChunk({
                               getNewTokens,
                               sideLine.newLine.newLineNumber,
                             )}
+                            highlightRanges={getLineMatchRanges(
+                              sideLine.newLine.content,
+                              sideLine.newLine.type,
+                            )}
                           />
                         )}
+                        <MovedLineButton line={sideLine.newLine} />
                       </div>
                     )}
                   </td>
@@ -780,7 +854,7 @@ export function SideBySideDiffChunk({
                 {/* Comment threads row */}
                 {allThreads.length > 0 && (
                   <tr className="bg-github-bg-secondary">
-                    <td colSpan={4} className="p-0 border-t border-github-border">
+                    <td colSpan={columnCount} className="p-0 border-t border-github-border">
                       {allThreads.map((thread) => {
                         const threadSide = thread.side || 'new';
                         let layout: 'left' | 'right' | 'full';
@@ -814,6 +888,7 @@ export function SideBySideDiffChunk({
                                   onReplyToThread={onReplyToThread}
                                   onRemoveMessage={onRemoveMessage}
                                   onUpdateMessage={onUpdateMessage}
+                                  onApplySuggestion={onApplySuggestion}
                                   syntaxTheme={syntaxTheme}
                                 />
                               </div>
@@ -837,7 +912,7 @@ export function SideBySideDiffChunk({
                         (commentingLine.side === 'old' &&
                           commentingLine.lineNumber[1] === sideLine.oldLineNumber)))) && (
                     <tr className="bg-github-bg-secondary">
-                      <td colSpan={4} className="p-0">
+                      <td colSpan={columnCount} className="p-0">
                         <div
                           className={`flex ${
                             commentingLine.side === 'old'
@@ -0,0 +1,170 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { type CommentThread, type DiffFile, type DiffResponse } from '../../types/diff';
+import type { DiffViewerBodyProps } from '../viewers/types';
+
+import { SubmoduleDiffViewer } from './SubmoduleDiffViewer';
+
+vi.mock('../viewers/TextDiffViewer', () => ({
+  TextDiffViewer: ({ file, threads, baseCommitish, onAddComment }: DiffViewerBodyProps) => (
+    <div data-testid="nested-viewer">
+      <span>{`${file.path} @ ${baseCommitish}`}</span>
+      {threads.map((thread) => (
+        <span key={thread.id}>{`${thread.id}${thread.isOutdated ? ' (outdated)' : ''}`}</span>
+      ))}
+      <button type="button" onClick={() => void onAddComment(1, 'Looks odd', 'new', 'new')}>
+        Comment
+      </button>
+    </div>
+  ),
+}));
+
+const submoduleFile: DiffFile = {
+  path: 'vendor/lib',
+  status: 'submodule',
+  additions: 0,
+  deletions: 0,
+  chunks: [],
+  submodule: {
+    oldCommit: '1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+    newCommit: '2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+  },
+};
+
+const submoduleDiff: DiffResponse = {
+  commit: '1111111...2222222',
+  baseCommitish: '1111111',
+  targetCommitish: '2222222',
+  files: [
+    {
+      path: 'src/lib.ts',
+      status: 'modified',
+      additions: 1,
+      deletions: 1,
+      chunks: [
+        {
+          header: '@@ -1 +1 @@',
+          oldStart: 1,
+          oldLines: 1,
+          newStart: 1,
+          newLines: 1,
+          lines: [
+            { type: 'delete', content: 'old', oldLineNumber: 1 },
+            { type: 'add', content: 'new', newLineNumber: 1 },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const createThread = (id: string, file: string, codeContent: string): CommentThread => ({
+  id,
+  file,
+  line: 1,
+  side: 'new',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  codeContent,
+  isOutdated: true,
+  messages: [],
+});
+
+const renderViewer = (threads: CommentThread[] = []) => {
+  const onAddComment = vi.fn().mockResolvedValue(undefined);
+  render(
+    <SubmoduleDiffViewer
+      file={submoduleFile}
+      threads={threads}
+      diffMode="split"
+      onAddComment={onAddComment}
+      onGenerateThreadPrompt={vi.fn()}
+      onRemoveThread={vi.fn()}
+      onReplyToThread={vi.fn()}
+      onRemoveMessage={vi.fn()}
+      onUpdateMessage={vi.fn()}
+    />,
+  );
+  return { onAddComment };
+};
+
+describe('SubmoduleDiffViewer', () => {
+  beforeEach(() => {
+    vi.mocked(global.fetch).mockClear();
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => submoduleDiff,
+    } as Response);
+  });
+
+  it('loads the nested diff only once expanded', async () => {
+    renderViewer();
+
+    expect(screen.getByText('1111111 → 2222222')).toBeInTheDocument();
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: /Show submodule diff/ }));
+
+    expect(await screen.findByText('vendor/lib/src/lib.ts @ 1111111')).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/submodule-diff/vendor%2Flib?old=1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa&new=2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+    );
+  });
+
+  it('scopes comments on nested files with the submodule path', async () => {
+    const { onAddComment } = renderViewer([
+      createThread('current', 'vendor/lib/src/lib.ts', 'new'),
+      createThread('stale', 'vendor/lib/src/lib.ts', 'older'),
+      createThread('elsewhere', 'vendor/lib/src/other.ts', 'new'),
+    ]);
+
+    fireEvent.click(screen.getByRole('button', { name: /Show submodule diff/ }));
+    await screen.findByTestId('nested-viewer');
+
+    expect(screen.getByText('current')).toBeInTheDocument();
+    expect(screen.getByText('stale (outdated)')).toBeInTheDocument();
+    expect(screen.queryByText(/elsewhere/)).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Comment' }));
+
+    expect(onAddComment).toHaveBeenCalledWith(
+      'vendor/lib/src/lib.ts',
+      1,
+      'Looks odd',
+      'new',
+      'new',
+    );
+  });
+
+  it('shows files that have a rich viewer as text without reading superproject blobs', async () => {
+    const [nestedFile] = submoduleDiff.files;
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ ...submoduleDiff, files: [{ ...nestedFile, path: 'docs/guide.md' }] }),
+    } as Response);
+
+    renderViewer();
+    fireEvent.click(screen.getByRole('button', { name: /Show submodule diff/ }));
+
+    expect(await screen.findByText('vendor/lib/docs/guide.md @ 1111111')).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows the server error when the nested diff cannot be loaded', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      statusText: 'Internal Server Error',
+      json: async () => ({
+        error: 'Failed to load submodule diff for vendor/lib: not checked out',
+      }),
+    } as Response);
+
+    renderViewer();
+    fireEvent.click(screen.getByRole('button', { name: /Show submodule diff/ }));
+
+    expect(
+      await screen.findByText('Failed to load submodule diff for vendor/lib: not checked out'),
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,189 @@
+import { ChevronDown, ChevronRight, FolderGit2 } from 'lucide-react';
+import { useState } from 'react';
+
+import {
+  type CommentThread,
+  type DiffFile,
+  type DiffResponse,
+  type DiffSide,
+  type DiffViewMode,
+  type LineNumber,
+} from '../../types/diff';
+import { resolveApiUrl } from '../utils/apiUrl';
+import { toUnexpandedMergedChunks } from '../utils/mergedChunks';
+import { buildFileLineIndex, isThreadOutdated } from '../utils/outdatedComments';
+import { TextDiffViewer } from '../viewers/TextDiffViewer';
+
+import type { AppearanceSettings } from './SettingsModal';
+
+interface SubmoduleDiffViewerProps {
+  file: DiffFile;
+  threads: CommentThread[];
+  showAuthorBadges?: boolean;
+  diffMode: DiffViewMode;
+  syntaxTheme?: AppearanceSettings['syntaxTheme'];
+  onAddComment: (
+    file: string,
+    line: LineNumber,
+    body: string,
+    codeContent?: string,
+    side?: DiffSide,
+  ) => Promise<void>;
+  onGenerateThreadPrompt: (thread: CommentThread) => string;
+  onRemoveThread: (threadId: string) => void;
+  onReplyToThread: (threadId: string, body: string) => Promise<void>;
+  onRemoveMessage: (threadId: string, messageId: string) => void;
+  onUpdateMessage: (threadId: string, messageId: string, newBody: string) => void;
+  onApplySuggestion?: (thread: CommentThread) => Promise<void>;
+  onOpenInEditor?: (filePath: string, lineNumber: number) => void;
+}
+
+const formatCommit = (commit?: string) => (commit ? commit.slice(0, 7) : '—');
+
+// Nested files are shown and commented on by their path in the superproject,
+// so threads on them travel with the rest of the review.
+const prefixNestedFile = (submodulePath: string, file: DiffFile): DiffFile => ({
+  ...file,
+  path: `${submodulePath}/${file.path}`,
+  oldPath: file.oldPath ? `${submodulePath}/${file.oldPath}` : undefined,
+});
+
+const noExpand = async () => {};
+
+async function fetchSubmoduleDiff(file: DiffFile): Promise<DiffResponse> {
+  const params = new URLSearchParams();
+  if (file.submodule?.oldCommit) params.set('old', file.submodule.oldCommit);
+  if (file.submodule?.newCommit) params.set('new', file.submodule.newCommit);
+
+  const response = await fetch(
+    resolveApiUrl(`/api/submodule-diff/${encodeURIComponent(file.path)}?${params.toString()}`),
+  );
+  if (!response.ok) {
+    const data = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(data?.error ?? `Failed to load submodule diff: ${response.statusText}`);
+  }
+  return response.json() as Promise<DiffResponse>;
+}
+
+function NestedFileDiff({
+  file,
+  submoduleDiff,
+  threads,
+  onAddComment,
+  ...props
+}: Omit<SubmoduleDiffViewerProps, 'file'> & { file: DiffFile; submoduleDiff: DiffResponse }) {
+  const lineIndex = buildFileLineIndex(file);
+  // The parent repository can't read blobs of the submodule, so hidden lines stay collapsed and
+  // every file uses the text viewer; the rich viewers load both sides of the file as blobs
+  const mergedChunks = toUnexpandedMergedChunks(file);
+  // Threads outside the superproject diff were judged without these lines; recheck them here
+  const fileThreads = threads
+    .filter((thread) => thread.file === file.path)
+    .map((thread) => ({
+      ...thread,
+      isOutdated: isThreadOutdated(
+        {
+          codeSnapshot:
+            thread.codeContent === undefined ? undefined : { content: thread.codeContent },
+          position: {
+            side: thread.side ?? 'new',
+            line: Array.isArray(thread.line)
+              ? { start: thread.line[0], end: thread.line[1] }
+              : thread.line,
+          },
+        },
+        lineIndex,
+      ),
+    }));
+
+  return (
+    <div className="border-t border-github-border">
+      <div className="px-4 py-1.5 bg-github-bg-tertiary text-xs font-mono text-github-text-primary">
+        {file.path}
+      </div>
+      <TextDiffViewer
+        {...props}
+        file={file}
+        threads={fileThreads}
+        baseCommitish={submoduleDiff.baseCommitish}
+        targetCommitish={submoduleDiff.targetCommitish}
+        mergedChunks={mergedChunks}
+        isExpandLoading={false}
+        expandHiddenLines={noExpand}
+        expandAllBetweenChunks={noExpand}
+        onAddComment={(line, body, codeContent, side) =>
+          onAddComment(file.path, line, body, codeContent, side)
+        }
+      />
+    </div>
+  );
+}
+
+export function SubmoduleDiffViewer({ file, ...props }: SubmoduleDiffViewerProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [submoduleDiff, setSubmoduleDiff] = useState<DiffResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { oldCommit, newCommit } = file.submodule ?? {};
+
+  const handleToggle = () => {
+    const nextExpanded = !isExpanded;
+    setIsExpanded(nextExpanded);
+    if (!nextExpanded || submoduleDiff || isLoading) return;
+
+    setIsLoading(true);
+    setError(null);
+    fetchSubmoduleDiff(file)
+      .then(setSubmoduleDiff)
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : 'Failed to load submodule diff');
+      })
+      .finally(() => setIsLoading(false));
+  };
+
+  const nestedFiles = submoduleDiff?.files.map((nested) => prefixNestedFile(file.path, nested));
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="w-full flex items-center gap-2 px-4 py-2 text-left text-xs text-github-text-secondary hover:bg-github-bg-tertiary cursor-pointer"
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <FolderGit2 size={14} />
+        <span>Submodule</span>
+        <code className="font-mono text-github-text-primary">
+          {formatCommit(oldCommit)} → {formatCommit(newCommit)}
+        </code>
+        <span className="ml-auto">{isExpanded ? 'Hide' : 'Show'} submodule diff</span>
+      </button>
+
+      {isExpanded && (
+        <>
+          {isLoading && (
+            <div className="px-4 py-3 text-xs text-github-text-secondary">
+              Loading submodule diff...
+            </div>
+          )}
+          {error && <div className="px-4 py-3 text-xs text-github-danger">{error}</div>}
+          {submoduleDiff && nestedFiles?.length === 0 && (
+            <div className="px-4 py-3 text-xs text-github-text-muted">
+              No file changes between these submodule commits.
+            </div>
+          )}
+          {submoduleDiff &&
+            nestedFiles?.map((nested) => (
+              <NestedFileDiff
+                key={nested.path}
+                {...props}
+                file={nested}
+                submoduleDiff={submoduleDiff}
+              />
+            ))}
+        </>
+      )}
+    </div>
+  );
+}
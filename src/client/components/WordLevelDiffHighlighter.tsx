@@ -1,10 +1,13 @@
 import React, { useMemo } from 'react';
 
+import { splitByMatchRanges, type MatchRange } from '../utils/diffSearch';
 import { type DiffSegment } from '../utils/wordLevelDiff';
 
 interface WordLevelDiffHighlighterProps {
   segments: DiffSegment[];
   className?: string;
+  /** Character ranges of the joined segments to mark as search matches */
+  highlightRanges?: MatchRange[];
 }
 
 /**
@@ -14,8 +17,10 @@ interface WordLevelDiffHighlighterProps {
 export const WordLevelDiffHighlighter = React.memo(function WordLevelDiffHighlighter({
   segments,
   className = '',
+  highlightRanges,
 }: WordLevelDiffHighlighterProps) {
   const renderedContent = useMemo(() => {
+    let offset = 0;
     return segments.map((segment, index) => {
       const diffClass =
         segment.type === 'added'
@@ -24,13 +29,27 @@ export const WordLevelDiffHighlighter = React.memo(function WordLevelDiffHighlig
             ? 'word-diff-removed'
             : '';
 
+      const segmentOffset = offset;
+      offset += segment.value.length;
+
       return (
         <span key={index} className={diffClass}>
-          {segment.value}
+          {highlightRanges
+            ? splitByMatchRanges(segment.value, segmentOffset, highlightRanges).map(
+                (part, partIndex) =>
+                  part.isMatch ? (
+                    <mark key={partIndex} className="search-match">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    part.text
+                  ),
+              )
+            : segment.value}
         </span>
       );
     });
-  }, [segments]);
+  }, [segments, highlightRanges]);
 
   return <span className={className}>{renderedContent}</span>;
 });
@@ -0,0 +1,45 @@
+import { createContext, useContext, useMemo, type ReactNode } from 'react';
+
+import type { DiffLine } from '../../types/diff';
+import {
+  getMatchRanges,
+  isLineInSearchScope,
+  type DiffSearchScope,
+  type MatchRange,
+} from '../utils/diffSearch';
+
+interface DiffSearchHighlight {
+  // `undefined` when the line isn't searched or has no match
+  getLineMatchRanges: (content: string, type: DiffLine['type']) => MatchRange[] | undefined;
+}
+
+const DiffSearchContext = createContext<DiffSearchHighlight>({
+  getLineMatchRanges: () => undefined,
+});
+
+export function DiffSearchProvider({
+  pattern,
+  scope,
+  children,
+}: {
+  pattern: RegExp | null;
+  scope: DiffSearchScope;
+  children: ReactNode;
+}) {
+  const value = useMemo<DiffSearchHighlight>(
+    () => ({
+      getLineMatchRanges: (content, type) => {
+        if (!pattern || !isLineInSearchScope(type, scope)) return undefined;
+        const ranges = getMatchRanges(content, pattern);
+        return ranges.length > 0 ? ranges : undefined;
+      },
+    }),
+    [pattern, scope],
+  );
+
+  return <DiffSearchContext.Provider value={value}>{children}</DiffSearchContext.Provider>;
+}
+
+export function useDiffSearchHighlight(): DiffSearchHighlight {
+  return useContext(DiffSearchContext);
+}
@@ -0,0 +1,29 @@
+import type { ReactNode } from 'react';
+
+import type { MovedLineLink } from '../../types/diff';
+import type { DiffSearchScope } from '../utils/diffSearch';
+
+import { DiffSearchProvider } from './DiffSearchContext';
+import { MovedCodeProvider } from './MovedCodeContext';
+import { WordHighlightProvider } from './WordHighlightContext';
+
+// The contexts the diff lines read, stacked in one place so App's tree stays flat
+export function DiffViewProviders({
+  searchPattern,
+  searchScope,
+  onJumpToMovedLine,
+  children,
+}: {
+  searchPattern: RegExp | null;
+  searchScope: DiffSearchScope;
+  onJumpToMovedLine: (link: MovedLineLink) => void;
+  children: ReactNode;
+}) {
+  return (
+    <WordHighlightProvider>
+      <DiffSearchProvider pattern={searchPattern} scope={searchScope}>
+        <MovedCodeProvider onJumpToMovedLine={onJumpToMovedLine}>{children}</MovedCodeProvider>
+      </DiffSearchProvider>
+    </WordHighlightProvider>
+  );
+}
@@ -0,0 +1,26 @@
+import { createContext, useContext, useMemo, type ReactNode } from 'react';
+
+import type { MovedLineLink } from '../../types/diff';
+
+interface MovedCodeNavigation {
+  // `null` outside the main review, where the counterpart may not be rendered
+  onJumpToMovedLine: ((link: MovedLineLink) => void) | null;
+}
+
+const MovedCodeContext = createContext<MovedCodeNavigation>({ onJumpToMovedLine: null });
+
+export function MovedCodeProvider({
+  onJumpToMovedLine,
+  children,
+}: {
+  onJumpToMovedLine: (link: MovedLineLink) => void;
+  children: ReactNode;
+}) {
+  const value = useMemo(() => ({ onJumpToMovedLine }), [onJumpToMovedLine]);
+
+  return <MovedCodeContext.Provider value={value}>{children}</MovedCodeContext.Provider>;
+}
+
+export function useMovedCodeNavigation(): MovedCodeNavigation {
+  return useContext(MovedCodeContext);
+}
@@ -2,7 +2,7 @@ import type { DiffFile } from '../../../types/diff';
 import { getCommentKey } from '../../utils/navigation/domHelpers';
 import { hasContentOnSide } from '../../utils/navigation/lineHelpers';
 
-import type { CommentNavigationItem, CursorPosition, ViewMode } from './types';
+import type { CommentNavigationItem, CursorPosition, ViewModeResolver } from './types';
 
 function hasCommentAtPosition(
   filePath: string,
@@ -30,13 +30,13 @@ function hasCommentAtPosition(
 export function createNavigationFilters(
   files: DiffFile[],
   commentIndex: Map<string, CommentNavigationItem[]>,
-  viewMode: ViewMode,
+  getViewMode: ViewModeResolver,
   reviewedFiles?: Set<string>,
 ) {
   return {
     /**
      * Line navigation - navigates to lines with content on the current side
-     * In unified mode, all lines are navigable
+     * In unified and full modes, all lines are navigable
      * In split mode, only lines with content on the current side
      * Skip lines in reviewed/collapsed files
      */
@@ -47,7 +47,7 @@ export function createNavigationFilters(
       // Skip if file is reviewed/collapsed
       if (reviewedFiles?.has(file.path)) return false;
 
-      return viewMode === 'unified' || hasContentOnSide(pos, files);
+      return getViewMode(pos.fileIndex) !== 'split' || hasContentOnSide(pos, files);
     },
 
     /**
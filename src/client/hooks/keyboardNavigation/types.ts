@@ -36,6 +36,8 @@ export interface UseKeyboardNavigationProps {
   files: DiffFile[];
   comments: CommentNavigationItem[];
   viewMode?: DiffViewMode;
+  // Per-file overrides of `viewMode`, keyed by file path
+  fileViewModes?: Map<string, DiffViewMode>;
   reviewedFiles: Set<string>;
   onToggleReviewed: (filePath: string) => void;
   onCreateComment?: () => void;
@@ -63,6 +65,11 @@ export interface UseKeyboardNavigationReturn {
  */
 export type ViewMode = DiffViewMode;
 
+/**
+ * Resolves the view mode a file is rendered in
+ */
+export type ViewModeResolver = (fileIndex: number) => ViewMode;
+
 /**
  * Navigation direction
  */
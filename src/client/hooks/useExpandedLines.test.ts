@@ -177,6 +177,42 @@ describe('useExpandedLines', () => {
     );
   });
 
+  it('expands the whole file and collapses it again', async () => {
+    vi.mocked(global.fetch).mockImplementation((input: string | URL | Request) => {
+      const rawUrl =
+        typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+      const ref = new URL(rawUrl, 'http://localhost').searchParams.get('ref');
+      const body =
+        ref === 'base-a' ? 'one\nold changed line\nthree\n' : 'one\nnew changed line\nthree\n';
+      return Promise.resolve({ ok: true, text: async () => body } as Response);
+    });
+    const file = createMockDiffFile();
+    const { result } = renderHook(() =>
+      useExpandedLines({ baseCommitish: 'base-a', targetCommitish: 'target' }),
+    );
+
+    await act(async () => {
+      await result.current.expandWholeFile(file);
+    });
+
+    const [merged] = result.current.getMergedChunks(file);
+    expect(merged?.lines.map((line) => [line.type, line.content])).toEqual([
+      ['normal', 'one'],
+      ['delete', 'old changed line'],
+      ['add', 'new changed line'],
+      ['normal', 'three'],
+    ]);
+    expect(merged?.hiddenLinesBefore).toBe(0);
+    expect(merged?.hiddenLinesAfter).toBe(0);
+
+    act(() => {
+      result.current.collapseExpandedLines(file);
+    });
+
+    expect(result.current.getMergedChunks(file)[0]?.lines).toHaveLength(2);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
   it('does not request unavailable blob data for stdin diffs', async () => {
     const file = createMockDiffFile();
     const { result } = renderHook(() =>
@@ -5,8 +5,11 @@ import {
   type DiffChunk,
   type DiffLine,
   type ExpandedLinesState,
+  type ExpandedRange,
   type FileExpandedState,
 } from '../../types/diff';
+import { isStdinRef } from '../../utils/diffSelection';
+import { resolveApiUrl } from '../utils/apiUrl';
 
 const DEFAULT_EXPAND_COUNT = 20;
 
@@ -38,6 +41,8 @@ interface UseExpandedLinesResult {
     chunkIndex: number,
     hiddenLines: number,
   ) => Promise<void>;
+  expandWholeFile: (file: DiffFile) => Promise<void>;
+  collapseExpandedLines: (file: DiffFile) => void;
   prefetchFileContent: (file: DiffFile) => Promise<void>;
   getMergedChunks: (file: DiffFile) => MergedChunk[];
   getHiddenLinesBefore: (file: DiffFile, chunk: DiffChunk, chunkIndex: number) => number;
@@ -49,7 +54,9 @@ async function fetchFileContent(
   commitish: string,
 ): Promise<{ lines: string[]; totalLines: number }> {
   const encodedPath = encodeURIComponent(filePath);
-  const response = await fetch(`/api/blob/${encodedPath}?ref=${encodeURIComponent(commitish)}`);
+  const response = await fetch(
+    resolveApiUrl(`/api/blob/${encodedPath}?ref=${encodeURIComponent(commitish)}`),
+  );
 
   if (!response.ok) {
     throw new Error(`Failed to fetch file content: ${response.statusText}`);
@@ -76,19 +83,40 @@ async function fetchLineCount(
   if (newRef) params.set('newRef', newRef);
   if (oldPath && oldPath !== filePath) params.set('oldPath', oldPath);
 
-  const response = await fetch(`/api/line-count/${encodedPath}?${params}`);
+  const response = await fetch(resolveApiUrl(`/api/line-count/${encodedPath}?${params}`));
   if (!response.ok) {
     throw new Error(`Failed to fetch line count: ${response.statusText}`);
   }
   return response.json() as Promise<{ oldLineCount?: number; newLineCount?: number }>;
 }
 
+// Expanded ranges that close every gap around the chunks, measured on the old side
+function getWholeFileRanges(file: DiffFile, oldTotalLines: number): ExpandedRange[] {
+  const ranges: ExpandedRange[] = [];
+  file.chunks.forEach((chunk, chunkIndex) => {
+    const prevChunk = file.chunks[chunkIndex - 1];
+    const gap = prevChunk
+      ? chunk.oldStart - (prevChunk.oldStart + prevChunk.oldLines)
+      : chunk.oldStart - 1;
+    if (gap > 0) {
+      ranges.push({ chunkIndex, direction: 'up', count: gap });
+    }
+    if (chunkIndex === file.chunks.length - 1) {
+      const after = oldTotalLines - (chunk.oldStart + chunk.oldLines - 1);
+      if (after > 0) {
+        ranges.push({ chunkIndex, direction: 'down', count: after });
+      }
+    }
+  });
+  return ranges;
+}
+
 export function useExpandedLines({
   baseCommitish,
   targetCommitish,
   diffIdentity,
 }: UseExpandedLinesOptions): UseExpandedLinesResult {
-  const isStdinDiff = baseCommitish === 'stdin' || targetCommitish === 'stdin';
+  const isStdinDiff = isStdinRef(baseCommitish) || isStdinRef(targetCommitish);
   const [expandedState, setExpandedState] = useState<ExpandedLinesState>({});
   const [isLoading, setIsLoading] = useState(false);
   const [lastUpdatedFilePath, setLastUpdatedFilePath] = useState<string | null>(null);
@@ -339,6 +367,73 @@ export function useExpandedLines({
     [ensureFileContent, markFileUpdated],
   );
 
+  // Reveal every hidden line so the file reads top to bottom with the changes in place
+  const expandWholeFile = useCallback(
+    async (file: DiffFile) => {
+      // Fully added/deleted files already show every line
+      if (isStdinDiff || file.status === 'added' || file.status === 'deleted') {
+        return;
+      }
+
+      const existing = expandedStateRef.current[file.path];
+      if (
+        existing?.oldContent &&
+        JSON.stringify(existing.expandedRanges) ===
+          JSON.stringify(getWholeFileRanges(file, existing.oldTotalLines ?? 0))
+      ) {
+        return;
+      }
+
+      const revisionGeneration = revisionGenerationRef.current;
+      setIsLoading(true);
+      try {
+        const fileState = await ensureFileContent(file);
+        if (!fileState || revisionGenerationRef.current !== revisionGeneration) {
+          return;
+        }
+
+        const ranges = getWholeFileRanges(file, fileState.oldTotalLines ?? 0);
+        setExpandedState((prev) => {
+          const latestFileState = prev[file.path];
+          return {
+            ...prev,
+            [file.path]: {
+              oldContent: latestFileState?.oldContent ?? fileState.oldContent,
+              newContent: latestFileState?.newContent ?? fileState.newContent,
+              oldTotalLines: latestFileState?.oldTotalLines ?? fileState.oldTotalLines,
+              newTotalLines: latestFileState?.newTotalLines ?? fileState.newTotalLines,
+              expandedRanges: ranges,
+            },
+          };
+        });
+        markFileUpdated(file.path);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [ensureFileContent, isStdinDiff, markFileUpdated],
+  );
+
+  // Hide every expanded line again, keeping the fetched content for later expansions
+  const collapseExpandedLines = useCallback(
+    (file: DiffFile) => {
+      if (!expandedStateRef.current[file.path]?.expandedRanges.length) {
+        return;
+      }
+
+      setExpandedState((prev) => {
+        const currentFileState = prev[file.path];
+        if (!currentFileState) return prev;
+        return {
+          ...prev,
+          [file.path]: { ...currentFileState, expandedRanges: [] },
+        };
+      });
+      markFileUpdated(file.path);
+    },
+    [markFileUpdated],
+  );
+
   // Pre-fetch only line counts (lightweight) to show bottom expand button
   const prefetchFileContent = useCallback(
     async (file: DiffFile) => {
@@ -637,6 +732,8 @@ export function useExpandedLines({
     lastUpdatedAt,
     expandLines,
     expandAllBetweenChunks,
+    expandWholeFile,
+    collapseExpandedLines,
     prefetchFileContent,
     getMergedChunks,
     getHiddenLinesBefore,
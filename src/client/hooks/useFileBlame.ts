@@ -0,0 +1,46 @@
+import { useEffect, useMemo, useState } from 'react';
+
+import type { BlameResponse, DiffFile } from '../../types/diff';
+import { createBlameLookup, fetchBlame, type BlameLookup } from '../utils/blame';
+
+interface UseFileBlameParams {
+  file: DiffFile;
+  enabled: boolean;
+  baseCommitish?: string;
+  reloadKey?: string | number;
+}
+
+const NO_BLAME: BlameLookup = () => null;
+
+/**
+ * Blames the base side of a file, which covers both context and deleted lines. Returns null
+ * while disabled and an empty lookup until the request settles, so the gutter keeps its width.
+ */
+export function useFileBlame({
+  file,
+  enabled,
+  baseCommitish,
+  reloadKey,
+}: UseFileBlameParams): BlameLookup | null {
+  const [blame, setBlame] = useState<BlameResponse | null>(null);
+
+  useEffect(() => {
+    setBlame(null);
+    if (!enabled || !baseCommitish || baseCommitish === 'stdin' || file.status === 'added') {
+      return;
+    }
+
+    let cancelled = false;
+    void fetchBlame(file.oldPath || file.path, baseCommitish).then((result) => {
+      if (!cancelled) setBlame(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, file.path, file.oldPath, file.status, baseCommitish, reloadKey]);
+
+  return useMemo(() => {
+    if (!enabled) return null;
+    return blame ? createBlameLookup(blame) : NO_BLAME;
+  }, [enabled, blame]);
+}
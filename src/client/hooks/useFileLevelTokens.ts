@@ -2,6 +2,8 @@ import { normalizeTokens, type Token } from 'prism-react-renderer';
 import { useEffect, useMemo, useState } from 'react';
 
 import { type DiffFile } from '../../types/diff';
+import { isStdinRef } from '../../utils/diffSelection';
+import { resolveApiUrl } from '../utils/apiUrl';
 import { getPrismLanguageFromFilename } from '../utils/languageDetection';
 import { loadPrismLanguage } from '../utils/languageLoader';
 import Prism from '../utils/prism';
@@ -22,7 +24,7 @@ const MAX_WHOLE_FILE_LINES = 2000;
 async function fetchBlobText(filePath: string, ref: string): Promise<string | null> {
   try {
     const response = await fetch(
-      `/api/blob/${encodeURIComponent(filePath)}?ref=${encodeURIComponent(ref)}`,
+      resolveApiUrl(`/api/blob/${encodeURIComponent(filePath)}?ref=${encodeURIComponent(ref)}`),
     );
     if (!response.ok) return null;
     return await response.text();
@@ -59,7 +61,7 @@ export function useFileLevelTokens({
   reloadKey,
 }: UseFileLevelTokensParams): FileLevelTokens {
   const language = useMemo(() => getPrismLanguageFromFilename(file.path), [file.path]);
-  const isStdinDiff = baseCommitish === 'stdin' || targetCommitish === 'stdin';
+  const isStdinDiff = isStdinRef(baseCommitish) || isStdinRef(targetCommitish);
 
   const [oldContent, setOldContent] = useState<string | null>(null);
   const [newContent, setNewContent] = useState<string | null>(null);
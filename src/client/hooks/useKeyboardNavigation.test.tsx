@@ -1020,6 +1020,40 @@ describe('useKeyboardNavigation', () => {
     });
   });
 
+  describe('Per-file view modes', () => {
+    it('should navigate a full-file override like unified while other files stay split', async () => {
+      const user = userEvent.setup();
+
+      const { result } = renderHook(
+        () =>
+          useKeyboardNavigation({
+            files: mockFiles,
+            comments: [],
+            viewMode: 'split',
+            fileViewModes: new Map([['file1.js', 'full' as const]]),
+            onToggleReviewed: vi.fn(),
+            reviewedFiles: new Set<string>(),
+          }),
+        { wrapper },
+      );
+
+      await user.keyboard('j');
+
+      expect(mockGetElementById).toHaveBeenCalledWith('file-0-chunk-0-line-0');
+
+      await user.keyboard('h');
+
+      // Side switching only applies to split files
+      expect(result.current.cursor?.side).toBe('left');
+      expect(result.current.cursor?.lineIndex).toBe(0);
+
+      await user.keyboard(']');
+
+      expect(result.current.cursor?.fileIndex).toBe(1);
+      expect(mockGetElementById).toHaveBeenCalledWith('file-1-chunk-0-line-0-left');
+    });
+  });
+
   describe('Move to Center (.)', () => {
     it('should move cursor to the center of viewport with . key', async () => {
       const user = userEvent.setup();
@@ -13,6 +13,7 @@ import {
   type NavigationResult,
   type UseKeyboardNavigationProps,
   type UseKeyboardNavigationReturn,
+  type ViewModeResolver,
   createNavigationFilters,
   createScrollToElement,
 } from './keyboardNavigation';
@@ -27,6 +28,7 @@ export function useKeyboardNavigation({
   files,
   comments,
   viewMode = DEFAULT_DIFF_VIEW_MODE,
+  fileViewModes,
   reviewedFiles,
   onToggleReviewed,
   onCreateComment,
@@ -48,6 +50,24 @@ export function useKeyboardNavigation({
     }
   }, [cursor]);
 
+  const getViewMode = useCallback<ViewModeResolver>(
+    (fileIndex) => {
+      const filePath = files[fileIndex]?.path;
+      return (filePath !== undefined ? fileViewModes?.get(filePath) : undefined) ?? viewMode;
+    },
+    [files, fileViewModes, viewMode],
+  );
+  const getDefaultSide = useCallback(
+    (fileIndex: number) => (getViewMode(fileIndex) === 'split' ? 'left' : 'right'),
+    [getViewMode],
+  );
+  const hasSplitFiles = useMemo(
+    () =>
+      viewMode === 'split' ||
+      Array.from(fileViewModes?.values() ?? []).some((mode) => mode === 'split'),
+    [viewMode, fileViewModes],
+  );
+
   // Create scroll function
   const scrollToElement = useMemo(() => createScrollToElement(), []);
 
@@ -67,8 +87,8 @@ export function useKeyboardNavigation({
 
   // Create navigation filters
   const filters = useMemo(
-    () => createNavigationFilters(files, commentIndex, viewMode, reviewedFiles),
-    [files, commentIndex, viewMode, reviewedFiles],
+    () => createNavigationFilters(files, commentIndex, getViewMode, reviewedFiles),
+    [files, commentIndex, getViewMode, reviewedFiles],
   );
 
   // Core navigation function - finds next/prev position matching filter
@@ -79,9 +99,9 @@ export function useKeyboardNavigation({
       }
 
       const startPosition = getStartPosition(cursor ?? lastCursorRef.current);
-      return findNextMatchingPosition(startPosition, direction, filter, files, viewMode);
+      return findNextMatchingPosition(startPosition, direction, filter, files, getViewMode);
     },
-    [cursor, files, viewMode],
+    [cursor, files, getViewMode],
   );
 
   // Create navigation commands
@@ -125,7 +145,7 @@ export function useKeyboardNavigation({
   // Switch between left and right sides in split mode
   const switchSide = useCallback(
     (side: 'left' | 'right') => {
-      if (!cursor || viewMode !== 'split') return;
+      if (!cursor || getViewMode(cursor.fileIndex) !== 'split') return;
 
       // Create new cursor with the requested side
       let newCursor = { ...cursor, side };
@@ -143,7 +163,7 @@ export function useKeyboardNavigation({
             // Move to the delete line that pairs with this add line
             newCursor = { ...newCursor, lineIndex: cursor.lineIndex - 1 };
             setCursor(newCursor);
-            scrollToElement(getElementId(newCursor, viewMode));
+            scrollToElement(getElementId(newCursor, 'split'));
             return;
           }
         }
@@ -155,7 +175,7 @@ export function useKeyboardNavigation({
             // Move to the add line that pairs with this delete line
             newCursor = { ...newCursor, lineIndex: cursor.lineIndex + 1 };
             setCursor(newCursor);
-            scrollToElement(getElementId(newCursor, viewMode));
+            scrollToElement(getElementId(newCursor, 'split'));
             return;
           }
         }
@@ -235,9 +255,9 @@ export function useKeyboardNavigation({
 
       // Update cursor and scroll
       setCursor(newCursor);
-      scrollToElement(getElementId(newCursor, viewMode));
+      scrollToElement(getElementId(newCursor, 'split'));
     },
-    [cursor, viewMode, scrollToElement, files],
+    [cursor, getViewMode, scrollToElement, files],
   );
 
   // Move cursor to center of viewport
@@ -260,7 +280,9 @@ export function useKeyboardNavigation({
       file.chunks.forEach((chunk, chunkIndex) => {
         chunk.lines.forEach((_, lineIndex) => {
           // Check both sides in split mode
-          const sides = viewMode === 'split' ? (['left', 'right'] as const) : (['right'] as const);
+          const fileViewMode = getViewMode(fileIndex);
+          const sides =
+            fileViewMode === 'split' ? (['left', 'right'] as const) : (['right'] as const);
 
           for (const side of sides) {
             const position: CursorPosition = {
@@ -271,11 +293,11 @@ export function useKeyboardNavigation({
             };
 
             // Skip positions without content in split mode
-            if (viewMode === 'split' && !hasContentOnSide(position, files)) {
+            if (fileViewMode === 'split' && !hasContentOnSide(position, files)) {
               continue;
             }
 
-            const elementId = getElementId(position, viewMode);
+            const elementId = getElementId(position, fileViewMode);
             const element = document.getElementById(elementId);
 
             if (element) {
@@ -301,7 +323,7 @@ export function useKeyboardNavigation({
       setCursor(closestPosition);
       // Don't scroll since we're moving to already visible content
     }
-  }, [files, viewMode, setCursor]);
+  }, [files, getViewMode, setCursor]);
 
   // Set cursor position from external source (e.g., mouse click)
   const setCursorPosition = useCallback(
@@ -313,9 +335,9 @@ export function useKeyboardNavigation({
       // Fix the side if necessary
       const fixedPosition = fixSide(position, files);
       setCursor(fixedPosition);
-      scrollToElement(getElementId(fixedPosition, viewMode));
+      scrollToElement(getElementId(fixedPosition, getViewMode(fixedPosition.fileIndex)));
     },
-    [files, viewMode, scrollToElement],
+    [files, getViewMode, scrollToElement],
   );
 
   // Common options for all hotkeys
@@ -354,7 +376,7 @@ export function useKeyboardNavigation({
           fileIndex: 0,
           chunkIndex: 0,
           lineIndex: 0,
-          side: viewMode === 'split' ? 'left' : 'right',
+          side: getDefaultSide(0),
         });
         scrollToElement(
           getElementId(
@@ -362,15 +384,15 @@ export function useKeyboardNavigation({
               fileIndex: 0,
               chunkIndex: 0,
               lineIndex: 0,
-              side: viewMode === 'split' ? 'left' : 'right',
+              side: getDefaultSide(0),
             },
-            viewMode,
+            getViewMode(0),
           ),
         );
       }
     },
     { ...hotkeyOptions, useKey: true },
-    [files, viewMode, scrollToElement],
+    [files, getViewMode, getDefaultSide, scrollToElement],
   );
 
   useHotkeys(
@@ -384,7 +406,7 @@ export function useKeyboardNavigation({
             fileIndex: lastFileIndex,
             chunkIndex: 0,
             lineIndex: 0,
-            side: viewMode === 'split' ? 'left' : 'right',
+            side: getDefaultSide(lastFileIndex),
           });
           scrollToElement(
             getElementId(
@@ -392,31 +414,27 @@ export function useKeyboardNavigation({
                 fileIndex: lastFileIndex,
                 chunkIndex: 0,
                 lineIndex: 0,
-                side: viewMode === 'split' ? 'left' : 'right',
+                side: getDefaultSide(lastFileIndex),
               },
-              viewMode,
+              getViewMode(lastFileIndex),
             ),
           );
         }
       }
     },
     { ...hotkeyOptions, useKey: true },
-    [files, viewMode, scrollToElement],
+    [files, getViewMode, getDefaultSide, scrollToElement],
   );
 
   // Side switching (split mode only)
-  useHotkeys(
-    'h, left',
-    () => switchSide('left'),
-    { ...hotkeyOptions, enabled: viewMode === 'split' },
-    [switchSide, viewMode],
-  );
-  useHotkeys(
-    'l, right',
-    () => switchSide('right'),
-    { ...hotkeyOptions, enabled: viewMode === 'split' },
-    [switchSide, viewMode],
-  );
+  useHotkeys('h, left', () => switchSide('left'), { ...hotkeyOptions, enabled: hasSplitFiles }, [
+    switchSide,
+    hasSplitFiles,
+  ]);
+  useHotkeys('l, right', () => switchSide('right'), { ...hotkeyOptions, enabled: hasSplitFiles }, [
+    switchSide,
+    hasSplitFiles,
+  ]);
 
   // Move the cursor to the first unviewed file after the given index,
   // wrapping around but never landing back on the starting file
@@ -434,16 +452,16 @@ export function useKeyboardNavigation({
             fileIndex,
             chunkIndex: 0,
             lineIndex: 0,
-            side: viewMode === 'split' ? 'left' : 'right',
+            side: getDefaultSide(fileIndex),
           },
           files,
         );
         setCursor(position);
-        scrollToElement(getElementId(position, viewMode));
+        scrollToElement(getElementId(position, getViewMode(fileIndex)));
         return;
       }
     },
-    [files, reviewedFiles, viewMode, scrollToElement],
+    [files, reviewedFiles, getViewMode, getDefaultSide, scrollToElement],
   );
 
   // Update only the remembered navigation position, without showing the
@@ -460,12 +478,12 @@ export function useKeyboardNavigation({
           fileIndex,
           chunkIndex: 0,
           lineIndex: 0,
-          side: viewMode === 'split' ? 'left' : 'right',
+          side: getDefaultSide(fileIndex),
         },
         files,
       );
     },
-    [files, viewMode],
+    [files, getDefaultSide],
   );
 
   // File review toggle - targets the cursor file, or the hovered file when
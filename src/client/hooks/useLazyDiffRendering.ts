@@ -1,6 +1,8 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 
 import { type DiffResponse } from '../../types/diff';
+import { isStdinRef } from '../../utils/diffSelection';
+import { resolveApiUrl } from '../utils/apiUrl';
 import { getFileElementId } from '../utils/domUtils';
 
 const INITIAL_RENDERED_FILE_COUNT = 8;
@@ -46,7 +48,7 @@ export function useLazyDiffRendering({
       return;
     }
 
-    const revisionKey = `${diffData.requestedBaseCommitish ?? ''}:${diffData.requestedTargetCommitish ?? ''}:${diffData.requestedBaseMode ?? 'direct'}`;
+    const revisionKey = `${diffData.requestedBaseCommitish ?? ''}:${diffData.requestedTargetCommitish ?? ''}:${diffData.requestedBaseMode ?? 'direct'}:${(diffData.requestedPathspecs ?? []).join('\u0000')}`;
     if (renderedRevisionKeyRef.current === revisionKey) {
       return;
     }
@@ -267,7 +269,7 @@ export function useLazyDiffRendering({
   );
 
   useEffect(() => {
-    if (!diffData || diffData.targetCommitish === 'stdin') return;
+    if (!diffData || isStdinRef(diffData.targetCommitish)) return;
 
     const ref = diffData.targetCommitish || 'HEAD';
     const generatedStatusRevisionKey = `${diffData.requestedBaseCommitish ?? ''}...${diffData.requestedTargetCommitish ?? ''}:${diffData.requestedBaseMode ?? 'direct'}`;
@@ -288,7 +290,7 @@ export function useLazyDiffRendering({
       generatedStatusCheckedRef.current.add(cacheKey);
 
       const encodedPath = encodeURIComponent(file.path);
-      fetch(`/api/generated-status/${encodedPath}?ref=${encodeURIComponent(ref)}`)
+      fetch(resolveApiUrl(`/api/generated-status/${encodedPath}?ref=${encodeURIComponent(ref)}`))
         .then((res) => (res.ok ? res.json() : null))
         .then((payload: { isGenerated?: unknown } | null) => {
           if (!payload || payload.isGenerated !== true) return;
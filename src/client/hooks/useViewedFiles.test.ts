@@ -117,7 +117,7 @@ describe('useViewedFiles', () => {
   describe('auto-collapsing files', () => {
     it('should auto-mark generated files as viewed', async () => {
       const initialFiles: DiffFile[] = [
-        createMockDiffFile('package-lock.json', 'modified', true),
+        createMockDiffFile('dist/bundle.js', 'modified', true),
         createMockDiffFile('src/app.ts', 'modified', false),
       ];
 
@@ -126,13 +126,30 @@ describe('useViewedFiles', () => {
       );
 
       await waitFor(() => {
-        expect(result.current.viewedFiles.has('package-lock.json')).toBe(true);
+        expect(result.current.viewedFiles.has('dist/bundle.js')).toBe(true);
       });
 
       expect(result.current.viewedFiles.has('src/app.ts')).toBe(false);
       expect(mockSaveViewedFiles).toHaveBeenCalled();
     });
 
+    it('should leave generated dependency lockfiles expanded for their summary', async () => {
+      const initialFiles: DiffFile[] = [
+        createMockDiffFile('pnpm-lock.yaml', 'modified', true),
+        createMockDiffFile('dist/bundle.js', 'modified', true),
+      ];
+
+      const { result } = renderHook(() =>
+        useViewedFiles('main', 'feature-branch', 'abc123', undefined, initialFiles),
+      );
+
+      await waitFor(() => {
+        expect(result.current.viewedFiles.has('dist/bundle.js')).toBe(true);
+      });
+
+      expect(result.current.viewedFiles.has('pnpm-lock.yaml')).toBe(false);
+    });
+
     it('should auto-mark deleted files as viewed', async () => {
       const initialFiles: DiffFile[] = [
         createMockDiffFile('src/old-file.ts', 'deleted', false),
@@ -173,7 +190,7 @@ describe('useViewedFiles', () => {
 
     it('should auto-mark both generated and deleted files as viewed', async () => {
       const initialFiles: DiffFile[] = [
-        createMockDiffFile('package-lock.json', 'modified', true),
+        createMockDiffFile('dist/bundle.js', 'modified', true),
         createMockDiffFile('src/deleted.ts', 'deleted', false),
         createMockDiffFile('src/app.ts', 'modified', false),
       ];
@@ -186,7 +203,7 @@ describe('useViewedFiles', () => {
         expect(result.current.viewedFiles.size).toBe(2);
       });
 
-      expect(result.current.viewedFiles.has('package-lock.json')).toBe(true);
+      expect(result.current.viewedFiles.has('dist/bundle.js')).toBe(true);
       expect(result.current.viewedFiles.has('src/deleted.ts')).toBe(true);
       expect(result.current.viewedFiles.has('src/app.ts')).toBe(false);
     });
@@ -367,6 +384,32 @@ describe('useViewedFiles', () => {
     });
   });
 
+  describe('mergeViewedFileRecords', () => {
+    it('adds records for files not viewed yet and returns their paths', async () => {
+      mockGetViewedFiles.mockReturnValue([
+        { filePath: 'src/app.ts', viewedAt: '2024-01-01T00:00:00Z', diffContentHash: 'local' },
+      ]);
+
+      const { result } = renderHook(() => useViewedFiles('main', 'feature-branch'));
+
+      await waitFor(() => {
+        expect(result.current.viewedFiles.has('src/app.ts')).toBe(true);
+      });
+
+      let added: string[] = [];
+      act(() => {
+        added = result.current.mergeViewedFileRecords([
+          { filePath: 'src/app.ts', viewedAt: '2024-01-02T00:00:00Z', diffContentHash: 'server' },
+          { filePath: 'src/utils.ts', viewedAt: '2024-01-02T00:00:00Z', diffContentHash: 'hash2' },
+        ]);
+      });
+
+      expect(added).toEqual(['src/utils.ts']);
+      expect(result.current.viewedFiles).toEqual(new Set(['src/app.ts', 'src/utils.ts']));
+      expect(result.current.getViewedFileRecord('src/app.ts')?.diffContentHash).toBe('local');
+    });
+  });
+
   describe('getViewedFileRecord', () => {
     it('should return record for viewed file', async () => {
       const storedRecords: ViewedFileRecord[] = [
@@ -9,6 +9,7 @@ import {
 import { getDiffSelectionKey } from '../../utils/diffSelection';
 import { storageService, VIEWED_HASH_VERSION } from '../services/StorageService';
 import { matchesAutoViewedPatterns } from '../utils/autoViewedPatterns';
+import { getDependencyFileKind } from '../utils/dependencyDiff';
 import { generateDiffHash, getDiffContentForHashing } from '../utils/diffUtils';
 
 interface UseViewedFilesReturn {
@@ -26,6 +27,12 @@ interface UseViewedFilesReturn {
   isFileContentChanged: (filePath: string, diffFile: DiffFile) => Promise<boolean>;
   getViewedFileRecord: (filePath: string) => ViewedFileRecord | undefined;
   clearViewedFiles: () => void;
+  viewedFileRecords: ViewedFileRecord[];
+  /**
+   * Adds records kept elsewhere (e.g. the server's copy of the session) for files not
+   * marked yet, and returns the paths that became viewed.
+   */
+  mergeViewedFileRecords: (records: ViewedFileRecord[]) => string[];
 }
 
 export function useViewedFiles(
@@ -91,11 +98,12 @@ export function useViewedFiles(
           }),
         );
 
-        // Auto-mark generated / deleted / pattern-matched files.
+        // Auto-mark generated / deleted / pattern-matched files. Lockfiles are
+        // generated too, but stay open so their dependency summary is visible.
         for (const file of initialFiles) {
           if (knownPaths.has(file.path)) continue;
           const shouldAutoMarkViewed =
-            file.isGenerated ||
+            (file.isGenerated && !getDependencyFileKind(file.path)) ||
             file.status === 'deleted' ||
             matchesAutoViewedPatterns(file.path, autoViewedPatterns);
           if (!shouldAutoMarkViewed) continue;
@@ -338,6 +346,22 @@ export function useViewedFiles(
     [viewedFileRecords, getViewedFileRecord, getFileHash, saveViewedFiles, repositoryId],
   );
 
+  const mergeViewedFileRecords = useCallback(
+    (records: ViewedFileRecord[]): string[] => {
+      const knownPaths = new Set(viewedFileRecords.map((record) => record.filePath));
+      const additions = records.filter((record) => {
+        if (knownPaths.has(record.filePath)) return false;
+        knownPaths.add(record.filePath);
+        return true;
+      });
+      if (additions.length === 0) return [];
+
+      saveViewedFiles([...viewedFileRecords, ...additions]);
+      return additions.map((record) => record.filePath);
+    },
+    [viewedFileRecords, saveViewedFiles],
+  );
+
   // Clear all viewed files
   const clearViewedFiles = useCallback(() => {
     saveViewedFiles([]);
@@ -355,5 +379,7 @@ export function useViewedFiles(
     isFileContentChanged,
     getViewedFileRecord,
     clearViewedFiles,
+    viewedFileRecords,
+    mergeViewedFileRecords,
   };
 }
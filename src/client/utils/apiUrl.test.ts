@@ -0,0 +1,21 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { resolveApiUrl } from './apiUrl';
+
+describe('resolveApiUrl', () => {
+  afterEach(() => {
+    window.history.pushState({}, '', '/');
+  });
+
+  it('leaves API paths alone for a standalone server', () => {
+    expect(resolveApiUrl('/api/diff')).toBe('/api/diff');
+  });
+
+  it('prefixes API paths with the daemon session of the current page', () => {
+    window.history.pushState({}, '', '/s/abc123/');
+
+    expect(resolveApiUrl('/api/diff?ignoreWhitespace=true')).toBe(
+      '/s/abc123/api/diff?ignoreWhitespace=true',
+    );
+  });
+});
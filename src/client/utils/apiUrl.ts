@@ -0,0 +1,7 @@
+// Reviews hosted by `difit daemon` are served under `/s/<sessionId>/`, and so is their API
+const DAEMON_SESSION_PATH_PATTERN = /^\/s\/[^/]+/;
+
+export function resolveApiUrl(path: string): string {
+  const sessionPath = DAEMON_SESSION_PATH_PATTERN.exec(window.location.pathname)?.[0];
+  return sessionPath ? `${sessionPath}${path}` : path;
+}
@@ -26,6 +26,8 @@ const DARK_THEME_VALUES = {
   '--color-diff-deletion-bg': '#67060c',
   '--color-diff-deletion-border': '#da3633',
   '--color-diff-neutral-bg': '#21262d',
+  '--color-diff-moved-bg': '#2a1f4d',
+  '--color-diff-moved-border': '#8957e5',
   '--color-comment-bg': '#1c2128',
   '--color-comment-border': '#373e47',
   '--color-comment-text': '#e6edf3',
@@ -59,6 +61,8 @@ const LIGHT_THEME_VALUES = {
   '--color-diff-deletion-bg': '#ffd8d3',
   '--color-diff-deletion-border': '#cf222e',
   '--color-diff-neutral-bg': '#f1f3f4',
+  '--color-diff-moved-bg': '#efe6fd',
+  '--color-diff-moved-border': '#8250df',
   '--color-comment-bg': '#fff8e1',
   '--color-comment-border': '#ffd54f',
   '--color-comment-text': '#5d4037',
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+
+import type { BlameResponse } from '../../types/diff';
+
+import {
+  createBlameLookup,
+  formatBlameDate,
+  getBlameGutterEntries,
+  isUncommittedBlame,
+} from './blame';
+
+const blame: BlameResponse = {
+  commits: [
+    {
+      hash: '1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      shortHash: '1111111',
+      author: 'Alice',
+      authorTime: 1700000000,
+      summary: 'Add parser',
+    },
+    {
+      hash: '0000000000000000000000000000000000000000',
+      shortHash: '0000000',
+      author: 'Not Committed Yet',
+      authorTime: 1710000000,
+      summary: 'Version of src/parser.ts from src/parser.ts',
+    },
+  ],
+  lines: [0, 0, 1, 0],
+};
+
+describe('blame utils', () => {
+  it('looks up commits by 1-based line number', () => {
+    const lookup = createBlameLookup(blame);
+
+    expect(lookup(1)?.shortHash).toBe('1111111');
+    expect(lookup(3)?.shortHash).toBe('0000000');
+    expect(lookup(5)).toBeNull();
+  });
+
+  it('labels only the first row of each run and skips rows without a base line', () => {
+    const entries = getBlameGutterEntries([1, 2, undefined, 3, 4], createBlameLookup(blame));
+
+    expect(entries.map((entry) => entry && [entry.commit.shortHash, entry.isRunStart])).toEqual([
+      ['1111111', true],
+      ['1111111', false],
+      null,
+      ['0000000', true],
+      ['1111111', true],
+    ]);
+  });
+
+  it('recognizes uncommitted lines and formats dates as UTC days', () => {
+    expect(isUncommittedBlame(blame.commits[1]!)).toBe(true);
+    expect(isUncommittedBlame(blame.commits[0]!)).toBe(false);
+    expect(formatBlameDate(1700000000)).toBe('2023-11-14');
+  });
+});
@@ -0,0 +1,52 @@
+import type { BlameCommit, BlameResponse } from '../../types/diff';
+
+import { resolveApiUrl } from './apiUrl';
+
+export type BlameLookup = (lineNumber: number) => BlameCommit | null;
+
+export interface BlameGutterEntry {
+  commit: BlameCommit;
+  // Consecutive rows from the same commit only label the first one, like `git blame` UIs do
+  isRunStart: boolean;
+}
+
+export async function fetchBlame(filePath: string, ref: string): Promise<BlameResponse | null> {
+  try {
+    const response = await fetch(
+      resolveApiUrl(`/api/blame/${encodeURIComponent(filePath)}?ref=${encodeURIComponent(ref)}`),
+    );
+    if (!response.ok) return null;
+    return (await response.json()) as BlameResponse;
+  } catch {
+    return null;
+  }
+}
+
+export function createBlameLookup(blame: BlameResponse): BlameLookup {
+  return (lineNumber) => {
+    const index = blame.lines[lineNumber - 1];
+    return index === undefined ? null : (blame.commits[index] ?? null);
+  };
+}
+
+// git blame reports lines that only exist outside of history under the all-zero hash
+export function isUncommittedBlame(commit: BlameCommit): boolean {
+  return /^0+$/.test(commit.hash);
+}
+
+export function formatBlameDate(authorTime: number): string {
+  return new Date(authorTime * 1000).toISOString().slice(0, 10);
+}
+
+export function getBlameGutterEntries(
+  lineNumbers: Array<number | undefined>,
+  lookup: BlameLookup,
+): Array<BlameGutterEntry | null> {
+  let previousHash: string | null = null;
+  return lineNumbers.map((lineNumber) => {
+    const commit = lineNumber ? lookup(lineNumber) : null;
+    const isRunStart = commit !== null && commit.hash !== previousHash;
+    previousHash = commit?.hash ?? null;
+    return commit ? { commit, isRunStart } : null;
+  });
+}
@@ -0,0 +1,17 @@
+import { isStdinRef } from '../../utils/diffSelection';
+
+import { resolveApiUrl } from './apiUrl';
+
+// Stdin diffs have no blobs to fetch
+export const isFetchableRef = (ref?: string) => Boolean(ref && !isStdinRef(ref));
+
+export const fetchBlobText = async (filePath: string, ref: string): Promise<string> => {
+  const encodedPath = encodeURIComponent(filePath);
+  const response = await fetch(
+    resolveApiUrl(`/api/blob/${encodedPath}?ref=${encodeURIComponent(ref)}`),
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to load ${filePath} at ${ref}`);
+  }
+  return response.text();
+};
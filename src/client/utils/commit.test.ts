@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DiffFile } from '../../types/diff';
+
+import { buildCommitMessageDraft } from './commit';
+
+const createFile = (overrides: Partial<DiffFile>): DiffFile => ({
+  path: 'src/example.ts',
+  status: 'modified',
+  additions: 1,
+  deletions: 1,
+  chunks: [],
+  ...overrides,
+});
+
+describe('buildCommitMessageDraft', () => {
+  it('describes a single file in the subject', () => {
+    expect(buildCommitMessageDraft([createFile({ status: 'added' })])).toBe('Add src/example.ts');
+  });
+
+  it('lists every file in the body when several changed', () => {
+    expect(
+      buildCommitMessageDraft([
+        createFile({}),
+        createFile({ path: 'src/new.ts', oldPath: 'src/old.ts', status: 'renamed' }),
+        createFile({ path: 'README.md', status: 'deleted' }),
+      ]),
+    ).toBe(
+      [
+        'Update 3 files',
+        '',
+        '- Update src/example.ts',
+        '- Rename src/old.ts → src/new.ts',
+        '- Delete README.md',
+      ].join('\n'),
+    );
+  });
+
+  it('leaves the message empty without files', () => {
+    expect(buildCommitMessageDraft([])).toBe('');
+  });
+});
@@ -0,0 +1,48 @@
+import type { CommitRequest, CommitResponse, DiffFile } from '../../types/diff';
+
+import { resolveApiUrl } from './apiUrl';
+
+const STATUS_VERBS = new Map<DiffFile['status'], string>([
+  ['added', 'Add'],
+  ['deleted', 'Delete'],
+  ['renamed', 'Rename'],
+  ['copied', 'Copy'],
+]);
+
+function describeFile(file: DiffFile): string {
+  const verb = STATUS_VERBS.get(file.status) ?? 'Update';
+  return file.oldPath && file.oldPath !== file.path
+    ? `${verb} ${file.oldPath} → ${file.path}`
+    : `${verb} ${file.path}`;
+}
+
+/**
+ * Drafts a commit message from the reviewed files: one line for a single file, otherwise
+ * a count in the subject and a bullet per file in the body.
+ */
+export function buildCommitMessageDraft(files: DiffFile[]): string {
+  if (files.length <= 1) {
+    return files[0] ? describeFile(files[0]) : '';
+  }
+
+  return [
+    `Update ${files.length} files`,
+    '',
+    ...files.map((file) => `- ${describeFile(file)}`),
+  ].join('\n');
+}
+
+export async function commitStagedChanges(request: CommitRequest): Promise<CommitResponse> {
+  const response = await fetch(resolveApiUrl('/api/commit'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const data = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(data?.error ?? `Failed to commit: ${response.statusText}`);
+  }
+
+  return response.json() as Promise<CommitResponse>;
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  computeDependencyChanges,
+  getDependencyFileKind,
+  parseDependencies,
+  type DependencyFileKind,
+} from './dependencyDiff';
+
+const parse = (text: string, kind: DependencyFileKind) => {
+  const versions = parseDependencies(text, kind);
+  if (!versions) throw new Error('expected dependencies');
+  return Object.fromEntries(versions);
+};
+
+describe('getDependencyFileKind', () => {
+  it('recognises manifests and lockfiles by file name', () => {
+    expect(getDependencyFileKind('package.json')).toBe('package-json');
+    expect(getDependencyFileKind('packages/app/pnpm-lock.yaml')).toBe('pnpm-lock');
+    expect(getDependencyFileKind('go.sum')).toBe('go-sum');
+    expect(getDependencyFileKind('src/package.json.bak')).toBeNull();
+    expect(getDependencyFileKind('yarn.lock')).toBeNull();
+  });
+});
+
+describe('parseDependencies', () => {
+  it('reads every dependency section of package.json', () => {
+    const manifest = JSON.stringify({
+      name: 'app',
+      dependencies: { react: '^18.2.0' },
+      devDependencies: { vitest: '~1.0.0' },
+    });
+
+    expect(parse(manifest, 'package-json')).toEqual({
+      react: ['^18.2.0'],
+      vitest: ['~1.0.0'],
+    });
+  });
+
+  it('reads pnpm lockfile package keys across lockfile versions', () => {
+    const lock = [
+      "lockfileVersion: '9.0'",
+      'packages:',
+      "  '@babel/core@7.24.0':",
+      '    resolution: {integrity: sha512-a}',
+      '  react-dom@18.2.0(react@18.2.0):',
+      '    resolution: {integrity: sha512-b}',
+      '  /lodash@4.17.21:',
+      '    resolution: {integrity: sha512-c}',
+      '  /left-pad/1.3.0:',
+      '    resolution: {integrity: sha512-d}',
+    ].join('\n');
+
+    expect(parse(lock, 'pnpm-lock')).toEqual({
+      '@babel/core': ['7.24.0'],
+      'react-dom': ['18.2.0'],
+      lodash: ['4.17.21'],
+      'left-pad': ['1.3.0'],
+    });
+  });
+
+  it('reads installed packages from package-lock.json, including nested copies', () => {
+    const lock = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app', version: '1.0.0' },
+        'node_modules/debug': { version: '4.3.4' },
+        'node_modules/send/node_modules/debug': { version: '2.6.9' },
+      },
+    });
+
+    expect(parse(lock, 'package-lock')).toEqual({ debug: ['4.3.4', '2.6.9'] });
+  });
+
+  it('reads [[package]] tables from Cargo.lock and uv.lock', () => {
+    const lock = [
+      'version = 3',
+      '',
+      '[[package]]',
+      'name = "serde"',
+      'version = "1.0.197"',
+      'dependencies = [',
+      ' "serde_derive",',
+      ']',
+      '',
+      '[[package]]',
+      'name = "requests"',
+      'version = "2.31.0"',
+      'source = { registry = "https://pypi.org/simple" }',
+      '',
+      '[package.optional-dependencies]',
+      'socks = [',
+      '    { name = "pysocks" },',
+      ']',
+    ].join('\n');
+
+    expect(parse(lock, 'cargo-lock')).toEqual({
+      serde: ['1.0.197'],
+      requests: ['2.31.0'],
+    });
+  });
+
+  it('reads module versions from go.sum', () => {
+    const sum = [
+      'golang.org/x/text v0.14.0 h1:abc=',
+      'golang.org/x/text v0.14.0/go.mod h1:def=',
+      'golang.org/x/text v0.13.0/go.mod h1:ghi=',
+    ].join('\n');
+
+    expect(parse(sum, 'go-sum')).toEqual({ 'golang.org/x/text': ['v0.14.0', 'v0.13.0'] });
+  });
+
+  it('returns null for files that do not parse', () => {
+    expect(parseDependencies('{', 'package-json')).toBeNull();
+    expect(parseDependencies('not a go.sum line\n', 'go-sum')).toBeNull();
+  });
+});
+
+describe('computeDependencyChanges', () => {
+  it('classifies version changes and marks major bumps', () => {
+    const oldVersions = new Map([
+      ['react', ['^17.0.2']],
+      ['lodash', ['4.17.21']],
+      ['zod', ['0.9.0']],
+      ['left-pad', ['1.3.0']],
+      ['tslib', ['2.6.0']],
+      ['next', ['14.0.0']],
+    ]);
+    const newVersions = new Map([
+      ['react', ['^18.2.0']],
+      ['lodash', ['4.17.20']],
+      ['zod', ['0.10.0']],
+      ['tslib', ['2.6.0']],
+      ['vitest', ['1.2.0']],
+      ['next', ['14.0.0-canary.1']],
+    ]);
+
+    expect(computeDependencyChanges(oldVersions, newVersions)).toEqual([
+      { name: 'left-pad', status: 'removed', oldVersion: '1.3.0', isMajor: false },
+      {
+        name: 'lodash',
+        status: 'downgraded',
+        oldVersion: '4.17.21',
+        newVersion: '4.17.20',
+        isMajor: false,
+      },
+      {
+        name: 'next',
+        status: 'downgraded',
+        oldVersion: '14.0.0',
+        newVersion: '14.0.0-canary.1',
+        isMajor: false,
+      },
+      {
+        name: 'react',
+        status: 'upgraded',
+        oldVersion: '^17.0.2',
+        newVersion: '^18.2.0',
+        isMajor: true,
+      },
+      { name: 'vitest', status: 'added', newVersion: '1.2.0', isMajor: false },
+      { name: 'zod', status: 'upgraded', oldVersion: '0.9.0', newVersion: '0.10.0', isMajor: true },
+    ]);
+  });
+
+  it('pairs the changed versions of a package installed more than once', () => {
+    const oldVersions = new Map([['debug', ['2.6.9', '4.3.4', '3.2.7']]]);
+    const newVersions = new Map([['debug', ['4.3.5', '2.6.9']]]);
+
+    expect(computeDependencyChanges(oldVersions, newVersions)).toEqual([
+      {
+        name: 'debug',
+        status: 'upgraded',
+        oldVersion: '4.3.4',
+        newVersion: '4.3.5',
+        isMajor: false,
+      },
+      { name: 'debug', status: 'removed', oldVersion: '3.2.7', isMajor: false },
+    ]);
+  });
+});
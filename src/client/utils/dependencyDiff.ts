@@ -0,0 +1,294 @@
+import { load } from 'js-yaml';
+
+export type DependencyFileKind =
+  | 'package-json'
+  | 'pnpm-lock'
+  | 'package-lock'
+  | 'cargo-lock'
+  | 'go-sum'
+  | 'uv-lock';
+
+// Package name to the versions resolved for it; lockfiles can hold several versions of one package
+export type DependencyVersions = Map<string, string[]>;
+
+type DependencyChangeStatus = 'added' | 'removed' | 'upgraded' | 'downgraded' | 'changed';
+
+export type DependencyChange = {
+  name: string;
+  status: DependencyChangeStatus;
+  oldVersion?: string;
+  newVersion?: string;
+  // The major version moved (or the minor one, below 1.0.0), which may break callers
+  isMajor: boolean;
+};
+
+const DEPENDENCY_FILES = new Map<string, DependencyFileKind>([
+  ['package.json', 'package-json'],
+  ['pnpm-lock.yaml', 'pnpm-lock'],
+  ['package-lock.json', 'package-lock'],
+  ['Cargo.lock', 'cargo-lock'],
+  ['go.sum', 'go-sum'],
+  ['uv.lock', 'uv-lock'],
+]);
+
+const PACKAGE_JSON_SECTIONS = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+];
+
+export function getDependencyFileKind(filename: string): DependencyFileKind | null {
+  return DEPENDENCY_FILES.get(filename.split('/').pop() ?? '') ?? null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const addVersion = (versions: DependencyVersions, name: string, version: string) => {
+  const existing = versions.get(name);
+  if (!existing) {
+    versions.set(name, [version]);
+  } else if (!existing.includes(version)) {
+    existing.push(version);
+  }
+};
+
+function parsePackageJson(text: string, versions: DependencyVersions) {
+  const manifest = JSON.parse(text) as unknown;
+  if (!isRecord(manifest)) throw new Error('package.json is not an object');
+  for (const section of PACKAGE_JSON_SECTIONS) {
+    const dependencies = manifest[section];
+    if (!isRecord(dependencies)) continue;
+    for (const [name, range] of Object.entries(dependencies)) {
+      if (typeof range === 'string') addVersion(versions, name, range);
+    }
+  }
+}
+
+// Keys are `name@version(peers)` since v9, `/name@version(peers)` in v6 and `/name/version` before
+const parsePnpmPackageKey = (key: string): [string, string] | null => {
+  const spec = key.replace(/^\//, '').replace(/\(.*$/, '');
+  const at = spec.lastIndexOf('@');
+  const separator = at > 0 ? at : spec.lastIndexOf('/');
+  if (separator <= 0) return null;
+  return [spec.slice(0, separator), spec.slice(separator + 1)];
+};
+
+function parsePnpmLock(text: string, versions: DependencyVersions) {
+  const lock = load(text);
+  if (!isRecord(lock)) throw new Error('pnpm-lock.yaml is not a mapping');
+  const packages = isRecord(lock.packages) ? lock.packages : {};
+  for (const key of Object.keys(packages)) {
+    const parsed = parsePnpmPackageKey(key);
+    if (parsed) addVersion(versions, ...parsed);
+  }
+}
+
+function parsePackageLock(text: string, versions: DependencyVersions) {
+  const lock = JSON.parse(text) as unknown;
+  if (!isRecord(lock)) throw new Error('package-lock.json is not an object');
+
+  if (isRecord(lock.packages)) {
+    for (const [path, entry] of Object.entries(lock.packages)) {
+      // The root project is keyed by the empty path; workspace links have no version
+      const name = path.split('node_modules/').pop();
+      if (path === '' || !name || !isRecord(entry) || typeof entry.version !== 'string') continue;
+      addVersion(versions, name, entry.version);
+    }
+    return;
+  }
+
+  // lockfileVersion 1 nests dependencies instead of listing install paths
+  const collect = (dependencies: unknown) => {
+    if (!isRecord(dependencies)) return;
+    for (const [name, entry] of Object.entries(dependencies)) {
+      if (!isRecord(entry)) continue;
+      if (typeof entry.version === 'string') addVersion(versions, name, entry.version);
+      collect(entry.dependencies);
+    }
+  };
+  collect(lock.dependencies);
+}
+
+// Cargo.lock and uv.lock list each package as a `[[package]]` table opening with name and version
+function parseTomlPackages(text: string, versions: DependencyVersions) {
+  let inPackage = false;
+  let name: string | undefined;
+
+  for (const line of text.split('\n')) {
+    if (line.startsWith('[')) {
+      inPackage = line.trim() === '[[package]]';
+      name = undefined;
+      continue;
+    }
+    if (!inPackage) continue;
+    const match = /^(name|version)\s*=\s*"([^"]*)"/.exec(line);
+    if (match?.[1] === 'name') {
+      name = match[2];
+    } else if (match?.[1] === 'version' && name !== undefined && match[2] !== undefined) {
+      addVersion(versions, name, match[2]);
+      inPackage = false;
+    }
+  }
+}
+
+function parseGoSum(text: string, versions: DependencyVersions) {
+  for (const line of text.split('\n')) {
+    if (line.trim() === '') continue;
+    // `module version[/go.mod] hash`, listing go.mod-only hashes for versions not built
+    const match = /^(\S+)\s+(v[^\s/]+)(?:\/go\.mod)?\s+\S+$/.exec(line.trim());
+    if (!match?.[1] || !match[2]) throw new Error(`Unexpected go.sum line: ${line}`);
+    addVersion(versions, match[1], match[2]);
+  }
+}
+
+/**
+ * Reads the dependency versions a manifest or lockfile declares. Returns `null` when the file
+ * can't be parsed as its kind.
+ */
+export function parseDependencies(
+  text: string,
+  kind: DependencyFileKind,
+): DependencyVersions | null {
+  const versions: DependencyVersions = new Map();
+  try {
+    switch (kind) {
+      case 'package-json':
+        parsePackageJson(text, versions);
+        break;
+      case 'pnpm-lock':
+        parsePnpmLock(text, versions);
+        break;
+      case 'package-lock':
+        parsePackageLock(text, versions);
+        break;
+      case 'cargo-lock':
+      case 'uv-lock':
+        parseTomlPackages(text, versions);
+        break;
+      case 'go-sum':
+        parseGoSum(text, versions);
+        break;
+    }
+  } catch {
+    return null;
+  }
+  return versions;
+}
+
+type ParsedVersion = { numbers: [number, number, number]; prerelease: string };
+
+// Reads the first `major.minor.patch` out of a version or a range like `^1.2.0` or `v1.2.3-rc.1`
+const parseVersion = (version: string): ParsedVersion | null => {
+  const match = /(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?/.exec(version);
+  if (!match) return null;
+  return {
+    numbers: [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)],
+    prerelease: match[4] ?? '',
+  };
+};
+
+const compareParsedVersions = (a: ParsedVersion, b: ParsedVersion) => {
+  const difference = a.numbers.map((part, index) => part - (b.numbers[index] ?? 0)).find(Boolean);
+  if (difference) return difference;
+  // A release sorts after its prereleases
+  if (a.prerelease === b.prerelease) return 0;
+  if (!a.prerelease) return 1;
+  if (!b.prerelease) return -1;
+  return a.prerelease.localeCompare(b.prerelease, undefined, { numeric: true });
+};
+
+const compareVersions = (a: string, b: string) => {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+  if (!parsedA || !parsedB) return a.localeCompare(b);
+  return compareParsedVersions(parsedA, parsedB) || a.localeCompare(b);
+};
+
+const isMajorChange = (oldVersion: ParsedVersion, newVersion: ParsedVersion) => {
+  const [oldMajor, oldMinor] = oldVersion.numbers;
+  const [newMajor, newMinor] = newVersion.numbers;
+  if (oldMajor !== newMajor) return true;
+  return oldMajor === 0 && oldMinor !== newMinor;
+};
+
+function toVersionChange(name: string, oldVersion: string, newVersion: string): DependencyChange {
+  const parsedOld = parseVersion(oldVersion);
+  const parsedNew = parseVersion(newVersion);
+  if (!parsedOld || !parsedNew) {
+    return { name, status: 'changed', oldVersion, newVersion, isMajor: false };
+  }
+  const order = compareParsedVersions(parsedOld, parsedNew);
+  return {
+    name,
+    // Equal numbers written differently, e.g. `^1.2.0` to `~1.2.0`
+    status: order < 0 ? 'upgraded' : order > 0 ? 'downgraded' : 'changed',
+    oldVersion,
+    newVersion,
+    isMajor: isMajorChange(parsedOld, parsedNew),
+  };
+}
+
+const getMajor = (version: string) => parseVersion(version)?.numbers[0];
+
+// Pairs each new version with the old one it most likely replaced: the highest old version on
+// the same major, else the lowest one left
+function pairVersions(removed: string[], added: string[]) {
+  const unpairedOld = [...removed];
+  const pairs: [string, string][] = [];
+  const unpairedNew: string[] = [];
+
+  for (const newVersion of added) {
+    const sameMajor = unpairedOld.filter((version) => getMajor(version) === getMajor(newVersion));
+    const oldVersion = sameMajor[sameMajor.length - 1];
+    if (oldVersion === undefined) {
+      unpairedNew.push(newVersion);
+    } else {
+      unpairedOld.splice(unpairedOld.indexOf(oldVersion), 1);
+      pairs.push([oldVersion, newVersion]);
+    }
+  }
+  while (unpairedOld.length > 0 && unpairedNew.length > 0) {
+    const oldVersion = unpairedOld.shift();
+    const newVersion = unpairedNew.shift();
+    if (oldVersion !== undefined && newVersion !== undefined) pairs.push([oldVersion, newVersion]);
+  }
+
+  return { pairs, removed: unpairedOld, added: unpairedNew };
+}
+
+/**
+ * Lists the packages added, removed, upgraded or downgraded between two versions of a
+ * dependency file. Versions of a package installed more than once are paired by major version.
+ */
+export function computeDependencyChanges(
+  oldVersions: DependencyVersions,
+  newVersions: DependencyVersions,
+): DependencyChange[] {
+  const names = [...new Set([...oldVersions.keys(), ...newVersions.keys()])].sort((a, b) =>
+    a.localeCompare(b),
+  );
+  const changes: DependencyChange[] = [];
+
+  for (const name of names) {
+    const oldList = oldVersions.get(name) ?? [];
+    const newList = newVersions.get(name) ?? [];
+    const { pairs, removed, added } = pairVersions(
+      oldList.filter((version) => !newList.includes(version)).sort(compareVersions),
+      newList.filter((version) => !oldList.includes(version)).sort(compareVersions),
+    );
+
+    for (const [oldVersion, newVersion] of pairs) {
+      changes.push(toVersionChange(name, oldVersion, newVersion));
+    }
+    for (const oldVersion of removed) {
+      changes.push({ name, status: 'removed', oldVersion, isMajor: false });
+    }
+    for (const newVersion of added) {
+      changes.push({ name, status: 'added', newVersion, isMajor: false });
+    }
+  }
+
+  return changes;
+}
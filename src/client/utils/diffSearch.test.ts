@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DiffFile } from '../../types/diff';
+
+import { createSearchPattern, searchDiff, splitByMatchRanges } from './diffSearch';
+
+const file = (path: string, lines: DiffFile['chunks'][number]['lines']): DiffFile => ({
+  path,
+  status: 'modified',
+  additions: 0,
+  deletions: 0,
+  chunks: [{ header: '@@ -1 +1 @@', oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines }],
+});
+
+const files = [
+  file('a.ts', [
+    { type: 'normal', content: 'const value = load();', oldLineNumber: 1, newLineNumber: 1 },
+    { type: 'delete', content: 'return Value;', oldLineNumber: 2 },
+    { type: 'add', content: 'return value + value;', newLineNumber: 2 },
+  ]),
+  file('b.ts', [{ type: 'add', content: 'nothing here', newLineNumber: 1 }]),
+];
+
+describe('createSearchPattern', () => {
+  it('escapes literal queries and honours the case option', () => {
+    const { pattern } = createSearchPattern({
+      query: 'a.b',
+      scope: 'all',
+      isRegex: false,
+      isCaseSensitive: false,
+    });
+    expect(pattern?.source).toBe('a\\.b');
+    expect(pattern?.flags).toBe('gi');
+  });
+
+  it('reports invalid regular expressions instead of throwing', () => {
+    const { pattern, error } = createSearchPattern({
+      query: '(',
+      scope: 'all',
+      isRegex: true,
+      isCaseSensitive: true,
+    });
+    expect(pattern).toBeNull();
+    expect(error).toMatch(/Invalid regular expression/);
+  });
+});
+
+describe('searchDiff', () => {
+  it('groups matches by file and reports deleted lines on the old side', () => {
+    expect(searchDiff(files, /value/gi, 'all')).toEqual([
+      {
+        filePath: 'a.ts',
+        matches: [
+          {
+            side: 'new',
+            lineNumber: 1,
+            lineType: 'normal',
+            content: 'const value = load();',
+            ranges: [[6, 11]],
+          },
+          {
+            side: 'old',
+            lineNumber: 2,
+            lineType: 'delete',
+            content: 'return Value;',
+            ranges: [[7, 12]],
+          },
+          {
+            side: 'new',
+            lineNumber: 2,
+            lineType: 'add',
+            content: 'return value + value;',
+            ranges: [
+              [7, 12],
+              [15, 20],
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('limits matches to the chosen kind of line', () => {
+    expect(searchDiff(files, /value/g, 'removed').flatMap((result) => result.matches)).toEqual([]);
+    expect(
+      searchDiff(files, /value/gi, 'context').flatMap((result) =>
+        result.matches.map((match) => match.lineNumber),
+      ),
+    ).toEqual([1]);
+  });
+});
+
+describe('splitByMatchRanges', () => {
+  it('splits a token that starts partway through the line', () => {
+    expect(
+      splitByMatchRanges('value + value', 7, [
+        [7, 12],
+        [15, 20],
+      ]),
+    ).toEqual([
+      { text: 'value', isMatch: true },
+      { text: ' + ', isMatch: false },
+      { text: 'value', isMatch: true },
+    ]);
+    expect(splitByMatchRanges('abc', 10, [[0, 5]])).toEqual([{ text: 'abc', isMatch: false }]);
+  });
+});
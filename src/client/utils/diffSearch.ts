@@ -0,0 +1,153 @@
+import type { DiffFile, DiffLine, DiffSide } from '../../types/diff';
+
+export type DiffSearchScope = 'all' | 'added' | 'removed' | 'context';
+
+export interface DiffSearchOptions {
+  query: string;
+  scope: DiffSearchScope;
+  isRegex: boolean;
+  isCaseSensitive: boolean;
+}
+
+export type MatchRange = [start: number, end: number];
+
+export interface DiffSearchMatch {
+  side: DiffSide;
+  lineNumber: number;
+  lineType: DiffLine['type'];
+  content: string;
+  ranges: MatchRange[];
+}
+
+export interface DiffSearchFileResult {
+  filePath: string;
+  matches: DiffSearchMatch[];
+}
+
+// Results stop growing past this so a one-letter query can't freeze the page
+export const MAX_DIFF_SEARCH_MATCHES = 1000;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compiles the search options into a global RegExp. Returns `null` for an empty query and
+ * an error message for a pattern the browser can't parse.
+ */
+export function createSearchPattern(options: DiffSearchOptions): {
+  pattern: RegExp | null;
+  error: string | null;
+} {
+  if (options.query === '') {
+    return { pattern: null, error: null };
+  }
+
+  const source = options.isRegex ? options.query : escapeRegExp(options.query);
+  try {
+    return { pattern: new RegExp(source, options.isCaseSensitive ? 'g' : 'gi'), error: null };
+  } catch (error) {
+    return {
+      pattern: null,
+      error: error instanceof Error ? error.message : 'Invalid regular expression',
+    };
+  }
+}
+
+export function isLineInSearchScope(type: DiffLine['type'], scope: DiffSearchScope): boolean {
+  switch (type) {
+    case 'add':
+      return scope === 'all' || scope === 'added';
+    case 'delete':
+    case 'remove':
+      return scope === 'all' || scope === 'removed';
+    case 'normal':
+    case 'context':
+      return scope === 'all' || scope === 'context';
+    default:
+      return false;
+  }
+}
+
+export function getMatchRanges(content: string, pattern: RegExp): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  for (const match of content.matchAll(pattern)) {
+    // Zero-length matches (e.g. `^` or `a*`) have nothing to highlight
+    if (match[0].length > 0) {
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Searches every line of the diff, grouped by file in diff order. Lines shown on both sides
+ * are reported once, on the new side, like the unified view.
+ */
+export function searchDiff(
+  files: DiffFile[],
+  pattern: RegExp,
+  scope: DiffSearchScope,
+): DiffSearchFileResult[] {
+  const results: DiffSearchFileResult[] = [];
+  let total = 0;
+
+  for (const file of files) {
+    const matches: DiffSearchMatch[] = [];
+    for (const chunk of file.chunks) {
+      for (const line of chunk.lines) {
+        if (total + matches.length >= MAX_DIFF_SEARCH_MATCHES) break;
+        if (!isLineInSearchScope(line.type, scope)) continue;
+
+        const ranges = getMatchRanges(line.content, pattern);
+        if (ranges.length === 0) continue;
+
+        const side: DiffSide = line.newLineNumber !== undefined ? 'new' : 'old';
+        const lineNumber = side === 'new' ? line.newLineNumber : line.oldLineNumber;
+        if (lineNumber === undefined) continue;
+
+        matches.push({ side, lineNumber, lineType: line.type, content: line.content, ranges });
+      }
+    }
+
+    if (matches.length > 0) {
+      results.push({ filePath: file.path, matches });
+      total += matches.length;
+    }
+  }
+
+  return results;
+}
+
+interface HighlightedPart {
+  text: string;
+  isMatch: boolean;
+}
+
+/**
+ * Splits a piece of a line that starts at `offset` at the match boundaries, so renderers can
+ * wrap the matched parts without losing their own token or segment styling.
+ */
+export function splitByMatchRanges(
+  text: string,
+  offset: number,
+  ranges: MatchRange[],
+): HighlightedPart[] {
+  const parts: HighlightedPart[] = [];
+  let cursor = 0;
+
+  for (const [start, end] of ranges) {
+    const localStart = Math.max(start - offset, cursor);
+    const localEnd = Math.min(end - offset, text.length);
+    if (localEnd <= localStart) continue;
+
+    if (localStart > cursor) {
+      parts.push({ text: text.slice(cursor, localStart), isMatch: false });
+    }
+    parts.push({ text: text.slice(localStart, localEnd), isMatch: true });
+    cursor = localEnd;
+  }
+
+  if (cursor < text.length) {
+    parts.push({ text: text.slice(cursor), isMatch: false });
+  }
+  return parts;
+}
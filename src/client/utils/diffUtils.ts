@@ -1,4 +1,6 @@
 import { type DiffFile } from '../../types/diff';
+
+import { hasModeChange } from './fileBadges';
 export { getLanguageFromPath } from './languageDetection';
 
 /**
@@ -46,5 +48,8 @@ export function getDiffContentForHashing(file: DiffFile): string {
     })
     .join('\n\n');
 
-  return `${file.path}\n${file.status}\n${chunks}`;
+  // Mode-only changes have no chunks, so the modes keep their hash distinct
+  const modes = hasModeChange(file) ? `${file.oldMode}..${file.newMode}\n` : '';
+
+  return `${file.path}\n${file.status}\n${modes}${chunks}`;
 }
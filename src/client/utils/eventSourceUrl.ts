@@ -1,12 +1,15 @@
+import { resolveApiUrl } from './apiUrl';
+
 export function resolveEventSourceUrl(path: string): string {
+  const sessionPath = resolveApiUrl(path);
   const apiUrl = import.meta.env.VITE_DIFIT_API_URL?.trim();
   if (!apiUrl) {
-    return path;
+    return sessionPath;
   }
 
   try {
-    return new URL(path, apiUrl).toString();
+    return new URL(sessionPath, apiUrl).toString();
   } catch {
-    return path;
+    return sessionPath;
   }
 }
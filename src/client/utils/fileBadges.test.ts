@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DiffFile } from '../../types/diff';
+
+import { getFileBadges, hasModeChange } from './fileBadges';
+
+const createFile = (overrides: Partial<DiffFile>): DiffFile => ({
+  path: 'file',
+  status: 'modified',
+  additions: 0,
+  deletions: 0,
+  chunks: [],
+  ...overrides,
+});
+
+describe('getFileBadges', () => {
+  it('returns no badges for a plain modification', () => {
+    expect(getFileBadges(createFile({ oldMode: '100644', newMode: '100644' }))).toEqual([]);
+  });
+
+  it('labels executable bit flips', () => {
+    expect(getFileBadges(createFile({ oldMode: '100644', newMode: '100755' }))[0]?.label).toBe(
+      '+x',
+    );
+    expect(getFileBadges(createFile({ oldMode: '100755', newMode: '100644' }))[0]?.label).toBe(
+      '-x',
+    );
+  });
+
+  it('describes both sides of a type change', () => {
+    const badges = getFileBadges(
+      createFile({ status: 'typechanged', oldMode: '100644', newMode: '120000' }),
+    );
+
+    expect(badges).toEqual([
+      {
+        label: 'regular file → symlink',
+        title: 'Type changed from regular file (100644) to symlink (120000)',
+      },
+    ]);
+  });
+
+  it('marks symlinks, including deleted ones', () => {
+    expect(getFileBadges(createFile({ oldMode: '120000', newMode: '120000' }))).toEqual([
+      { label: 'symlink', title: 'Symbolic link; the diff shows its target path' },
+    ]);
+    expect(getFileBadges(createFile({ status: 'deleted', oldMode: '120000' }))[0]?.label).toBe(
+      'symlink',
+    );
+  });
+
+  it('only shows similarity below 100%', () => {
+    expect(
+      getFileBadges(createFile({ status: 'renamed', oldPath: 'old', similarity: 100 })),
+    ).toEqual([]);
+    expect(
+      getFileBadges(createFile({ status: 'renamed', oldPath: 'old', similarity: 75 })),
+    ).toEqual([{ label: '75%', title: '75% similar to old' }]);
+  });
+});
+
+describe('hasModeChange', () => {
+  it('ignores files that only exist on one side', () => {
+    expect(hasModeChange(createFile({ status: 'added', newMode: '100644' }))).toBe(false);
+    expect(hasModeChange(createFile({ oldMode: '100644', newMode: '100755' }))).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+import type { DiffFile } from '../../types/diff';
+
+export interface FileBadge {
+  label: string;
+  title: string;
+}
+
+const SYMLINK_MODE = '120000';
+
+const describeMode = (mode: string) => {
+  if (mode === SYMLINK_MODE) return 'symlink';
+  if (mode === '160000') return 'submodule';
+  return 'regular file';
+};
+
+const isExecutable = (mode: string) => (parseInt(mode.slice(-3), 8) & 0o111) !== 0;
+
+export function hasModeChange(file: DiffFile): boolean {
+  return Boolean(file.oldMode && file.newMode && file.oldMode !== file.newMode);
+}
+
+/**
+ * Small labels for metadata that doesn't show up in the patch itself:
+ * copies, type changes, permission changes, symlinks and rename similarity.
+ */
+export function getFileBadges(file: DiffFile): FileBadge[] {
+  const badges: FileBadge[] = [];
+  const { oldMode, newMode } = file;
+
+  if (file.status === 'typechanged' && oldMode && newMode) {
+    badges.push({
+      label: `${describeMode(oldMode)} → ${describeMode(newMode)}`,
+      title: `Type changed from ${describeMode(oldMode)} (${oldMode}) to ${describeMode(newMode)} (${newMode})`,
+    });
+  } else if (hasModeChange(file) && oldMode && newMode) {
+    const executableFlip = isExecutable(oldMode) !== isExecutable(newMode);
+    badges.push({
+      label: executableFlip ? (isExecutable(newMode) ? '+x' : '-x') : `${oldMode} → ${newMode}`,
+      title: `File mode changed from ${oldMode} to ${newMode}`,
+    });
+  }
+
+  if (file.status !== 'typechanged' && (newMode ?? oldMode) === SYMLINK_MODE) {
+    badges.push({ label: 'symlink', title: 'Symbolic link; the diff shows its target path' });
+  }
+
+  if (file.status === 'copied') {
+    badges.push({ label: 'copy', title: `Copied from ${file.oldPath ?? 'another file'}` });
+  }
+
+  if (
+    (file.status === 'renamed' || file.status === 'copied') &&
+    file.similarity !== undefined &&
+    file.similarity < 100
+  ) {
+    badges.push({
+      label: `${file.similarity}%`,
+      title: `${file.similarity}% similar to ${file.oldPath ?? 'the original file'}`,
+    });
+  }
+
+  return badges;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+
+import type { FileHistoryEntry } from '../../types/diff';
+
+import { getHistoryComparison, toggleHistorySelection } from './fileHistory';
+
+const entry = (hash: string): FileHistoryEntry => ({
+  hash,
+  shortHash: hash.slice(0, 7),
+  author: 'Alice',
+  authorTime: 1700000000,
+  summary: `Commit ${hash}`,
+  path: 'src/parser.ts',
+});
+
+describe('file history selection', () => {
+  it('keeps the two most recent picks and toggles picked entries off', () => {
+    expect(toggleHistorySelection(['a', 'b'], 'c')).toEqual(['b', 'c']);
+    expect(toggleHistorySelection(['a', 'b'], 'a')).toEqual(['b']);
+  });
+
+  it('compares the older entry against the newer one regardless of pick order', () => {
+    const entries = [entry('c'), entry('b'), entry('a')];
+
+    expect(getHistoryComparison(entries, ['c', 'a'])).toEqual({
+      base: entries[2],
+      target: entries[0],
+    });
+    expect(getHistoryComparison(entries, ['a', 'c'])).toEqual({
+      base: entries[2],
+      target: entries[0],
+    });
+    expect(getHistoryComparison(entries, ['b'])).toBeNull();
+  });
+});
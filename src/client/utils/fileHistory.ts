@@ -0,0 +1,50 @@
+import type { DiffResponse, FileHistoryEntry, FileHistoryResponse } from '../../types/diff';
+
+import { resolveApiUrl } from './apiUrl';
+
+async function readJsonResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  if (!response.ok) {
+    const data = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(data?.error ?? `${fallbackError}: ${response.statusText}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+export async function fetchFileHistory(filePath: string): Promise<FileHistoryResponse> {
+  const response = await fetch(resolveApiUrl(`/api/file-history/${encodeURIComponent(filePath)}`));
+  return readJsonResponse(response, 'Failed to load file history');
+}
+
+export async function fetchFileHistoryDiff(
+  base: FileHistoryEntry,
+  target: FileHistoryEntry,
+): Promise<DiffResponse> {
+  const params = new URLSearchParams({ base: base.hash, target: target.hash });
+  if (base.path !== target.path) params.set('oldPath', base.path);
+
+  const response = await fetch(
+    resolveApiUrl(`/api/file-history-diff/${encodeURIComponent(target.path)}?${params.toString()}`),
+  );
+  return readJsonResponse(response, 'Failed to load file history diff');
+}
+
+/**
+ * Toggles a history entry in a selection of at most two; picking a third drops the one picked
+ * first, so the most recent two choices are always the ones compared.
+ */
+export function toggleHistorySelection(selected: string[], hash: string): string[] {
+  if (selected.includes(hash)) {
+    return selected.filter((selectedHash) => selectedHash !== hash);
+  }
+  return [...selected, hash].slice(-2);
+}
+
+// Entries come newest first, so the later one in the list is the base of the comparison
+export function getHistoryComparison(
+  entries: FileHistoryEntry[],
+  selected: string[],
+): { base: FileHistoryEntry; target: FileHistoryEntry } | null {
+  const picked = entries.filter((entry) => selected.includes(entry.hash));
+  const [target, base] = picked;
+  return picked.length === 2 && base && target ? { base, target } : null;
+}
@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import type { DiffViewMode } from '../../types/diff';
+
+import {
+  getStoredFileViewModes,
+  storeFileViewModes,
+  toggleFullFileViewMode,
+} from './fileViewModes';
+
+describe('toggleFullFileViewMode', () => {
+  it('switches a file into full view and back to the global mode', () => {
+    const full = toggleFullFileViewMode(new Map(), 'a.ts', 'split');
+    expect(full).toEqual(new Map([['a.ts', 'full']]));
+
+    expect(toggleFullFileViewMode(full, 'a.ts', 'split')).toEqual(new Map());
+  });
+
+  it('keeps an explicit layout for files leaving a global full view', () => {
+    const modes = toggleFullFileViewMode(new Map(), 'a.ts', 'full');
+    expect(modes).toEqual(new Map([['a.ts', 'split']]));
+
+    expect(toggleFullFileViewMode(modes, 'a.ts', 'full')).toEqual(new Map());
+  });
+});
+
+describe('stored file view modes', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('round-trips overrides and skips unknown values', () => {
+    storeFileViewModes('repo', new Map<string, DiffViewMode>([['a.ts', 'full']]));
+    expect(getStoredFileViewModes('repo')).toEqual(new Map([['a.ts', 'full']]));
+
+    window.localStorage.setItem('difit.fileViewModes/repo', '{"a.ts":"full","b.ts":"wide"}');
+    expect(getStoredFileViewModes('repo')).toEqual(new Map([['a.ts', 'full']]));
+
+    window.localStorage.setItem('difit.fileViewModes/repo', 'not json');
+    expect(getStoredFileViewModes('repo')).toEqual(new Map());
+  });
+
+  it('keeps overrides of each repository apart', () => {
+    storeFileViewModes('repo-a', new Map<string, DiffViewMode>([['a.ts', 'full']]));
+    storeFileViewModes('repo-b', new Map<string, DiffViewMode>([['a.ts', 'split']]));
+
+    expect(getStoredFileViewModes('repo-a')).toEqual(new Map([['a.ts', 'full']]));
+    expect(getStoredFileViewModes('repo-b')).toEqual(new Map([['a.ts', 'split']]));
+    expect(getStoredFileViewModes(undefined)).toEqual(new Map());
+  });
+});
@@ -0,0 +1,74 @@
+import type { DiffViewMode } from '../../types/diff';
+import { DEFAULT_DIFF_VIEW_MODE } from '../../utils/diffMode';
+
+const FILE_VIEW_MODES_STORAGE_PREFIX = 'difit.fileViewModes';
+const DEFAULT_REPO_ID = '__default__';
+
+// File paths only mean something within one repository, so overrides are kept per repository
+const getStorageKey = (repositoryId: string | undefined) =>
+  `${FILE_VIEW_MODES_STORAGE_PREFIX}/${repositoryId ?? DEFAULT_REPO_ID}`;
+
+const isDiffViewMode = (value: unknown): value is DiffViewMode =>
+  value === 'split' || value === 'unified' || value === 'full';
+
+export function getStoredFileViewModes(
+  repositoryId: string | undefined,
+): Map<string, DiffViewMode> {
+  const modes = new Map<string, DiffViewMode>();
+  if (typeof window === 'undefined') {
+    return modes;
+  }
+
+  try {
+    const stored: unknown = JSON.parse(
+      window.localStorage.getItem(getStorageKey(repositoryId)) ?? '{}',
+    );
+    if (stored && typeof stored === 'object') {
+      Object.entries(stored).forEach(([path, mode]) => {
+        if (isDiffViewMode(mode)) {
+          modes.set(path, mode);
+        }
+      });
+    }
+  } catch {
+    // Ignore unreadable or malformed storage and start without overrides.
+  }
+  return modes;
+}
+
+export function storeFileViewModes(
+  repositoryId: string | undefined,
+  modes: Map<string, DiffViewMode>,
+): void {
+  try {
+    window.localStorage.setItem(
+      getStorageKey(repositoryId),
+      JSON.stringify(Object.fromEntries(modes)),
+    );
+  } catch {
+    // Ignore localStorage errors (e.g. disabled storage).
+  }
+}
+
+/**
+ * Switches one file in or out of the full-file view. Leaving it falls back to the global
+ * mode, or to the default layout when the global mode is itself `full`; overrides that
+ * match the global mode are dropped so they follow later global changes.
+ */
+export function toggleFullFileViewMode(
+  modes: Map<string, DiffViewMode>,
+  filePath: string,
+  globalMode: DiffViewMode,
+): Map<string, DiffViewMode> {
+  const current = modes.get(filePath) ?? globalMode;
+  const next: DiffViewMode =
+    current !== 'full' ? 'full' : globalMode === 'full' ? DEFAULT_DIFF_VIEW_MODE : globalMode;
+
+  const updated = new Map(modes);
+  if (next === globalMode) {
+    updated.delete(filePath);
+  } else {
+    updated.set(filePath, next);
+  }
+  return updated;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DiffFile, DiffLine } from '../../types/diff';
+
+import { createHunkActionRequest, getSelectedChangeIndices } from './hunkActions';
+
+const lines: DiffLine[] = [
+  { type: 'normal', content: 'one', oldLineNumber: 1, newLineNumber: 1 },
+  { type: 'delete', content: 'two', oldLineNumber: 2 },
+  { type: 'add', content: 'TWO', newLineNumber: 2 },
+  { type: 'normal', content: 'three', oldLineNumber: 3, newLineNumber: 3 },
+  { type: 'add', content: 'four', newLineNumber: 4 },
+];
+
+describe('getSelectedChangeIndices', () => {
+  it('returns the changed lines between the first and last selected rows', () => {
+    expect(getSelectedChangeIndices(lines, { side: 'new', lineNumber: [2, 4] })).toEqual([2, 4]);
+    expect(getSelectedChangeIndices(lines, { side: 'old', lineNumber: [1, 2] })).toEqual([1]);
+    expect(getSelectedChangeIndices(lines, { side: 'new', lineNumber: 3 })).toEqual([]);
+    expect(getSelectedChangeIndices(lines, null)).toEqual([]);
+  });
+});
+
+describe('createHunkActionRequest', () => {
+  it('sends only the line data the server needs to rebuild the patch', () => {
+    const file: DiffFile = {
+      path: 'src/example.ts',
+      status: 'modified',
+      additions: 2,
+      deletions: 1,
+      chunks: [],
+    };
+
+    expect(
+      createHunkActionRequest(
+        file,
+        { header: '@@ -1,3 +1,4 @@', oldStart: 1, oldLines: 3, newStart: 1, newLines: 4, lines },
+        'stage',
+        [2],
+      ),
+    ).toEqual({
+      action: 'stage',
+      filePath: 'src/example.ts',
+      status: 'modified',
+      chunk: {
+        oldStart: 1,
+        newStart: 1,
+        lines: lines.map(({ type, content }) => ({ type, content })),
+      },
+      lineIndices: [2],
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import type {
+  DiffChunk,
+  DiffFile,
+  DiffLine,
+  DiffSide,
+  HunkAction,
+  HunkActionRequest,
+  LineNumber,
+} from '../../types/diff';
+
+import { resolveApiUrl } from './apiUrl';
+
+// Renames and copies would need their own patch headers, so only in-place edits qualify
+const HUNK_ACTION_STATUSES = new Set<DiffFile['status']>(['modified', 'added', 'deleted']);
+
+export function supportsHunkActions(file: DiffFile): boolean {
+  return HUNK_ACTION_STATUSES.has(file.status);
+}
+
+/**
+ * Maps a comment selection in a chunk to the changed lines it covers. Selections are made
+ * on one side, so the range is widened to every add/delete line between the first and last
+ * selected row, which is what a reader sees highlighted in the unified view.
+ */
+export function getSelectedChangeIndices(
+  lines: DiffLine[],
+  selection: { side: DiffSide; lineNumber: LineNumber } | null,
+): number[] {
+  if (!selection) {
+    return [];
+  }
+
+  const [start, end] = Array.isArray(selection.lineNumber)
+    ? selection.lineNumber
+    : [selection.lineNumber, selection.lineNumber];
+  const selectedIndices = lines.flatMap((line, index) => {
+    const lineNumber = selection.side === 'old' ? line.oldLineNumber : line.newLineNumber;
+    return lineNumber !== undefined && lineNumber >= start && lineNumber <= end ? [index] : [];
+  });
+  const first = selectedIndices[0];
+  const last = selectedIndices.at(-1);
+  if (first === undefined || last === undefined) {
+    return [];
+  }
+
+  return lines.flatMap((line, index) =>
+    index >= first && index <= last && (line.type === 'add' || line.type === 'delete')
+      ? [index]
+      : [],
+  );
+}
+
+export function createHunkActionRequest(
+  file: DiffFile,
+  chunk: DiffChunk,
+  action: HunkAction,
+  lineIndices?: number[],
+): HunkActionRequest {
+  return {
+    action,
+    filePath: file.path,
+    status: file.status,
+    oldMode: file.oldMode,
+    newMode: file.newMode,
+    chunk: {
+      oldStart: chunk.oldStart,
+      newStart: chunk.newStart,
+      lines: chunk.lines.map(({ type, content }) => ({ type, content })),
+    },
+    ...(lineIndices ? { lineIndices } : {}),
+  };
+}
+
+export async function runHunkAction(request: HunkActionRequest): Promise<void> {
+  const response = await fetch(resolveApiUrl('/api/hunk-action'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const data = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(data?.error ?? `Failed to ${request.action} hunk: ${response.statusText}`);
+  }
+}
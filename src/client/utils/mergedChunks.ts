@@ -42,3 +42,13 @@ export function getMergedChunksForVersion(
 
   return state.byFile.get(filePath);
 }
+
+// For diffs rendered outside the main review, whose hidden lines can't be expanded
+export function toUnexpandedMergedChunks(file: DiffFile): MergedChunk[] {
+  return file.chunks.map((chunk, index) => ({
+    ...chunk,
+    originalIndices: [index],
+    hiddenLinesBefore: 0,
+    hiddenLinesAfter: 0,
+  }));
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DiffFile, DiffLine } from '../../types/diff';
+
+import { isMoveOnlyFile, markMovedLines } from './movedCode';
+
+const file = (path: string, ...chunks: DiffLine[][]): DiffFile => ({
+  path,
+  status: 'modified',
+  additions: 0,
+  deletions: 0,
+  chunks: chunks.map((lines) => ({
+    header: '@@ -1 +1 @@',
+    oldStart: 1,
+    oldLines: 1,
+    newStart: 1,
+    newLines: 1,
+    lines,
+  })),
+});
+
+const deleted = (content: string, oldLineNumber: number): DiffLine => ({
+  type: 'delete',
+  content,
+  oldLineNumber,
+});
+
+const added = (content: string, newLineNumber: number): DiffLine => ({
+  type: 'add',
+  content,
+  newLineNumber,
+});
+
+describe('markMovedLines', () => {
+  it('links a block moved to another file in both directions', () => {
+    const [source, destination] = markMovedLines([
+      file('a.ts', [
+        { type: 'normal', content: 'import x;', oldLineNumber: 1, newLineNumber: 1 },
+        deleted('function parseConfig(input) {', 2),
+        deleted('  return JSON.parse(input);', 3),
+        deleted('}', 4),
+      ]),
+      file('b.ts', [
+        added('export class Config {', 10),
+        added('  function parseConfig(input) {', 11),
+        added('    return JSON.parse(input);', 12),
+        added('  }', 13),
+      ]),
+    ]);
+
+    expect(source?.chunks[0]?.lines.map((line) => line.moved)).toEqual([
+      undefined,
+      { path: 'b.ts', side: 'new', lineNumber: 11 },
+      { path: 'b.ts', side: 'new', lineNumber: 12 },
+      { path: 'b.ts', side: 'new', lineNumber: 13 },
+    ]);
+    expect(destination?.chunks[0]?.lines.map((line) => line.moved)).toEqual([
+      undefined,
+      { path: 'a.ts', side: 'old', lineNumber: 2 },
+      { path: 'a.ts', side: 'old', lineNumber: 3 },
+      { path: 'a.ts', side: 'old', lineNumber: 4 },
+    ]);
+  });
+
+  it('ignores short blocks and rewrites within the same hunk', () => {
+    const files = [
+      file(
+        'a.ts',
+        [deleted('}', 1), deleted('return a;', 2)],
+        [
+          deleted('const total = items.reduce(sum, 0);', 8),
+          added('  const total = items.reduce(sum, 0);', 8),
+        ],
+      ),
+      file('b.ts', [added('}', 1), added('return a;', 2)]),
+    ];
+
+    expect(markMovedLines(files)).toBe(files);
+  });
+
+  it('matches each added line to one deleted block only', () => {
+    const block = 'const retries = options.retries ?? 3;';
+    const [source] = markMovedLines([
+      file('a.ts', [deleted(block, 1)], [deleted(block, 20)]),
+      file('b.ts', [added(block, 5)]),
+    ]);
+
+    expect(source?.chunks.map((chunk) => chunk.lines[0]?.moved)).toEqual([
+      { path: 'b.ts', side: 'new', lineNumber: 5 },
+      undefined,
+    ]);
+  });
+});
+
+describe('isMoveOnlyFile', () => {
+  it('accepts files whose changes are all moved, apart from blank lines', () => {
+    const [source, destination] = markMovedLines([
+      file('a.ts', [deleted('const retries = options.retries ?? 3;', 1), deleted('', 2)]),
+      file('b.ts', [
+        added('const retries = options.retries ?? 3;', 1),
+        added('retry(retries);', 2),
+      ]),
+    ]);
+
+    expect(source && isMoveOnlyFile(source)).toBe(true);
+    expect(destination && isMoveOnlyFile(destination)).toBe(false);
+    expect(isMoveOnlyFile(file('c.ts', [deleted('', 1)]))).toBe(false);
+  });
+});
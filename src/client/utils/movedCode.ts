@@ -0,0 +1,148 @@
+import type { DiffFile, DiffLine, MovedLineLink } from '../../types/diff';
+
+interface LineRef {
+  fileIndex: number;
+  chunkIndex: number;
+  lineIndex: number;
+}
+
+// Same threshold as git's --color-moved: shorter blocks are mostly braces and blank lines
+const MIN_MOVED_BLOCK_ALNUM_CHARS = 20;
+
+const getMoveKey = (line: DiffLine) => line.content.trim();
+
+// Combined merge diff lines have no single old side to link
+const isMoveCandidate = (line: DiffLine | undefined, type: 'add' | 'delete'): line is DiffLine =>
+  line?.type === type &&
+  line.parentMarkers === undefined &&
+  (type === 'add' ? line.newLineNumber : line.oldLineNumber) !== undefined;
+
+const getLine = (files: DiffFile[], ref: LineRef, offset = 0) =>
+  files[ref.fileIndex]?.chunks[ref.chunkIndex]?.lines[ref.lineIndex + offset];
+
+const countAlnumChars = (lines: DiffLine[]) =>
+  lines.reduce((count, line) => count + (line.content.match(/[a-z0-9]/gi)?.length ?? 0), 0);
+
+function getMatchLength(
+  files: DiffFile[],
+  deleteRef: LineRef,
+  addRef: LineRef,
+  usedAdds: Set<DiffLine>,
+): number {
+  let length = 0;
+  for (;;) {
+    const deleteLine = getLine(files, deleteRef, length);
+    const addLine = getLine(files, addRef, length);
+    if (
+      !isMoveCandidate(deleteLine, 'delete') ||
+      !isMoveCandidate(addLine, 'add') ||
+      usedAdds.has(addLine) ||
+      getMoveKey(deleteLine) !== getMoveKey(addLine)
+    ) {
+      return length;
+    }
+    length++;
+  }
+}
+
+/**
+ * Finds blocks of deleted lines that were added back elsewhere in the diff and links each
+ * line of a block to its counterpart. Lines are compared ignoring indentation, so code moved
+ * into another scope still counts. A block deleted and re-added within the same hunk is a
+ * rewrite in place rather than a move, and is left alone.
+ */
+export function markMovedLines(files: DiffFile[]): DiffFile[] {
+  const addsByKey = new Map<string, LineRef[]>();
+  files.forEach((file, fileIndex) => {
+    file.chunks.forEach((chunk, chunkIndex) => {
+      chunk.lines.forEach((line, lineIndex) => {
+        if (!isMoveCandidate(line, 'add')) return;
+        const key = getMoveKey(line);
+        if (key === '') return;
+        const refs = addsByKey.get(key) ?? [];
+        refs.push({ fileIndex, chunkIndex, lineIndex });
+        addsByKey.set(key, refs);
+      });
+    });
+  });
+
+  const links = new Map<DiffLine, MovedLineLink>();
+  const usedAdds = new Set<DiffLine>();
+
+  files.forEach((file, fileIndex) => {
+    file.chunks.forEach((chunk, chunkIndex) => {
+      let lineIndex = 0;
+      while (lineIndex < chunk.lines.length) {
+        const line = chunk.lines[lineIndex];
+        const candidates = isMoveCandidate(line, 'delete')
+          ? addsByKey.get(getMoveKey(line))
+          : undefined;
+        const deleteRef = { fileIndex, chunkIndex, lineIndex };
+
+        let best: { addRef: LineRef; length: number } | null = null;
+        for (const addRef of candidates ?? []) {
+          if (addRef.fileIndex === fileIndex && addRef.chunkIndex === chunkIndex) continue;
+          const length = getMatchLength(files, deleteRef, addRef, usedAdds);
+          if (length > (best?.length ?? 0)) {
+            best = { addRef, length };
+          }
+        }
+
+        const block = best ? chunk.lines.slice(lineIndex, lineIndex + best.length) : [];
+        if (!best || countAlnumChars(block) < MIN_MOVED_BLOCK_ALNUM_CHARS) {
+          lineIndex++;
+          continue;
+        }
+
+        const { addRef } = best;
+        const addFile = files[addRef.fileIndex];
+        block.forEach((deleteLine, offset) => {
+          const addLine = getLine(files, addRef, offset);
+          if (!addFile || !addLine) return;
+          usedAdds.add(addLine);
+          links.set(deleteLine, {
+            path: addFile.path,
+            side: 'new',
+            lineNumber: addLine.newLineNumber ?? 0,
+          });
+          links.set(addLine, {
+            path: file.path,
+            side: 'old',
+            lineNumber: deleteLine.oldLineNumber ?? 0,
+          });
+        });
+        lineIndex += best.length;
+      }
+    });
+  });
+
+  if (links.size === 0) return files;
+
+  return files.map((file) => {
+    if (!file.chunks.some((chunk) => chunk.lines.some((line) => links.has(line)))) return file;
+    return {
+      ...file,
+      chunks: file.chunks.map((chunk) => ({
+        ...chunk,
+        lines: chunk.lines.map((line) => {
+          const moved = links.get(line);
+          return moved ? { ...line, moved } : line;
+        }),
+      })),
+    };
+  });
+}
+
+/**
+ * Whether every change in the file is part of a moved block. Blank lines left behind by a
+ * move don't count as changes of their own.
+ */
+export function isMoveOnlyFile(file: DiffFile): boolean {
+  const changedLines = file.chunks
+    .flatMap((chunk) => chunk.lines)
+    .filter((line) => line.type === 'add' || line.type === 'delete');
+  return (
+    changedLines.some((line) => line.moved) &&
+    changedLines.every((line) => line.moved || line.content.trim() === '')
+  );
+}
@@ -32,7 +32,7 @@ export function buildFileLineIndex(file: DiffFile): FileLineIndex {
 }
 
 export function isThreadOutdated(
-  thread: DiffCommentThread,
+  thread: Pick<DiffCommentThread, 'codeSnapshot' | 'position'>,
   index: FileLineIndex | undefined,
 ): boolean {
   const snapshot = thread.codeSnapshot?.content;
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  computeStructuredDiff,
+  findKeyPathLine,
+  formatKeyPath,
+  getStructuredFormat,
+  parseStructuredText,
+  toStructuredDiffRows,
+} from './structuredDiff';
+
+describe('getStructuredFormat', () => {
+  it('recognises JSON and YAML files', () => {
+    expect(getStructuredFormat('package.json')).toBe('json');
+    expect(getStructuredFormat('.github/workflows/ci.yml')).toBe('yaml');
+    expect(getStructuredFormat('config/app.YAML')).toBe('yaml');
+    expect(getStructuredFormat('src/index.ts')).toBeNull();
+  });
+});
+
+describe('parseStructuredText', () => {
+  it('returns null for documents that fail to parse', () => {
+    expect(parseStructuredText('{"a": null}', 'json')).toEqual({ value: { a: null } });
+    expect(parseStructuredText('{ // comment\n}', 'json')).toBeNull();
+    expect(parseStructuredText('a: 1\n---\nb: 2\n', 'yaml')).toBeNull();
+  });
+});
+
+describe('computeStructuredDiff', () => {
+  it('ignores reordered keys and reports changed key paths', () => {
+    const oldValue = { name: 'app', scripts: { test: 'vitest', build: 'tsc' }, tags: ['a', 'b'] };
+    const newValue = { scripts: { build: 'tsc -b', test: 'vitest' }, name: 'app', tags: ['a'] };
+
+    expect(computeStructuredDiff(oldValue, newValue)).toEqual([
+      { path: ['scripts', 'build'], status: 'changed', oldValue: 'tsc', newValue: 'tsc -b' },
+      { path: ['tags', 1], status: 'removed', oldValue: 'b', newValue: undefined },
+    ]);
+  });
+
+  it('lists top-level keys of added documents', () => {
+    expect(computeStructuredDiff(undefined, { a: 1, b: { c: true } })).toEqual([
+      { path: ['a'], status: 'added', oldValue: undefined, newValue: 1 },
+      { path: ['b'], status: 'added', oldValue: undefined, newValue: { c: true } },
+    ]);
+  });
+
+  it('treats a value changing type as a change of the whole value', () => {
+    expect(computeStructuredDiff({ a: [1] }, { a: { 0: 1 } })).toEqual([
+      { path: ['a'], status: 'changed', oldValue: [1], newValue: { 0: 1 } },
+    ]);
+  });
+});
+
+describe('toStructuredDiffRows', () => {
+  it('adds a group row for each parent key once', () => {
+    const rows = toStructuredDiffRows(
+      computeStructuredDiff(
+        { server: { http: { port: 80, host: 'a' } }, debug: false },
+        { server: { http: { port: 8080, host: 'b' } }, debug: true },
+      ),
+    );
+
+    expect(rows.map((row) => [row.kind, row.depth, row.segment])).toEqual([
+      ['group', 0, 'server'],
+      ['group', 1, 'http'],
+      ['entry', 2, 'port'],
+      ['entry', 2, 'host'],
+      ['entry', 0, 'debug'],
+    ]);
+  });
+});
+
+describe('formatKeyPath', () => {
+  it('quotes keys that are not identifiers', () => {
+    expect(formatKeyPath(['scripts', 'test:unit', 'deps', 0, 'node-version'])).toBe(
+      'scripts["test:unit"].deps[0].node-version',
+    );
+    expect(formatKeyPath([])).toBe('(root)');
+  });
+});
+
+describe('findKeyPathLine', () => {
+  it('locates nested keys and array items in pretty-printed JSON', () => {
+    const text = [
+      '{',
+      '  "name": "app",',
+      '  "workspaces": [',
+      '    {',
+      '      "name": "web"',
+      '    },',
+      '    {',
+      '      "name": "api"',
+      '    }',
+      '  ]',
+      '}',
+    ].join('\n');
+
+    expect(findKeyPathLine(text, ['name'], 'json')).toBe(2);
+    expect(findKeyPathLine(text, ['workspaces', 1], 'json')).toBe(7);
+    expect(findKeyPathLine(text, ['workspaces', 1, 'name'], 'json')).toBe(8);
+  });
+
+  it('locates keys inside YAML list items', () => {
+    const text = [
+      'jobs:',
+      '  test:',
+      '    steps:',
+      '    - uses: actions/checkout@v4',
+      '    - name: Install',
+      '      run: pnpm install',
+      '    # comment',
+      '    - run: pnpm test',
+    ].join('\n');
+
+    expect(findKeyPathLine(text, ['jobs', 'test', 'steps', 1, 'run'], 'yaml')).toBe(6);
+    expect(findKeyPathLine(text, ['jobs', 'test', 'steps', 2], 'yaml')).toBe(8);
+  });
+
+  it('falls back to the deepest parent it can find', () => {
+    const text = '{\n  "tags": ["a", "b"]\n}\n';
+
+    expect(findKeyPathLine(text, ['tags', 1], 'json')).toBe(2);
+    expect(findKeyPathLine(text, ['missing'], 'json')).toBeUndefined();
+  });
+});
@@ -0,0 +1,295 @@
+import { load } from 'js-yaml';
+
+import { getFileExtension } from '../../utils/fileUtils';
+
+export type StructuredFormat = 'json' | 'yaml';
+
+export type KeyPath = (string | number)[];
+
+type StructuredDiffStatus = 'added' | 'removed' | 'changed';
+
+export type StructuredDiffEntry = {
+  path: KeyPath;
+  status: StructuredDiffStatus;
+  oldValue: unknown;
+  newValue: unknown;
+};
+
+// Entries laid out as a tree: a group row for each parent key not shown yet, then the change
+export type StructuredDiffRow =
+  | { kind: 'group'; depth: number; segment: string | number; path: KeyPath }
+  | { kind: 'entry'; depth: number; segment: string | number | null; entry: StructuredDiffEntry };
+
+const STRUCTURED_FORMATS = new Map<string, StructuredFormat>([
+  ['json', 'json'],
+  ['yaml', 'yaml'],
+  ['yml', 'yaml'],
+]);
+
+export function getStructuredFormat(filename: string): StructuredFormat | null {
+  const extension = getFileExtension(filename);
+  return (extension && STRUCTURED_FORMATS.get(extension)) || null;
+}
+
+/**
+ * Parses a JSON or YAML document. Returns `null` when the text isn't valid, e.g. JSON with
+ * comments or a multi-document YAML stream.
+ */
+export function parseStructuredText(
+  text: string,
+  format: StructuredFormat,
+): { value: unknown } | null {
+  try {
+    return { value: format === 'json' ? (JSON.parse(text) as unknown) : load(text) };
+  } catch {
+    return null;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+const isSameLeaf = (oldValue: unknown, newValue: unknown) =>
+  oldValue instanceof Date && newValue instanceof Date
+    ? oldValue.getTime() === newValue.getTime()
+    : Object.is(oldValue, newValue);
+
+// A missing side of an added or deleted file compares as an empty document of the other's kind
+const getEmptyLike = (value: unknown) =>
+  Array.isArray(value) ? [] : isPlainObject(value) ? {} : undefined;
+
+function collectChanges(
+  oldValue: unknown,
+  newValue: unknown,
+  path: KeyPath,
+  entries: StructuredDiffEntry[],
+) {
+  if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+    // Keys are matched by name, so reordering alone is not a change
+    for (const [key, value] of Object.entries(newValue)) {
+      if (Object.hasOwn(oldValue, key)) {
+        collectChanges(oldValue[key], value, [...path, key], entries);
+      } else {
+        entries.push({
+          path: [...path, key],
+          status: 'added',
+          oldValue: undefined,
+          newValue: value,
+        });
+      }
+    }
+    for (const [key, value] of Object.entries(oldValue)) {
+      if (!Object.hasOwn(newValue, key)) {
+        entries.push({
+          path: [...path, key],
+          status: 'removed',
+          oldValue: value,
+          newValue: undefined,
+        });
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    const length = Math.max(oldValue.length, newValue.length);
+    for (let index = 0; index < length; index++) {
+      const itemPath = [...path, index];
+      if (index >= oldValue.length) {
+        entries.push({
+          path: itemPath,
+          status: 'added',
+          oldValue: undefined,
+          newValue: newValue[index],
+        });
+      } else if (index >= newValue.length) {
+        entries.push({
+          path: itemPath,
+          status: 'removed',
+          oldValue: oldValue[index],
+          newValue: undefined,
+        });
+      } else {
+        collectChanges(oldValue[index], newValue[index], itemPath, entries);
+      }
+    }
+    return;
+  }
+
+  if (!isSameLeaf(oldValue, newValue)) {
+    entries.push({ path, status: 'changed', oldValue, newValue });
+  }
+}
+
+/**
+ * Lists the key paths that were added, removed or changed between two parsed documents.
+ * Objects are compared key by key and arrays item by item; any other value is a leaf.
+ */
+export function computeStructuredDiff(oldValue: unknown, newValue: unknown): StructuredDiffEntry[] {
+  const entries: StructuredDiffEntry[] = [];
+  collectChanges(
+    oldValue === undefined ? getEmptyLike(newValue) : oldValue,
+    newValue === undefined ? getEmptyLike(oldValue) : newValue,
+    [],
+    entries,
+  );
+  return entries;
+}
+
+export function toStructuredDiffRows(entries: StructuredDiffEntry[]): StructuredDiffRow[] {
+  const rows: StructuredDiffRow[] = [];
+  let previousPath: KeyPath = [];
+
+  for (const entry of entries) {
+    const parentPath = entry.path.slice(0, -1);
+    let shared = 0;
+    while (
+      shared < parentPath.length &&
+      shared < previousPath.length &&
+      parentPath[shared] === previousPath[shared]
+    ) {
+      shared++;
+    }
+    for (let depth = shared; depth < parentPath.length; depth++) {
+      rows.push({
+        kind: 'group',
+        depth,
+        segment: parentPath[depth] ?? '',
+        path: parentPath.slice(0, depth + 1),
+      });
+    }
+    rows.push({
+      kind: 'entry',
+      depth: parentPath.length,
+      segment: entry.path[entry.path.length - 1] ?? null,
+      entry,
+    });
+    previousPath = parentPath;
+  }
+
+  return rows;
+}
+
+export function formatKeyPath(path: KeyPath): string {
+  if (path.length === 0) return '(root)';
+  return path
+    .map((segment, index) => {
+      if (typeof segment === 'number') return `[${segment}]`;
+      if (/^[A-Za-z_$][\w$-]*$/.test(segment)) return index === 0 ? segment : `.${segment}`;
+      return `[${JSON.stringify(segment)}]`;
+    })
+    .join('');
+}
+
+interface TextLine {
+  index: number;
+  // YAML list markers count as indentation, so `- name: x` puts `name` inside the item
+  indent: number;
+  text: string;
+  // Indentation of the list marker for YAML lines starting a list item
+  itemIndent: number | null;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toTextLines = (text: string, format: StructuredFormat): TextLine[] =>
+  text.split('\n').map((raw, index) => {
+    const match =
+      format === 'yaml' ? /^(\s*)((?:-\s+)*)(.*)$/.exec(raw) : /^(\s*)()(.*)$/.exec(raw);
+    const leading = match?.[1] ?? '';
+    const marker = match?.[2] ?? '';
+    return {
+      index,
+      indent: leading.length + marker.length,
+      text: (match?.[3] ?? raw).trimEnd(),
+      itemIndent: marker ? leading.length : null,
+    };
+  });
+
+// Comments and JSON closing brackets don't start a key or item
+const isBlank = (line: TextLine, format: StructuredFormat) =>
+  line.text === '' || (format === 'yaml' ? line.text.startsWith('#') : /^[\]}]/.test(line.text));
+
+// Lines nested below a key or list item, stopping at the next line at or above `threshold`
+function getBlock(
+  lines: TextLine[],
+  start: number,
+  threshold: number,
+  format: StructuredFormat,
+  itemIndent: number | null,
+): TextLine[] {
+  const block: TextLine[] = [];
+  for (const line of lines.slice(start)) {
+    if (isBlank(line, format)) continue;
+    if (line.indent <= threshold || (itemIndent !== null && line.itemIndent === itemIndent)) break;
+    block.push(line);
+  }
+  return block;
+}
+
+const getKeyPattern = (key: string, format: StructuredFormat) => {
+  const escaped = escapeRegExp(key);
+  return format === 'json'
+    ? new RegExp(`^${escapeRegExp(JSON.stringify(key))}\\s*:`)
+    : new RegExp(`^(?:${escaped}|"${escaped}"|'${escaped}')\\s*:(?:\\s|$)`);
+};
+
+const minBy = (lines: TextLine[], getValue: (line: TextLine) => number) =>
+  Math.min(...lines.map(getValue));
+
+/**
+ * Best-effort lookup of the 1-based line a key path is written on, so comments made on the
+ * structure can anchor to the text. Falls back to the deepest parent that was found; returns
+ * `undefined` when not even the first key can be located.
+ */
+export function findKeyPathLine(
+  text: string,
+  path: KeyPath,
+  format: StructuredFormat,
+): number | undefined {
+  const lines = toTextLines(text, format);
+  const firstLine = lines.find((line) => !isBlank(line, format));
+  if (!firstLine) return undefined;
+  if (path.length === 0) return firstLine.index + 1;
+
+  // JSON documents open with a bracket line that isn't part of any key's block
+  let scope = lines.filter(
+    (line) => !isBlank(line, format) && !(format === 'json' && line === firstLine),
+  );
+  let found: TextLine | undefined;
+
+  for (const segment of path) {
+    let match: TextLine | undefined;
+    let block: TextLine[] = [];
+
+    if (typeof segment === 'string') {
+      const pattern = getKeyPattern(segment, format);
+      const candidates = scope.filter((line) => pattern.test(line.text));
+      const indent = minBy(candidates, (line) => line.indent);
+      match = candidates.find((line) => line.indent === indent);
+      if (match) {
+        block = getBlock(lines, match.index + 1, match.indent, format, null);
+      }
+    } else if (format === 'yaml') {
+      const items = scope.filter((line) => line.itemIndent !== null);
+      const itemIndent = minBy(items, (line) => line.itemIndent ?? 0);
+      match = items.filter((line) => line.itemIndent === itemIndent)[segment];
+      if (match) {
+        // The item's first key sits on the marker line itself
+        block = [match, ...getBlock(lines, match.index + 1, itemIndent, format, itemIndent)];
+      }
+    } else {
+      const indent = minBy(scope, (line) => line.indent);
+      match = scope.filter((line) => line.indent === indent)[segment];
+      if (match) {
+        block = getBlock(lines, match.index + 1, match.indent, format, null);
+      }
+    }
+
+    if (!match) break;
+    found = match;
+    scope = block;
+  }
+
+  return found ? found.index + 1 : undefined;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import type { CommentThread } from '../../types/diff';
+
+import { getSuggestionApplyRequest } from './suggestionApply';
+
+const createThread = (overrides: Partial<CommentThread> = {}): CommentThread => ({
+  id: 'thread-1',
+  file: 'src/example.ts',
+  line: [3, 4],
+  side: 'new',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  codeContent: 'const a = 1;\nconst b = 2;',
+  messages: [
+    {
+      id: 'message-1',
+      body: 'Merge these:\n```suggestion\nconst [a, b] = [1, 2];\n```',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    },
+  ],
+  ...overrides,
+});
+
+describe('getSuggestionApplyRequest', () => {
+  it('builds a request from the thread position and snapshot', () => {
+    expect(getSuggestionApplyRequest(createThread())).toEqual({
+      threadId: 'thread-1',
+      filePath: 'src/example.ts',
+      side: 'new',
+      line: { start: 3, end: 4 },
+      codeSnapshot: 'const a = 1;\nconst b = 2;',
+      suggestedCode: 'const [a, b] = [1, 2];',
+    });
+  });
+
+  it('uses the latest suggestion in the thread', () => {
+    const thread = createThread();
+    const request = getSuggestionApplyRequest({
+      ...thread,
+      messages: [
+        ...thread.messages,
+        {
+          ...thread.messages[0]!,
+          id: 'message-2',
+          body: '```suggestion\nconst a = 1, b = 2;\n```',
+        },
+      ],
+    });
+
+    expect(request?.suggestedCode).toBe('const a = 1, b = 2;');
+  });
+
+  it('returns null when the thread cannot be applied', () => {
+    expect(getSuggestionApplyRequest(createThread({ side: 'old' }))).toBeNull();
+    expect(getSuggestionApplyRequest(createThread({ codeContent: undefined }))).toBeNull();
+    expect(
+      getSuggestionApplyRequest(
+        createThread({
+          messages: [{ ...createThread().messages[0]!, body: 'No suggestion here' }],
+        }),
+      ),
+    ).toBeNull();
+  });
+});
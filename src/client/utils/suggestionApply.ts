@@ -0,0 +1,52 @@
+import type {
+  CommentThread,
+  SuggestionApplyRequest,
+  SuggestionApplyResponse,
+} from '../../types/diff';
+import { parseSuggestionBlocks } from '../../utils/suggestionUtils';
+
+import { resolveApiUrl } from './apiUrl';
+
+/**
+ * Builds the request for the latest suggestion in a thread. Returns null when there is
+ * nothing to apply: no suggestion, an old-side comment, or no code snapshot to check
+ * the working tree against.
+ */
+export function getSuggestionApplyRequest(thread: CommentThread): SuggestionApplyRequest | null {
+  if ((thread.side ?? 'new') !== 'new' || thread.codeContent === undefined) {
+    return null;
+  }
+
+  const suggestion = thread.messages
+    .flatMap((message) => parseSuggestionBlocks(message.body))
+    .at(-1);
+  if (!suggestion) {
+    return null;
+  }
+
+  return {
+    threadId: thread.id,
+    filePath: thread.file,
+    side: 'new',
+    line: Array.isArray(thread.line) ? { start: thread.line[0], end: thread.line[1] } : thread.line,
+    codeSnapshot: thread.codeContent,
+    suggestedCode: suggestion.suggestedCode,
+  };
+}
+
+export async function applySuggestions(
+  suggestions: SuggestionApplyRequest[],
+): Promise<SuggestionApplyResponse> {
+  const response = await fetch(resolveApiUrl('/api/apply-suggestions'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ suggestions }),
+  });
+
+  if (!response.ok) {
+    const data = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(data?.error ?? `Failed to apply suggestions: ${response.statusText}`);
+  }
+
+  return response.json() as Promise<SuggestionApplyResponse>;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  computeTableDiff,
+  detectKeyColumn,
+  getTableDelimiter,
+  parseDelimitedText,
+  type TableDiff,
+} from './tableDiff';
+
+const parse = (lines: string[], delimiter = ',') => {
+  const table = parseDelimitedText(lines.join('\n'), delimiter);
+  if (!table) throw new Error('expected a table');
+  return table;
+};
+
+const summarize = (diff: TableDiff) =>
+  diff.rows.map((row) => [
+    row.status,
+    row.oldRecord?.lineNumber ?? null,
+    row.newRecord?.lineNumber ?? null,
+    row.changedColumns,
+  ]);
+
+describe('getTableDelimiter', () => {
+  it('maps CSV and TSV files to their delimiter', () => {
+    expect(getTableDelimiter('fixtures/users.csv')).toBe(',');
+    expect(getTableDelimiter('data/export.TSV')).toBe('\t');
+    expect(getTableDelimiter('README.md')).toBeNull();
+  });
+});
+
+describe('parseDelimitedText', () => {
+  it('handles quoted cells, escaped quotes and multi-line records', () => {
+    const table = parseDelimitedText('id,note\r\n1,"say ""hi"""\r\n2,"two\nlines"\r\n3,\r\n', ',');
+
+    expect(table).toEqual({
+      header: ['id', 'note'],
+      records: [
+        { cells: ['1', 'say "hi"'], lineNumber: 2 },
+        { cells: ['2', 'two\nlines'], lineNumber: 3 },
+        { cells: ['3', ''], lineNumber: 5 },
+      ],
+    });
+  });
+
+  it('rejects malformed tables', () => {
+    expect(parseDelimitedText('id,name\n1,"open', ',')).toBeNull();
+    expect(parseDelimitedText('id,name\n1,a"b', ',')).toBeNull();
+    expect(parseDelimitedText('id,name\n1,a,extra', ',')).toBeNull();
+    expect(parseDelimitedText('id,id\n1,2', ',')).toBeNull();
+    expect(parseDelimitedText('', ',')).toBeNull();
+  });
+
+  it('splits TSV on tabs only', () => {
+    expect(parseDelimitedText('id\tlabel\n1\ta, b\n', '\t')?.records).toEqual([
+      { cells: ['1', 'a, b'], lineNumber: 2 },
+    ]);
+  });
+});
+
+describe('detectKeyColumn', () => {
+  it('prefers an id-like column with unique values', () => {
+    const oldTable = parse(['group,sku,price', 'a,X1,1', 'a,X2,2']);
+    const newTable = parse(['group,sku,price', 'a,X2,3', 'b,X1,1']);
+
+    expect(detectKeyColumn(oldTable, newTable)).toBe('sku');
+    expect(detectKeyColumn(parse(['name,qty', 'a,1', 'b,1']), parse(['name,qty', 'a,1']))).toBe(
+      'name',
+    );
+    expect(detectKeyColumn(parse(['qty', '1', '1']), parse(['qty', '1']))).toBeNull();
+  });
+});
+
+describe('computeTableDiff', () => {
+  it('aligns rows by key and reports changed cells, rows and columns', () => {
+    const oldTable = parse(['id,name,role', '1,Ann,admin', '2,Bob,user', '3,Cy,user']);
+    const newTable = parse([
+      'id,name,email',
+      '3,Cy,cy@example.com',
+      '1,Anne,a@example.com',
+      '4,Di,',
+    ]);
+
+    const diff = computeTableDiff(oldTable, newTable, 'id');
+
+    expect(diff.columns).toEqual([
+      { name: 'id', status: 'unchanged' },
+      { name: 'name', status: 'unchanged' },
+      { name: 'email', status: 'added' },
+      { name: 'role', status: 'removed' },
+    ]);
+    expect(summarize(diff)).toEqual([
+      // Removed rows stay where they were in the old table
+      ['removed', 3, null, []],
+      ['unchanged', 4, 2, []],
+      ['changed', 2, 3, ['name']],
+      ['added', null, 4, []],
+    ]);
+  });
+
+  it('aligns rows by order and pairs replaced rows as changes', () => {
+    const oldTable = parse(['name,qty', 'apple,1', 'pear,2', 'plum,3']);
+    const newTable = parse(['name,qty', 'apple,1', 'pear,5', 'fig,1', 'plum,3']);
+
+    expect(summarize(computeTableDiff(oldTable, newTable, null))).toEqual([
+      ['unchanged', 2, 2, []],
+      ['changed', 3, 3, ['qty']],
+      ['added', null, 4, []],
+      ['unchanged', 4, 5, []],
+    ]);
+  });
+});
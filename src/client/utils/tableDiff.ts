@@ -0,0 +1,308 @@
+import { diffArrays } from 'diff';
+
+import { getFileExtension } from '../../utils/fileUtils';
+
+export type TableRecord = {
+  cells: string[];
+  // 1-based line the record starts on; quoted cells can continue it over several lines
+  lineNumber: number;
+};
+
+export type ParsedTable = {
+  header: string[];
+  records: TableRecord[];
+};
+
+type TableDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export type TableDiffColumn = {
+  name: string;
+  status: Exclude<TableDiffStatus, 'changed'>;
+};
+
+export type TableDiffRow = {
+  status: TableDiffStatus;
+  oldRecord?: TableRecord;
+  newRecord?: TableRecord;
+  // Columns present on both sides whose value differs
+  changedColumns: string[];
+};
+
+export type TableDiff = {
+  columns: TableDiffColumn[];
+  rows: TableDiffRow[];
+};
+
+const TABLE_DELIMITERS = new Map<string, string>([
+  ['csv', ','],
+  ['tsv', '\t'],
+]);
+
+// Column names preferred as the row key when their values are unique on both sides
+const KEY_COLUMN_PATTERN = /^(id|key|uuid|code|slug|name)$/i;
+
+export function getTableDelimiter(filename: string): string | null {
+  const extension = getFileExtension(filename);
+  return (extension && TABLE_DELIMITERS.get(extension)) || null;
+}
+
+/**
+ * Parses CSV/TSV text with RFC 4180 quoting. Returns `null` for malformed input: an
+ * unterminated or stray quote, a duplicate or empty header, or a record whose cell count
+ * differs from the header's.
+ */
+export function parseDelimitedText(text: string, delimiter: string): ParsedTable | null {
+  const records: TableRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let isQuotedCell = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    // Blank lines (a trailing newline included) hold no record
+    if (cells.length > 1 || cells[0] !== '' || isQuotedCell) {
+      records.push({ cells, lineNumber: recordLine });
+    }
+    cells = [];
+    cell = '';
+    isQuotedCell = false;
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+        const next = text[index + 1];
+        if (next !== undefined && next !== delimiter && next !== '\n' && next !== '\r') {
+          return null;
+        }
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (cell !== '') return null;
+      inQuotes = true;
+      isQuotedCell = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+      isQuotedCell = false;
+    } else if (char === '\n') {
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) return null;
+  if (cell !== '' || cells.length > 0 || isQuotedCell) {
+    endRecord();
+  }
+
+  const [headerRecord, ...bodyRecords] = records;
+  if (!headerRecord) return null;
+  const header = headerRecord.cells;
+  if (header.some((name) => name === '') || new Set(header).size !== header.length) {
+    return null;
+  }
+  if (bodyRecords.some((record) => record.cells.length !== header.length)) {
+    return null;
+  }
+
+  return { header, records: bodyRecords };
+}
+
+export const getTableCell = (table: ParsedTable, record: TableRecord, column: string) => {
+  const index = table.header.indexOf(column);
+  return index === -1 ? undefined : record.cells[index];
+};
+
+const hasUniqueValues = (table: ParsedTable, column: string) => {
+  const values = table.records.map((record) => getTableCell(table, record, column));
+  return (
+    values.every((value) => value !== undefined && value !== '') &&
+    new Set(values).size === values.length
+  );
+};
+
+/** Columns on both sides whose values identify a row, usable to align rows by key. */
+export function getKeyColumnCandidates(oldTable: ParsedTable, newTable: ParsedTable): string[] {
+  return newTable.header.filter(
+    (column) =>
+      oldTable.header.includes(column) &&
+      hasUniqueValues(oldTable, column) &&
+      hasUniqueValues(newTable, column),
+  );
+}
+
+/**
+ * Picks the column to align rows by: a unique column with an id-like name, else the first
+ * unique column. Returns `null` when no column is unique, and rows are aligned by order.
+ */
+export function detectKeyColumn(oldTable: ParsedTable, newTable: ParsedTable): string | null {
+  const candidates = getKeyColumnCandidates(oldTable, newTable);
+  return candidates.find((column) => KEY_COLUMN_PATTERN.test(column)) ?? candidates[0] ?? null;
+}
+
+function compareRecords(
+  oldTable: ParsedTable,
+  newTable: ParsedTable,
+  oldRecord: TableRecord,
+  newRecord: TableRecord,
+  sharedColumns: string[],
+): TableDiffRow {
+  const changedColumns = sharedColumns.filter(
+    (column) =>
+      getTableCell(oldTable, oldRecord, column) !== getTableCell(newTable, newRecord, column),
+  );
+  return {
+    status: changedColumns.length > 0 ? 'changed' : 'unchanged',
+    oldRecord,
+    newRecord,
+    changedColumns,
+  };
+}
+
+function alignByKey(
+  oldTable: ParsedTable,
+  newTable: ParsedTable,
+  keyColumn: string,
+  sharedColumns: string[],
+): TableDiffRow[] {
+  const oldByKey = new Map(
+    oldTable.records.map((record, index) => [getTableCell(oldTable, record, keyColumn), index]),
+  );
+  const matchedOld = new Set<number>();
+  newTable.records.forEach((record) => {
+    const oldIndex = oldByKey.get(getTableCell(newTable, record, keyColumn));
+    if (oldIndex !== undefined) matchedOld.add(oldIndex);
+  });
+
+  const rows: TableDiffRow[] = [];
+  let nextOld = 0;
+  // Removed rows are shown where they were, before the next row that is still there
+  const flushRemoved = (untilIndex: number) => {
+    for (; nextOld < untilIndex; nextOld++) {
+      const oldRecord = oldTable.records[nextOld];
+      if (oldRecord && !matchedOld.has(nextOld)) {
+        rows.push({ status: 'removed', oldRecord, changedColumns: [] });
+      }
+    }
+  };
+
+  for (const newRecord of newTable.records) {
+    const oldIndex = oldByKey.get(getTableCell(newTable, newRecord, keyColumn));
+    const oldRecord = oldIndex === undefined ? undefined : oldTable.records[oldIndex];
+    if (oldIndex === undefined || !oldRecord) {
+      rows.push({ status: 'added', newRecord, changedColumns: [] });
+      continue;
+    }
+    flushRemoved(oldIndex);
+    nextOld = Math.max(nextOld, oldIndex + 1);
+    rows.push(compareRecords(oldTable, newTable, oldRecord, newRecord, sharedColumns));
+  }
+  flushRemoved(oldTable.records.length);
+
+  return rows;
+}
+
+function alignByOrder(
+  oldTable: ParsedTable,
+  newTable: ParsedTable,
+  sharedColumns: string[],
+): TableDiffRow[] {
+  const toSignature = (table: ParsedTable) => (record: TableRecord) =>
+    JSON.stringify(sharedColumns.map((column) => getTableCell(table, record, column)));
+  const changes = diffArrays(
+    oldTable.records.map(toSignature(oldTable)),
+    newTable.records.map(toSignature(newTable)),
+  );
+
+  const rows: TableDiffRow[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  let pendingRemoved: TableRecord[] = [];
+
+  const flushRemoved = () => {
+    pendingRemoved.forEach((oldRecord) =>
+      rows.push({ status: 'removed', oldRecord, changedColumns: [] }),
+    );
+    pendingRemoved = [];
+  };
+
+  for (const change of changes) {
+    if (change.removed) {
+      pendingRemoved.push(...oldTable.records.slice(oldIndex, oldIndex + change.count));
+      oldIndex += change.count;
+      continue;
+    }
+    const newRecords = newTable.records.slice(newIndex, newIndex + change.count);
+    newIndex += change.count;
+    if (change.added) {
+      // A row replaced in place is shown as one changed row
+      for (const newRecord of newRecords) {
+        const oldRecord = pendingRemoved.shift();
+        rows.push(
+          oldRecord
+            ? compareRecords(oldTable, newTable, oldRecord, newRecord, sharedColumns)
+            : { status: 'added', newRecord, changedColumns: [] },
+        );
+      }
+      flushRemoved();
+      continue;
+    }
+    flushRemoved();
+    newRecords.forEach((newRecord, offset) => {
+      const oldRecord = oldTable.records[oldIndex + offset];
+      if (oldRecord) {
+        rows.push(compareRecords(oldTable, newTable, oldRecord, newRecord, sharedColumns));
+      }
+    });
+    oldIndex += change.count;
+  }
+  flushRemoved();
+
+  return rows;
+}
+
+/**
+ * Aligns the rows of two tables, by the values of `keyColumn` or by order when it is `null`,
+ * and lists the columns added or removed. Columns are matched by header name.
+ */
+export function computeTableDiff(
+  oldTable: ParsedTable,
+  newTable: ParsedTable,
+  keyColumn: string | null,
+): TableDiff {
+  const sharedColumns = newTable.header.filter((column) => oldTable.header.includes(column));
+  const columns: TableDiffColumn[] = [
+    ...newTable.header.map((name) => ({
+      name,
+      status: oldTable.header.includes(name) ? ('unchanged' as const) : ('added' as const),
+    })),
+    ...oldTable.header
+      .filter((name) => !newTable.header.includes(name))
+      .map((name) => ({ name, status: 'removed' as const })),
+  ];
+
+  const rows =
+    keyColumn && sharedColumns.includes(keyColumn)
+      ? alignByKey(oldTable, newTable, keyColumn, sharedColumns)
+      : alignByOrder(oldTable, newTable, sharedColumns);
+
+  return { columns, rows };
+}
@@ -0,0 +1,103 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { DiffFile } from '../../types/diff';
+import { WordHighlightProvider } from '../contexts/WordHighlightContext';
+
+import { DependencyDiffViewer } from './DependencyDiffViewer';
+import type { DiffViewerBodyProps } from './types';
+
+const toPnpmLock = (packages: string[]) =>
+  ["lockfileVersion: '9.0'", 'packages:', ...packages.map((key) => `  ${key}: {}`), ''].join('\n');
+
+const oldLock = toPnpmLock(['react@17.0.2', 'lodash@4.17.21', 'left-pad@1.3.0']);
+const newLock = toPnpmLock(['react@18.2.0', 'lodash@4.17.20', 'zod@3.22.4']);
+
+const createFile = (overrides: Partial<DiffFile> = {}): DiffFile => ({
+  path: 'pnpm-lock.yaml',
+  status: 'modified',
+  additions: 2,
+  deletions: 2,
+  chunks: [],
+  ...overrides,
+});
+
+const createProps = (overrides: Partial<DiffViewerBodyProps> = {}): DiffViewerBodyProps => ({
+  file: createFile(),
+  threads: [],
+  diffMode: 'unified',
+  mergedChunks: [],
+  isExpandLoading: false,
+  expandHiddenLines: vi.fn().mockResolvedValue(undefined),
+  expandAllBetweenChunks: vi.fn().mockResolvedValue(undefined),
+  onAddComment: vi.fn().mockResolvedValue(undefined),
+  onGenerateThreadPrompt: vi.fn(),
+  onRemoveThread: vi.fn(),
+  onReplyToThread: vi.fn().mockResolvedValue(undefined),
+  onRemoveMessage: vi.fn(),
+  onUpdateMessage: vi.fn(),
+  baseCommitish: 'HEAD~1',
+  targetCommitish: 'HEAD',
+  ...overrides,
+});
+
+const renderViewer = (overrides: Partial<DiffViewerBodyProps> = {}) =>
+  render(
+    <WordHighlightProvider>
+      <DependencyDiffViewer {...createProps(overrides)} />
+    </WordHighlightProvider>,
+  );
+
+const mockBlobs = (blobs: Record<string, string>) => {
+  (global.fetch as any).mockImplementation((url: string) => {
+    const ref = new URL(url, 'http://localhost').searchParams.get('ref') ?? '';
+    const text = blobs[ref];
+    return Promise.resolve({ ok: text !== undefined, text: async () => text ?? '' });
+  });
+};
+
+describe('DependencyDiffViewer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('summarises lockfile changes without opening the text diff', async () => {
+    mockBlobs({ 'HEAD~1': oldLock, HEAD: newLock });
+
+    renderViewer();
+
+    const react = (await screen.findByText('react')).closest('tr');
+    expect(react).toHaveTextContent('upgraded');
+    expect(react).toHaveTextContent('major');
+    expect(react).toHaveTextContent('17.0.2 → 18.2.0');
+    expect(screen.getByText('lodash').closest('tr')).toHaveTextContent('downgraded');
+    expect(screen.getByText('left-pad').closest('tr')).toHaveTextContent('removed');
+    expect(screen.getByText('zod').closest('tr')).toHaveTextContent('added');
+    expect(screen.getByText('1 major')).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith('/api/blob/pnpm-lock.yaml?ref=HEAD~1');
+  });
+
+  it('opens package.json on the text diff and loads the summary on demand', async () => {
+    const toManifest = (react: string) => JSON.stringify({ dependencies: { react } });
+    mockBlobs({ 'HEAD~1': toManifest('^17.0.0'), HEAD: toManifest('^17.0.2') });
+
+    renderViewer({ file: createFile({ path: 'package.json' }) });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Dependencies' }));
+
+    expect((await screen.findByText('react')).closest('tr')).toHaveTextContent('^17.0.0 → ^17.0.2');
+    expect(screen.queryByText('major')).not.toBeInTheDocument();
+  });
+
+  it('falls back to the text diff when a version cannot be read', async () => {
+    mockBlobs({ 'HEAD~1': oldLock, HEAD: 'packages: [' });
+
+    renderViewer();
+
+    expect(
+      await screen.findByText(/The new version could not be read as pnpm-lock\.yaml\./),
+    ).toBeInTheDocument();
+  });
+});
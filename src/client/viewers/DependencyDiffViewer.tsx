@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+
+import { fetchBlobText, isFetchableRef } from '../utils/blobContent';
+import {
+  computeDependencyChanges,
+  getDependencyFileKind,
+  parseDependencies,
+  type DependencyChange,
+  type DependencyVersions,
+} from '../utils/dependencyDiff';
+
+import { PreviewModeTabs, type PreviewMode } from './PreviewModeTabs';
+import { TextDiffViewer } from './TextDiffViewer';
+import type { DiffViewerBodyProps } from './types';
+
+type DependencyState =
+  | { status: 'idle' | 'loading' }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; changes: DependencyChange[] };
+
+const statusClasses: Record<DependencyChange['status'], string> = {
+  added: 'text-github-accent border-diff-addition-border',
+  removed: 'text-github-danger border-diff-deletion-border',
+  upgraded: 'text-github-text-primary border-github-border',
+  downgraded: 'text-github-warning border-github-warning',
+  changed: 'text-github-text-secondary border-github-border',
+};
+
+const STATUS_ORDER: DependencyChange['status'][] = [
+  'added',
+  'removed',
+  'upgraded',
+  'downgraded',
+  'changed',
+];
+
+const formatVersionDelta = ({ oldVersion, newVersion }: DependencyChange) =>
+  [oldVersion, newVersion].filter((version) => version !== undefined).join(' → ');
+
+export function DependencyDiffViewer(props: DiffViewerBodyProps) {
+  const { file, baseCommitish, targetCommitish } = props;
+  const kind = getDependencyFileKind(file.path) ?? 'package-json';
+  // Lockfiles are unreadable as text, while a manifest has other fields worth reading
+  const [mode, setMode] = useState<PreviewMode>(kind === 'package-json' ? 'diff' : 'diff-preview');
+  const [state, setState] = useState<DependencyState>({ status: 'idle' });
+  const isSummaryShown = mode === 'diff-preview';
+
+  // Blobs are only fetched once the summary is asked for
+  useEffect(() => {
+    if (!isSummaryShown) return;
+
+    let cancelled = false;
+    const baseRef = baseCommitish || 'HEAD~1';
+    const targetRef = targetCommitish || 'HEAD';
+    const hasOld = file.status !== 'added';
+    const hasNew = file.status !== 'deleted';
+
+    if ((hasOld && !isFetchableRef(baseRef)) || (hasNew && !isFetchableRef(targetRef))) {
+      setState({
+        status: 'error',
+        message: 'The summary needs both versions of the file, which this diff does not have.',
+      });
+      return;
+    }
+
+    const loadSummary = async () => {
+      setState({ status: 'loading' });
+      try {
+        const [oldText, newText] = await Promise.all([
+          hasOld ? fetchBlobText(file.oldPath || file.path, baseRef) : Promise.resolve(''),
+          hasNew ? fetchBlobText(file.path, targetRef) : Promise.resolve(''),
+        ]);
+        const empty: DependencyVersions = new Map();
+        const oldVersions = hasOld ? parseDependencies(oldText, kind) : empty;
+        const newVersions = hasNew ? parseDependencies(newText, kind) : empty;
+        if (cancelled) return;
+
+        if (!oldVersions || !newVersions) {
+          setState({
+            status: 'error',
+            message: `The ${oldVersions ? 'new' : 'old'} version could not be read as ${file.path.split('/').pop()}.`,
+          });
+          return;
+        }
+
+        setState({ status: 'ready', changes: computeDependencyChanges(oldVersions, newVersions) });
+      } catch (error) {
+        if (!cancelled) {
+          setState({
+            status: 'error',
+            message: error instanceof Error ? error.message : 'Failed to load the dependencies.',
+          });
+        }
+      }
+    };
+
+    void loadSummary();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSummaryShown, file, kind, baseCommitish, targetCommitish]);
+
+  const renderSummary = (changes: DependencyChange[]) => {
+    if (changes.length === 0) {
+      return (
+        <div className="px-4 text-xs text-github-text-muted">No dependency versions changed.</div>
+      );
+    }
+
+    const counts = STATUS_ORDER.map((status) => ({
+      status,
+      count: changes.filter((change) => change.status === status).length,
+    })).filter(({ count }) => count > 0);
+    const majorCount = changes.filter((change) => change.isMajor).length;
+
+    return (
+      <>
+        <div className="flex flex-wrap gap-3 px-4 pb-2 text-xs text-github-text-secondary">
+          {counts.map(({ status, count }) => (
+            <span key={status}>
+              {count} {status}
+            </span>
+          ))}
+          {majorCount > 0 && <span className="text-github-danger">{majorCount} major</span>}
+        </div>
+        <table className="w-full border-collapse font-mono text-xs">
+          <thead>
+            <tr className="border-b border-github-border text-left text-github-text-secondary">
+              <th className="px-4 py-1 font-semibold">Package</th>
+              <th className="px-2 py-1 font-semibold">Change</th>
+              <th className="px-2 py-1 font-semibold">Version</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map((change) => (
+              <tr
+                key={`${change.name}@${change.oldVersion ?? ''}:${change.newVersion ?? ''}`}
+                className="border-b border-github-border/50"
+              >
+                <td className="px-4 py-1 text-github-text-primary break-all">{change.name}</td>
+                <td className="px-2 py-1 whitespace-nowrap">
+                  <span
+                    className={`px-1 rounded border text-[10px] uppercase ${statusClasses[change.status]}`}
+                  >
+                    {change.status}
+                  </span>
+                  {change.isMajor && (
+                    <span className="ml-1 px-1 rounded border text-[10px] uppercase text-github-danger border-diff-deletion-border">
+                      major
+                    </span>
+                  )}
+                </td>
+                <td className="px-2 py-1 text-github-text-secondary break-all">
+                  {formatVersionDelta(change)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </>
+    );
+  };
+
+  return (
+    <div className="bg-github-bg-primary">
+      <div className="flex items-center justify-between border-b border-github-border px-4 py-2">
+        <PreviewModeTabs
+          mode={mode}
+          hasFullPreview={false}
+          onModeChange={setMode}
+          diffPreviewLabel="Dependencies"
+        />
+      </div>
+
+      {mode === 'diff' && <TextDiffViewer {...props} />}
+
+      {isSummaryShown && (
+        <div className="py-2">
+          {state.status === 'loading' && (
+            <div className="px-4 text-xs text-github-text-muted">Loading dependencies…</div>
+          )}
+          {state.status === 'error' && (
+            <>
+              <div className="px-4 mb-3 text-xs text-github-text-muted">
+                {state.message} Showing the text diff instead.
+              </div>
+              <TextDiffViewer {...props} />
+            </>
+          )}
+          {state.status === 'ready' && renderSummary(state.changes)}
+        </div>
+      )}
+    </div>
+  );
+}
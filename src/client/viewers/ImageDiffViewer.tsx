@@ -1,6 +1,7 @@
 import { useState } from 'react';
 
 import { DEFAULT_DIFF_VIEW_MODE } from '../../utils/diffMode';
+import { resolveApiUrl } from '../utils/apiUrl';
 
 import type { DiffViewerBodyProps } from './types';
 
@@ -18,7 +19,7 @@ const blobKey = (ref: string, path: string): string => `${ref.slice(0, 7)}:${pat
 
 const imageBlobUrl = (path: string, ref: string): string => {
   const staticBlobUrls = (window as Window & StaticBlobWindow).__DIFIT_STATIC_BLOB_URLS__;
-  return staticBlobUrls?.[blobKey(ref, path)] ?? `/api/blob/${path}?ref=${ref}`;
+  return staticBlobUrls?.[blobKey(ref, path)] ?? resolveApiUrl(`/api/blob/${path}?ref=${ref}`);
 };
 
 export function ImageDiffViewer({
@@ -30,7 +31,8 @@ export function ImageDiffViewer({
   const mode = diffMode ?? DEFAULT_DIFF_VIEW_MODE;
   const isDeleted = file.status === 'deleted';
   const isAdded = file.status === 'added';
-  const isModified = file.status === 'modified' || file.status === 'renamed';
+  const isModified =
+    file.status === 'modified' || file.status === 'renamed' || file.status === 'copied';
 
   // Determine the actual refs to use
   const baseRef = baseCommitish || 'HEAD~1';
@@ -0,0 +1,95 @@
+import type { CommentThread, DiffSide } from '../../types/diff';
+import { CommentForm } from '../components/CommentForm';
+import { CommentThreadCard } from '../components/CommentThreadCard';
+
+import type { DiffViewerBodyProps } from './types';
+
+// The text line that a comment made on a rendered view (a key, a table cell) belongs to
+export type LineAnchor = {
+  side: DiffSide;
+  lineNumber: number;
+  content: string;
+};
+
+export const getLineAnchorKey = (anchor: LineAnchor) => `${anchor.side}:${anchor.lineNumber}`;
+
+export const getThreadsForAnchor = (threads: CommentThread[], anchor: LineAnchor) =>
+  threads
+    .filter((thread) => {
+      const lineMatches = Array.isArray(thread.line)
+        ? thread.line[1] === anchor.lineNumber
+        : thread.line === anchor.lineNumber;
+      return lineMatches && (thread.side ?? 'new') === anchor.side;
+    })
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+type LineAnchorCommentsProps = Pick<
+  DiffViewerBodyProps,
+  | 'showAuthorBadges'
+  | 'syntaxTheme'
+  | 'onAddComment'
+  | 'onGenerateThreadPrompt'
+  | 'onRemoveThread'
+  | 'onReplyToThread'
+  | 'onRemoveMessage'
+  | 'onUpdateMessage'
+  | 'onApplySuggestion'
+> & {
+  anchor: LineAnchor;
+  // Threads already narrowed to the anchor's line
+  threads: CommentThread[];
+  filename: string;
+  isCommenting: boolean;
+  onCloseForm: () => void;
+};
+
+export function LineAnchorComments({
+  anchor,
+  threads,
+  filename,
+  isCommenting,
+  onCloseForm,
+  showAuthorBadges,
+  syntaxTheme,
+  onAddComment,
+  onGenerateThreadPrompt,
+  onRemoveThread,
+  onReplyToThread,
+  onRemoveMessage,
+  onUpdateMessage,
+  onApplySuggestion,
+}: LineAnchorCommentsProps) {
+  return (
+    <>
+      {threads.map((thread) => (
+        <div key={thread.id} className="px-4 py-2 font-sans">
+          <CommentThreadCard
+            thread={thread}
+            showAuthorBadges={showAuthorBadges}
+            onGeneratePrompt={onGenerateThreadPrompt}
+            onRemoveThread={onRemoveThread}
+            onReplyToThread={onReplyToThread}
+            onRemoveMessage={onRemoveMessage}
+            onUpdateMessage={onUpdateMessage}
+            onApplySuggestion={onApplySuggestion}
+            syntaxTheme={syntaxTheme}
+          />
+        </div>
+      ))}
+      {isCommenting && (
+        <div className="px-4 py-2 font-sans">
+          <CommentForm
+            onSubmit={async (body) => {
+              await onAddComment(anchor.lineNumber, body, anchor.content, anchor.side);
+              onCloseForm();
+            }}
+            onCancel={onCloseForm}
+            selectedCode={anchor.content}
+            syntaxTheme={syntaxTheme}
+            filename={filename}
+          />
+        </div>
+      )}
+    </>
+  );
+}
@@ -3,10 +3,12 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
 import type { DiffFile, DiffLine } from '../../types/diff';
+import { isStdinRef } from '../../utils/diffSelection';
 import { FrontmatterTable } from '../components/FrontmatterTable';
 import { MermaidDiagram } from '../components/MermaidDiagram';
 import { PrismSyntaxHighlighter } from '../components/PrismSyntaxHighlighter';
 import type { MergedChunk } from '../hooks/useExpandedLines';
+import { resolveApiUrl } from '../utils/apiUrl';
 import { extractFrontmatter, getFrontmatterLines } from '../utils/frontmatter';
 import { computeFrontmatterDiff } from '../utils/frontmatterDiff';
 import { extractMarkdownText, isElementWithCodeProps, isSafeUrl } from '../utils/markdownUtils';
@@ -46,7 +48,7 @@ type FenceInfo = {
   raw: string;
 };
 
-const isFetchableRef = (ref?: string) => Boolean(ref && ref !== 'stdin');
+const isFetchableRef = (ref?: string) => Boolean(ref && !isStdinRef(ref));
 
 type PreviewSource = { path: string; ref: string } | null;
 
@@ -716,7 +718,7 @@ export function MarkdownDiffViewer(props: DiffViewerBodyProps) {
       if (!source) return null;
       const encodedPath = encodeURIComponent(source.path);
       const response = await fetch(
-        `/api/blob/${encodedPath}?ref=${encodeURIComponent(source.ref)}`,
+        resolveApiUrl(`/api/blob/${encodedPath}?ref=${encodeURIComponent(source.ref)}`),
       );
       if (!response.ok) {
         throw new Error(`Failed to fetch preview: ${response.statusText}`);
@@ -4,9 +4,11 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
 import type { DiffLine } from '../../types/diff';
+import { isStdinRef } from '../../utils/diffSelection';
 import { EnhancedPrismSyntaxHighlighter } from '../components/EnhancedPrismSyntaxHighlighter';
 import { PrismSyntaxHighlighter } from '../components/PrismSyntaxHighlighter';
 import type { MergedChunk } from '../hooks/useExpandedLines';
+import { resolveApiUrl } from '../utils/apiUrl';
 import { extractMarkdownText, isElementWithCodeProps, isSafeUrl } from '../utils/markdownUtils';
 
 import { PreviewModeTabs, type PreviewMode } from './PreviewModeTabs';
@@ -479,11 +481,13 @@ const buildSourceLines = (text: string, type: PreviewLineType): NotebookSourceLi
   return [{ type, content: text }];
 };
 
-const isFetchableRef = (ref?: string) => Boolean(ref && ref !== 'stdin');
+const isFetchableRef = (ref?: string) => Boolean(ref && !isStdinRef(ref));
 
 const fetchNotebookContent = async (filePath: string, ref: string): Promise<string | null> => {
   const encodedPath = encodeURIComponent(filePath);
-  const response = await fetch(`/api/blob/${encodedPath}?ref=${encodeURIComponent(ref)}`);
+  const response = await fetch(
+    resolveApiUrl(`/api/blob/${encodedPath}?ref=${encodeURIComponent(ref)}`),
+  );
   if (!response.ok) return null;
   return response.text();
 };
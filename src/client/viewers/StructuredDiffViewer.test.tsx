@@ -0,0 +1,105 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { DiffFile } from '../../types/diff';
+import { WordHighlightProvider } from '../contexts/WordHighlightContext';
+
+import { StructuredDiffViewer } from './StructuredDiffViewer';
+import type { DiffViewerBodyProps } from './types';
+
+const oldConfig = ['server:', '  port: 80', '  host: localhost', 'debug: false', ''].join('\n');
+const newConfig = ['debug: false', 'server:', '  host: localhost', '  port: 8080', ''].join('\n');
+
+const createFile = (overrides: Partial<DiffFile> = {}): DiffFile => ({
+  path: 'config/app.yaml',
+  status: 'modified',
+  additions: 2,
+  deletions: 2,
+  chunks: [],
+  ...overrides,
+});
+
+const createProps = (overrides: Partial<DiffViewerBodyProps> = {}): DiffViewerBodyProps => ({
+  file: createFile(),
+  threads: [],
+  diffMode: 'unified',
+  mergedChunks: [],
+  isExpandLoading: false,
+  expandHiddenLines: vi.fn().mockResolvedValue(undefined),
+  expandAllBetweenChunks: vi.fn().mockResolvedValue(undefined),
+  onAddComment: vi.fn().mockResolvedValue(undefined),
+  onGenerateThreadPrompt: vi.fn(),
+  onRemoveThread: vi.fn(),
+  onReplyToThread: vi.fn().mockResolvedValue(undefined),
+  onRemoveMessage: vi.fn(),
+  onUpdateMessage: vi.fn(),
+  baseCommitish: 'HEAD~1',
+  targetCommitish: 'HEAD',
+  ...overrides,
+});
+
+const renderViewer = (overrides: Partial<DiffViewerBodyProps> = {}) =>
+  render(
+    <WordHighlightProvider>
+      <StructuredDiffViewer {...createProps(overrides)} />
+    </WordHighlightProvider>,
+  );
+
+const mockBlobs = (blobs: Record<string, string>) => {
+  (global.fetch as any).mockImplementation((url: string) => {
+    const ref = new URL(url, 'http://localhost').searchParams.get('ref') ?? '';
+    const text = blobs[ref];
+    return Promise.resolve({ ok: text !== undefined, text: async () => text ?? '' });
+  });
+};
+
+describe('StructuredDiffViewer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads both versions only when the structure tab is opened', async () => {
+    mockBlobs({ 'HEAD~1': oldConfig, HEAD: newConfig });
+
+    renderViewer();
+
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Structure' }));
+
+    expect(await screen.findByText('port')).toBeInTheDocument();
+    expect(screen.getByText('server')).toBeInTheDocument();
+    expect(screen.getByText('80')).toBeInTheDocument();
+    expect(screen.getByText('8080')).toBeInTheDocument();
+    // Reordered keys are not changes
+    expect(screen.queryByText('debug')).not.toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith('/api/blob/config%2Fapp.yaml?ref=HEAD~1');
+    expect(global.fetch).toHaveBeenCalledWith('/api/blob/config%2Fapp.yaml?ref=HEAD');
+  });
+
+  it('anchors comments to the line of the changed key', async () => {
+    mockBlobs({ 'HEAD~1': oldConfig, HEAD: newConfig });
+    const onAddComment = vi.fn().mockResolvedValue(undefined);
+
+    renderViewer({ onAddComment });
+    fireEvent.click(screen.getByRole('button', { name: 'Structure' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Comment on server.port' }));
+    fireEvent.change(screen.getByPlaceholderText('Leave a comment...'), {
+      target: { value: 'Why 8080?' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+    await waitFor(() => {
+      expect(onAddComment).toHaveBeenCalledWith(4, 'Why 8080?', '  port: 8080', 'new');
+    });
+  });
+
+  it('falls back to the text diff when a version does not parse', async () => {
+    mockBlobs({ 'HEAD~1': '{"a": 1}', HEAD: '{"a": 1,}' });
+
+    renderViewer({ file: createFile({ path: 'data.json' }) });
+    fireEvent.click(screen.getByRole('button', { name: 'Structure' }));
+
+    expect(await screen.findByText(/The new version is not valid JSON\./)).toBeInTheDocument();
+  });
+});
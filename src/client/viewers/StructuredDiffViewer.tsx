@@ -0,0 +1,264 @@
+import { MessageSquare } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+
+import type { DiffSide } from '../../types/diff';
+import { fetchBlobText, isFetchableRef } from '../utils/blobContent';
+import {
+  computeStructuredDiff,
+  findKeyPathLine,
+  formatKeyPath,
+  getStructuredFormat,
+  parseStructuredText,
+  toStructuredDiffRows,
+  type StructuredDiffEntry,
+  type StructuredDiffRow,
+  type StructuredFormat,
+} from '../utils/structuredDiff';
+
+import {
+  getLineAnchorKey,
+  getThreadsForAnchor,
+  LineAnchorComments,
+  type LineAnchor,
+} from './LineAnchorComments';
+import { PreviewModeTabs, type PreviewMode } from './PreviewModeTabs';
+import { TextDiffViewer } from './TextDiffViewer';
+import type { DiffViewerBodyProps } from './types';
+
+type StructuredState = {
+  status: 'idle' | 'loading' | 'ready' | 'error';
+  entries: StructuredDiffEntry[];
+  oldText: string;
+  newText: string;
+  message?: string;
+};
+
+const IDLE_STATE: StructuredState = { status: 'idle', entries: [], oldText: '', newText: '' };
+
+const formatLabels: Record<StructuredFormat, string> = {
+  json: 'JSON',
+  yaml: 'YAML',
+};
+
+const statusClasses: Record<StructuredDiffEntry['status'], string> = {
+  added: 'text-github-accent border-diff-addition-border',
+  removed: 'text-github-danger border-diff-deletion-border',
+  changed: 'text-github-warning border-github-warning',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return 'undefined';
+  if (value instanceof Date) return value.toISOString();
+  return JSON.stringify(value, null, 2);
+};
+
+const getRowKey = (row: StructuredDiffRow) =>
+  `${row.kind}:${formatKeyPath(row.kind === 'group' ? row.path : row.entry.path)}`;
+
+const ValueBlock = ({ value, tone }: { value: unknown; tone: 'before' | 'after' }) => (
+  <pre
+    className={`m-0 px-2 py-0.5 rounded whitespace-pre-wrap break-all font-mono text-xs ${
+      tone === 'before' ? 'bg-diff-deletion-bg' : 'bg-diff-addition-bg'
+    }`}
+  >
+    {formatValue(value)}
+  </pre>
+);
+
+export function StructuredDiffViewer(props: DiffViewerBodyProps) {
+  const { file, baseCommitish, targetCommitish, threads } = props;
+  const format = getStructuredFormat(file.path) ?? 'json';
+  const [mode, setMode] = useState<PreviewMode>('diff');
+  const [state, setState] = useState<StructuredState>(IDLE_STATE);
+  const [commentingKey, setCommentingKey] = useState<string | null>(null);
+  const isStructureShown = mode === 'diff-preview';
+
+  // Blobs are only fetched once the structure is asked for
+  useEffect(() => {
+    if (!isStructureShown) return;
+
+    let cancelled = false;
+    const baseRef = baseCommitish || 'HEAD~1';
+    const targetRef = targetCommitish || 'HEAD';
+    const hasOld = file.status !== 'added';
+    const hasNew = file.status !== 'deleted';
+
+    if ((hasOld && !isFetchableRef(baseRef)) || (hasNew && !isFetchableRef(targetRef))) {
+      setState({
+        ...IDLE_STATE,
+        status: 'error',
+        message: 'The structure needs both versions of the file, which this diff does not have.',
+      });
+      return;
+    }
+
+    const loadStructure = async () => {
+      setState((prev) => ({ ...prev, status: 'loading', message: undefined }));
+      try {
+        const [oldText, newText] = await Promise.all([
+          hasOld ? fetchBlobText(file.oldPath || file.path, baseRef) : Promise.resolve(''),
+          hasNew ? fetchBlobText(file.path, targetRef) : Promise.resolve(''),
+        ]);
+        const oldDoc = hasOld ? parseStructuredText(oldText, format) : { value: undefined };
+        const newDoc = hasNew ? parseStructuredText(newText, format) : { value: undefined };
+        if (cancelled) return;
+
+        if (!oldDoc || !newDoc) {
+          setState({
+            ...IDLE_STATE,
+            status: 'error',
+            message: `The ${oldDoc ? 'new' : 'old'} version is not valid ${formatLabels[format]}.`,
+          });
+          return;
+        }
+
+        setState({
+          status: 'ready',
+          entries: computeStructuredDiff(oldDoc.value, newDoc.value),
+          oldText,
+          newText,
+        });
+      } catch (error) {
+        if (!cancelled) {
+          setState({
+            ...IDLE_STATE,
+            status: 'error',
+            message: error instanceof Error ? error.message : 'Failed to load the structure.',
+          });
+        }
+      }
+    };
+
+    void loadStructure();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isStructureShown, file, format, baseCommitish, targetCommitish]);
+
+  const rows = useMemo(() => toStructuredDiffRows(state.entries), [state.entries]);
+
+  // A change is commented on the new side unless its key was removed
+  const getAnchor = (entry: StructuredDiffEntry): LineAnchor | null => {
+    const side: DiffSide = entry.status === 'removed' ? 'old' : 'new';
+    const text = side === 'old' ? state.oldText : state.newText;
+    const lineNumber = findKeyPathLine(text, entry.path, format);
+    if (lineNumber === undefined) return null;
+    return { side, lineNumber, content: text.split('\n')[lineNumber - 1] ?? '' };
+  };
+
+  const renderStructure = () => {
+    // Several changes can fall back to the same parent line; its threads are shown once
+    const shownThreadLines = new Set<string>();
+
+    return (
+      <div className="font-mono text-xs">
+        {rows.map((row) => {
+          const rowKey = getRowKey(row);
+          const indent = { paddingLeft: `${row.depth * 16 + 8}px` };
+          if (row.kind === 'group') {
+            return (
+              <div key={rowKey} className="py-1 text-github-text-secondary" style={indent}>
+                {typeof row.segment === 'number' ? `[${row.segment}]` : row.segment}
+              </div>
+            );
+          }
+
+          const { entry } = row;
+          const anchor = getAnchor(entry);
+          const anchorKey = anchor ? getLineAnchorKey(anchor) : null;
+          const lineThreads =
+            anchor && anchorKey && !shownThreadLines.has(anchorKey)
+              ? getThreadsForAnchor(threads, anchor)
+              : [];
+          if (anchorKey && lineThreads.length > 0) {
+            shownThreadLines.add(anchorKey);
+          }
+
+          return (
+            <div key={rowKey} className="border-b border-github-border/50">
+              <div className="group flex items-start gap-2 py-1 pr-2" style={indent}>
+                <span className="text-github-text-primary whitespace-nowrap">
+                  {row.segment === null
+                    ? formatKeyPath(entry.path)
+                    : typeof row.segment === 'number'
+                      ? `[${row.segment}]`
+                      : row.segment}
+                </span>
+                <span
+                  className={`px-1 rounded border text-[10px] uppercase ${statusClasses[entry.status]}`}
+                >
+                  {entry.status}
+                </span>
+                <div className="flex-1 min-w-0 flex flex-col gap-0.5">
+                  {entry.status !== 'added' && <ValueBlock value={entry.oldValue} tone="before" />}
+                  {entry.status !== 'removed' && <ValueBlock value={entry.newValue} tone="after" />}
+                </div>
+                {anchor && (
+                  <button
+                    type="button"
+                    className="opacity-0 group-hover:opacity-100 focus:opacity-100 p-1 rounded text-github-text-secondary hover:text-github-text-primary hover:bg-github-bg-tertiary cursor-pointer"
+                    onClick={() => setCommentingKey(rowKey)}
+                    aria-label={`Comment on ${formatKeyPath(entry.path)}`}
+                    title={`Comment on line ${anchor.lineNumber}`}
+                  >
+                    <MessageSquare size={14} />
+                  </button>
+                )}
+              </div>
+              {anchor && (
+                <LineAnchorComments
+                  {...props}
+                  anchor={anchor}
+                  threads={lineThreads}
+                  filename={file.path}
+                  isCommenting={commentingKey === rowKey}
+                  onCloseForm={() => setCommentingKey(null)}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-github-bg-primary">
+      <div className="flex items-center justify-between border-b border-github-border px-4 py-2">
+        <PreviewModeTabs
+          mode={mode}
+          hasFullPreview={false}
+          onModeChange={setMode}
+          diffPreviewLabel="Structure"
+        />
+      </div>
+
+      {mode === 'diff' && <TextDiffViewer {...props} />}
+
+      {isStructureShown && (
+        <div className="py-2">
+          {state.status === 'loading' && (
+            <div className="px-4 text-xs text-github-text-muted">Loading structure…</div>
+          )}
+          {state.status === 'error' && (
+            <>
+              <div className="px-4 mb-3 text-xs text-github-text-muted">
+                {state.message} Showing the text diff instead.
+              </div>
+              <TextDiffViewer {...props} />
+            </>
+          )}
+          {state.status === 'ready' &&
+            (rows.length === 0 ? (
+              <div className="px-4 text-xs text-github-text-muted">
+                No structural changes. The files differ only in formatting or key order.
+              </div>
+            ) : (
+              renderStructure()
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { DiffFile } from '../../types/diff';
+import { WordHighlightProvider } from '../contexts/WordHighlightContext';
+
+import { TableDiffViewer } from './TableDiffViewer';
+import type { DiffViewerBodyProps } from './types';
+
+const oldCsv = ['id,name,role', '1,Ann,admin', '2,Bob,user', '3,Cy,user', ''].join('\n');
+const newCsv = ['id,name,team', '1,Ann,core', '3,Cyd,docs', '4,Di,core', ''].join('\n');
+
+const createFile = (overrides: Partial<DiffFile> = {}): DiffFile => ({
+  path: 'data/users.csv',
+  status: 'modified',
+  additions: 2,
+  deletions: 2,
+  chunks: [],
+  ...overrides,
+});
+
+const createProps = (overrides: Partial<DiffViewerBodyProps> = {}): DiffViewerBodyProps => ({
+  file: createFile(),
+  threads: [],
+  diffMode: 'unified',
+  mergedChunks: [],
+  isExpandLoading: false,
+  expandHiddenLines: vi.fn().mockResolvedValue(undefined),
+  expandAllBetweenChunks: vi.fn().mockResolvedValue(undefined),
+  onAddComment: vi.fn().mockResolvedValue(undefined),
+  onGenerateThreadPrompt: vi.fn(),
+  onRemoveThread: vi.fn(),
+  onReplyToThread: vi.fn().mockResolvedValue(undefined),
+  onRemoveMessage: vi.fn(),
+  onUpdateMessage: vi.fn(),
+  baseCommitish: 'HEAD~1',
+  targetCommitish: 'HEAD',
+  ...overrides,
+});
+
+const renderViewer = (overrides: Partial<DiffViewerBodyProps> = {}) =>
+  render(
+    <WordHighlightProvider>
+      <TableDiffViewer {...createProps(overrides)} />
+    </WordHighlightProvider>,
+  );
+
+const mockBlobs = (blobs: Record<string, string>) => {
+  (global.fetch as any).mockImplementation((url: string) => {
+    const ref = new URL(url, 'http://localhost').searchParams.get('ref') ?? '';
+    const text = blobs[ref];
+    return Promise.resolve({ ok: text !== undefined, text: async () => text ?? '' });
+  });
+};
+
+describe('TableDiffViewer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('aligns rows by the detected key and shows changed cells, rows and columns', async () => {
+    mockBlobs({ 'HEAD~1': oldCsv, HEAD: newCsv });
+
+    renderViewer();
+
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Table' }));
+
+    expect(await screen.findByRole('columnheader', { name: 'team' })).toBeInTheDocument();
+    expect(screen.getByRole('columnheader', { name: 'role' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Key column')).toHaveValue('id');
+    expect(screen.getByText('Cy')).toHaveClass('line-through');
+    expect(screen.getByText('Cyd')).toBeInTheDocument();
+    expect(screen.getByText('Bob')).toBeInTheDocument();
+    expect(screen.getByText('Di')).toBeInTheDocument();
+    // Unchanged rows are hidden until asked for
+    expect(screen.queryByText('Ann')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Show unchanged rows (1)' }));
+
+    expect(screen.getByText('Ann')).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith('/api/blob/data%2Fusers.csv?ref=HEAD~1');
+    expect(global.fetch).toHaveBeenCalledWith('/api/blob/data%2Fusers.csv?ref=HEAD');
+  });
+
+  it('realigns rows when another key column is chosen', async () => {
+    mockBlobs({ 'HEAD~1': oldCsv, HEAD: newCsv });
+
+    renderViewer();
+    fireEvent.click(screen.getByRole('button', { name: 'Table' }));
+    fireEvent.change(await screen.findByLabelText('Key column'), { target: { value: 'name' } });
+
+    // Cy was renamed, so by name it is one removed and one added row
+    expect(screen.getByText('Cy')).not.toHaveClass('line-through');
+    expect(screen.getByText('Cyd')).toBeInTheDocument();
+  });
+
+  it('anchors cell comments to the line of the record', async () => {
+    mockBlobs({ 'HEAD~1': oldCsv, HEAD: newCsv });
+    const onAddComment = vi.fn().mockResolvedValue(undefined);
+
+    renderViewer({ onAddComment });
+    fireEvent.click(screen.getByRole('button', { name: 'Table' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Comment on role at line 3' }));
+    fireEvent.change(screen.getByPlaceholderText('Leave a comment...'), {
+      target: { value: 'Why drop Bob?' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+    await waitFor(() => {
+      expect(onAddComment).toHaveBeenCalledWith(3, 'Why drop Bob?', '2,Bob,user', 'old');
+    });
+  });
+
+  it('falls back to the text diff when a version is malformed', async () => {
+    mockBlobs({ 'HEAD~1': oldCsv, HEAD: 'id,name\n1,"Ann\n' });
+
+    renderViewer();
+    fireEvent.click(screen.getByRole('button', { name: 'Table' }));
+
+    expect(
+      await screen.findByText(/The new version is not a well-formed table\./),
+    ).toBeInTheDocument();
+  });
+});
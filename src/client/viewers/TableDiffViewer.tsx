@@ -0,0 +1,365 @@
+import { MessageSquare } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+
+import type { DiffSide } from '../../types/diff';
+import { Checkbox } from '../components/Checkbox';
+import { fetchBlobText, isFetchableRef } from '../utils/blobContent';
+import {
+  computeTableDiff,
+  detectKeyColumn,
+  getKeyColumnCandidates,
+  getTableCell,
+  getTableDelimiter,
+  parseDelimitedText,
+  type ParsedTable,
+  type TableDiffColumn,
+  type TableDiffRow,
+  type TableRecord,
+} from '../utils/tableDiff';
+
+import {
+  getLineAnchorKey,
+  getThreadsForAnchor,
+  LineAnchorComments,
+  type LineAnchor,
+} from './LineAnchorComments';
+import { PreviewModeTabs, type PreviewMode } from './PreviewModeTabs';
+import { TextDiffViewer } from './TextDiffViewer';
+import type { DiffViewerBodyProps } from './types';
+
+type TableSides = {
+  oldTable: ParsedTable;
+  newTable: ParsedTable;
+  oldLines: string[];
+  newLines: string[];
+};
+
+type TableState =
+  | { status: 'idle' | 'loading' }
+  | { status: 'error'; message: string }
+  | ({ status: 'ready' } & TableSides);
+
+// The missing side of an added or deleted file
+const EMPTY_TABLE: ParsedTable = { header: [], records: [] };
+
+// Header names are never empty, so the empty option stands for aligning rows by order
+const ROW_ORDER_VALUE = '';
+
+const rowMarkers: Record<TableDiffRow['status'], string> = {
+  added: '+',
+  removed: '-',
+  changed: '~',
+  unchanged: '',
+};
+
+const rowClasses: Record<TableDiffRow['status'], string> = {
+  added: 'bg-diff-addition-bg',
+  removed: 'bg-diff-deletion-bg',
+  changed: '',
+  unchanged: '',
+};
+
+const headerClasses: Record<TableDiffColumn['status'], string> = {
+  added: 'bg-diff-addition-bg text-github-accent',
+  removed: 'bg-diff-deletion-bg text-github-danger line-through',
+  unchanged: 'text-github-text-primary',
+};
+
+const columnCellClasses: Record<TableDiffColumn['status'], string> = {
+  added: 'bg-diff-addition-bg',
+  removed: 'bg-diff-deletion-bg',
+  unchanged: '',
+};
+
+const splitLines = (text: string) => text.split('\n').map((line) => line.replace(/\r$/, ''));
+
+const getRowKey = (row: TableDiffRow) =>
+  `${row.oldRecord?.lineNumber ?? ''}:${row.newRecord?.lineNumber ?? ''}`;
+
+const toAnchor = (side: DiffSide, record: TableRecord, lines: string[]): LineAnchor => ({
+  side,
+  lineNumber: record.lineNumber,
+  content: lines[record.lineNumber - 1] ?? '',
+});
+
+export function TableDiffViewer(props: DiffViewerBodyProps) {
+  const { file, baseCommitish, targetCommitish, threads } = props;
+  const delimiter = getTableDelimiter(file.path) ?? ',';
+  const [mode, setMode] = useState<PreviewMode>('diff');
+  const [state, setState] = useState<TableState>({ status: 'idle' });
+  // `undefined` follows the detected key column, `null` aligns rows by order
+  const [selectedKey, setSelectedKey] = useState<string | null | undefined>(undefined);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [commentingKey, setCommentingKey] = useState<string | null>(null);
+  const isTableShown = mode === 'diff-preview';
+
+  // Blobs are only fetched once the table is asked for
+  useEffect(() => {
+    if (!isTableShown) return;
+
+    let cancelled = false;
+    const baseRef = baseCommitish || 'HEAD~1';
+    const targetRef = targetCommitish || 'HEAD';
+    const hasOld = file.status !== 'added';
+    const hasNew = file.status !== 'deleted';
+
+    if ((hasOld && !isFetchableRef(baseRef)) || (hasNew && !isFetchableRef(targetRef))) {
+      setState({
+        status: 'error',
+        message: 'The table needs both versions of the file, which this diff does not have.',
+      });
+      return;
+    }
+
+    const loadTable = async () => {
+      setState({ status: 'loading' });
+      try {
+        const [oldText, newText] = await Promise.all([
+          hasOld ? fetchBlobText(file.oldPath || file.path, baseRef) : Promise.resolve(''),
+          hasNew ? fetchBlobText(file.path, targetRef) : Promise.resolve(''),
+        ]);
+        const oldTable = hasOld ? parseDelimitedText(oldText, delimiter) : EMPTY_TABLE;
+        const newTable = hasNew ? parseDelimitedText(newText, delimiter) : EMPTY_TABLE;
+        if (cancelled) return;
+
+        if (!oldTable || !newTable) {
+          setState({
+            status: 'error',
+            message: `The ${oldTable ? 'new' : 'old'} version is not a well-formed table.`,
+          });
+          return;
+        }
+
+        setState({
+          status: 'ready',
+          oldTable,
+          newTable,
+          oldLines: splitLines(oldText),
+          newLines: splitLines(newText),
+        });
+      } catch (error) {
+        if (!cancelled) {
+          setState({
+            status: 'error',
+            message: error instanceof Error ? error.message : 'Failed to load the table.',
+          });
+        }
+      }
+    };
+
+    void loadTable();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isTableShown, file, delimiter, baseCommitish, targetCommitish]);
+
+  const sides = state.status === 'ready' ? state : null;
+  const keyCandidates = useMemo(
+    () => (sides ? getKeyColumnCandidates(sides.oldTable, sides.newTable) : []),
+    [sides],
+  );
+  const keyColumn =
+    selectedKey === undefined
+      ? sides
+        ? detectKeyColumn(sides.oldTable, sides.newTable)
+        : null
+      : selectedKey;
+  const tableDiff = useMemo(
+    () => (sides ? computeTableDiff(sides.oldTable, sides.newTable, keyColumn) : null),
+    [sides, keyColumn],
+  );
+
+  const renderTable = ({ oldTable, newTable, oldLines, newLines }: TableSides) => {
+    if (!tableDiff) return null;
+    const { columns, rows } = tableDiff;
+    const unchangedCount = rows.filter((row) => row.status === 'unchanged').length;
+    const visibleRows = showUnchanged ? rows : rows.filter((row) => row.status !== 'unchanged');
+    const hasColumnChanges = columns.some((column) => column.status !== 'unchanged');
+
+    // Cells of removed rows and removed columns only exist in the old version
+    const getCellAnchor = (row: TableDiffRow, column: TableDiffColumn): LineAnchor | null => {
+      const preferOld = row.status === 'removed' || column.status === 'removed';
+      if (row.oldRecord && (preferOld || !row.newRecord)) {
+        return toAnchor('old', row.oldRecord, oldLines);
+      }
+      return row.newRecord ? toAnchor('new', row.newRecord, newLines) : null;
+    };
+
+    const renderCell = (row: TableDiffRow, column: TableDiffColumn) => {
+      const oldValue = row.oldRecord && getTableCell(oldTable, row.oldRecord, column.name);
+      const newValue = row.newRecord && getTableCell(newTable, row.newRecord, column.name);
+
+      if (row.changedColumns.includes(column.name)) {
+        return (
+          <div className="flex flex-col gap-0.5">
+            <span className="px-1 rounded bg-diff-deletion-bg line-through">{oldValue}</span>
+            <span className="px-1 rounded bg-diff-addition-bg">{newValue}</span>
+          </div>
+        );
+      }
+      if (column.status === 'removed' || row.status === 'removed') {
+        return <span className="px-1">{oldValue}</span>;
+      }
+      return <span className="px-1">{newValue}</span>;
+    };
+
+    return (
+      <>
+        <div className="flex flex-wrap items-center gap-4 px-4 pb-2 text-xs text-github-text-secondary">
+          <label className="flex items-center gap-2">
+            Align rows by
+            <select
+              value={keyColumn ?? ROW_ORDER_VALUE}
+              onChange={(e) =>
+                setSelectedKey(e.target.value === ROW_ORDER_VALUE ? null : e.target.value)
+              }
+              aria-label="Key column"
+              className="text-xs bg-github-bg-tertiary border border-github-border rounded px-1 py-0.5 text-github-text-primary"
+            >
+              <option value={ROW_ORDER_VALUE}>Row order</option>
+              {keyCandidates.map((column) => (
+                <option key={column} value={column}>
+                  {column}
+                </option>
+              ))}
+            </select>
+          </label>
+          {unchangedCount > 0 && (
+            <Checkbox
+              checked={showUnchanged}
+              onChange={setShowUnchanged}
+              label={`Show unchanged rows (${unchangedCount})`}
+            />
+          )}
+        </div>
+
+        {visibleRows.length === 0 && !hasColumnChanges ? (
+          <div className="px-4 text-xs text-github-text-muted">
+            No changes to the table's rows or columns.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full border-collapse font-mono text-xs">
+              <thead>
+                <tr className="border-b border-github-border">
+                  <th className="w-6 px-2 py-1" aria-label="Row status" />
+                  {columns.map((column) => (
+                    <th
+                      key={column.name}
+                      className={`px-2 py-1 text-left font-semibold whitespace-nowrap ${headerClasses[column.status]}`}
+                    >
+                      {column.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map((row) => {
+                  const rowKey = getRowKey(row);
+                  const rowAnchors = [
+                    row.oldRecord && toAnchor('old', row.oldRecord, oldLines),
+                    row.newRecord && toAnchor('new', row.newRecord, newLines),
+                  ].filter((anchor): anchor is LineAnchor => Boolean(anchor));
+                  const anchorThreads = rowAnchors.map((anchor) => ({
+                    anchor,
+                    commentKey: `${rowKey}|${getLineAnchorKey(anchor)}`,
+                    threads: getThreadsForAnchor(threads, anchor),
+                  }));
+
+                  return [
+                    <tr
+                      key={rowKey}
+                      className={`border-b border-github-border/50 align-top ${rowClasses[row.status]}`}
+                    >
+                      <td className="px-2 py-1 text-github-text-muted select-none">
+                        {rowMarkers[row.status]}
+                      </td>
+                      {columns.map((column) => {
+                        const anchor = getCellAnchor(row, column);
+                        return (
+                          <td
+                            key={column.name}
+                            className={`group px-1 py-1 whitespace-pre-wrap break-all ${columnCellClasses[column.status]}`}
+                          >
+                            <div className="flex items-start gap-1">
+                              <div className="flex-1 min-w-0">{renderCell(row, column)}</div>
+                              {anchor && (
+                                <button
+                                  type="button"
+                                  className="opacity-0 group-hover:opacity-100 focus:opacity-100 p-0.5 rounded text-github-text-secondary hover:text-github-text-primary hover:bg-github-bg-tertiary cursor-pointer"
+                                  onClick={() =>
+                                    setCommentingKey(`${rowKey}|${getLineAnchorKey(anchor)}`)
+                                  }
+                                  aria-label={`Comment on ${column.name} at line ${anchor.lineNumber}`}
+                                  title={`Comment on line ${anchor.lineNumber}`}
+                                >
+                                  <MessageSquare size={12} />
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>,
+                    ...anchorThreads
+                      .filter(
+                        ({ commentKey, threads: lineThreads }) =>
+                          lineThreads.length > 0 || commentingKey === commentKey,
+                      )
+                      .map(({ anchor, commentKey, threads: lineThreads }) => (
+                        <tr key={commentKey}>
+                          <td colSpan={columns.length + 1}>
+                            <LineAnchorComments
+                              {...props}
+                              anchor={anchor}
+                              threads={lineThreads}
+                              filename={file.path}
+                              isCommenting={commentingKey === commentKey}
+                              onCloseForm={() => setCommentingKey(null)}
+                            />
+                          </td>
+                        </tr>
+                      )),
+                  ];
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="bg-github-bg-primary">
+      <div className="flex items-center justify-between border-b border-github-border px-4 py-2">
+        <PreviewModeTabs
+          mode={mode}
+          hasFullPreview={false}
+          onModeChange={setMode}
+          diffPreviewLabel="Table"
+        />
+      </div>
+
+      {mode === 'diff' && <TextDiffViewer {...props} />}
+
+      {isTableShown && (
+        <div className="py-2">
+          {state.status === 'loading' && (
+            <div className="px-4 text-xs text-github-text-muted">Loading table…</div>
+          )}
+          {state.status === 'error' && (
+            <>
+              <div className="px-4 mb-3 text-xs text-github-text-muted">
+                {state.message} Showing the text diff instead.
+              </div>
+              <TextDiffViewer {...props} />
+            </>
+          )}
+          {state.status === 'ready' && renderTable(state)}
+        </div>
+      )}
+    </div>
+  );
+}
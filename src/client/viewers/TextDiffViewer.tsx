@@ -1,7 +1,10 @@
-import React from 'react';
+import React, { useCallback } from 'react';
 
+import type { DiffChunk as DiffChunkType, HunkAction } from '../../types/diff';
 import { DiffChunk } from '../components/DiffChunk';
 import { ExpandButton } from '../components/ExpandButton';
+import { hasModeChange } from '../utils/fileBadges';
+import { supportsHunkActions } from '../utils/hunkActions';
 
 import type { DiffViewerBodyProps } from './types';
 
@@ -23,11 +26,23 @@ export function TextDiffViewer({
   onReplyToThread,
   onRemoveMessage,
   onUpdateMessage,
+  onApplySuggestion,
+  hunkActions,
+  onHunkAction,
+  blame,
+  onOpenBlameCommit,
   onLineClick,
   onOpenInEditor,
   commentTrigger,
   onCommentTriggerHandled,
 }: DiffViewerBodyProps) {
+  // Stable per file so memoized chunks don't re-render on cursor moves
+  const handleHunkAction = useCallback(
+    (chunk: DiffChunkType, action: HunkAction, lineIndices?: number[]) =>
+      onHunkAction ? onHunkAction(file, chunk, action, lineIndices) : Promise.resolve(),
+    [file, onHunkAction],
+  );
+
   const renderExpandButton = (
     position: 'top' | 'middle' | 'bottom',
     mergedChunk: (typeof mergedChunks)[number],
@@ -80,6 +95,15 @@ export function TextDiffViewer({
     return null;
   };
 
+  if (file.chunks.length === 0 && hasModeChange(file)) {
+    return (
+      <div className="px-4 py-3 text-xs text-github-text-secondary">
+        File mode changed from <code className="font-mono">{file.oldMode}</code> to{' '}
+        <code className="font-mono">{file.newMode}</code>
+      </div>
+    );
+  }
+
   return (
     <>
       {mergedChunks.map((mergedChunk, mergedIndex) => {
@@ -109,7 +133,12 @@ export function TextDiffViewer({
                 onReplyToThread={onReplyToThread}
                 onRemoveMessage={onRemoveMessage}
                 onUpdateMessage={onUpdateMessage}
+                onApplySuggestion={onApplySuggestion}
+                hunkActions={supportsHunkActions(file) ? hunkActions : undefined}
+                onHunkAction={onHunkAction ? handleHunkAction : undefined}
                 onOpenInEditor={onOpenInEditor}
+                blame={blame}
+                onOpenBlameCommit={onOpenBlameCommit}
                 mode={diffMode}
                 syntaxTheme={syntaxTheme}
                 cursor={cursor && cursor.chunkIndex === mergedIndex ? cursor : null}
@@ -1,14 +1,24 @@
 import type { DiffFile } from '../../types/diff';
+import { getDependencyFileKind } from '../utils/dependencyDiff';
 import { isImageFile } from '../utils/imageUtils';
 import { isMarkdownFile } from '../utils/markdownUtils';
 import { isNotebookFile } from '../utils/notebookUtils';
+import { getStructuredFormat } from '../utils/structuredDiff';
+import { getTableDelimiter } from '../utils/tableDiff';
 
+import { DependencyDiffViewer } from './DependencyDiffViewer';
 import { ImageDiffViewer } from './ImageDiffViewer';
 import { MarkdownDiffViewer } from './MarkdownDiffViewer';
 import { NotebookDiffViewer } from './NotebookDiffViewer';
+import { StructuredDiffViewer } from './StructuredDiffViewer';
+import { TableDiffViewer } from './TableDiffViewer';
 import { TextDiffViewer } from './TextDiffViewer';
 import type { DiffViewerRegistration } from './types';
 
+// Hidden lines come from both blobs, so one side must exist and hold the same kind of object
+const hasComparableSides = (file: DiffFile) =>
+  file.status !== 'added' && file.status !== 'deleted' && file.status !== 'typechanged';
+
 const viewers: DiffViewerRegistration[] = [
   {
     id: 'image',
@@ -20,19 +30,38 @@ const viewers: DiffViewerRegistration[] = [
     id: 'markdown',
     match: (file) => isMarkdownFile(file.path),
     Component: MarkdownDiffViewer,
-    canExpandHiddenLines: (file) => file.status !== 'added' && file.status !== 'deleted',
+    canExpandHiddenLines: hasComparableSides,
   },
   {
     id: 'notebook',
     match: (file) => isNotebookFile(file.path),
     Component: NotebookDiffViewer,
-    canExpandHiddenLines: (file) => file.status !== 'added' && file.status !== 'deleted',
+    canExpandHiddenLines: hasComparableSides,
+  },
+  // Ahead of the structured viewer, which would otherwise take package.json and JSON/YAML lockfiles
+  {
+    id: 'dependencies',
+    match: (file) => getDependencyFileKind(file.path) !== null,
+    Component: DependencyDiffViewer,
+    canExpandHiddenLines: hasComparableSides,
+  },
+  {
+    id: 'structured',
+    match: (file) => getStructuredFormat(file.path) !== null,
+    Component: StructuredDiffViewer,
+    canExpandHiddenLines: hasComparableSides,
+  },
+  {
+    id: 'table',
+    match: (file) => getTableDelimiter(file.path) !== null,
+    Component: TableDiffViewer,
+    canExpandHiddenLines: hasComparableSides,
   },
   {
     id: 'default',
     match: () => true,
     Component: TextDiffViewer,
-    canExpandHiddenLines: (file) => file.status !== 'added' && file.status !== 'deleted',
+    canExpandHiddenLines: hasComparableSides,
   },
 ];
 
@@ -1,9 +1,19 @@
 import type { ComponentType } from 'react';
 
-import type { CommentThread, DiffFile, DiffSide, DiffViewMode, LineNumber } from '../../types/diff';
+import type {
+  BlameCommit,
+  CommentThread,
+  DiffChunk,
+  DiffFile,
+  DiffSide,
+  DiffViewMode,
+  HunkAction,
+  LineNumber,
+} from '../../types/diff';
 import type { AppearanceSettings } from '../components/SettingsModal';
 import type { CursorPosition } from '../hooks/keyboardNavigation';
 import type { MergedChunk } from '../hooks/useExpandedLines';
+import type { BlameLookup } from '../utils/blame';
 
 export type DiffViewerBodyProps = {
   file: DiffFile;
@@ -39,7 +49,18 @@ export type DiffViewerBodyProps = {
   onReplyToThread: (threadId: string, body: string) => Promise<void>;
   onRemoveMessage: (threadId: string, messageId: string) => void;
   onUpdateMessage: (threadId: string, messageId: string, newBody: string) => void;
+  onApplySuggestion?: (thread: CommentThread) => Promise<void>;
+  hunkActions?: HunkAction[];
+  onHunkAction?: (
+    file: DiffFile,
+    chunk: DiffChunk,
+    action: HunkAction,
+    lineIndices?: number[],
+  ) => Promise<void>;
   onOpenInEditor?: (filePath: string, lineNumber: number) => void;
+  // Base-side blame, present while the blame gutter is shown
+  blame?: BlameLookup | null;
+  onOpenBlameCommit?: (commit: BlameCommit) => void;
   onLineClick?: (
     fileIndex: number,
     chunkIndex: number,
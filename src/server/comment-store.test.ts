@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import {
+  clearCommentSessions,
+  readCommentSessions,
+  writeCommentSession,
+  type StoredCommentSession,
+} from './comment-store.js';
+
+const createSession = (
+  targetCommitish: string,
+  overrides: Partial<StoredCommentSession> = {},
+): StoredCommentSession => ({
+  version: 1,
+  selection: { baseCommitish: 'main', targetCommitish, baseMode: 'merge-base' },
+  threads: [],
+  viewedFiles: [],
+  appliedCommentImportIds: [],
+  publishedComments: {},
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('comment-store', () => {
+  let storeDir: string;
+
+  beforeEach(async () => {
+    storeDir = join(await fs.mkdtemp(join(tmpdir(), 'difit-comment-store-')), 'difit');
+  });
+
+  afterEach(async () => {
+    await fs.rm(join(storeDir, '..'), { recursive: true, force: true });
+  });
+
+  it('reads back the sessions it wrote, one file per selection', async () => {
+    const feature = createSession('feature', {
+      viewedFiles: [{ filePath: 'a.ts', viewedAt: '2024-01-01', diffContentHash: 'abc' }],
+      appliedCommentImportIds: ['import-1'],
+    });
+    await writeCommentSession(storeDir, feature);
+    await writeCommentSession(storeDir, createSession('hotfix'));
+    await writeCommentSession(storeDir, { ...feature, appliedCommentImportIds: ['import-2'] });
+
+    const sessions = await readCommentSessions(storeDir);
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions).toContainEqual({ ...feature, appliedCommentImportIds: ['import-2'] });
+  });
+
+  it('returns no sessions when nothing was stored yet', async () => {
+    await expect(readCommentSessions(storeDir)).resolves.toEqual([]);
+  });
+
+  it('skips files that are not valid sessions', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await writeCommentSession(storeDir, createSession('feature'));
+    await fs.writeFile(join(storeDir, 'session-0123abcd.json'), '{"version":1}');
+    await fs.writeFile(join(storeDir, 'session-4567abcd.json'), 'not json');
+
+    const sessions = await readCommentSessions(storeDir);
+
+    expect(sessions.map((session) => session.selection.targetCommitish)).toEqual(['feature']);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it('clears stored sessions but leaves other files alone', async () => {
+    await writeCommentSession(storeDir, createSession('feature'));
+    await fs.writeFile(join(storeDir, 'notes.txt'), 'keep me');
+
+    await clearCommentSessions(storeDir);
+
+    expect(await fs.readdir(storeDir)).toEqual(['notes.txt']);
+  });
+});
@@ -0,0 +1,151 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+
+import { simpleGit } from 'simple-git';
+
+import type { DiffCommentThread, DiffSelection, ViewedFileRecord } from '../types/diff.js';
+import { getDiffSelectionKey } from '../utils/diffSelection.js';
+
+// One review session per diff selection, kept on disk so comments written by agents or
+// in another browser survive a restart
+export interface StoredCommentSession {
+  version: 1;
+  selection: DiffSelection;
+  threads: DiffCommentThread[];
+  viewedFiles: ViewedFileRecord[];
+  appliedCommentImportIds: string[];
+  // GitHub REST IDs of the comments `difit comment publish` posted, by message ID
+  publishedComments: Record<string, number>;
+  updatedAt: string;
+}
+
+const STORE_VERSION = 1 as const;
+const SESSION_FILE_PATTERN = /^session-[0-9a-f]+\.json$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+export function isPublishedComments(value: unknown): value is Record<string, number> {
+  return (
+    isPlainObject(value) &&
+    Object.values(value).every((id) => typeof id === 'number' && Number.isInteger(id) && id > 0)
+  );
+}
+
+export function isViewedFileRecord(value: unknown): value is ViewedFileRecord {
+  return (
+    isPlainObject(value) &&
+    typeof value.filePath === 'string' &&
+    typeof value.viewedAt === 'string' &&
+    typeof value.diffContentHash === 'string'
+  );
+}
+
+function parseStoredSelection(value: unknown): DiffSelection | null {
+  if (
+    !isPlainObject(value) ||
+    typeof value.baseCommitish !== 'string' ||
+    typeof value.targetCommitish !== 'string'
+  ) {
+    return null;
+  }
+  return {
+    baseCommitish: value.baseCommitish,
+    targetCommitish: value.targetCommitish,
+    ...(typeof value.baseMode === 'string'
+      ? { baseMode: value.baseMode as DiffSelection['baseMode'] }
+      : {}),
+    ...(isStringArray(value.pathspecs) ? { pathspecs: value.pathspecs } : {}),
+  };
+}
+
+function parseStoredSession(value: unknown): StoredCommentSession | null {
+  if (!isPlainObject(value) || value.version !== STORE_VERSION) return null;
+  const selection = parseStoredSelection(value.selection);
+  if (!selection || !Array.isArray(value.threads)) return null;
+
+  return {
+    version: STORE_VERSION,
+    selection,
+    threads: value.threads as DiffCommentThread[],
+    viewedFiles: Array.isArray(value.viewedFiles)
+      ? value.viewedFiles.filter(isViewedFileRecord)
+      : [],
+    appliedCommentImportIds: isStringArray(value.appliedCommentImportIds)
+      ? value.appliedCommentImportIds
+      : [],
+    publishedComments: isPublishedComments(value.publishedComments) ? value.publishedComments : {},
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : '',
+  };
+}
+
+/**
+ * The default store lives in the repository's git directory, so it is never committed and
+ * each worktree keeps its own sessions.
+ */
+export async function getDefaultCommentStoreDir(repoPath: string): Promise<string> {
+  try {
+    const gitDir = await simpleGit(repoPath).revparse(['--git-dir']);
+    return join(resolve(repoPath, gitDir.trim()), 'difit');
+  } catch {
+    return join(repoPath, '.git', 'difit');
+  }
+}
+
+function getSessionFilePath(dir: string, selection: DiffSelection): string {
+  const hash = createHash('sha256').update(getDiffSelectionKey(selection)).digest('hex');
+  return join(dir, `session-${hash.slice(0, 16)}.json`);
+}
+
+export async function readCommentSessions(dir: string): Promise<StoredCommentSession[]> {
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(dir);
+  } catch {
+    // No sessions were stored yet.
+    return [];
+  }
+
+  const sessions: StoredCommentSession[] = [];
+  for (const fileName of fileNames) {
+    if (!SESSION_FILE_PATTERN.test(fileName)) continue;
+    try {
+      const raw = await fs.readFile(join(dir, fileName), 'utf-8');
+      const session = parseStoredSession(JSON.parse(raw));
+      if (session) {
+        sessions.push(session);
+      } else {
+        console.warn(`⚠️  Ignoring unrecognised comment session file ${fileName}`);
+      }
+    } catch (error) {
+      console.warn(`⚠️  Could not read comment session file ${fileName}:`, error);
+    }
+  }
+  return sessions;
+}
+
+export async function writeCommentSession(
+  dir: string,
+  session: StoredCommentSession,
+): Promise<void> {
+  const path = getSessionFilePath(dir, session.selection);
+  await fs.mkdir(dir, { recursive: true });
+  // Write via a temp file + rename so a crash mid-write can't corrupt the session.
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, `${JSON.stringify(session, null, 2)}\n`, 'utf-8');
+  await fs.rename(tmpPath, path);
+}
+
+export async function clearCommentSessions(dir: string): Promise<void> {
+  const sessions = await fs.readdir(dir).catch(() => []);
+  await Promise.all(
+    sessions
+      .filter((fileName) => SESSION_FILE_PATTERN.test(fileName))
+      .map((fileName) => fs.rm(join(dir, fileName), { force: true })),
+  );
+}
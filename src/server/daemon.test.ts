@@ -0,0 +1,265 @@
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import express from 'express';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { getDaemonSessionId, readDaemonInfo, startDaemon } from './daemon.js';
+import { createReviewApp } from './server.js';
+
+// The setup file replaces fetch for client tests
+const { fetch } = await import('undici');
+
+vi.mock('./server.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./server.js')>()),
+  createReviewApp: vi.fn(),
+}));
+
+const selection = { baseCommitish: 'HEAD~1', targetCommitish: 'HEAD' };
+
+describe('getDaemonSessionId', () => {
+  it('maps the same repository and selection to the same session', () => {
+    expect(getDaemonSessionId('/work/app', selection)).toBe(
+      getDaemonSessionId('/work/app/', { ...selection }),
+    );
+  });
+
+  it('separates reviews of other repositories or selections', () => {
+    const id = getDaemonSessionId('/work/app', selection);
+
+    expect(getDaemonSessionId('/work/lib', selection)).not.toBe(id);
+    expect(getDaemonSessionId('/work/app', { ...selection, baseCommitish: 'main' })).not.toBe(id);
+  });
+});
+
+describe('startDaemon', () => {
+  const originalConfigDir = process.env.DIFIT_CONFIG_DIR;
+  let configDir: string;
+  let close: (() => void) | undefined;
+  const stopReview = vi.fn();
+  const importComments = vi.fn();
+
+  beforeEach(async () => {
+    configDir = await fs.mkdtemp(join(tmpdir(), 'difit-daemon-'));
+    process.env.DIFIT_CONFIG_DIR = configDir;
+    stopReview.mockReset();
+    importComments.mockReset();
+    vi.mocked(createReviewApp).mockReset();
+    vi.mocked(createReviewApp).mockImplementation(async (options) => {
+      const app = express();
+      app.get('/api/diff', (_req, res) => {
+        res.json({ repoPath: options.repoPath });
+      });
+      return {
+        app,
+        isEmpty: false,
+        importComments,
+        startWatching: async () => {},
+        stop: stopReview,
+      };
+    });
+  });
+
+  afterEach(async () => {
+    close?.();
+    close = undefined;
+    if (originalConfigDir === undefined) {
+      delete process.env.DIFIT_CONFIG_DIR;
+    } else {
+      process.env.DIFIT_CONFIG_DIR = originalConfigDir;
+    }
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  const start = async () => {
+    const daemon = await startDaemon({ preferredPort: 9400 });
+    close = () => daemon.server.close();
+    return daemon;
+  };
+
+  const postSession = (url: string, body: Record<string, unknown>) =>
+    fetch(`${url}/api/daemon/sessions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ selection, ...body }),
+    });
+
+  const registerSession = async (url: string, repoPath: string) => {
+    const response = await postSession(url, { repoPath });
+    return (await response.json()) as { id: string; url: string; created: boolean };
+  };
+
+  it('records where it listens so commands can find it', async () => {
+    const { port, url } = await start();
+
+    await expect(readDaemonInfo()).resolves.toEqual({ pid: process.pid, port, url });
+  });
+
+  it('hosts one session per repository and selection under /s/<sessionId>/', async () => {
+    const { url } = await start();
+
+    const first = await registerSession(url, '/work/app');
+    const again = await registerSession(url, '/work/app');
+    const other = await registerSession(url, '/work/lib');
+
+    expect(first).toMatchObject({ created: true, url: `${url}/s/${first.id}/` });
+    expect(again).toMatchObject({ id: first.id, created: false });
+    expect(other.id).not.toBe(first.id);
+    expect(createReviewApp).toHaveBeenCalledTimes(2);
+    expect(createReviewApp).toHaveBeenCalledWith(
+      expect.objectContaining({ repoPath: '/work/app', keepAlive: true, openBrowser: false }),
+    );
+
+    const diff = await fetch(`${url}/s/${other.id}/api/diff`);
+    expect(await diff.json()).toEqual({ repoPath: '/work/lib' });
+
+    const list = (await (await fetch(`${url}/api/daemon/sessions`)).json()) as {
+      sessions: { id: string }[];
+    };
+    expect(list.sessions.map(({ id }) => id)).toEqual([first.id, other.id]);
+  });
+
+  it('adds the comments of a repeated request to the running session', async () => {
+    const { url } = await start();
+    await registerSession(url, '/work/app');
+    const comment = {
+      type: 'thread',
+      filePath: 'src/app.ts',
+      position: { side: 'new', line: 3 },
+      body: 'Rename',
+    };
+
+    const response = await postSession(url, { repoPath: '/work/app', commentImports: [comment] });
+
+    expect(await response.json()).toMatchObject({ created: false });
+    expect(importComments).toHaveBeenCalledWith([expect.objectContaining({ body: 'Rename' })]);
+  });
+
+  it('refuses options that only apply when a session starts', async () => {
+    const { url } = await start();
+    const session = await registerSession(url, '/work/app');
+
+    const clean = await postSession(url, { repoPath: '/work/app', clearComments: true });
+    const notes = await postSession(url, { repoPath: '/work/app', commentNotes: true });
+
+    expect(clean.status).toBe(409);
+    expect(((await clean.json()) as { error: string }).error).toContain(
+      `difit stop ${session.id}\` to restart it with --clean`,
+    );
+    expect(notes.status).toBe(409);
+    expect(((await notes.json()) as { error: string }).error).toContain('--notes');
+    expect(createReviewApp).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops a session and forgets it', async () => {
+    const { url } = await start();
+    const session = await registerSession(url, '/work/app');
+
+    const response = await fetch(`${url}/api/daemon/sessions/${session.id}`, { method: 'DELETE' });
+
+    expect(response.status).toBe(200);
+    expect(stopReview).toHaveBeenCalledTimes(1);
+    expect((await fetch(`${url}/s/${session.id}/api/diff`)).status).toBe(404);
+  });
+
+  it('reads each session from its own repository', async () => {
+    const actual = await vi.importActual<typeof import('./server.js')>('./server.js');
+    vi.mocked(createReviewApp).mockImplementation(actual.createReviewApp);
+    const createRepo = async (name: string) => {
+      const repoPath = join(configDir, name);
+      await fs.mkdir(repoPath);
+      const git = (...args: string[]) => execFileSync('git', args, { cwd: repoPath });
+      git('init', '--quiet');
+      for (const version of ['v1', 'v2']) {
+        await fs.writeFile(join(repoPath, 'f.txt'), `${name} ${version}\n`);
+        git('add', 'f.txt');
+        git(
+          '-c',
+          'user.name=difit',
+          '-c',
+          'user.email=difit@example.com',
+          'commit',
+          '-qm',
+          version,
+        );
+      }
+      return repoPath;
+    };
+    const repoA = await createRepo('repo-a');
+    const repoB = await createRepo('repo-b');
+    const { url } = await start();
+
+    const sessionA = await registerSession(url, repoA);
+    const sessionB = await registerSession(url, repoB);
+    try {
+      for (const [session, name] of [
+        [sessionA, 'repo-a'],
+        [sessionB, 'repo-b'],
+      ] as const) {
+        const blob = await fetch(`${url}/s/${session.id}/api/blob/f.txt?ref=HEAD`);
+        expect(await blob.text()).toBe(`${name} v2\n`);
+      }
+    } finally {
+      for (const session of [sessionA, sessionB]) {
+        await fetch(`${url}/api/daemon/sessions/${session.id}`, { method: 'DELETE' });
+      }
+    }
+  });
+
+  it('passes only the documented request fields to the review', async () => {
+    const { url } = await start();
+
+    const response = await postSession(url, {
+      repoPath: '/work/app',
+      selection: { ...selection, pathspecs: ['src/'], extra: true },
+      contextLines: 1,
+      commentStoreDir: '/tmp/elsewhere',
+      noIndex: { oldPath: '/etc/passwd', newPath: '/etc/hosts' },
+    });
+
+    expect(response.status).toBe(200);
+    const [options] = vi.mocked(createReviewApp).mock.calls[0] ?? [];
+    expect(options).toMatchObject({
+      repoPath: '/work/app',
+      selection: { ...selection, pathspecs: ['src/'] },
+      contextLines: 1,
+      commentStoreDir: join('/work/app', '.git', 'difit'),
+    });
+    expect(options).not.toHaveProperty('noIndex');
+    expect(options?.selection).not.toHaveProperty('extra');
+  });
+
+  it('rejects session request fields of the wrong type', async () => {
+    const { url } = await start();
+
+    const [contextLines, ...others] = await Promise.all([
+      postSession(url, { repoPath: '/work/app', contextLines: '3' }),
+      postSession(url, { repoPath: '/work/app', clearComments: 'yes' }),
+      postSession(url, { repoPath: '/work/app', diffMode: 'everything' }),
+      postSession(url, { repoPath: '/work/app', interdiff: { oldTip: 'v1' } }),
+    ]);
+
+    expect([contextLines, ...others].map((response) => response.status)).toEqual([
+      400, 400, 400, 400,
+    ]);
+    expect(((await contextLines.json()) as { error: string }).error).toBe(
+      'Invalid session request field: contextLines',
+    );
+    expect(createReviewApp).not.toHaveBeenCalled();
+  });
+
+  it('rejects session requests without a repository', async () => {
+    const { url } = await start();
+
+    const response = await fetch(`${url}/api/daemon/sessions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ selection }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(createReviewApp).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,305 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { type Server } from 'http';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+import express from 'express';
+
+import type { BaseMode, CommitRange, DiffSelection, InterdiffRange } from '../types/diff.js';
+import { DiffMode } from '../types/watch.js';
+import { normalizeCommentImports } from '../utils/commentImports.js';
+import { getDiffSelectionKey } from '../utils/diffSelection.js';
+
+import { getDefaultCommentStoreDir } from './comment-store.js';
+import {
+  createReviewApp,
+  startServerWithFallback,
+  type ReviewApp,
+  type ServerOptions,
+} from './server.js';
+import { getUserConfigPath } from './user-config.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// Where a running daemon can be reached; written on start so commands can find it
+export interface DaemonInfo {
+  pid: number;
+  port: number;
+  url: string;
+}
+
+export interface DaemonSessionInfo {
+  id: string;
+  repoPath: string;
+  selection: DiffSelection;
+  url: string;
+  createdAt: string;
+}
+
+// What `difit --daemon` resolved from its arguments; the daemon owns port, browser, lifetime and
+// where comments are stored
+export type DaemonSessionRequest = Pick<
+  ServerOptions,
+  | 'commitRange'
+  | 'interdiff'
+  | 'ignoreWhitespace'
+  | 'clearComments'
+  | 'commentImports'
+  | 'diffMode'
+  | 'contextLines'
+  | 'commentNotes'
+> & { repoPath: string; selection: DiffSelection };
+
+interface DaemonOptions {
+  preferredPort?: number;
+  host?: string;
+  // Called once every session has stopped after a shutdown request
+  onShutdown?: () => void;
+}
+
+interface HostedSession {
+  info: DaemonSessionInfo;
+  review: ReviewApp;
+  commentNotes: boolean;
+}
+
+export function getDaemonInfoPath(): string {
+  return join(dirname(getUserConfigPath()), 'daemon.json');
+}
+
+export async function readDaemonInfo(
+  path: string = getDaemonInfoPath(),
+): Promise<DaemonInfo | null> {
+  try {
+    const parsed: unknown = JSON.parse(await fs.readFile(path, 'utf-8'));
+    if (
+      typeof parsed === 'object' &&
+      parsed !== null &&
+      typeof (parsed as DaemonInfo).pid === 'number' &&
+      typeof (parsed as DaemonInfo).port === 'number' &&
+      typeof (parsed as DaemonInfo).url === 'string'
+    ) {
+      const { pid, port, url } = parsed as DaemonInfo;
+      return { pid, port, url };
+    }
+  } catch {
+    // No daemon was started, or the file is unreadable.
+  }
+  return null;
+}
+
+// The same repository and selection always map to the same session, so asking twice reuses it
+export function getDaemonSessionId(repoPath: string, selection: DiffSelection): string {
+  return createHash('sha256')
+    .update(`${resolve(repoPath)}\u0000${getDiffSelectionKey(selection)}`)
+    .digest('hex')
+    .slice(0, 12);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isOptionalString = (value: unknown) => value === undefined || isString(value);
+
+const DIFF_MODES: ReadonlySet<unknown> = new Set(Object.values(DiffMode));
+const BASE_MODES: ReadonlySet<unknown> = new Set<BaseMode>(['direct', 'merge-base']);
+
+const isSelection = (value: unknown): value is DiffSelection =>
+  isRecord(value) &&
+  isString(value.baseCommitish) &&
+  isString(value.targetCommitish) &&
+  (value.baseMode === undefined || BASE_MODES.has(value.baseMode)) &&
+  (value.pathspecs === undefined ||
+    (Array.isArray(value.pathspecs) && value.pathspecs.every(isString)));
+
+const isCommitRange = (value: unknown): value is CommitRange =>
+  isRecord(value) && isString(value.baseCommitish) && isString(value.targetCommitish);
+
+const isInterdiffRange = (value: unknown): value is InterdiffRange =>
+  isRecord(value) &&
+  isString(value.oldTip) &&
+  isString(value.newTip) &&
+  isOptionalString(value.onto);
+
+const isContextLines = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isDiffMode = (value: unknown): value is DiffMode => DIFF_MODES.has(value);
+
+// Only the fields `difit --daemon` sends are copied, each checked against its type
+function parseSessionRequest(body: unknown): DaemonSessionRequest {
+  if (!isRecord(body)) {
+    throw new Error('Invalid session request');
+  }
+  const optional = <T>(field: string, isValid: (value: unknown) => value is T): T | undefined => {
+    const value = body[field];
+    if (value === undefined) return undefined;
+    if (!isValid(value)) throw new Error(`Invalid session request field: ${field}`);
+    return value;
+  };
+
+  const repoPath = optional('repoPath', isString);
+  if (!repoPath) {
+    throw new Error('Invalid session request field: repoPath');
+  }
+  const selection = optional('selection', isSelection);
+  if (!selection) {
+    throw new Error('Invalid session request field: selection');
+  }
+  const commitRange = optional('commitRange', isCommitRange);
+  const interdiff = optional('interdiff', isInterdiffRange);
+
+  return {
+    repoPath: resolve(repoPath),
+    selection: {
+      baseCommitish: selection.baseCommitish,
+      targetCommitish: selection.targetCommitish,
+      ...(selection.baseMode ? { baseMode: selection.baseMode } : {}),
+      ...(selection.pathspecs ? { pathspecs: selection.pathspecs } : {}),
+    },
+    commitRange: commitRange && {
+      baseCommitish: commitRange.baseCommitish,
+      targetCommitish: commitRange.targetCommitish,
+    },
+    interdiff: interdiff && {
+      oldTip: interdiff.oldTip,
+      newTip: interdiff.newTip,
+      ...(interdiff.onto !== undefined ? { onto: interdiff.onto } : {}),
+    },
+    ignoreWhitespace: optional('ignoreWhitespace', isBoolean),
+    clearComments: optional('clearComments', isBoolean),
+    commentNotes: optional('commentNotes', isBoolean),
+    contextLines: optional('contextLines', isContextLines),
+    diffMode: optional('diffMode', isDiffMode),
+    commentImports:
+      body.commentImports === undefined ? undefined : normalizeCommentImports(body.commentImports),
+  };
+}
+
+export async function startDaemon(
+  options: DaemonOptions = {},
+): Promise<{ port: number; url: string; server: Server }> {
+  const app = express();
+  const sessions = new Map<string, HostedSession>();
+  const infoPath = getDaemonInfoPath();
+  let baseUrl = '';
+
+  const stopSession = async (session: HostedSession) => {
+    sessions.delete(session.info.id);
+    await session.review.stop();
+  };
+
+  app.use('/api/daemon', express.json({ limit: '10mb' }));
+
+  app.get('/api/daemon/sessions', (_req, res) => {
+    res.json({ pid: process.pid, sessions: [...sessions.values()].map(({ info }) => info) });
+  });
+
+  app.post('/api/daemon/sessions', async (req, res) => {
+    let request: DaemonSessionRequest;
+    try {
+      request = parseSessionRequest(req.body);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+      return;
+    }
+
+    const id = getDaemonSessionId(request.repoPath, request.selection);
+    const existing = sessions.get(id);
+    if (existing) {
+      // Comments can join a running review, but its stored threads and notes were set up when it
+      // started
+      const restartFlag = request.clearComments
+        ? '--clean'
+        : request.commentNotes && !existing.commentNotes
+          ? '--notes'
+          : undefined;
+      if (restartFlag) {
+        res.status(409).json({
+          error: `The review ${id} of ${request.repoPath} is already running; stop it with \`difit stop ${id}\` to restart it with ${restartFlag}`,
+        });
+        return;
+      }
+      if (request.commentImports?.length) {
+        existing.review.importComments(request.commentImports);
+      }
+      res.json({ ...existing.info, created: false });
+      return;
+    }
+
+    try {
+      const review = await createReviewApp({
+        ...request,
+        commentStoreDir: await getDefaultCommentStoreDir(request.repoPath),
+        keepAlive: true,
+        openBrowser: false,
+      });
+      await review.startWatching();
+      const info: DaemonSessionInfo = {
+        id,
+        repoPath: request.repoPath,
+        selection: request.selection,
+        url: `${baseUrl}/s/${id}/`,
+        createdAt: new Date().toISOString(),
+      };
+      sessions.set(id, { info, review, commentNotes: Boolean(request.commentNotes) });
+      res.json({ ...info, created: true });
+    } catch (error) {
+      res.status(400).json({
+        error: error instanceof Error ? error.message : 'Failed to start the review',
+      });
+    }
+  });
+
+  app.delete('/api/daemon/sessions/:sessionId', async (req, res) => {
+    const session = sessions.get(req.params.sessionId);
+    if (!session) {
+      res.status(404).json({ error: `Session not found: ${req.params.sessionId}` });
+      return;
+    }
+    await stopSession(session);
+    res.json({ success: true, id: session.info.id });
+  });
+
+  app.post('/api/daemon/shutdown', async (_req, res) => {
+    const ids = [...sessions.keys()];
+    await Promise.all([...sessions.values()].map(stopSession));
+    await fs.rm(infoPath, { force: true });
+    res.json({ success: true, stopped: ids });
+    server.close();
+    options.onShutdown?.();
+  });
+
+  // Each review keeps its own routes; links into it need the trailing slash so the client can
+  // tell which session it belongs to
+  app.use('/s/:sessionId', (req, res, next) => {
+    const session = sessions.get(req.params.sessionId ?? '');
+    if (!session) {
+      res.status(404).json({ error: `Session not found: ${req.params.sessionId}` });
+      return;
+    }
+    if (req.originalUrl.split('?')[0] === `/s/${session.info.id}`) {
+      res.redirect(`/s/${session.info.id}/`);
+      return;
+    }
+    session.review.app(req, res, next);
+  });
+
+  // Pages under `/s/<sessionId>/` load the client's scripts and styles from the root
+  app.use(express.static(join(__dirname, '..', 'client'), { index: false }));
+
+  const { port, url, server } = await startServerWithFallback(
+    app,
+    options.preferredPort || 4966,
+    options.host || 'localhost',
+  );
+  baseUrl = url;
+
+  const info: DaemonInfo = { pid: process.pid, port, url };
+  await fs.mkdir(dirname(infoPath), { recursive: true });
+  await fs.writeFile(infoPath, `${JSON.stringify(info, null, 2)}\n`, 'utf-8');
+
+  return { port, url, server };
+}
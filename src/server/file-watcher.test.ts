@@ -123,6 +123,32 @@ describe('FileWatcherService', () => {
     });
   });
 
+  describe('switchMode', () => {
+    it('restarts the watchers for the new mode and keeps clients connected', async () => {
+      await fileWatcher.start(DiffMode.STAGED, TEST_REPO_PATH, 300);
+      fileWatcher.addClient(mockResponse);
+      vi.mocked(subscribe).mockClear();
+
+      await fileWatcher.switchMode(DiffMode.DEFAULT);
+
+      expect(mockSubscription.unsubscribe).toHaveBeenCalledTimes(1);
+      expect(subscribe).toHaveBeenCalledWith(
+        resolve(TEST_REPO_PATH, '.git'),
+        expect.any(Function),
+        { ignore: ['.git/objects/**', '.git/refs/**', 'node_modules/**'] },
+      );
+      expect(mockResponse.write).toHaveBeenLastCalledWith(
+        expect.stringContaining('"diffMode":"default"'),
+      );
+    });
+
+    it('does nothing when the watcher was never started', async () => {
+      await fileWatcher.switchMode(DiffMode.DEFAULT);
+
+      expect(subscribe).not.toHaveBeenCalled();
+    });
+  });
+
   describe('client management', () => {
     it('should add and remove clients', () => {
       const mockResponse1 = { write: vi.fn() } as unknown as Response;
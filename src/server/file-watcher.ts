@@ -197,6 +197,30 @@ export class FileWatcherService {
     }
   }
 
+  // Unlike start(), keeps open tabs connected and tells them about the new mode
+  async switchMode(diffMode: DiffMode): Promise<void> {
+    if (!this.config || this.config.diffMode === diffMode) {
+      return;
+    }
+
+    const clients = this.clients;
+    const { watchPath, debounceMs, onCacheInvalidate } = this.config;
+    await this.start(diffMode, watchPath, debounceMs, onCacheInvalidate);
+    this.clients = clients;
+    this.broadcast({
+      type: 'connected',
+      diffMode,
+      changeType: 'commit',
+      timestamp: new Date().toISOString(),
+      message: `Switched file watcher to ${diffMode} mode`,
+    });
+  }
+
+  // Announces changes difit made itself, even in modes where nothing is watched
+  notifyChange(): void {
+    this.debouncedBroadcast();
+  }
+
   private debouncedBroadcast(): void {
     if (this.debounceTimer) {
       clearTimeout(this.debounceTimer);
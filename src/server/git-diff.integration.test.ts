@@ -0,0 +1,127 @@
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { EMPTY_TREE_HASH } from '../utils/diffSelection';
+
+import { GitDiffParser } from './git-diff';
+
+// Runs against a real repository, where the other GitDiffParser tests mock git
+describe('GitDiffParser with git', () => {
+  let repoPath: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=difit', '-c', 'user.email=difit@example.com', ...args], {
+      cwd: repoPath,
+      encoding: 'utf8',
+    });
+
+  beforeEach(async () => {
+    repoPath = await fs.mkdtemp(join(tmpdir(), 'difit-git-diff-'));
+    git('init', '--quiet');
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('detects files copied from a file the diff also changes', async () => {
+    const source = Array.from(
+      { length: 20 },
+      (_, index) => `export const value${index} = ${index};`,
+    );
+    await fs.writeFile(join(repoPath, 'a.ts'), `${source.join('\n')}\n`);
+    git('add', 'a.ts');
+    git('commit', '-qm', 'Add a.ts');
+
+    await fs.copyFile(join(repoPath, 'a.ts'), join(repoPath, 'b.ts'));
+    await fs.appendFile(join(repoPath, 'a.ts'), 'export const extra = true;\n');
+    git('add', 'a.ts', 'b.ts');
+    git('commit', '-qm', 'Copy a.ts to b.ts');
+
+    const diff = await new GitDiffParser(repoPath).parseDiff({
+      baseCommitish: 'HEAD^',
+      targetCommitish: 'HEAD',
+    });
+
+    expect(diff.files.find((file) => file.path === 'b.ts')).toMatchObject({
+      oldPath: 'a.ts',
+      status: 'copied',
+      similarity: 100,
+    });
+  });
+
+  it('filters the untracked files of a stash by the pathspecs', async () => {
+    await fs.writeFile(join(repoPath, 'f.txt'), 'one\n');
+    git('add', 'f.txt');
+    git('commit', '-qm', 'Add f.txt');
+
+    await fs.writeFile(join(repoPath, 'f.txt'), 'two\n');
+    await fs.mkdir(join(repoPath, 'src'));
+    await fs.writeFile(join(repoPath, 'src', 'untracked.txt'), 'new\n');
+    await fs.writeFile(join(repoPath, 'untracked.txt'), 'new\n');
+    git('stash', 'push', '-q', '-u');
+
+    const diff = await new GitDiffParser(repoPath).parseDiff({
+      baseCommitish: 'stash@{0}^',
+      targetCommitish: 'stash@{0}',
+      pathspecs: ['f.txt', 'src'],
+    });
+
+    expect(diff.files.map((file) => file.path).sort()).toEqual(['f.txt', 'src/untracked.txt']);
+  });
+
+  it('diffs a root commit against the empty tree', async () => {
+    await fs.writeFile(join(repoPath, 'a.ts'), 'export const a = 1;\n');
+    git('add', 'a.ts');
+    git('commit', '-qm', 'Initial');
+
+    const parser = new GitDiffParser(repoPath);
+    const [rootCommit] = await parser.getRangeCommits({
+      baseCommitish: EMPTY_TREE_HASH,
+      targetCommitish: 'HEAD',
+    });
+    const diff = await parser.parseDiff({
+      baseCommitish: EMPTY_TREE_HASH,
+      targetCommitish: rootCommit?.shortHash ?? '',
+    });
+
+    expect(rootCommit).toMatchObject({ message: 'Initial', isRoot: true });
+    expect(diff.files).toMatchObject([{ path: 'a.ts', status: 'added' }]);
+  });
+
+  it('parses the patch-of-patch of a reworked commit from range-diff', async () => {
+    const lines = Array.from({ length: 10 }, (_, index) => `${index + 1}`);
+    await fs.writeFile(join(repoPath, 'f.txt'), `${lines.join('\n')}\n`);
+    git('add', 'f.txt');
+    git('commit', '-qm', 'Add f.txt');
+    git('branch', 'base');
+
+    await fs.writeFile(join(repoPath, 'f.txt'), `${lines.join('\n')}\neleven\n`);
+    git('commit', '-qam', 'Extend f.txt');
+    git('branch', 'v1');
+    git('reset', '-q', '--hard', 'base');
+    await fs.writeFile(join(repoPath, 'f.txt'), `${lines.join('\n')}\ntwelve\n`);
+    git('commit', '-qam', 'Extend f.txt');
+
+    const response = await new GitDiffParser(repoPath).parseRangeDiff({
+      oldTip: 'v1',
+      newTip: 'HEAD',
+      onto: 'base',
+    });
+
+    expect(response.pairs).toHaveLength(1);
+    expect(response.pairs[0]).toMatchObject({ status: 'modified', title: 'Extend f.txt' });
+    expect(response.pairs[0]?.lines).toEqual([
+      { type: 'hunk', content: '@@ f.txt' },
+      { type: 'normal', content: ' 8' },
+      { type: 'normal', content: ' 9' },
+      { type: 'normal', content: ' 10' },
+      { type: 'delete', content: '+eleven' },
+      { type: 'add', content: '+twelve' },
+    ]);
+  });
+});
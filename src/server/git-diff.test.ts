@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { resolve } from 'path';
 
+import { simpleGit } from 'simple-git';
+
 import { GitDiffParser } from './git-diff';
 
 const TEST_REPO_PATH = resolve('/test/repo');
@@ -29,11 +31,14 @@ vi.mock('child_process', async (importOriginal) => {
 // Mock fs
 vi.mock('fs', async (importOriginal) => {
   const actual = (await importOriginal()) as any;
-  return {
+  const mocked = {
     ...actual,
     readFileSync: vi.fn(),
     realpathSync: vi.fn((path: string) => path),
+    statSync: vi.fn(() => ({ isFile: () => false })),
   };
+  // Named imports of a builtin resolve through its default export
+  return { ...mocked, default: mocked };
 });
 
 describe('GitDiffParser', () => {
@@ -87,6 +92,7 @@ describe('GitDiffParser', () => {
       const result = await parser.getBlobContent('test.txt', 'staged');
 
       expect(mockExecFileSync).toHaveBeenCalledWith('git', ['show', ':test.txt'], {
+        cwd: TEST_REPO_PATH,
         maxBuffer: 10 * 1024 * 1024,
       });
       expect(result).toBe(mockBuffer);
@@ -103,10 +109,12 @@ describe('GitDiffParser', () => {
       const result = await parser.getBlobContent('test.txt', 'HEAD');
 
       expect(mockExecFileSync).toHaveBeenCalledWith('git', ['rev-parse', 'HEAD:test.txt'], {
+        cwd: TEST_REPO_PATH,
         encoding: 'utf8',
         maxBuffer: 10 * 1024 * 1024,
       });
       expect(mockExecFileSync).toHaveBeenCalledWith('git', ['cat-file', 'blob', blobHash], {
+        cwd: TEST_REPO_PATH,
         maxBuffer: 10 * 1024 * 1024,
       });
       expect(result).toBe(mockBuffer);
@@ -214,6 +222,7 @@ describe('GitDiffParser', () => {
         deletions: 0,
         chunks: [], // Binary files should have empty chunks
         isGenerated: false,
+        newMode: '100644',
       });
     });
 
@@ -244,6 +253,7 @@ describe('GitDiffParser', () => {
         deletions: 0,
         chunks: [],
         isGenerated: false,
+        oldMode: '100644',
       });
     });
 
@@ -273,6 +283,8 @@ describe('GitDiffParser', () => {
         deletions: 0,
         chunks: [],
         isGenerated: false,
+        oldMode: '100644',
+        newMode: '100644',
       });
     });
 
@@ -302,6 +314,7 @@ describe('GitDiffParser', () => {
         deletions: 0,
         chunks: [],
         isGenerated: false,
+        similarity: 100,
       });
     });
 
@@ -334,6 +347,8 @@ describe('GitDiffParser', () => {
         deletions: 0,
         chunks: expect.any(Array), // Should have parsed chunks
         isGenerated: false,
+        oldMode: '100644',
+        newMode: '100644',
       });
 
       // Verify chunks were parsed
@@ -370,6 +385,8 @@ describe('GitDiffParser', () => {
         deletions: 1,
         chunks: expect.any(Array),
         isGenerated: false,
+        oldMode: '100644',
+        newMode: '100644',
       });
     });
 
@@ -420,6 +437,141 @@ describe('GitDiffParser', () => {
       expect(result.status).toBe('deleted');
       expect(result.isGenerated).toBe(false);
     });
+
+    it('keeps mode-only changes as modified entries with both modes', () => {
+      const diffLines = ['diff --git a/bin/run b/bin/run', 'old mode 100644', 'new mode 100755'];
+
+      const result = (parser as any).parseFileBlock(diffLines.join('\n'));
+
+      expect(result).toMatchObject({
+        path: 'bin/run',
+        status: 'modified',
+        oldMode: '100644',
+        newMode: '100755',
+        chunks: [],
+      });
+    });
+
+    it('parses copies with their source and similarity', () => {
+      const diffLines = [
+        'diff --git a/src/a.ts b/src/b.ts',
+        'similarity index 87%',
+        'copy from src/a.ts',
+        'copy to src/b.ts',
+        'index abc123..def456 100644',
+        '--- a/src/a.ts',
+        '+++ b/src/b.ts',
+        '@@ -1 +1 @@',
+        '-a',
+        '+b',
+      ];
+
+      const result = (parser as any).parseFileBlock(diffLines.join('\n'));
+
+      expect(result).toMatchObject({
+        path: 'src/b.ts',
+        oldPath: 'src/a.ts',
+        status: 'copied',
+        similarity: 87,
+      });
+    });
+
+    it('marks a changed object type as typechanged', () => {
+      const diffLines = ['diff --git a/link b/link', 'old mode 100644', 'new mode 120000'];
+
+      const result = (parser as any).parseFileBlock(diffLines.join('\n'));
+
+      expect(result.status).toBe('typechanged');
+    });
+
+    it('merges the deletion and addition git prints for a type change', () => {
+      const diffText = [
+        'diff --git a/link b/link',
+        'deleted file mode 100644',
+        'index 45b983b..0000000',
+        '--- a/link',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-hi',
+        'diff --git a/link b/link',
+        'new file mode 120000',
+        'index 0000000..63d8dbd',
+        '--- /dev/null',
+        '+++ b/link',
+        '@@ -0,0 +1 @@',
+        '+target',
+        'diff --git a/other.txt b/other.txt',
+        'new file mode 100644',
+        'index 0000000..1275430',
+        '--- /dev/null',
+        '+++ b/other.txt',
+        '@@ -0,0 +1 @@',
+        '+other',
+      ].join('\n');
+
+      const files = (parser as any).parseUnifiedDiff(diffText);
+
+      expect(files).toHaveLength(2);
+      expect(files[0]).toMatchObject({
+        path: 'link',
+        status: 'typechanged',
+        oldMode: '100644',
+        newMode: '120000',
+        additions: 1,
+        deletions: 1,
+      });
+      expect(files[0].chunks).toHaveLength(2);
+      expect(files[1]).toMatchObject({ path: 'other.txt', status: 'added' });
+    });
+
+    it('detects submodule pointer changes', () => {
+      const diffLines = [
+        'diff --git a/vendor/lib b/vendor/lib',
+        'index 1111111..2222222 160000',
+        '--- a/vendor/lib',
+        '+++ b/vendor/lib',
+        '@@ -1 +1 @@',
+        '-Subproject commit 1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+        '+Subproject commit 2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb-dirty',
+      ];
+
+      const summary = { file: 'vendor/lib', insertions: 1, deletions: 1, binary: false };
+
+      const result = (parser as any).parseFileBlock(diffLines.join('\n'), summary);
+
+      expect(result).toEqual({
+        path: 'vendor/lib',
+        status: 'submodule',
+        additions: 0,
+        deletions: 0,
+        chunks: [],
+        submodule: {
+          oldCommit: '1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+          newCommit: '2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+        },
+      });
+    });
+
+    it('leaves the old commit out for newly added submodules', () => {
+      const diffLines = [
+        'diff --git a/vendor/lib b/vendor/lib',
+        'new file mode 160000',
+        'index 0000000..2222222',
+        '--- /dev/null',
+        '+++ b/vendor/lib',
+        '@@ -0,0 +1 @@',
+        '+Subproject commit 2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+      ];
+
+      const summary = { file: 'vendor/lib', insertions: 1, deletions: 0, binary: false };
+
+      const result = (parser as any).parseFileBlock(diffLines.join('\n'), summary);
+
+      expect(result.status).toBe('submodule');
+      expect(result.submodule).toEqual({
+        newCommit: '2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+      });
+    });
   });
 
   describe('parseFileBlock with quoted paths', () => {
@@ -1180,6 +1332,74 @@ index abc123..def456 100644
     });
   });
 
+  describe('parseStdinPatchSeries', () => {
+    it('returns one diff per patch, led by its commit message', () => {
+      const fileDiff = `diff --git a/test.txt b/test.txt
+index abc123..def456 100644
+--- a/test.txt
++++ b/test.txt
+@@ -1 +1 @@
+-old line
++new line`;
+      const input = `commit 2222222222222222222222222222222222222222
+Author: Jane Doe <jane@example.com>
+Date:   Tue Jan 2 10:00:00 2024 +0000
+
+    Second change
+
+${fileDiff}
+
+commit 1111111111111111111111111111111111111111
+Author: Jane Doe <jane@example.com>
+Date:   Mon Jan 1 10:00:00 2024 +0000
+
+    First change
+
+${fileDiff}`;
+
+      const result = parser.parseStdinPatchSeries(input);
+
+      expect(result).toHaveLength(2);
+      expect(result[1]).toMatchObject({
+        commit: 'First change',
+        baseCommitish: 'stdin',
+        targetCommitish: 'stdin:patch-2',
+        requestedTargetCommitish: 'stdin:patch-2',
+      });
+      expect(result[1].files.map((file) => file.path)).toEqual(['COMMIT_MSG', 'test.txt']);
+      expect(result[1].files[1]).toMatchObject({ additions: 1, deletions: 1 });
+      expect(result[0].patchSeries?.map(({ ref, subject }) => ({ ref, subject }))).toEqual([
+        { ref: 'stdin:patch-1', subject: 'Second change' },
+        { ref: 'stdin:patch-2', subject: 'First change' },
+      ]);
+    });
+
+    it('returns nothing for a single plain diff', () => {
+      expect(parser.parseStdinPatchSeries('diff --git a/x b/x')).toEqual([]);
+    });
+
+    it('leaves a single commit to the plain stdin diff', () => {
+      const input = `commit 1111111111111111111111111111111111111111
+Author: Jane Doe <jane@example.com>
+Date:   Mon Jan 1 10:00:00 2024 +0000
+
+    Only change
+
+diff --git a/test.txt b/test.txt
+index abc123..def456 100644
+--- a/test.txt
++++ b/test.txt
+@@ -1 +1 @@
+-old line
++new line`;
+
+      expect(parser.parseStdinPatchSeries(input)).toEqual([]);
+      expect(parser.parseStdinDiff(input).files).toMatchObject([
+        { path: 'test.txt', additions: 1, deletions: 1 },
+      ]);
+    });
+  });
+
   describe('countLinesFromChunks', () => {
     it('should count additions and deletions correctly', () => {
       const chunks = [
@@ -1489,6 +1709,7 @@ index abc123..def456 100644
         '-U5',
         '--no-ext-diff',
         '--color=never',
+        '--find-copies',
       ]);
       expect(response).toEqual({
         commit: 'abcdef1...1234567',
@@ -1508,6 +1729,7 @@ index abc123..def456 100644
 
       gitRevparse
         .mockResolvedValueOnce('1234567890abcdef1234567890abcdef12345678')
+        .mockResolvedValueOnce('abcdef1234567890abcdef1234567890abcdef12')
         .mockResolvedValueOnce('abcdef1234567890abcdef1234567890abcdef12');
       gitDiff.mockResolvedValue('');
 
@@ -1523,6 +1745,7 @@ index abc123..def456 100644
         '1234567890abcdef1234567890abcdef12345678',
         '--no-ext-diff',
         '--color=never',
+        '--find-copies',
       ]);
       expect(response).toEqual({
         commit: 'abcdef1...1234567',
@@ -1536,6 +1759,34 @@ index abc123..def456 100644
       });
     });
 
+    it('limits the diff to the given pathspecs', async () => {
+      const gitDiff = (parser as any).git.diff;
+      const gitRevparse = (parser as any).git.revparse;
+
+      gitRevparse
+        .mockResolvedValueOnce('1234567890abcdef1234567890abcdef12345678')
+        .mockResolvedValueOnce('abcdef1234567890abcdef1234567890abcdef12');
+      gitDiff.mockResolvedValue('');
+
+      const response = await parser.parseDiff({
+        targetCommitish: 'HEAD',
+        baseCommitish: 'HEAD~1',
+        pathspecs: ['packages/app', ':!*.snap'],
+      });
+
+      expect(gitDiff).toHaveBeenCalledWith([
+        'abcdef1234567890abcdef1234567890abcdef12',
+        '1234567890abcdef1234567890abcdef12345678',
+        '--no-ext-diff',
+        '--color=never',
+        '--find-copies',
+        '--',
+        'packages/app',
+        ':!*.snap',
+      ]);
+      expect(response.requestedPathspecs).toEqual(['packages/app', ':!*.snap']);
+    });
+
     it('uses merge-base when baseMode is merge-base', async () => {
       const gitDiff = (parser as any).git.diff;
       const gitRevparse = (parser as any).git.revparse;
@@ -1556,6 +1807,7 @@ index abc123..def456 100644
         'fedcba9876543210fedcba9876543210fedcba98',
         '--no-ext-diff',
         '--color=never',
+        '--find-copies',
       ]);
       expect(response).toEqual({
         commit: 'fedcba9 vs Working Directory (all uncommitted changes)',
@@ -1569,4 +1821,670 @@ index abc123..def456 100644
       });
     });
   });
+
+  describe('stashes', () => {
+    const baseHash = 'abcdef1234567890abcdef1234567890abcdef12';
+    const stashHash = '1234567890abcdef1234567890abcdef12345678';
+    const untrackedHash = 'fedcba9876543210fedcba9876543210fedcba98';
+    const untrackedDiff = [
+      'diff --git a/notes.txt b/notes.txt',
+      'new file mode 100644',
+      'index 0000000..def456',
+      '--- /dev/null',
+      '+++ b/notes.txt',
+      '@@ -0,0 +1 @@',
+      '+todo',
+    ].join('\n');
+
+    it('includes untracked files stored in the third parent of a stash', async () => {
+      const gitDiff = (parser as any).git.diff;
+      const gitRevparse = (parser as any).git.revparse;
+      const gitRaw = (parser as any).git.raw;
+
+      gitRevparse
+        .mockResolvedValueOnce(stashHash)
+        .mockResolvedValueOnce(baseHash)
+        .mockResolvedValueOnce(baseHash)
+        .mockResolvedValueOnce(untrackedHash);
+      gitDiff.mockResolvedValueOnce('').mockResolvedValueOnce(untrackedDiff);
+      gitRaw.mockResolvedValue('');
+
+      const response = await parser.parseDiff({
+        targetCommitish: 'stash@{0}',
+        baseCommitish: 'stash@{0}^',
+      });
+
+      expect(gitRevparse).toHaveBeenNthCalledWith(3, ['stash@{0}^1']);
+      expect(gitRevparse).toHaveBeenNthCalledWith(4, ['stash@{0}^3']);
+      expect(gitDiff).toHaveBeenNthCalledWith(2, [
+        '4b825dc642cb6eb9a060e54bf8d69288fbee4904',
+        untrackedHash,
+        '--no-ext-diff',
+        '--color=never',
+        '--find-copies',
+      ]);
+      expect(response.files).toHaveLength(1);
+      expect(response.files[0]).toMatchObject({ path: 'notes.txt', status: 'added' });
+    });
+
+    it('skips untracked files when the stash has none', async () => {
+      const gitDiff = (parser as any).git.diff;
+      const gitRevparse = (parser as any).git.revparse;
+
+      gitRevparse
+        .mockResolvedValueOnce(stashHash)
+        .mockResolvedValueOnce(baseHash)
+        .mockResolvedValueOnce(baseHash)
+        .mockRejectedValueOnce(new Error('unknown revision'));
+      gitDiff.mockResolvedValue('');
+
+      const response = await parser.parseDiff({
+        targetCommitish: 'stash@{0}',
+        baseCommitish: 'stash@{0}^',
+      });
+
+      expect(gitDiff).toHaveBeenCalledTimes(1);
+      expect(response.isEmpty).toBe(true);
+    });
+
+    it('does not add untracked files to the index part', async () => {
+      const gitDiff = (parser as any).git.diff;
+      const gitRevparse = (parser as any).git.revparse;
+
+      gitRevparse.mockResolvedValueOnce(stashHash).mockResolvedValueOnce(baseHash);
+      gitDiff.mockResolvedValue('');
+
+      await parser.parseDiff({
+        targetCommitish: 'stash@{0}^2',
+        baseCommitish: 'stash@{0}^',
+      });
+
+      expect(gitRevparse).toHaveBeenCalledTimes(2);
+      expect(gitDiff).toHaveBeenCalledTimes(1);
+    });
+
+    it('lists stash entries', async () => {
+      const gitRaw = (parser as any).git.raw;
+      gitRaw.mockResolvedValue(
+        [
+          `stash@{0}\0${stashHash}\0WIP on main: abcdef1 Add parser`,
+          `stash@{1}\0${untrackedHash}\0On main: experiment`,
+          '',
+        ].join('\n'),
+      );
+
+      const stashes = await parser.getStashes();
+
+      expect(gitRaw).toHaveBeenCalledWith(['stash', 'list', '--format=%gd%x00%H%x00%s']);
+      expect(stashes).toEqual([
+        {
+          ref: 'stash@{0}',
+          hash: stashHash,
+          shortHash: '1234567',
+          message: 'WIP on main: abcdef1 Add parser',
+        },
+        {
+          ref: 'stash@{1}',
+          hash: untrackedHash,
+          shortHash: 'fedcba9',
+          message: 'On main: experiment',
+        },
+      ]);
+    });
+  });
+
+  describe('merge commits', () => {
+    const MERGE = 'aaaaaaa1111111111111111111111111111111111';
+    const PARENT_1 = 'bbbbbbb1111111111111111111111111111111111';
+    const PARENT_2 = 'ccccccc1111111111111111111111111111111111';
+
+    it('parses the combined diff with one column per parent', async () => {
+      const gitRevparse = (parser as any).git.revparse;
+      const gitDiff = (parser as any).git.diff;
+      (parser as any).git.raw.mockResolvedValue('');
+      gitRevparse.mockResolvedValueOnce(MERGE).mockResolvedValueOnce(`${PARENT_1}\n${PARENT_2}`);
+      gitDiff.mockResolvedValue(
+        [
+          'diff --cc f.txt',
+          'index a225f43,9e65ed9..4062d2d',
+          '--- a/f.txt',
+          '+++ b/f.txt',
+          '@@@ -1,3 -1,3 +1,3 @@@',
+          '  one',
+          '- TWO main',
+          ' -TWO side',
+          '++TWO resolved',
+          ' +three',
+          'diff --cc new.txt',
+          'index 0000000,0000000..75a5555',
+          'new file mode 100644',
+          '--- /dev/null',
+          '+++ b/new.txt',
+          '@@@ -1,0 -1,0 +1,1 @@@',
+          '++evil',
+        ].join('\n'),
+      );
+
+      const response = await parser.parseDiff({
+        baseCommitish: 'HEAD^@',
+        targetCommitish: 'HEAD',
+      });
+
+      expect(gitDiff).toHaveBeenCalledWith([
+        '--cc',
+        MERGE,
+        PARENT_1,
+        PARENT_2,
+        '--no-ext-diff',
+        '--color=never',
+        '--find-copies',
+      ]);
+      expect(response).toMatchObject({
+        commit: 'aaaaaaa (combined diff against bbbbbbb, ccccccc)',
+        baseCommitish: 'bbbbbbb',
+        targetCommitish: 'aaaaaaa',
+        requestedBaseCommitish: 'HEAD^@',
+        mergeParents: ['bbbbbbb', 'ccccccc'],
+      });
+      expect(response.files.map(({ path, status }) => ({ path, status }))).toEqual([
+        { path: 'f.txt', status: 'modified' },
+        { path: 'new.txt', status: 'added' },
+      ]);
+
+      const [chunk] = response.files[0].chunks;
+      expect(chunk).toMatchObject({ oldStart: 1, oldLines: 3, newStart: 1, parentStarts: [1, 1] });
+      expect(chunk.lines).toEqual([
+        { type: 'normal', content: 'one', oldLineNumber: 1, newLineNumber: 1, parentMarkers: '  ' },
+        { type: 'delete', content: 'TWO main', oldLineNumber: 2, parentMarkers: '- ' },
+        { type: 'delete', content: 'TWO side', parentMarkers: ' -' },
+        { type: 'add', content: 'TWO resolved', newLineNumber: 2, parentMarkers: '++' },
+        { type: 'add', content: 'three', oldLineNumber: 3, newLineNumber: 3, parentMarkers: ' +' },
+      ]);
+      expect(response.files[0]).toMatchObject({ additions: 2, deletions: 2 });
+    });
+
+    it('diffs a remerge of the parents against the merge', async () => {
+      const gitRevparse = (parser as any).git.revparse;
+      const gitDiff = (parser as any).git.diff;
+      const gitRaw = (parser as any).git.raw;
+      const remergeTree = 'ddddddd1111111111111111111111111111111111';
+      gitRevparse.mockResolvedValueOnce(MERGE).mockResolvedValueOnce(`${PARENT_1}\n${PARENT_2}`);
+      gitRaw
+        .mockResolvedValueOnce(`${remergeTree}\n100644 b2f931a 1\tf.txt\n`)
+        .mockResolvedValue('');
+      gitDiff.mockResolvedValue('');
+
+      const response = await parser.parseDiff({
+        baseCommitish: 'remerge:HEAD',
+        targetCommitish: 'HEAD',
+      });
+
+      expect(gitRaw).toHaveBeenCalledWith([
+        'merge-tree',
+        '--write-tree',
+        '--no-messages',
+        'bbbbbbb',
+        'ccccccc',
+      ]);
+      expect(gitDiff).toHaveBeenCalledWith([
+        remergeTree,
+        MERGE,
+        '--no-ext-diff',
+        '--color=never',
+        '--find-copies',
+      ]);
+      expect(response).toMatchObject({
+        commit: 'aaaaaaa (remerge diff of bbbbbbb, ccccccc)',
+        baseCommitish: 'ddddddd',
+        requestedBaseCommitish: 'remerge:HEAD',
+      });
+    });
+
+    it('lists the parents when a merge is viewed against one of them', async () => {
+      const gitRevparse = (parser as any).git.revparse;
+      (parser as any).git.diff.mockResolvedValue('');
+      gitRevparse
+        .mockResolvedValueOnce(MERGE)
+        .mockResolvedValueOnce(PARENT_2)
+        .mockResolvedValueOnce(`${PARENT_1}\n${PARENT_2}`);
+
+      const response = await parser.parseDiff({
+        baseCommitish: 'HEAD^2',
+        targetCommitish: 'HEAD',
+      });
+
+      expect(gitRevparse).toHaveBeenLastCalledWith([`${MERGE}^@`]);
+      expect(response).toMatchObject({
+        baseCommitish: 'ccccccc',
+        mergeParents: ['bbbbbbb', 'ccccccc'],
+      });
+    });
+
+    it('rejects the combined view of a regular commit', async () => {
+      const gitRevparse = (parser as any).git.revparse;
+      gitRevparse.mockResolvedValueOnce(MERGE).mockResolvedValueOnce(PARENT_1);
+
+      await expect(
+        parser.parseDiff({ baseCommitish: 'HEAD^@', targetCommitish: 'HEAD' }),
+      ).rejects.toThrow('HEAD is not a merge commit');
+    });
+  });
+
+  describe('parseSubmoduleDiff', () => {
+    const oldCommit = '1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+    const newCommit = '2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+
+    const mockSubmoduleGit = () => {
+      const submoduleGit = { revparse: vi.fn(), diff: vi.fn(), raw: vi.fn() };
+      vi.mocked(simpleGit).mockReturnValueOnce(submoduleGit as any);
+      return submoduleGit;
+    };
+
+    it('diffs the two commits inside the submodule repository', async () => {
+      const submoduleGit = mockSubmoduleGit();
+      submoduleGit.revparse.mockResolvedValueOnce(newCommit).mockResolvedValueOnce(oldCommit);
+      submoduleGit.diff.mockResolvedValue(
+        [
+          'diff --git a/src/index.ts b/src/index.ts',
+          'index abc123..def456 100644',
+          '--- a/src/index.ts',
+          '+++ b/src/index.ts',
+          '@@ -1 +1 @@',
+          '-old',
+          '+new',
+        ].join('\n'),
+      );
+      submoduleGit.raw.mockResolvedValue('');
+
+      const response = await parser.parseSubmoduleDiff('vendor/lib', { oldCommit, newCommit });
+
+      expect(simpleGit).toHaveBeenLastCalledWith(resolve(TEST_REPO_PATH, 'vendor/lib'));
+      expect(submoduleGit.diff).toHaveBeenCalledWith([
+        oldCommit,
+        newCommit,
+        '--no-ext-diff',
+        '--color=never',
+        '--find-copies',
+      ]);
+      expect(response.files).toHaveLength(1);
+      expect(response.files[0]).toMatchObject({ path: 'src/index.ts', status: 'modified' });
+    });
+
+    it('diffs against the empty tree when the submodule was added', async () => {
+      const submoduleGit = mockSubmoduleGit();
+      submoduleGit.revparse
+        .mockResolvedValueOnce(newCommit)
+        .mockResolvedValueOnce('4b825dc642cb6eb9a060e54bf8d69288fbee4904');
+      submoduleGit.diff.mockResolvedValue('');
+
+      await parser.parseSubmoduleDiff('vendor/lib', { newCommit });
+
+      expect(submoduleGit.diff).toHaveBeenCalledWith([
+        '4b825dc642cb6eb9a060e54bf8d69288fbee4904',
+        newCommit,
+        '--no-ext-diff',
+        '--color=never',
+        '--find-copies',
+      ]);
+    });
+
+    it('rejects submodule paths outside the repository', async () => {
+      await expect(
+        parser.parseSubmoduleDiff('../outside', { oldCommit, newCommit }),
+      ).rejects.toThrow('Failed to load submodule diff for ../outside');
+    });
+  });
+
+  describe('parseNoIndexDiff', () => {
+    const noIndex = { oldPath: 'out-old', newPath: 'out-new' };
+    // git prints absolute roots without their leading slash
+    const oldRoot = resolve('out-old').replace(/\\/g, '/').replace(/^\/+/, '');
+    const newRoot = resolve('out-new').replace(/\\/g, '/').replace(/^\/+/, '');
+
+    it('strips the two roots so both sides share one path', async () => {
+      const noIndexParser = new GitDiffParser(TEST_REPO_PATH, noIndex);
+      const gitDiff = (noIndexParser as any).git.diff;
+      gitDiff.mockResolvedValue(
+        [
+          `diff --git a/${oldRoot}/src/index.js b/${newRoot}/src/index.js`,
+          'index abc123..def456 100644',
+          `--- a/${oldRoot}/src/index.js`,
+          `+++ b/${newRoot}/src/index.js`,
+          '@@ -1 +1 @@',
+          '-old',
+          '+new',
+          `diff --git a/${oldRoot}/gone.js b/${oldRoot}/gone.js`,
+          'deleted file mode 100644',
+          'index abc123..0000000',
+          `--- a/${oldRoot}/gone.js`,
+          '+++ /dev/null',
+          '@@ -1 +0,0 @@',
+          '-gone',
+        ].join('\n'),
+      );
+
+      const response = await noIndexParser.parseNoIndexDiff(true, 5);
+
+      expect(gitDiff).toHaveBeenCalledWith([
+        '--no-index',
+        '--no-ext-diff',
+        '--color=never',
+        '-w',
+        '-U5',
+        '--',
+        resolve('out-old'),
+        resolve('out-new'),
+      ]);
+      expect(response).toMatchObject({
+        commit: 'out-old vs out-new',
+        baseCommitish: 'out-old',
+        targetCommitish: 'out-new',
+      });
+      expect(
+        response.files.map(({ path, oldPath, status }) => ({ path, oldPath, status })),
+      ).toEqual([
+        { path: 'src/index.js', oldPath: undefined, status: 'modified' },
+        { path: 'gone.js', oldPath: undefined, status: 'deleted' },
+      ]);
+    });
+
+    it('reads blobs from the root named by the ref', async () => {
+      const noIndexParser = new GitDiffParser(TEST_REPO_PATH, noIndex);
+      mockReadFileSync.mockReturnValue(Buffer.from('content'));
+
+      const result = await noIndexParser.getBlobContent('src/index.js', 'out-old');
+
+      expect(result.toString()).toBe('content');
+      expect(mockReadFileSync).toHaveBeenCalledWith(resolve('out-old', 'src/index.js'));
+      await expect(noIndexParser.getBlobContent('src/index.js', 'HEAD')).rejects.toThrow(
+        'Unknown --no-index path: HEAD',
+      );
+      await expect(noIndexParser.getBlobContent('../secret.txt', 'out-new')).rejects.toThrow(
+        'File path outside repository',
+      );
+    });
+  });
+
+  describe('getFileHistory', () => {
+    it('follows the file across renames', async () => {
+      const gitRaw = (parser as any).git.raw;
+      gitRaw.mockResolvedValue(
+        [
+          '\x1e3333333ccccccccccccccccccccccccccccccccc\0Alice\x001710000000\0Tweak parser',
+          '',
+          'M\tsrc/parser.ts',
+          '\x1e2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb\0Bob\x001705000000\0Move parser',
+          '',
+          'R100\tlib/parser.ts\tsrc/parser.ts',
+          '\x1e1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\0Alice\x001700000000\0Add parser',
+          '',
+          'A\t"lib/parser \\"v1\\".ts"',
+          '',
+        ].join('\n'),
+      );
+
+      const history = await parser.getFileHistory('src/parser.ts');
+
+      expect(gitRaw).toHaveBeenCalledWith([
+        'log',
+        '--follow',
+        '--name-status',
+        '--format=%x1e%H%x00%an%x00%at%x00%s',
+        '--',
+        'src/parser.ts',
+      ]);
+      expect(history).toEqual([
+        {
+          hash: '3333333ccccccccccccccccccccccccccccccccc',
+          shortHash: '3333333',
+          author: 'Alice',
+          authorTime: 1710000000,
+          summary: 'Tweak parser',
+          path: 'src/parser.ts',
+        },
+        {
+          hash: '2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+          shortHash: '2222222',
+          author: 'Bob',
+          authorTime: 1705000000,
+          summary: 'Move parser',
+          path: 'src/parser.ts',
+          oldPath: 'lib/parser.ts',
+        },
+        {
+          hash: '1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+          shortHash: '1111111',
+          author: 'Alice',
+          authorTime: 1700000000,
+          summary: 'Add parser',
+          path: 'lib/parser "v1".ts',
+        },
+      ]);
+    });
+
+    it('rejects paths outside the repository', async () => {
+      await expect(parser.getFileHistory('../secret.txt')).rejects.toThrow(
+        'File path outside repository',
+      );
+    });
+  });
+
+  describe('getRangeCommits', () => {
+    it('lists commits in the range oldest first', async () => {
+      const gitRaw = (parser as any).git.raw;
+      gitRaw.mockResolvedValue(
+        [
+          '1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\0\0feat: add parser',
+          '2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb\x001111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\0fix: handle empty input',
+          '',
+        ].join('\n'),
+      );
+
+      const commits = await parser.getRangeCommits({
+        baseCommitish: 'main',
+        targetCommitish: 'feature',
+      });
+
+      expect(gitRaw).toHaveBeenCalledWith([
+        'log',
+        '--reverse',
+        '--format=%H%x00%P%x00%s',
+        'main..feature',
+        '--',
+      ]);
+      expect(commits).toEqual([
+        {
+          hash: '1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+          shortHash: '1111111',
+          message: 'feat: add parser',
+          isRoot: true,
+        },
+        {
+          hash: '2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+          shortHash: '2222222',
+          message: 'fix: handle empty input',
+        },
+      ]);
+    });
+
+    it('returns an empty list when the range has no commits', async () => {
+      const gitRaw = (parser as any).git.raw;
+      gitRaw.mockResolvedValue('');
+
+      await expect(
+        parser.getRangeCommits({ baseCommitish: 'main', targetCommitish: 'main' }),
+      ).resolves.toEqual([]);
+    });
+  });
+
+  describe('getBlame', () => {
+    const porcelain = [
+      '1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa 1 1 2',
+      'author Alice',
+      'author-mail <alice@example.com>',
+      'author-time 1700000000',
+      'author-tz +0000',
+      'summary Add parser',
+      'filename src/parser.ts',
+      '\tconst a = 1;',
+      '1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa 2 2',
+      '\tconst b = 2;',
+      '2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb 5 3 1',
+      'author Bob',
+      'author-time 1710000000',
+      'summary Handle empty input',
+      'previous 1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa src/parser.ts',
+      'filename src/parser.ts',
+      '\tconst c = 3;',
+      '',
+    ].join('\n');
+
+    it('maps each line to the commit that last touched it', async () => {
+      const gitRaw = (parser as any).git.raw;
+      gitRaw.mockResolvedValue(porcelain);
+
+      const blame = await parser.getBlame('src/parser.ts', 'main');
+
+      expect(gitRaw).toHaveBeenCalledWith(['blame', '--porcelain', 'main', '--', 'src/parser.ts']);
+      expect(blame).toEqual({
+        commits: [
+          {
+            hash: '1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+            shortHash: '1111111',
+            author: 'Alice',
+            authorTime: 1700000000,
+            summary: 'Add parser',
+          },
+          {
+            hash: '2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+            shortHash: '2222222',
+            author: 'Bob',
+            authorTime: 1710000000,
+            summary: 'Handle empty input',
+          },
+        ],
+        lines: [0, 0, 1],
+      });
+    });
+
+    it('blames the working tree file without a revision', async () => {
+      const gitRaw = (parser as any).git.raw;
+      gitRaw.mockResolvedValue('');
+
+      await expect(parser.getBlame('src/parser.ts', 'working')).resolves.toEqual({
+        commits: [],
+        lines: [],
+      });
+      expect(gitRaw).toHaveBeenCalledWith(['blame', '--porcelain', '--', 'src/parser.ts']);
+    });
+
+    it('rejects option-like refs and paths outside the repository', async () => {
+      await expect(parser.getBlame('src/parser.ts', '--contents=/etc/passwd')).rejects.toThrow(
+        'Invalid ref',
+      );
+      await expect(parser.getBlame('../secret.txt', 'HEAD')).rejects.toThrow(
+        'File path outside repository',
+      );
+    });
+  });
+
+  describe('parseRangeDiff', () => {
+    const rangeDiffOutput = [
+      '-:  ------- > 1:  0ddba11 Prepare for the inevitable!',
+      '1:  c0debee = 2:  cab005e Add a helpful message at the start',
+      '2:  f00dba1 ! 3:  decafe1 Describe a bug',
+      '    @@ Metadata',
+      '     Author: A U Thor <author@example.com>',
+      '    ',
+      '    @@ src/bug.ts: export function crash()',
+      '      return null;',
+      '    -+  throw new Error("unexpected");',
+      '    ++  throw new Error("unexpected crash");',
+      '3:  bedead0 < -:  ------- TO-UNDO',
+      '',
+    ].join('\n');
+
+    it('runs range-diff against --onto and parses the commit pairs', async () => {
+      const gitRaw = (parser as any).git.raw;
+      gitRaw.mockResolvedValue(rangeDiffOutput);
+
+      const response = await parser.parseRangeDiff({
+        oldTip: 'feature-v1',
+        newTip: 'feature',
+        onto: 'main',
+      });
+
+      expect(gitRaw).toHaveBeenCalledWith([
+        'range-diff',
+        '--no-color',
+        'main..feature-v1',
+        'main..feature',
+      ]);
+      expect(response.oldTip).toBe('feature-v1');
+      expect(response.onto).toBe('main');
+      expect(response.pairs.map((pair) => pair.status)).toEqual([
+        'added',
+        'unchanged',
+        'modified',
+        'removed',
+      ]);
+      expect(response.pairs[0]).toEqual({
+        status: 'added',
+        old: undefined,
+        new: { index: 1, shortHash: '0ddba11' },
+        title: 'Prepare for the inevitable!',
+        lines: [],
+      });
+      expect(response.pairs[2].lines).toEqual([
+        { type: 'hunk', content: '@@ Metadata' },
+        { type: 'normal', content: 'Author: A U Thor <author@example.com>' },
+        { type: 'normal', content: '' },
+        { type: 'hunk', content: '@@ src/bug.ts: export function crash()' },
+        { type: 'normal', content: ' return null;' },
+        { type: 'delete', content: '+  throw new Error("unexpected");' },
+        { type: 'add', content: '+  throw new Error("unexpected crash");' },
+      ]);
+      expect(response.pairs[3].new).toBeUndefined();
+    });
+
+    it('skips lines that lack the patch-of-patch indentation', async () => {
+      const gitRaw = (parser as any).git.raw;
+      gitRaw.mockResolvedValue(
+        [
+          '1:  f00dba1 ! 1:  decafe1 Describe a bug',
+          '    @@ src/bug.ts',
+          '  -+stray',
+          'warning: something unexpected',
+          '    ++  throw new Error("unexpected crash");',
+          '',
+        ].join('\n'),
+      );
+
+      const response = await parser.parseRangeDiff({ oldTip: 'v1', newTip: 'v2' });
+
+      expect(response.pairs[0]?.lines).toEqual([
+        { type: 'hunk', content: '@@ src/bug.ts' },
+        { type: 'add', content: '+  throw new Error("unexpected crash");' },
+      ]);
+    });
+
+    it('uses the symmetric range when --onto is omitted', async () => {
+      const gitRaw = (parser as any).git.raw;
+      gitRaw.mockResolvedValue('');
+
+      const response = await parser.parseRangeDiff({ oldTip: 'v1', newTip: 'v2' });
+
+      expect(gitRaw).toHaveBeenCalledWith(['range-diff', '--no-color', 'v1...v2']);
+      expect(response.pairs).toEqual([]);
+    });
+
+    it('wraps git errors', async () => {
+      const gitRaw = (parser as any).git.raw;
+      gitRaw.mockRejectedValue(new Error('fatal: bad revision'));
+
+      await expect(parser.parseRangeDiff({ oldTip: 'v1', newTip: 'v2' })).rejects.toThrow(
+        'Failed to run range-diff for v1 vs v2: fatal: bad revision',
+      );
+    });
+  });
 });
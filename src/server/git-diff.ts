@@ -1,28 +1,62 @@
 import { simpleGit, type SimpleGit } from 'simple-git';
-import { isAbsolute, resolve, sep } from 'path';
+import { execFile } from 'child_process';
+import { readFileSync, realpathSync, statSync } from 'fs';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, isAbsolute, join, resolve, sep } from 'path';
+import { promisify } from 'util';
 
 import { validateDiffArguments, shortHash, createCommitRangeString } from '../cli/utils.js';
 import {
+  type BlameCommit,
+  type BlameResponse,
+  type CommitInfo,
+  type CommitRange,
   type DiffChunk,
   type DiffFile,
   type DiffLine,
   type DiffResponse,
   type DiffSelection,
+  type FileHistoryEntry,
+  type InterdiffRange,
+  type NoIndexPaths,
+  type PatchSeriesEntry,
+  type RangeDiffPair,
+  type RangeDiffPairStatus,
+  type RangeDiffResponse,
+  type StashInfo,
+  type SubmoduleChange,
 } from '../types/diff.js';
-import { getMergeBaseTargetRef, normalizeBaseMode } from '../utils/diffSelection.js';
+import {
+  createDiffSelection,
+  createStdinPatchRef,
+  EMPTY_TREE_HASH,
+  getMergeBaseTargetRef,
+  getMergeView,
+  normalizeBaseMode,
+  parseStashTarget,
+} from '../utils/diffSelection.js';
 
 import { isGeneratedFile } from './generated-file-check.js';
+import { createCommitMessageFile, splitPatchSeries } from './patch-series.js';
+
+// The leading digits of a git mode encode the object type (regular file, symlink, gitlink);
+// the trailing three are the permission bits
+const isSameFileType = (oldMode: string, newMode: string) =>
+  oldMode.slice(0, -3) === newMode.slice(0, -3);
 
 export class GitDiffParser {
   private git: SimpleGit;
   private repoPath: string;
+  private readonly noIndex: NoIndexPaths | undefined;
   private readonly resolvedCommitCache = new Map<string, { value: string; expiresAt: number }>();
   private static readonly RESOLVED_COMMIT_CACHE_TTL_MS = 5_000;
   private static readonly GENERATED_HEADER_SCAN_BYTES = 4 * 1024;
   private static readonly GITATTRIBUTES_CHECK_CHUNK_SIZE = 200;
 
-  constructor(repoPath = process.cwd()) {
+  constructor(repoPath = process.cwd(), noIndex?: NoIndexPaths) {
     this.repoPath = repoPath;
+    this.noIndex = noIndex;
     this.git = simpleGit(repoPath);
   }
 
@@ -66,6 +100,12 @@ export class GitDiffParser {
       normalizeBaseMode(selection.baseMode) === 'merge-base' ? 'merge-base' : undefined;
 
     try {
+      // The base of these views isn't a single revision; see MergeView
+      const mergeView = getMergeView(selection);
+      if (mergeView === 'combined' || mergeView === 'remerge') {
+        return await this.parseMergeDiff(selection, mergeView, ignoreWhitespace, contextLines);
+      }
+
       // Validate arguments
       const validation = validateDiffArguments(targetCommitish, baseCommitish);
       if (!validation.valid) {
@@ -78,6 +118,8 @@ export class GitDiffParser {
       let resolvedBaseCommitish = effectiveBaseCommitish;
       let resolvedTargetCommitish = targetCommitish;
       let attributesRef = targetCommitish;
+      let untrackedCommit: string | null = null;
+      let mergeParents: string[] = [];
 
       // Handle target special chars (base is always a regular commit)
       if (targetCommitish === 'working') {
@@ -105,26 +147,31 @@ export class GitDiffParser {
         resolvedTargetCommitish = shortHash(targetHash);
         attributesRef = targetHash;
         diffArgs = [baseHash, targetHash];
+        untrackedCommit = await this.getStashUntrackedCommit(targetCommitish, baseHash);
+        if (mergeView) {
+          mergeParents = await this.getMergeParents(targetHash);
+        }
       }
 
-      if (ignoreWhitespace) {
-        diffArgs.push('-w');
-      }
+      const diffOptions = this.getDiffOptions(ignoreWhitespace, contextLines);
+      const pathspecArgs = selection.pathspecs?.length ? ['--', ...selection.pathspecs] : [];
 
-      if (contextLines !== undefined) {
-        diffArgs.push(`-U${contextLines}`);
+      // Single git invocation for better startup latency on large repositories.
+      const diffRaw = await this.git.diff([...diffArgs, ...diffOptions, ...pathspecArgs]);
+      let parsedFiles = this.parseUnifiedDiff(diffRaw);
+
+      if (untrackedCommit) {
+        // Untracked files live in a parentless commit, so they show up as additions
+        const untrackedRaw = await this.git.diff([
+          EMPTY_TREE_HASH,
+          untrackedCommit,
+          ...diffOptions,
+          ...pathspecArgs,
+        ]);
+        parsedFiles = [...parsedFiles, ...this.parseUnifiedDiff(untrackedRaw)];
       }
 
-      // Ignore external diff-tools to unify output.
-      // https://github.com/yoshiko-pg/difit/issues/19
-      diffArgs.push('--no-ext-diff', '--color=never');
-
-      // Single git invocation for better startup latency on large repositories.
-      const diffRaw = await this.git.diff(diffArgs);
-      const files = await this.markGitattributesGeneratedFiles(
-        this.parseUnifiedDiff(diffRaw),
-        attributesRef,
-      );
+      const files = await this.markGitattributesGeneratedFiles(parsedFiles, attributesRef);
 
       return {
         commit: resolvedCommit,
@@ -135,6 +182,8 @@ export class GitDiffParser {
         requestedBaseCommitish: baseCommitish,
         requestedTargetCommitish: targetCommitish,
         requestedBaseMode,
+        ...(selection.pathspecs?.length ? { requestedPathspecs: selection.pathspecs } : {}),
+        ...(mergeParents.length > 0 ? { mergeParents: mergeParents.map(shortHash) } : {}),
       };
     } catch (error) {
       throw new Error(
@@ -143,6 +192,136 @@ export class GitDiffParser {
     }
   }
 
+  private getDiffOptions(ignoreWhitespace: boolean, contextLines?: number): string[] {
+    const diffOptions: string[] = [];
+
+    if (ignoreWhitespace) {
+      diffOptions.push('-w');
+    }
+
+    if (contextLines !== undefined) {
+      diffOptions.push(`-U${contextLines}`);
+    }
+
+    // Ignore external diff-tools to unify output.
+    // https://github.com/yoshiko-pg/difit/issues/19
+    diffOptions.push('--no-ext-diff', '--color=never');
+
+    // Report copies (and renames) whatever diff.renames is set to. Copy sources are only looked
+    // for among the files the diff changes; --find-copies-harder would read every file.
+    diffOptions.push('--find-copies');
+
+    return diffOptions;
+  }
+
+  // Parents of a merge commit; empty for a commit with a single parent or none
+  private async getMergeParents(commitHash: string): Promise<string[]> {
+    const parents = (await this.git.revparse([`${commitHash}^@`])).split('\n').filter(Boolean);
+    return parents.length > 1 ? parents : [];
+  }
+
+  private async parseMergeDiff(
+    selection: DiffSelection,
+    view: 'combined' | 'remerge',
+    ignoreWhitespace: boolean,
+    contextLines?: number,
+  ): Promise<DiffResponse> {
+    const { baseCommitish, targetCommitish } = selection;
+    const validation = validateDiffArguments(targetCommitish);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    const targetHash = await this.git.revparse([targetCommitish]);
+    const parents = await this.getMergeParents(targetHash);
+    if (parents.length === 0) {
+      throw new Error(`${targetCommitish} is not a merge commit`);
+    }
+
+    const diffOptions = this.getDiffOptions(ignoreWhitespace, contextLines);
+    const pathspecArgs = selection.pathspecs?.length ? ['--', ...selection.pathspecs] : [];
+    const shortParents = parents.map(shortHash);
+    let resolvedBaseCommitish: string;
+    let resolvedCommit: string;
+    let parsedFiles: DiffFile[];
+
+    if (view === 'combined') {
+      const diffRaw = await this.git.diff([
+        '--cc',
+        targetHash,
+        ...parents,
+        ...diffOptions,
+        ...pathspecArgs,
+      ]);
+      parsedFiles = this.parseCombinedDiff(diffRaw);
+      // Old line numbers follow the first parent, so its blobs back context expansion
+      resolvedBaseCommitish = shortHash(parents[0]);
+      resolvedCommit = `${shortHash(targetHash)} (combined diff against ${shortParents.join(', ')})`;
+    } else {
+      if (parents.length !== 2) {
+        throw new Error('Remerge diff is only available for merges of two parents');
+      }
+      // Redo the merge without touching the repository; conflicted files keep their markers.
+      // The tree id is printed first, also when merge-tree reports conflicts.
+      const mergeTreeOutput = await this.git.raw([
+        'merge-tree',
+        '--write-tree',
+        '--no-messages',
+        ...shortParents,
+      ]);
+      const remergeTree = mergeTreeOutput.split('\n')[0]?.trim() ?? '';
+      if (!/^[0-9a-f]{40,64}$/.test(remergeTree)) {
+        throw new Error(`Could not remerge the parents of ${targetCommitish}`);
+      }
+      const diffRaw = await this.git.diff([
+        remergeTree,
+        targetHash,
+        ...diffOptions,
+        ...pathspecArgs,
+      ]);
+      parsedFiles = this.parseUnifiedDiff(diffRaw);
+      resolvedBaseCommitish = shortHash(remergeTree);
+      resolvedCommit = `${shortHash(targetHash)} (remerge diff of ${shortParents.join(', ')})`;
+    }
+
+    const files = await this.markGitattributesGeneratedFiles(parsedFiles, targetHash);
+
+    return {
+      commit: resolvedCommit,
+      files,
+      isEmpty: files.length === 0,
+      baseCommitish: resolvedBaseCommitish,
+      targetCommitish: shortHash(targetHash),
+      requestedBaseCommitish: baseCommitish,
+      requestedTargetCommitish: targetCommitish,
+      ...(selection.pathspecs?.length ? { requestedPathspecs: selection.pathspecs } : {}),
+      mergeParents: shortParents,
+    };
+  }
+
+  // `git stash -u` keeps untracked files in a third parent of the stash commit.
+  // They are only part of the working-tree diff against the commit the stash was made on.
+  private async getStashUntrackedCommit(
+    targetCommitish: string,
+    baseHash: string,
+  ): Promise<string | null> {
+    const stashTarget = parseStashTarget(targetCommitish);
+    if (!stashTarget || stashTarget.part !== 'working') {
+      return null;
+    }
+
+    try {
+      const stashBaseHash = await this.git.revparse([`${stashTarget.stashRef}^1`]);
+      if (stashBaseHash !== baseHash) {
+        return null;
+      }
+      return await this.git.revparse([`${stashTarget.stashRef}^3`]);
+    } catch {
+      // Stash was created without untracked files
+      return null;
+    }
+  }
+
   private parseUnifiedDiff(diffText: string): DiffFile[] {
     const files: DiffFile[] = [];
     const fileBlocks = diffText.split(/^diff --git /m).slice(1);
@@ -156,7 +335,7 @@ export class GitDiffParser {
         }
       }
 
-      return files;
+      return this.mergeTypeChanges(files);
     }
 
     for (const fileBlock of this.splitPlainUnifiedDiff(diffText)) {
@@ -169,6 +348,34 @@ export class GitDiffParser {
     return files;
   }
 
+  // git prints a type change (e.g. a file replaced by a symlink) as a deletion
+  // followed by an addition of the same path; show them as one entry
+  private mergeTypeChanges(files: DiffFile[]): DiffFile[] {
+    const merged: DiffFile[] = [];
+
+    for (const file of files) {
+      const previous = merged[merged.length - 1];
+      if (
+        previous?.status === 'deleted' &&
+        file.status === 'added' &&
+        previous.path === file.path
+      ) {
+        merged[merged.length - 1] = {
+          ...file,
+          status: 'typechanged',
+          oldMode: previous.oldMode,
+          additions: previous.additions + file.additions,
+          deletions: previous.deletions + file.deletions,
+          chunks: [...previous.chunks, ...file.chunks],
+        };
+        continue;
+      }
+      merged.push(file);
+    }
+
+    return merged;
+  }
+
   private splitPlainUnifiedDiff(diffText: string): string[] {
     const lines = diffText.split(/\r?\n/);
     const blocks: string[] = [];
@@ -466,14 +673,18 @@ export class GitDiffParser {
     const plusLine = lines.find((line) => line.startsWith('+++ '));
     const renameFromLine = lines.find((line) => line.startsWith('rename from '));
     const renameToLine = lines.find((line) => line.startsWith('rename to '));
+    const copyFromLine = lines.find((line) => line.startsWith('copy from '));
+    const copyToLine = lines.find((line) => line.startsWith('copy to '));
 
     const stripGitPrefix = format !== 'plain';
     const plusPath = this.extractPathFromLine(plusLine, '+++ ', stripGitPrefix);
     const minusPath = this.extractPathFromLine(minusLine, '--- ', stripGitPrefix);
     const renameFromPath = this.extractPathFromLine(renameFromLine, 'rename from ');
     const renameToPath = this.extractPathFromLine(renameToLine, 'rename to ');
-    const parsedNewPath = renameToPath ?? plusPath ?? headerPaths?.newPath;
-    const parsedOldPath = renameFromPath ?? minusPath ?? headerPaths?.oldPath;
+    const copyFromPath = this.extractPathFromLine(copyFromLine, 'copy from ');
+    const copyToPath = this.extractPathFromLine(copyToLine, 'copy to ');
+    const parsedNewPath = renameToPath ?? copyToPath ?? plusPath ?? headerPaths?.newPath;
+    const parsedOldPath = renameFromPath ?? copyFromPath ?? minusPath ?? headerPaths?.oldPath;
     const newPath = parsedNewPath ?? parsedOldPath;
     const oldPath = parsedOldPath ?? newPath;
 
@@ -494,15 +705,43 @@ export class GitDiffParser {
       status = 'added';
     } else if (deletedFileMode || plusLine?.includes('/dev/null')) {
       status = 'deleted';
+    } else if (copyFromPath && oldPath !== newPath) {
+      status = 'copied';
     } else if (format !== 'plain' && oldPath !== newPath) {
       status = 'renamed';
     }
 
+    const { oldMode, newMode } = this.parseFileModes(lines);
+    if (status === 'modified' && oldMode && newMode && !isSameFileType(oldMode, newMode)) {
+      status = 'typechanged';
+    }
+
+    // Submodule bumps only carry `Subproject commit` lines; the nested diff is
+    // loaded from the submodule's own repository on demand
+    const submodule = this.parseSubmoduleChange(lines);
+    if (submodule) {
+      return {
+        path,
+        status: 'submodule',
+        additions: 0,
+        deletions: 0,
+        chunks: [],
+        submodule,
+      };
+    }
+
     // Common properties for all files
+    const similarityMatch = lines
+      .find((line) => line.startsWith('similarity index '))
+      ?.match(/^similarity index (\d+)%$/);
     const baseFile = {
       path,
-      oldPath: status === 'renamed' && oldPath !== newPath ? oldPath : undefined,
+      oldPath:
+        (status === 'renamed' || status === 'copied') && oldPath !== newPath ? oldPath : undefined,
       status,
+      ...(oldMode && status !== 'added' ? { oldMode } : {}),
+      ...(newMode && status !== 'deleted' ? { newMode } : {}),
+      ...(similarityMatch ? { similarity: Number(similarityMatch[1]) } : {}),
     };
 
     // Parse chunks
@@ -518,6 +757,51 @@ export class GitDiffParser {
     };
   }
 
+  private parseFileModes(lines: string[]): { oldMode?: string; newMode?: string } {
+    let oldMode: string | undefined;
+    let newMode: string | undefined;
+
+    for (const line of lines) {
+      if (line.startsWith('@@')) break;
+
+      const modeMatch = line.match(/^(old mode|new mode|new file mode|deleted file mode) (\d{6})$/);
+      if (modeMatch) {
+        if (modeMatch[1] === 'old mode' || modeMatch[1] === 'deleted file mode') {
+          oldMode = modeMatch[2];
+        } else {
+          newMode = modeMatch[2];
+        }
+        continue;
+      }
+
+      // An unchanged mode is only printed at the end of the index line
+      const indexMatch = line.match(/^index [0-9a-f]+\.\.[0-9a-f]+ (\d{6})$/);
+      if (indexMatch) {
+        oldMode ??= indexMatch[1];
+        newMode ??= indexMatch[1];
+      }
+    }
+
+    return { oldMode, newMode };
+  }
+
+  private parseSubmoduleChange(lines: string[]): SubmoduleChange | null {
+    const change: SubmoduleChange = {};
+
+    for (const line of lines) {
+      // Working tree changes inside the submodule add a `-dirty` suffix
+      const match = line.match(/^([+-])Subproject commit ([0-9a-f]{7,40})(?:-dirty)?$/);
+      if (!match) continue;
+      if (match[1] === '-') {
+        change.oldCommit = match[2];
+      } else {
+        change.newCommit = match[2];
+      }
+    }
+
+    return change.oldCommit || change.newCommit ? change : null;
+  }
+
   private countLinesFromChunks(chunks: DiffChunk[]): {
     additions: number;
     deletions: number;
@@ -591,6 +875,125 @@ export class GitDiffParser {
     return chunks;
   }
 
+  // `git diff --cc` prints one file per `diff --cc <path>` block, with a +/- column per parent
+  private parseCombinedDiff(diffText: string): DiffFile[] {
+    return diffText
+      .split(/^diff --(?:cc|combined) /m)
+      .slice(1)
+      .map((block) => {
+        const lines = block.split('\n');
+        const path = this.decodeGitPath(lines[0], false) ?? lines[0];
+        const status: DiffFile['status'] = lines.some((line) => line.startsWith('new file mode'))
+          ? 'added'
+          : lines.some((line) => line.startsWith('deleted file mode'))
+            ? 'deleted'
+            : 'modified';
+        const chunks = this.parseCombinedChunks(lines);
+        const { additions, deletions } = this.countLinesFromChunks(chunks);
+
+        return {
+          path,
+          status,
+          additions,
+          deletions,
+          chunks,
+          isGenerated: isGeneratedFile(path).isGenerated,
+        };
+      });
+  }
+
+  // Lines are numbered against the first parent on the old side. A line removed only
+  // from a later parent has no first-parent line number.
+  private parseCombinedChunks(lines: string[]): DiffChunk[] {
+    const chunks: DiffChunk[] = [];
+    let currentChunk: DiffChunk | null = null;
+    let parentLineNums: number[] = [];
+    let newLineNum = 0;
+
+    for (const line of lines) {
+      const headerMatch = line.match(/^(@{3,}) ((?:-\d+(?:,\d+)? )+)\+(\d+)(?:,(\d+))? \1/);
+      if (headerMatch) {
+        if (currentChunk) {
+          chunks.push(currentChunk);
+        }
+
+        const parentRanges = headerMatch[2]
+          .trim()
+          .split(' ')
+          .map((range) => range.slice(1).split(',').map(Number));
+        parentLineNums = parentRanges.map(([start]) => start);
+        newLineNum = parseInt(headerMatch[3]);
+
+        currentChunk = {
+          header: line,
+          oldStart: parentRanges[0][0],
+          oldLines: parentRanges[0][1] ?? 1,
+          newStart: newLineNum,
+          newLines: parseInt(headerMatch[4] ?? '1'),
+          lines: [],
+          parentStarts: [...parentLineNums],
+        };
+        continue;
+      }
+
+      const parentCount = parentLineNums.length;
+      const markers = line.slice(0, parentCount);
+      if (!currentChunk || markers.length < parentCount || !/^[ +-]+$/.test(markers)) {
+        continue;
+      }
+
+      const isRemoved = markers.includes('-');
+      const type = isRemoved ? 'delete' : markers.includes('+') ? 'add' : 'normal';
+      // The line exists in a parent when it was removed from it, or kept unchanged from it
+      const inParent = markers.split('').map((marker) => marker === (isRemoved ? '-' : ' '));
+
+      currentChunk.lines.push({
+        type,
+        content: line.slice(parentCount),
+        oldLineNumber: inParent[0] ? parentLineNums[0] : undefined,
+        newLineNumber: isRemoved ? undefined : newLineNum,
+        parentMarkers: markers,
+      });
+
+      inParent.forEach((present, index) => {
+        if (present) parentLineNums[index]++;
+      });
+      if (!isRemoved) newLineNum++;
+    }
+
+    if (currentChunk) {
+      chunks.push(currentChunk);
+    }
+
+    return chunks;
+  }
+
+  async parseSubmoduleDiff(
+    submodulePath: string,
+    change: SubmoduleChange,
+    ignoreWhitespace = false,
+    contextLines?: number,
+  ): Promise<DiffResponse> {
+    try {
+      const normalizedPath = this.normalizeRepositoryRelativePath(submodulePath);
+      const submoduleParser = new GitDiffParser(resolve(this.repoPath, normalizedPath));
+
+      // An added or removed submodule is diffed against the empty tree
+      return await submoduleParser.parseDiff(
+        createDiffSelection(
+          change.oldCommit ?? EMPTY_TREE_HASH,
+          change.newCommit ?? EMPTY_TREE_HASH,
+        ),
+        ignoreWhitespace,
+        contextLines,
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to load submodule diff for ${submodulePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
   async validateCommit(commitish: string): Promise<boolean> {
     try {
       if (commitish === '.' || commitish === 'working' || commitish === 'staged') {
@@ -615,8 +1018,147 @@ export class GitDiffParser {
     };
   }
 
+  /**
+   * Splits mbox or `git log -p` input into one diff per patch, each led by its commit message.
+   * Returns an empty list when the input is a plain diff or a single patch.
+   */
+  parseStdinPatchSeries(input: string): DiffResponse[] {
+    const patches = splitPatchSeries(input);
+    const patchSeries: PatchSeriesEntry[] = patches.map((patch, index) => ({
+      ref: createStdinPatchRef(index + 1),
+      ...(patch.hash ? { hash: patch.hash } : {}),
+      ...(patch.author ? { author: patch.author } : {}),
+      ...(patch.date ? { date: patch.date } : {}),
+      subject: patch.subject,
+      body: patch.body,
+    }));
+
+    return patches.map((patch, index) => {
+      const ref = createStdinPatchRef(index + 1);
+      return {
+        commit: patch.subject,
+        files: [createCommitMessageFile(patch), ...this.parseUnifiedDiff(patch.diff)],
+        isEmpty: false,
+        baseCommitish: 'stdin',
+        targetCommitish: ref,
+        requestedBaseCommitish: 'stdin',
+        requestedTargetCommitish: ref,
+        patchSeries,
+      };
+    });
+  }
+
+  async parseNoIndexDiff(ignoreWhitespace = false, contextLines?: number): Promise<DiffResponse> {
+    const { oldPath, newPath } = this.getNoIndexPaths();
+    const oldRoot = resolve(oldPath);
+    const newRoot = resolve(newPath);
+
+    const diffOptions = ['--no-index', '--no-ext-diff', '--color=never'];
+    if (ignoreWhitespace) {
+      diffOptions.push('-w');
+    }
+    if (contextLines !== undefined) {
+      diffOptions.push(`-U${contextLines}`);
+    }
+
+    try {
+      // git exits with 1 when the paths differ; simple-git only rejects on stderr output
+      const diffRaw = await this.git.diff([...diffOptions, '--', oldRoot, newRoot]);
+      // Longest root first, in case one path contains the other
+      const roots = [oldRoot, newRoot].sort((a, b) => b.length - a.length);
+      const files = this.parseUnifiedDiff(diffRaw).map((file) =>
+        this.toNoIndexRelativeFile(file, roots),
+      );
+
+      return {
+        commit: `${oldPath} vs ${newPath}`,
+        files,
+        isEmpty: files.length === 0,
+        baseCommitish: oldPath,
+        targetCommitish: newPath,
+        requestedBaseCommitish: oldPath,
+        requestedTargetCommitish: newPath,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to diff ${oldPath} and ${newPath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  private getNoIndexPaths(): NoIndexPaths {
+    if (!this.noIndex) {
+      throw new Error('No --no-index paths to compare');
+    }
+    return this.noIndex;
+  }
+
+  // git diff --no-index prints every path with its root in front (absolute roots lose their
+  // leading slash), so the same file shows up under two names. Strip the roots so both
+  // sides line up; a root that is itself a file keeps its base name.
+  private toNoIndexRelativeFile(file: DiffFile, roots: string[]): DiffFile {
+    const toRelativePath = (path: string) => {
+      for (const root of roots) {
+        const displayRoot = root.replace(/\\/g, '/').replace(/^\/+/, '');
+        if (path === displayRoot) {
+          return basename(root);
+        }
+        if (path.startsWith(`${displayRoot}/`)) {
+          return path.slice(displayRoot.length + 1);
+        }
+      }
+      return path;
+    };
+
+    const path = toRelativePath(file.path);
+    const oldPath = file.oldPath !== undefined ? toRelativePath(file.oldPath) : undefined;
+    const isRenamed = oldPath !== undefined && oldPath !== path;
+    let status = file.status;
+    if (status === 'renamed' && !isRenamed) {
+      status =
+        file.oldMode && file.newMode && !isSameFileType(file.oldMode, file.newMode)
+          ? 'typechanged'
+          : 'modified';
+    }
+
+    return {
+      ...file,
+      path,
+      oldPath: isRenamed ? oldPath : undefined,
+      status,
+      isGenerated: isGeneratedFile(path).isGenerated,
+    };
+  }
+
+  // Reads one side of a --no-index diff; `ref` is the path that side was given as
+  private readNoIndexFile(filepath: string, ref: string): Buffer {
+    const { oldPath, newPath } = this.getNoIndexPaths();
+    if (ref !== oldPath && ref !== newPath) {
+      throw new Error(`Unknown --no-index path: ${ref}`);
+    }
+
+    const root = realpathSync(resolve(ref));
+    if (statSync(root).isFile()) {
+      if (filepath !== basename(root)) {
+        throw new Error('File path outside repository');
+      }
+      return readFileSync(root);
+    }
+
+    const rootPrefix = `${root}${sep}`;
+    const absolutePath = realpathSync(resolve(rootPrefix, filepath.replace(/\\/g, '/')));
+    if (!absolutePath.startsWith(rootPrefix)) {
+      throw new Error('File path outside repository');
+    }
+    return readFileSync(absolutePath);
+  }
+
   async getBlobContent(filepath: string, ref: string): Promise<Buffer> {
     try {
+      if (this.noIndex) {
+        return this.readNoIndexFile(filepath, ref);
+      }
+
       // For working directory, read directly from filesystem
       if (ref === 'working' || ref === '.') {
         const fs = await import('fs');
@@ -646,6 +1188,7 @@ export class GitDiffParser {
         // For staged files, use git show :filepath
         // Using execFileSync to prevent command injection
         const buffer = execFileSync('git', ['show', `:${normalizedFilepath}`], {
+          cwd: this.repoPath,
           maxBuffer: 10 * 1024 * 1024, // 10MB limit
         });
         return buffer;
@@ -654,6 +1197,7 @@ export class GitDiffParser {
       // First, get the blob hash for the file at the given ref
       // Using execFileSync to prevent command injection
       const blobHash = execFileSync('git', ['rev-parse', `${ref}:${normalizedFilepath}`], {
+        cwd: this.repoPath,
         encoding: 'utf8',
         maxBuffer: 10 * 1024 * 1024,
       }).trim();
@@ -661,6 +1205,7 @@ export class GitDiffParser {
       // Then use git cat-file to get the raw binary content
       // Increase maxBuffer to handle large files (default is 1024*1024 = 1MB)
       const buffer = execFileSync('git', ['cat-file', 'blob', blobHash], {
+        cwd: this.repoPath,
         maxBuffer: 10 * 1024 * 1024, // 10MB limit
       });
 
@@ -714,7 +1259,10 @@ export class GitDiffParser {
       return { isGenerated: true, source: 'path' };
     }
 
-    const gitattributesResult = await this.getGitattributesGeneratedPaths([filepath], ref);
+    // Files compared with --no-index have no repository, so no .gitattributes either
+    const gitattributesResult = this.noIndex
+      ? new Set<string>()
+      : await this.getGitattributesGeneratedPaths([filepath], ref);
     if (gitattributesResult.has(filepath)) {
       return { isGenerated: true, source: 'path' };
     }
@@ -751,6 +1299,121 @@ export class GitDiffParser {
     this.resolvedCommitCache.clear();
   }
 
+  // Runs git directly: simple-git resolves quietly when git exits non-zero without stderr
+  // (e.g. nothing staged), and hook output needs to reach the caller either way
+  async commit(message: string, options: { amend?: boolean; signoff?: boolean } = {}) {
+    const args = [
+      'commit',
+      '-m',
+      message,
+      ...(options.amend ? ['--amend'] : []),
+      ...(options.signoff ? ['--signoff'] : []),
+    ];
+
+    try {
+      await promisify(execFile)('git', args, { cwd: this.repoPath, maxBuffer: 10 * 1024 * 1024 });
+    } catch (error) {
+      const { stdout, stderr } = error as { stdout?: string; stderr?: string };
+      const output = [stderr, stdout].map((text) => text?.trim()).filter(Boolean);
+      throw new Error(output.join('\n') || 'git commit failed');
+    }
+
+    return { commit: shortHash(await this.git.revparse(['HEAD'])) };
+  }
+
+  // simple-git only applies patches from files, so the patch goes through a temp dir
+  async applyPatch(patch: string, options: { cached: boolean; reverse: boolean }): Promise<void> {
+    const patchDir = await mkdtemp(join(tmpdir(), 'difit-patch-'));
+    const patchPath = join(patchDir, 'hunk.patch');
+    try {
+      await writeFile(patchPath, patch, 'utf8');
+      await this.git.applyPatch(patchPath, [
+        ...(options.cached ? ['--cached'] : []),
+        ...(options.reverse ? ['-R'] : []),
+      ]);
+    } finally {
+      await rm(patchDir, { recursive: true, force: true });
+    }
+  }
+
+  async getBlame(filepath: string, ref: string): Promise<BlameResponse> {
+    const normalizedFilepath = this.normalizeRepositoryRelativePath(filepath);
+    if (ref.startsWith('-')) {
+      throw new Error(`Invalid ref: ${ref}`);
+    }
+
+    if (ref !== 'staged') {
+      // Without a revision git blames the working tree file itself
+      const revisionArgs = ref === 'working' || ref === '.' ? [] : [ref];
+      return this.parseBlamePorcelain(
+        await this.git.raw(['blame', '--porcelain', ...revisionArgs, '--', normalizedFilepath]),
+      );
+    }
+
+    // The index version has no revision of its own, so it is blamed as contents on top of HEAD
+    const blameDir = await mkdtemp(join(tmpdir(), 'difit-blame-'));
+    const contentsPath = join(blameDir, 'staged');
+    try {
+      await writeFile(contentsPath, await this.getBlobContent(normalizedFilepath, 'staged'));
+      return this.parseBlamePorcelain(
+        await this.git.raw([
+          'blame',
+          '--porcelain',
+          '--contents',
+          contentsPath,
+          '--',
+          normalizedFilepath,
+        ]),
+      );
+    } finally {
+      await rm(blameDir, { recursive: true, force: true });
+    }
+  }
+
+  private parseBlamePorcelain(output: string): BlameResponse {
+    const commits: BlameCommit[] = [];
+    const commitsByHash = new Map<string, { commit: BlameCommit; index: number }>();
+    const lines: number[] = [];
+    let current: { commit: BlameCommit; index: number; finalLine: number } | null = null;
+
+    for (const line of output.split('\n')) {
+      const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+      if (header) {
+        const hash = header[1] ?? '';
+        let entry = commitsByHash.get(hash);
+        if (!entry) {
+          const commit = {
+            hash,
+            shortHash: shortHash(hash),
+            author: '',
+            authorTime: 0,
+            summary: '',
+          };
+          entry = { commit, index: commits.length };
+          commitsByHash.set(hash, entry);
+          commits.push(commit);
+        }
+        current = { ...entry, finalLine: Number(header[2]) };
+        continue;
+      }
+      if (!current) continue;
+
+      // Commit details only follow the first line blamed on each commit
+      if (line.startsWith('\t')) {
+        lines[current.finalLine - 1] = current.index;
+        current = null;
+      } else if (line.startsWith('author ')) {
+        current.commit.author = line.slice('author '.length);
+      } else if (line.startsWith('author-time ')) {
+        current.commit.authorTime = Number(line.slice('author-time '.length));
+      } else if (line.startsWith('summary ')) {
+        current.commit.summary = line.slice('summary '.length);
+      }
+    }
+
+    return { commits, lines };
+  }
+
   async getDefaultBranch(): Promise<string | null> {
     try {
       // Try to get the default branch from origin/HEAD
@@ -803,22 +1466,171 @@ export class GitDiffParser {
     return null;
   }
 
+  async getRangeCommits(range: CommitRange): Promise<CommitInfo[]> {
+    const output = await this.git.raw([
+      'log',
+      '--reverse',
+      '--format=%H%x00%P%x00%s',
+      `${range.baseCommitish}..${range.targetCommitish}`,
+      '--',
+    ]);
+
+    return output
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => {
+        const [hash = '', parents = '', message = ''] = line.split('\0');
+        return {
+          hash,
+          shortHash: hash.substring(0, 7),
+          message,
+          ...(parents ? {} : { isRoot: true }),
+        };
+      });
+  }
+
+  // --follow keeps walking past renames, so each entry records the path the file had then
+  async getFileHistory(filepath: string): Promise<FileHistoryEntry[]> {
+    const normalizedFilepath = this.normalizeRepositoryRelativePath(filepath);
+    const output = await this.git.raw([
+      'log',
+      '--follow',
+      '--name-status',
+      '--format=%x1e%H%x00%an%x00%at%x00%s',
+      '--',
+      normalizedFilepath,
+    ]);
+
+    return output
+      .split('\x1e')
+      .filter((record) => record.trim().length > 0)
+      .map((record) => {
+        const [header = '', ...statusLines] = record.split('\n');
+        const [hash = '', author = '', authorTime = '0', summary = ''] = header.split('\0');
+        const statusLine = statusLines.find((line) => line.includes('\t')) ?? '';
+        const [status = '', ...rawPaths] = statusLine.split('\t');
+        const [firstPath = normalizedFilepath, secondPath] = rawPaths.map(
+          (rawPath) => this.decodeGitPath(rawPath, false) ?? rawPath,
+        );
+        const isRename = status.startsWith('R') && secondPath !== undefined;
+
+        return {
+          hash,
+          shortHash: shortHash(hash),
+          author,
+          authorTime: Number(authorTime),
+          summary,
+          path: isRename ? secondPath : firstPath,
+          ...(isRename ? { oldPath: firstPath } : {}),
+        };
+      });
+  }
+
+  async parseRangeDiff(range: InterdiffRange): Promise<RangeDiffResponse> {
+    // Without --onto, the symmetric form lets git pick the common base of both tips
+    const rangeArgs = range.onto
+      ? [`${range.onto}..${range.oldTip}`, `${range.onto}..${range.newTip}`]
+      : [`${range.oldTip}...${range.newTip}`];
+
+    try {
+      const output = await this.git.raw(['range-diff', '--no-color', ...rangeArgs]);
+      return {
+        ...range,
+        pairs: this.parseRangeDiffOutput(output),
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to run range-diff for ${range.oldTip} vs ${range.newTip}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  private parseRangeDiffOutput(output: string): RangeDiffPair[] {
+    const statusByMarker = new Map<string, RangeDiffPairStatus>([
+      ['=', 'unchanged'],
+      ['!', 'modified'],
+      ['<', 'removed'],
+      ['>', 'added'],
+    ]);
+    const parseCommitRef = (index: string, hash: string): RangeDiffPair['old'] =>
+      index === '-' ? undefined : { index: parseInt(index, 10), shortHash: hash };
+
+    const pairs: RangeDiffPair[] = [];
+    let currentPair: RangeDiffPair | null = null;
+
+    for (const line of output.split('\n')) {
+      // e.g. "2:  f00dbal ! 3:  decafe1 Describe a bug"
+      const header = line.match(
+        /^\s*(-|\d+):\s+(-+|[0-9a-f]+) ([=!<>])\s+(-|\d+):\s+(-+|[0-9a-f]+) ?(.*)$/,
+      );
+      if (header) {
+        const [, oldIndex, oldHash, marker, newIndex, newHash, title] = header;
+        currentPair = {
+          status: statusByMarker.get(marker) ?? 'modified',
+          old: parseCommitRef(oldIndex, oldHash),
+          new: parseCommitRef(newIndex, newHash),
+          title,
+          lines: [],
+        };
+        pairs.push(currentPair);
+        continue;
+      }
+
+      // Patch-of-patch lines are indented by four spaces; the next character is the outer marker
+      if (!currentPair || !line.startsWith('    ')) {
+        continue;
+      }
+
+      const body = line.slice(4);
+      if (body.startsWith('@@')) {
+        currentPair.lines.push({ type: 'hunk', content: body });
+      } else if (body.startsWith('+')) {
+        currentPair.lines.push({ type: 'add', content: body.slice(1) });
+      } else if (body.startsWith('-')) {
+        currentPair.lines.push({ type: 'delete', content: body.slice(1) });
+      } else {
+        currentPair.lines.push({ type: 'normal', content: body.slice(1) });
+      }
+    }
+
+    return pairs;
+  }
+
+  async getStashes(): Promise<StashInfo[]> {
+    try {
+      const output = await this.git.raw(['stash', 'list', '--format=%gd%x00%H%x00%s']);
+      return output
+        .split('\n')
+        .filter((line) => line.length > 0)
+        .map((line) => {
+          const [ref = '', hash = '', message = ''] = line.split('\0');
+          return { ref, hash, shortHash: hash.substring(0, 7), message };
+        });
+    } catch {
+      // Not every repository state allows listing stashes (e.g. no commits yet)
+      return [];
+    }
+  }
+
   async getRevisionOptions(
     currentBase?: string,
     currentTarget?: string,
   ): Promise<{
     branches: Array<{ name: string; current: boolean }>;
     commits: Array<{ hash: string; shortHash: string; message: string }>;
+    stashes: StashInfo[];
     originDefaultBranch?: string;
     resolvedBase?: string;
     resolvedTarget?: string;
   }> {
-    const [branchResult, logResult, defaultBranch, originDefaultBranch] = await Promise.all([
-      this.git.branchLocal(),
-      this.git.log({ maxCount: 20 }),
-      this.getDefaultBranch(),
-      this.getOriginDefaultBranch(),
-    ]);
+    const [branchResult, logResult, defaultBranch, originDefaultBranch, stashes] =
+      await Promise.all([
+        this.git.branchLocal(),
+        this.git.log({ maxCount: 20 }),
+        this.getDefaultBranch(),
+        this.getOriginDefaultBranch(),
+        this.getStashes(),
+      ]);
 
     const branches = Object.entries(branchResult.branches).map(([name, data]) => ({
       name,
@@ -865,6 +1677,7 @@ export class GitDiffParser {
     return {
       branches,
       commits,
+      stashes,
       originDefaultBranch: originDefaultBranch ?? undefined,
       resolvedBase,
       resolvedTarget,
@@ -0,0 +1,243 @@
+import { readFileSync } from 'fs';
+
+import { simpleGit } from 'simple-git';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import type { DiffCommentThread } from '../types/diff.js';
+import { serializeCommentImports, threadsToCommentImports } from '../utils/commentImports.js';
+
+import {
+  COMMENT_NOTES_REF,
+  pullCommentNotes,
+  pushCommentNotes,
+  readCommentNotes,
+  writeCommentNotes,
+} from './git-notes.js';
+
+vi.mock('simple-git', () => ({
+  simpleGit: vi.fn(),
+}));
+
+const REMOTE_REF = 'refs/notes/remotes/origin/difit';
+const COMMIT = 'a'.repeat(40);
+
+// Notes per ref, keyed by commit, standing in for the repository's notes refs
+let notes: Map<string, Map<string, string>>;
+const mockRaw = vi.fn();
+const mockRevparse = vi.fn();
+
+const getNotes = (ref: string) => {
+  const refNotes = notes.get(ref) ?? new Map<string, string>();
+  notes.set(ref, refNotes);
+  return refNotes;
+};
+
+function runNotesCommand(args: string[]): string {
+  const ref = (args[1] ?? '').replace('--ref=', '');
+  const refNotes = getNotes(ref);
+  const commit = args[args.length - 1] ?? '';
+  switch (args[2]) {
+    case 'show': {
+      const note = refNotes.get(commit);
+      if (note === undefined) throw new Error(`error: no note found for object ${commit}`);
+      return `${note}\n`;
+    }
+    case 'add':
+      refNotes.set(commit, readFileSync(args[5] ?? '', 'utf-8'));
+      return '';
+    case 'remove':
+      refNotes.delete(commit);
+      return '';
+    case 'list':
+      return [...refNotes.keys()].map((annotated) => `${'b'.repeat(40)} ${annotated}\n`).join('');
+    default:
+      throw new Error(`Unexpected notes command: ${args.join(' ')}`);
+  }
+}
+
+const createThread = (id: string, body: string): DiffCommentThread => ({
+  id,
+  filePath: 'src/app.ts',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  position: { side: 'new', line: 3 },
+  messages: [
+    {
+      id,
+      body,
+      author: 'Reviewer',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    },
+  ],
+});
+
+const serializeNote = (threads: DiffCommentThread[], removed: string[] = []) =>
+  `{"comments":${serializeCommentImports(threadsToCommentImports(threads))},"removed":${JSON.stringify(removed)}}`;
+
+describe('git-notes', () => {
+  beforeEach(() => {
+    notes = new Map();
+    mockRaw.mockReset();
+    mockRevparse.mockReset();
+    mockRaw.mockImplementation(async (args: string[]) => {
+      if (args[0] === 'notes') return runNotesCommand(args);
+      return '';
+    });
+    mockRevparse.mockImplementation(async (args: string[]) => {
+      if (args[2] === 'HEAD^{commit}') return `${COMMIT}\n`;
+      throw new Error('fatal: Needed a single revision');
+    });
+    vi.mocked(simpleGit).mockReturnValue({
+      raw: mockRaw,
+      revparse: mockRevparse,
+    } as unknown as ReturnType<typeof simpleGit>);
+  });
+
+  describe('readCommentNotes', () => {
+    it('reads the threads noted on the target commit as comment imports', async () => {
+      getNotes(COMMENT_NOTES_REF).set(COMMIT, serializeNote([createThread('t1', 'Rename')]));
+
+      const imports = await readCommentNotes('/repo', 'HEAD');
+
+      expect(imports).toMatchObject([
+        { type: 'thread', id: 't1', filePath: 'src/app.ts', body: 'Rename' },
+      ]);
+    });
+
+    it('reads notes that hold only the comment imports', async () => {
+      getNotes(COMMENT_NOTES_REF).set(
+        COMMIT,
+        serializeCommentImports(threadsToCommentImports([createThread('t1', 'Rename')])),
+      );
+
+      await expect(readCommentNotes('/repo', 'HEAD')).resolves.toMatchObject([
+        { type: 'thread', id: 't1', body: 'Rename' },
+      ]);
+    });
+
+    it('returns nothing for commits without a note or targets without a commit', async () => {
+      await expect(readCommentNotes('/repo', 'HEAD')).resolves.toEqual([]);
+      await expect(readCommentNotes('/repo', 'working')).resolves.toEqual([]);
+      await expect(readCommentNotes('/repo', 'missing-branch')).resolves.toEqual([]);
+      expect(mockRevparse).toHaveBeenCalledTimes(2);
+    });
+
+    it('ignores notes that are not comment imports', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      getNotes(COMMENT_NOTES_REF).set(COMMIT, 'Reviewed-by: someone');
+
+      await expect(readCommentNotes('/repo', 'HEAD')).resolves.toEqual([]);
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+  });
+
+  describe('writeCommentNotes', () => {
+    it('writes the threads to the note on the target commit', async () => {
+      const threads = [createThread('t1', 'Rename')];
+
+      await writeCommentNotes('/repo', 'HEAD', threads);
+
+      expect(getNotes(COMMENT_NOTES_REF).get(COMMIT)).toBe(serializeNote(threads));
+    });
+
+    it('skips the write when the note already matches', async () => {
+      const threads = [createThread('t1', 'Rename')];
+      getNotes(COMMENT_NOTES_REF).set(COMMIT, serializeNote(threads));
+
+      await writeCommentNotes('/repo', 'HEAD', threads);
+
+      expect(mockRaw.mock.calls.map(([args]) => (args as string[])[2])).toEqual(['show']);
+    });
+
+    it('keeps the threads other reviews of the commit noted', async () => {
+      const otherReview = createThread('t1', 'Rename');
+      const thisReview = createThread('t2', 'Add a test');
+      getNotes(COMMENT_NOTES_REF).set(COMMIT, serializeNote([otherReview]));
+
+      await writeCommentNotes('/repo', 'HEAD', [thisReview]);
+
+      expect(getNotes(COMMENT_NOTES_REF).get(COMMIT)).toBe(
+        serializeNote([otherReview, thisReview]),
+      );
+    });
+
+    it('drops the threads this review removed and remembers them', async () => {
+      const kept = createThread('t1', 'Rename');
+      getNotes(COMMENT_NOTES_REF).set(
+        COMMIT,
+        serializeNote([kept, createThread('t2', 'Add a test')]),
+      );
+
+      await writeCommentNotes('/repo', 'HEAD', [], ['t2']);
+
+      expect(getNotes(COMMENT_NOTES_REF).get(COMMIT)).toBe(serializeNote([kept], ['t2']));
+    });
+
+    it('does not write notes for the working tree', async () => {
+      await writeCommentNotes('/repo', 'staged', [createThread('t1', 'Rename')]);
+
+      expect(mockRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pushCommentNotes', () => {
+    it('pushes the notes ref to the remote', async () => {
+      await pushCommentNotes('/repo', 'upstream');
+
+      expect(mockRaw).toHaveBeenCalledWith([
+        'push',
+        'upstream',
+        `${COMMENT_NOTES_REF}:${COMMENT_NOTES_REF}`,
+      ]);
+    });
+
+    it('rejects remote names that look like options', async () => {
+      await expect(pushCommentNotes('/repo', '--force')).rejects.toThrow('Invalid remote name');
+      expect(mockRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pullCommentNotes', () => {
+    it('merges remote threads into the local notes without duplicating shared ones', async () => {
+      const otherCommit = 'c'.repeat(40);
+      const shared = createThread('t1', 'Rename');
+      const remoteOnly = createThread('t2', 'Add a test');
+      getNotes(COMMENT_NOTES_REF).set(COMMIT, serializeNote([shared]));
+      getNotes(REMOTE_REF).set(COMMIT, serializeNote([shared, remoteOnly]));
+      getNotes(REMOTE_REF).set(otherCommit, serializeNote([remoteOnly]));
+
+      const updated = await pullCommentNotes('/repo', 'origin');
+
+      expect(mockRaw).toHaveBeenCalledWith([
+        'fetch',
+        'origin',
+        `+${COMMENT_NOTES_REF}:${REMOTE_REF}`,
+      ]);
+      expect(updated).toBe(2);
+      expect(getNotes(COMMENT_NOTES_REF).get(COMMIT)).toBe(serializeNote([shared, remoteOnly]));
+      expect(getNotes(COMMENT_NOTES_REF).get(otherCommit)).toBe(serializeNote([remoteOnly]));
+    });
+
+    it('does not bring back threads either side removed', async () => {
+      const kept = createThread('t1', 'Rename');
+      const resolvedRemotely = createThread('t2', 'Add a test');
+      const resolvedLocally = createThread('t3', 'Typo');
+      getNotes(COMMENT_NOTES_REF).set(COMMIT, serializeNote([kept, resolvedRemotely], ['t3']));
+      getNotes(REMOTE_REF).set(COMMIT, serializeNote([kept, resolvedLocally], ['t2']));
+
+      await expect(pullCommentNotes('/repo', 'origin')).resolves.toBe(1);
+
+      expect(getNotes(COMMENT_NOTES_REF).get(COMMIT)).toBe(serializeNote([kept], ['t2', 't3']));
+    });
+
+    it('leaves notes that are already up to date untouched', async () => {
+      const threads = [createThread('t1', 'Rename')];
+      getNotes(COMMENT_NOTES_REF).set(COMMIT, serializeNote(threads));
+      getNotes(REMOTE_REF).set(COMMIT, serializeNote(threads));
+
+      await expect(pullCommentNotes('/repo', 'origin')).resolves.toBe(0);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { simpleGit, type SimpleGit } from 'simple-git';
+
+import type { CommentImport, DiffCommentThread } from '../types/diff.js';
+import {
+  mergeCommentImports,
+  mergeCommentThreads,
+  normalizeCommentImports,
+  serializeCommentImports,
+  threadsToCommentImports,
+} from '../utils/commentImports.js';
+
+// Review threads are shared as notes on the target commit, in the same JSON `--comment` takes
+export const COMMENT_NOTES_REF = 'refs/notes/difit';
+
+interface CommentNote {
+  comments: CommentImport[];
+  // Threads and messages resolved or deleted anywhere, so merging another copy of the note
+  // doesn't bring them back
+  removedIds: string[];
+}
+
+const EMPTY_NOTE: CommentNote = { comments: [], removedIds: [] };
+
+// Targets without a commit of their own have nothing to attach a note to
+const WORKING_TREE_TARGETS = new Set(['working', 'staged', '.']);
+
+async function resolveNoteCommit(git: SimpleGit, commitish: string): Promise<string | null> {
+  if (!commitish || WORKING_TREE_TARGETS.has(commitish)) return null;
+  try {
+    const commit = await git.revparse(['--verify', '--quiet', `${commitish}^{commit}`]);
+    return commit.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+async function readNote(git: SimpleGit, ref: string, commit: string): Promise<string | null> {
+  try {
+    return (await git.raw(['notes', `--ref=${ref}`, 'show', commit])).trim();
+  } catch {
+    // `git notes show` fails when the commit has no note
+    return null;
+  }
+}
+
+function parseNote(content: string | null, commit: string): CommentNote {
+  if (!content) return EMPTY_NOTE;
+  try {
+    const parsed: unknown = JSON.parse(content);
+    // Notes written before removals were recorded hold only the comments
+    if (Array.isArray(parsed)) {
+      return { comments: normalizeCommentImports(parsed), removedIds: [] };
+    }
+    const { comments, removed } = parsed as { comments?: unknown; removed?: unknown };
+    if (!Array.isArray(removed) || !removed.every((id) => typeof id === 'string')) {
+      throw new Error('Invalid difit note field: removed');
+    }
+    return { comments: normalizeCommentImports(comments ?? []), removedIds: removed };
+  } catch (error) {
+    console.warn(`⚠️  Ignoring unreadable difit note on ${commit.slice(0, 7)}:`, error);
+    return EMPTY_NOTE;
+  }
+}
+
+function withoutRemoved(
+  threads: DiffCommentThread[],
+  removedIds: Set<string>,
+): DiffCommentThread[] {
+  return threads
+    .filter((thread) => !removedIds.has(thread.id))
+    .map((thread) => ({
+      ...thread,
+      messages: thread.messages.filter((message) => !removedIds.has(message.id)),
+    }))
+    .filter((thread) => thread.messages.length > 0);
+}
+
+function serializeNote(threads: DiffCommentThread[], removedIds: Set<string>): string | null {
+  if (threads.length === 0 && removedIds.size === 0) return null;
+  // Written by hand around serializeCommentImports, whose fixed key order lets an unchanged
+  // note compare equal to the one stored
+  const comments = serializeCommentImports(threadsToCommentImports(threads));
+  return `{"comments":${comments},"removed":${JSON.stringify([...removedIds].sort())}}`;
+}
+
+async function writeNote(git: SimpleGit, commit: string, content: string | null): Promise<void> {
+  if (content === null) {
+    await git.raw(['notes', `--ref=${COMMENT_NOTES_REF}`, 'remove', '--ignore-missing', commit]);
+    return;
+  }
+
+  // Passed as a file rather than `-m` so large sessions don't hit the argument length limit
+  const dir = await fs.mkdtemp(join(tmpdir(), 'difit-notes-'));
+  try {
+    const notePath = join(dir, 'note.json');
+    await fs.writeFile(notePath, content, 'utf-8');
+    await git.raw(['notes', `--ref=${COMMENT_NOTES_REF}`, 'add', '-f', '-F', notePath, commit]);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function assertRemoteName(remote: string) {
+  if (!remote || remote.startsWith('-')) {
+    throw new Error(`Invalid remote name: ${remote}`);
+  }
+}
+
+export async function readCommentNotes(
+  repoPath: string,
+  commitish: string,
+): Promise<CommentImport[]> {
+  const git = simpleGit(repoPath);
+  const commit = await resolveNoteCommit(git, commitish);
+  if (!commit) return [];
+  return parseNote(await readNote(git, COMMENT_NOTES_REF, commit), commit).comments;
+}
+
+/**
+ * Merges `threads` into the note on the commit `commitish` resolves to. Other reviews of the
+ * same commit keep their threads; only `removedIds`, the threads and messages this review
+ * resolved or deleted, are dropped. Nothing is written when the note already matches.
+ */
+export async function writeCommentNotes(
+  repoPath: string,
+  commitish: string,
+  threads: DiffCommentThread[],
+  removedIds: string[] = [],
+): Promise<void> {
+  const git = simpleGit(repoPath);
+  const commit = await resolveNoteCommit(git, commitish);
+  if (!commit) return;
+
+  const existingContent = await readNote(git, COMMENT_NOTES_REF, commit);
+  const note = parseNote(existingContent, commit);
+  const allRemovedIds = new Set([...note.removedIds, ...removedIds]);
+  const noteThreads = mergeCommentImports([], note.comments).threads;
+  const mergedThreads = mergeCommentThreads(noteThreads, threads).threads;
+
+  const content = serializeNote(withoutRemoved(mergedThreads, allRemovedIds), allRemovedIds);
+  if (content === existingContent) return;
+  await writeNote(git, commit, content);
+}
+
+export async function pushCommentNotes(repoPath: string, remote: string): Promise<void> {
+  assertRemoteName(remote);
+  await simpleGit(repoPath).raw(['push', remote, `${COMMENT_NOTES_REF}:${COMMENT_NOTES_REF}`]);
+}
+
+/**
+ * Fetches the remote's notes and merges them into the local ones commit by commit, so threads
+ * written on either side are kept unless either side removed them. Returns the number of
+ * commits whose notes changed.
+ */
+export async function pullCommentNotes(repoPath: string, remote: string): Promise<number> {
+  assertRemoteName(remote);
+  const git = simpleGit(repoPath);
+  const remoteRef = `refs/notes/remotes/${remote}/difit`;
+  await git.raw(['fetch', remote, `+${COMMENT_NOTES_REF}:${remoteRef}`]);
+
+  // Each line is `<note blob> <annotated commit>`
+  const listing = await git.raw(['notes', `--ref=${remoteRef}`, 'list']);
+  const commits = listing
+    .split('\n')
+    .map((line) => line.trim().split(/\s+/)[1])
+    .filter((commit): commit is string => Boolean(commit));
+
+  let updated = 0;
+  for (const commit of commits) {
+    const localContent = await readNote(git, COMMENT_NOTES_REF, commit);
+    const localNote = parseNote(localContent, commit);
+    const remoteNote = parseNote(await readNote(git, remoteRef, commit), commit);
+    const removedIds = new Set([...localNote.removedIds, ...remoteNote.removedIds]);
+    const localThreads = mergeCommentImports([], localNote.comments).threads;
+    const { threads } = mergeCommentImports(localThreads, remoteNote.comments);
+
+    const content = serializeNote(withoutRemoved(threads, removedIds), removedIds);
+    if (content === null || content === localContent) continue;
+    await writeNote(git, commit, content);
+    updated += 1;
+  }
+
+  return updated;
+}
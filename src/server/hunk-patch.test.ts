@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+
+import type { HunkActionRequest } from '../types/diff';
+
+import { buildHunkPatch, getHunkActions, parseHunkActionPayload } from './hunk-patch';
+
+const createRequest = (overrides: Partial<HunkActionRequest> = {}): HunkActionRequest => ({
+  action: 'stage',
+  filePath: 'src/example.ts',
+  status: 'modified',
+  chunk: {
+    oldStart: 10,
+    newStart: 12,
+    lines: [
+      { type: 'normal', content: 'one' },
+      { type: 'delete', content: 'two' },
+      { type: 'delete', content: 'three' },
+      { type: 'add', content: 'TWO' },
+      { type: 'add', content: 'THREE' },
+      { type: 'normal', content: 'four' },
+    ],
+  },
+  ...overrides,
+});
+
+const FILE_HEADER = [
+  'diff --git a/src/example.ts b/src/example.ts',
+  '--- a/src/example.ts',
+  '+++ b/src/example.ts',
+];
+
+describe('buildHunkPatch', () => {
+  it('stages a whole hunk against the old side', () => {
+    expect(buildHunkPatch(createRequest())).toBe(
+      [
+        ...FILE_HEADER,
+        '@@ -10,4 +10,4 @@',
+        ' one',
+        '-two',
+        '-three',
+        '+TWO',
+        '+THREE',
+        ' four',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('keeps unselected deletions as context when staging selected lines', () => {
+    expect(buildHunkPatch(createRequest({ lineIndices: [1, 3] }))).toBe(
+      [...FILE_HEADER, '@@ -10,4 +10,4 @@', ' one', '-two', ' three', '+TWO', ' four', ''].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('keeps unselected additions as context when discarding selected lines', () => {
+    expect(buildHunkPatch(createRequest({ action: 'discard', lineIndices: [1, 3] }))).toBe(
+      [...FILE_HEADER, '@@ -12,4 +12,4 @@', ' one', '-two', '+TWO', ' THREE', ' four', ''].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('describes added and deleted files with /dev/null', () => {
+    const lines = [{ type: 'add' as const, content: 'hello' }];
+
+    expect(
+      buildHunkPatch(
+        createRequest({
+          status: 'added',
+          newMode: '100755',
+          chunk: { oldStart: 0, newStart: 1, lines },
+        }),
+      ),
+    ).toBe(
+      [
+        'diff --git a/src/example.ts b/src/example.ts',
+        'new file mode 100755',
+        '--- /dev/null',
+        '+++ b/src/example.ts',
+        '@@ -0,0 +1,1 @@',
+        '+hello',
+        '',
+      ].join('\n'),
+    );
+    expect(
+      buildHunkPatch(
+        createRequest({
+          action: 'unstage',
+          status: 'deleted',
+          chunk: { oldStart: 1, newStart: 0, lines: [{ type: 'delete', content: 'bye' }] },
+        }),
+      ),
+    ).toBe(
+      [
+        'diff --git a/src/example.ts b/src/example.ts',
+        'deleted file mode 100644',
+        '--- a/src/example.ts',
+        '+++ /dev/null',
+        '@@ -1,1 +0,0 @@',
+        '-bye',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('refuses empty selections and partial selections of added files', () => {
+    expect(() => buildHunkPatch(createRequest({ lineIndices: [0, 5] }))).toThrow(
+      'No changed lines selected',
+    );
+    expect(() =>
+      buildHunkPatch(
+        createRequest({
+          status: 'added',
+          chunk: {
+            oldStart: 0,
+            newStart: 1,
+            lines: [
+              { type: 'add', content: 'a' },
+              { type: 'add', content: 'b' },
+            ],
+          },
+          lineIndices: [0],
+        }),
+      ),
+    ).toThrow('Select the whole hunk to stage an added file');
+  });
+});
+
+describe('parseHunkActionPayload', () => {
+  it('accepts a valid request and rejects malformed ones', () => {
+    const request = createRequest({ lineIndices: [1] });
+
+    expect(parseHunkActionPayload(JSON.parse(JSON.stringify(request)))).toEqual(request);
+    expect(() => parseHunkActionPayload({ ...request, action: 'commit' })).toThrow(
+      'Invalid hunk action payload',
+    );
+    expect(() => parseHunkActionPayload({ ...request, lineIndices: [-1] })).toThrow(
+      'Invalid hunk action payload',
+    );
+    expect(() => parseHunkActionPayload(null)).toThrow('Invalid hunk action payload');
+  });
+});
+
+describe('getHunkActions', () => {
+  it('offers actions only where git apply can reach the changed side', () => {
+    expect(getHunkActions({ baseCommitish: 'staged', targetCommitish: 'working' }, false)).toEqual([
+      'stage',
+      'discard',
+    ]);
+    expect(getHunkActions({ baseCommitish: 'HEAD', targetCommitish: 'staged' }, false)).toEqual([
+      'unstage',
+    ]);
+    expect(getHunkActions({ baseCommitish: 'HEAD', targetCommitish: '.' }, false)).toEqual([
+      'stage',
+      'discard',
+    ]);
+    expect(getHunkActions({ baseCommitish: 'main', targetCommitish: '.' }, false)).toEqual([]);
+    expect(getHunkActions({ baseCommitish: 'HEAD^', targetCommitish: 'HEAD' }, false)).toEqual([]);
+    expect(getHunkActions({ baseCommitish: 'staged', targetCommitish: 'working' }, true)).toEqual(
+      [],
+    );
+  });
+});
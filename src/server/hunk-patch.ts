@@ -0,0 +1,149 @@
+import type { DiffSelection, HunkAction, HunkActionRequest } from '../types/diff.js';
+
+const HUNK_ACTIONS: HunkAction[] = ['stage', 'unstage', 'discard'];
+const PATCH_LINE_TYPES = new Set(['add', 'delete', 'normal']);
+
+// stage: index ← working tree, unstage: index → HEAD, discard: working tree → index/HEAD
+const APPLY_OPTIONS = new Map<HunkAction, { cached: boolean; reverse: boolean }>([
+  ['stage', { cached: true, reverse: false }],
+  ['unstage', { cached: true, reverse: true }],
+  ['discard', { cached: false, reverse: true }],
+]);
+
+/**
+ * Hunk actions only make sense when one side of the diff is the index or working tree
+ * and the other is what git would apply against. Diffs made with -w don't match the
+ * files byte for byte, so their hunks can't be turned back into patches.
+ */
+export function getHunkActions(selection: DiffSelection, ignoreWhitespace: boolean): HunkAction[] {
+  if (ignoreWhitespace) {
+    return [];
+  }
+
+  const isAgainstHead = selection.baseCommitish === 'HEAD' && selection.baseMode !== 'merge-base';
+  switch (selection.targetCommitish) {
+    case 'working':
+      return ['stage', 'discard'];
+    case 'staged':
+      return isAgainstHead ? ['unstage'] : [];
+    case '.':
+      return isAgainstHead ? ['stage', 'discard'] : [];
+    default:
+      return [];
+  }
+}
+
+export function getHunkApplyOptions(action: HunkAction): { cached: boolean; reverse: boolean } {
+  return APPLY_OPTIONS.get(action) ?? { cached: true, reverse: false };
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+export function parseHunkActionPayload(payload: unknown): HunkActionRequest {
+  const request = (payload ?? {}) as Record<string, unknown>;
+  const chunk = (request.chunk ?? {}) as Record<string, unknown>;
+  const lines = chunk.lines;
+  const lineIndices = request.lineIndices;
+
+  if (
+    !HUNK_ACTIONS.includes(request.action as HunkAction) ||
+    typeof request.filePath !== 'string' ||
+    typeof request.status !== 'string' ||
+    !isNonNegativeInteger(chunk.oldStart) ||
+    !isNonNegativeInteger(chunk.newStart) ||
+    !Array.isArray(lines) ||
+    !lines.every(
+      (line: unknown) =>
+        typeof (line as { type?: unknown })?.type === 'string' &&
+        typeof (line as { content?: unknown }).content === 'string',
+    ) ||
+    (lineIndices !== undefined &&
+      (!Array.isArray(lineIndices) || !lineIndices.every(isNonNegativeInteger)))
+  ) {
+    throw new Error('Invalid hunk action payload');
+  }
+
+  return {
+    action: request.action as HunkAction,
+    filePath: request.filePath,
+    status: request.status as HunkActionRequest['status'],
+    oldMode: typeof request.oldMode === 'string' ? request.oldMode : undefined,
+    newMode: typeof request.newMode === 'string' ? request.newMode : undefined,
+    chunk: {
+      oldStart: chunk.oldStart,
+      newStart: chunk.newStart,
+      lines: lines as HunkActionRequest['chunk']['lines'],
+    },
+    lineIndices: lineIndices as number[] | undefined,
+  };
+}
+
+/**
+ * Builds a patch for a hunk or some of its lines, the way `git add -p` edits hunks.
+ * Patches applied in reverse describe the side that is currently on disk or in the
+ * index, so lines left out turn into context when added there and disappear when
+ * removed; forward patches do the opposite.
+ */
+export function buildHunkPatch(request: HunkActionRequest): string {
+  const { reverse } = getHunkApplyOptions(request.action);
+  const lines = request.chunk.lines.filter((line) => PATCH_LINE_TYPES.has(line.type));
+  const selected = request.lineIndices ? new Set(request.lineIndices) : null;
+  const isWholeFile = request.status === 'added' || request.status === 'deleted';
+
+  const body: string[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  let changeCount = 0;
+
+  request.chunk.lines.forEach((line, index) => {
+    if (!PATCH_LINE_TYPES.has(line.type)) return;
+
+    const isSelected = line.type !== 'normal' && (!selected || selected.has(index));
+    if (line.type === 'normal') {
+      body.push(` ${line.content}`);
+      oldCount++;
+      newCount++;
+    } else if (isSelected) {
+      body.push(`${line.type === 'add' ? '+' : '-'}${line.content}`);
+      changeCount++;
+      if (line.type === 'add') newCount++;
+      else oldCount++;
+    } else if ((line.type === 'add') === reverse) {
+      body.push(` ${line.content}`);
+      oldCount++;
+      newCount++;
+    }
+  });
+
+  if (changeCount === 0) {
+    throw new Error('No changed lines selected');
+  }
+
+  const totalChanges = lines.filter((line) => line.type !== 'normal').length;
+  if (isWholeFile && changeCount !== totalChanges) {
+    throw new Error(`Select the whole hunk to ${request.action} an ${request.status} file`);
+  }
+
+  // git apply locates the hunk by the side it applies to, which keeps every line of the
+  // original hunk; the other side only needs a plausible start
+  const start = reverse ? request.chunk.newStart : request.chunk.oldStart;
+  const [anchorCount, otherCount] = reverse ? [newCount, oldCount] : [oldCount, newCount];
+  const otherStart = anchorCount === 0 ? start + 1 : otherCount === 0 ? start - 1 : start;
+  const anchorRange = `${start},${anchorCount}`;
+  const otherRange = `${otherStart},${otherCount}`;
+  const header = [`diff --git a/${request.filePath} b/${request.filePath}`];
+  if (request.status === 'added') {
+    header.push(`new file mode ${request.newMode ?? '100644'}`);
+  } else if (request.status === 'deleted') {
+    header.push(`deleted file mode ${request.oldMode ?? '100644'}`);
+  }
+  header.push(
+    request.status === 'added' ? '--- /dev/null' : `--- a/${request.filePath}`,
+    request.status === 'deleted' ? '+++ /dev/null' : `+++ b/${request.filePath}`,
+    reverse ? `@@ -${otherRange} +${anchorRange} @@` : `@@ -${anchorRange} +${otherRange} @@`,
+  );
+
+  return `${[...header, ...body].join('\n')}\n`;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+
+import { createCommitMessageFile, splitPatchSeries } from './patch-series';
+
+const FIRST_HASH = '1111111111111111111111111111111111111111';
+const SECOND_HASH = '2222222222222222222222222222222222222222';
+
+const FILE_DIFF = [
+  'diff --git a/src/a.ts b/src/a.ts',
+  'index 1234567..89abcde 100644',
+  '--- a/src/a.ts',
+  '+++ b/src/a.ts',
+  '@@ -1 +1 @@',
+  '-old',
+  '+new',
+];
+
+const MBOX = [
+  `From ${FIRST_HASH} Mon Sep 17 00:00:00 2001`,
+  'From: Jane Doe <jane@example.com>',
+  'Date: Mon, 1 Jan 2024 10:00:00 +0000',
+  'Subject: [PATCH 1/2] Add a parser for',
+  ' long inputs',
+  '',
+  'Explain why the parser',
+  'is needed.',
+  '',
+  '---',
+  ' src/a.ts | 2 +-',
+  ' 1 file changed, 1 insertion(+), 1 deletion(-)',
+  '',
+  ...FILE_DIFF,
+  '-- ',
+  '2.45.0',
+  '',
+  `From ${SECOND_HASH} Mon Sep 17 00:00:00 2001`,
+  'From: =?UTF-8?q?Ren=C3=A9?= <rene@example.com>',
+  'Date: Tue, 2 Jan 2024 10:00:00 +0000',
+  'Subject: [PATCH v2 2/2] Use the parser',
+  '',
+  ...FILE_DIFF,
+  '-- ',
+  '2.45.0',
+  '',
+].join('\n');
+
+const GIT_LOG = [
+  `commit ${SECOND_HASH} (HEAD -> main)`,
+  'Author: Jane Doe <jane@example.com>',
+  'Date:   Tue Jan 2 10:00:00 2024 +0000',
+  '',
+  '    Use the parser',
+  '',
+  '    Wire it into the CLI.',
+  '        Indented detail.',
+  '',
+  ...FILE_DIFF,
+  '',
+  `commit ${FIRST_HASH}`,
+  'Author: Jane Doe <jane@example.com>',
+  'Date:   Mon Jan 1 10:00:00 2024 +0000',
+  '',
+  '    Add a parser',
+  '',
+  ...FILE_DIFF,
+].join('\n');
+
+describe('splitPatchSeries', () => {
+  it('splits git format-patch output into its patches', () => {
+    const patches = splitPatchSeries(MBOX);
+
+    expect(patches).toHaveLength(2);
+    expect(patches[0]).toEqual({
+      hash: FIRST_HASH,
+      author: 'Jane Doe <jane@example.com>',
+      date: 'Mon, 1 Jan 2024 10:00:00 +0000',
+      subject: 'Add a parser for long inputs',
+      body: 'Explain why the parser\nis needed.',
+      diff: FILE_DIFF.join('\n'),
+    });
+    expect(patches[1]).toMatchObject({
+      author: 'René <rene@example.com>',
+      subject: 'Use the parser',
+      body: '',
+      diff: FILE_DIFF.join('\n'),
+    });
+  });
+
+  it('splits git log -p output into its commits', () => {
+    const patches = splitPatchSeries(GIT_LOG);
+
+    expect(patches).toHaveLength(2);
+    expect(patches[0]).toEqual({
+      hash: SECOND_HASH,
+      author: 'Jane Doe <jane@example.com>',
+      date: 'Tue Jan 2 10:00:00 2024 +0000',
+      subject: 'Use the parser',
+      body: 'Wire it into the CLI.\n    Indented detail.',
+      diff: `${FILE_DIFF.join('\n')}\n`,
+    });
+    expect(patches[1]).toMatchObject({ subject: 'Add a parser', body: '' });
+  });
+
+  it('returns nothing for a plain diff', () => {
+    expect(splitPatchSeries(FILE_DIFF.join('\n'))).toEqual([]);
+  });
+
+  it('leaves a single patch to the plain diff view', () => {
+    const singleCommit = GIT_LOG.slice(0, GIT_LOG.indexOf(`commit ${FIRST_HASH}`));
+    const singlePatch = MBOX.slice(0, MBOX.indexOf(`From ${SECOND_HASH}`));
+
+    expect(splitPatchSeries(singleCommit)).toEqual([]);
+    expect(splitPatchSeries(singlePatch)).toEqual([]);
+  });
+});
+
+describe('createCommitMessageFile', () => {
+  it('lists the commit header and message as commentable lines', () => {
+    const file = createCommitMessageFile({
+      author: 'Jane Doe <jane@example.com>',
+      subject: 'Add a parser',
+      body: 'Explain why.',
+      diff: '',
+    });
+
+    expect(file).toMatchObject({ path: 'COMMIT_MSG', additions: 0, deletions: 0 });
+    expect(file.chunks[0]?.header).toBe('@@ -1,5 +1,5 @@');
+    expect(file.chunks[0]?.lines.map((line) => line.content)).toEqual([
+      'Author: Jane Doe <jane@example.com>',
+      '',
+      'Add a parser',
+      '',
+      'Explain why.',
+    ]);
+    expect(file.chunks[0]?.lines[2]).toMatchObject({
+      type: 'normal',
+      oldLineNumber: 3,
+      newLineNumber: 3,
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import type { DiffFile } from '../types/diff.js';
+
+// Pseudo file holding the commit message of a patch, named after Gerrit's convention
+export const COMMIT_MESSAGE_PATH = 'COMMIT_MSG';
+
+export interface SeriesPatch {
+  hash?: string;
+  author?: string;
+  date?: string;
+  subject: string;
+  body: string;
+  // Unified diff of the patch, starting at its first `diff --git` line
+  diff: string;
+}
+
+// `git format-patch` starts every message with this fixed mbox separator
+const MBOX_SEPARATOR_PATTERN = /^From ([0-9a-f]{40}) Mon Sep 17 00:00:00 2001$/;
+// `git log -p` starts every commit with its hash, optionally followed by decorations
+const LOG_COMMIT_PATTERN = /^commit ([0-9a-f]{7,64})(?: \(.*\))?$/;
+const PATCH_SUBJECT_PREFIX_PATTERN = /^\[[^\]]*PATCH[^\]]*\]\s*/i;
+const MIME_WORD_PATTERN = /=\?([^?]+)\?([bq])\?([^?]*)\?=/gi;
+
+// Decodes RFC 2047 encoded words, which git uses for non-ASCII names and subjects
+function decodeMimeWords(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(MIME_WORD_PATTERN, (_match, charset: string, encoding: string, text: string) => {
+      const bytes =
+        encoding.toLowerCase() === 'b'
+          ? Buffer.from(text, 'base64')
+          : Buffer.from(
+              text
+                .replace(/_/g, ' ')
+                .replace(/=([0-9a-f]{2})/gi, (_hex, code: string) =>
+                  String.fromCharCode(parseInt(code, 16)),
+                ),
+              'latin1',
+            );
+      return bytes.toString(/^utf-?8$/i.test(charset) ? 'utf8' : 'latin1');
+    });
+}
+
+function splitAt(lines: string[], pattern: RegExp): { match: RegExpMatchArray; lines: string[] }[] {
+  const blocks: { match: RegExpMatchArray; lines: string[] }[] = [];
+  for (const line of lines) {
+    const match = line.match(pattern);
+    if (match) {
+      blocks.push({ match, lines: [] });
+    } else {
+      blocks.at(-1)?.lines.push(line);
+    }
+  }
+  return blocks;
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start]?.trim() === '') start++;
+  while (end > start && lines[end - 1]?.trim() === '') end--;
+  return lines.slice(start, end);
+}
+
+function getDiffText(lines: string[]): string {
+  const diffStart = lines.findIndex((line) => line.startsWith('diff --git '));
+  return diffStart >= 0 ? lines.slice(diffStart).join('\n') : '';
+}
+
+function parseMboxPatch(hash: string, lines: string[]): SeriesPatch {
+  const headers = new Map<string, string>();
+  let lastHeader: string | undefined;
+  let index = 0;
+
+  for (; index < lines.length && lines[index] !== ''; index++) {
+    const line = lines[index] ?? '';
+    if (/^\s/.test(line) && lastHeader) {
+      // Folded header continuation
+      headers.set(lastHeader, `${headers.get(lastHeader) ?? ''} ${line.trim()}`);
+      continue;
+    }
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      lastHeader = line.slice(0, separator).toLowerCase();
+      headers.set(lastHeader, line.slice(separator + 1).trim());
+    }
+  }
+
+  // The message ends at the `---` line before the diffstat, or at the diff itself
+  const rest = lines.slice(index + 1);
+  const bodyEnd = rest.findIndex((line) => line === '---' || line.startsWith('diff --git '));
+  const body = trimBlankLines(bodyEnd >= 0 ? rest.slice(0, bodyEnd) : rest);
+
+  // format-patch closes each message with a `-- ` line and the git version
+  const diffLines = [...rest];
+  const lastLines = trimBlankLines(diffLines);
+  if (lastLines.length >= 2 && lastLines.at(-2) === '-- ') {
+    diffLines.splice(diffLines.lastIndexOf('-- '));
+  }
+
+  const author = headers.get('from');
+  const date = headers.get('date');
+  return {
+    hash,
+    ...(author ? { author: decodeMimeWords(author) } : {}),
+    ...(date ? { date } : {}),
+    subject: decodeMimeWords(headers.get('subject') ?? '').replace(
+      PATCH_SUBJECT_PREFIX_PATTERN,
+      '',
+    ),
+    body: body.join('\n'),
+    diff: getDiffText(diffLines),
+  };
+}
+
+function parseLogPatch(hash: string, lines: string[]): SeriesPatch {
+  const headers = new Map<string, string>();
+  let index = 0;
+
+  for (; index < lines.length && lines[index] !== ''; index++) {
+    const match = (lines[index] ?? '').match(/^(\w+):\s*(.*)$/);
+    if (match?.[1] && match[2] !== undefined) {
+      headers.set(match[1].toLowerCase(), match[2]);
+    }
+  }
+
+  // The message is indented by four spaces and runs until the diff
+  const messageLines: string[] = [];
+  for (index += 1; index < lines.length; index++) {
+    const line = lines[index] ?? '';
+    if (line !== '' && !line.startsWith('    ')) break;
+    messageLines.push(line.slice(4));
+  }
+  const [subject = '', ...body] = trimBlankLines(messageLines);
+
+  const author = headers.get('author');
+  const date = headers.get('date');
+  return {
+    hash,
+    ...(author ? { author } : {}),
+    ...(date ? { date } : {}),
+    subject,
+    body: trimBlankLines(body).join('\n'),
+    diff: getDiffText(lines.slice(index)),
+  };
+}
+
+/**
+ * Splits `git format-patch` mbox output or `git log -p` output into its patches.
+ * Returns an empty list for a plain diff or a single patch, which read fine as one diff.
+ */
+export function splitPatchSeries(input: string): SeriesPatch[] {
+  const lines = input.replace(/\r\n/g, '\n').split('\n');
+
+  const mboxBlocks = splitAt(lines, MBOX_SEPARATOR_PATTERN);
+  const patches =
+    mboxBlocks.length > 0
+      ? mboxBlocks.map(({ match, lines: blockLines }) => parseMboxPatch(match[1] ?? '', blockLines))
+      : splitAt(lines, LOG_COMMIT_PATTERN).map(({ match, lines: blockLines }) =>
+          parseLogPatch(match[1] ?? '', blockLines),
+        );
+
+  return patches.length >= 2 ? patches : [];
+}
+
+// Shows the commit message as unchanged lines so it can be commented on like code
+export function createCommitMessageFile(patch: SeriesPatch): DiffFile {
+  const messageLines = [
+    ...(patch.author ? [`Author: ${patch.author}`] : []),
+    ...(patch.date ? [`Date:   ${patch.date}`] : []),
+    ...(patch.author || patch.date ? [''] : []),
+    patch.subject,
+    ...(patch.body ? ['', ...patch.body.split('\n')] : []),
+  ];
+  const lineCount = messageLines.length;
+
+  return {
+    path: COMMIT_MESSAGE_PATH,
+    status: 'modified',
+    additions: 0,
+    deletions: 0,
+    chunks: [
+      {
+        header: `@@ -1,${lineCount} +1,${lineCount} @@`,
+        oldStart: 1,
+        oldLines: lineCount,
+        newStart: 1,
+        newLines: lineCount,
+        lines: messageLines.map((content, index) => ({
+          type: 'normal',
+          content,
+          oldLineNumber: index + 1,
+          newLineNumber: index + 1,
+        })),
+      },
+    ],
+  };
+}
@@ -7,13 +7,15 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 // Set environment variable to skip fetch mocking
 process.env.VITEST_SERVER_TEST = 'true';
 
+import { readCommentNotes, writeCommentNotes } from './git-notes.js';
 import { startServer } from './server.js';
-import type { CommentImport } from '../types/diff.js';
+import type { CommentImport, DiffResponse } from '../types/diff.js';
 
 // Add fetch polyfill for Node.js test environment
 const { fetch } = await import('undici');
 globalThis.fetch = fetch as any;
 const parserInstances = vi.hoisted(() => [] as any[]);
+const stdinPatchSeries = vi.hoisted(() => [] as DiffResponse[]);
 
 // Helper function to get available port
 async function getAvailablePort(preferredPort: number): Promise<number> {
@@ -34,6 +36,11 @@ async function getAvailablePort(preferredPort: number): Promise<number> {
   return port;
 }
 
+vi.mock('./git-notes.js', () => ({
+  readCommentNotes: vi.fn().mockResolvedValue([]),
+  writeCommentNotes: vi.fn().mockResolvedValue(undefined),
+}));
+
 // Mock GitDiffParser
 vi.mock('./git-diff.js', () => {
   class GitDiffParserMock {
@@ -79,20 +86,85 @@ vi.mock('./git-diff.js', () => {
       stats: { additions: 1, deletions: 0 },
       isEmpty: false,
     });
+    parseStdinPatchSeries = vi.fn(() => [...stdinPatchSeries]);
+    parseNoIndexDiff = vi.fn().mockResolvedValue({
+      commit: 'out-old vs out-new',
+      files: [{ path: 'index.js', status: 'modified', additions: 1, deletions: 1, chunks: [] }],
+      isEmpty: false,
+      baseCommitish: 'out-old',
+      targetCommitish: 'out-new',
+      requestedBaseCommitish: 'out-old',
+      requestedTargetCommitish: 'out-new',
+    });
     getBlobContent = vi.fn().mockResolvedValue(Buffer.from('mock image data'));
     getLineCount = vi.fn().mockResolvedValue(42);
+    getBlame = vi.fn().mockResolvedValue({
+      commits: [
+        {
+          hash: '1111111aaaa',
+          shortHash: '1111111',
+          author: 'Alice',
+          authorTime: 1700000000,
+          summary: 'First commit',
+        },
+      ],
+      lines: [0, 0],
+    });
     getGeneratedStatus = vi.fn().mockResolvedValue({
       isGenerated: true,
       source: 'content',
     });
     clearResolvedCommitCache = vi.fn();
+    applyPatch = vi.fn().mockResolvedValue(undefined);
+    commit = vi.fn().mockResolvedValue({ commit: 'abc1234' });
     getRevisionOptions = vi.fn().mockResolvedValue({
       branches: [{ name: 'main', current: true }],
       commits: [{ hash: 'abc1234', shortHash: 'abc1234', message: 'Test commit' }],
+      stashes: [
+        {
+          ref: 'stash@{0}',
+          hash: 'fedcba9876',
+          shortHash: 'fedcba9',
+          message: 'WIP on main: abc1234 Test commit',
+        },
+      ],
       originDefaultBranch: 'origin/main',
       resolvedBase: 'abc1234',
       resolvedTarget: 'def5678',
     });
+    getFileHistory = vi.fn().mockResolvedValue([
+      {
+        hash: '2222222bbbb',
+        shortHash: '2222222',
+        author: 'Bob',
+        authorTime: 1705000000,
+        summary: 'Move parser',
+        path: 'src/parser.ts',
+        oldPath: 'lib/parser.ts',
+      },
+    ]);
+    getRangeCommits = vi.fn().mockResolvedValue([
+      { hash: '1111111aaaa', shortHash: '1111111', message: 'First commit' },
+      { hash: '2222222bbbb', shortHash: '2222222', message: 'Second commit' },
+    ]);
+    parseRangeDiff = vi.fn().mockImplementation(async (range: any) => ({
+      ...range,
+      pairs: [
+        {
+          status: 'modified',
+          old: { index: 1, shortHash: '1111111' },
+          new: { index: 1, shortHash: '3333333' },
+          title: 'First commit',
+          lines: [{ type: 'add', content: '+new line' }],
+        },
+      ],
+    }));
+    parseSubmoduleDiff = vi.fn().mockResolvedValue({
+      commit: '1111111...2222222',
+      files: [{ path: 'src/lib.ts', status: 'modified', additions: 1, deletions: 1, chunks: [] }],
+      baseCommitish: '1111111',
+      targetCommitish: '2222222',
+    });
   }
 
   return { GitDiffParser: GitDiffParserMock };
@@ -345,6 +417,192 @@ describe('Server Integration Tests', () => {
         }
       }
     });
+    describe('comment store', () => {
+      let storeDir: string;
+
+      beforeEach(async () => {
+        storeDir = await fs.mkdtemp(join(tmpdir(), 'difit-comment-store-'));
+      });
+
+      afterEach(async () => {
+        await fs.rm(storeDir, { recursive: true, force: true });
+      });
+
+      const startStoredServer = async (commentImports?: CommentImport[]) =>
+        startServer({
+          preferredPort: await getAvailablePort(4966),
+          openBrowser: false,
+          commentStoreDir: storeDir,
+          ...(commentImports ? { commentImports } : {}),
+        });
+
+      const closeServer = (server?: { close: (callback: () => void) => void }) =>
+        new Promise<void>((resolve) => {
+          if (!server) return resolve();
+          server.close(() => resolve());
+        });
+
+      // Sessions are written in the background after each change
+      const waitForStoredSession = (predicate: (content: string) => boolean) =>
+        vi.waitFor(async () => {
+          const fileNames = await fs.readdir(storeDir);
+          const contents = await Promise.all(
+            fileNames.map((fileName) => fs.readFile(join(storeDir, fileName), 'utf-8')),
+          );
+          expect(contents.some(predicate)).toBe(true);
+        });
+
+      it('restores threads and viewed files saved by a previous server', async () => {
+        const viewedFile = {
+          filePath: 'src/a.ts',
+          viewedAt: isoNow,
+          diffContentHash: 'hash-a',
+        };
+        const first = await startStoredServer();
+        try {
+          await fetch(`http://localhost:${first.port}/api/comments`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              threads: [makeThread('t1', 'src/a.ts', 10, 'kept across restarts')],
+              viewedFiles: [viewedFile],
+            }),
+          });
+          await waitForStoredSession(
+            (content) => content.includes('kept across restarts') && content.includes('hash-a'),
+          );
+        } finally {
+          await closeServer(first.server);
+        }
+
+        const second = await startStoredServer();
+        try {
+          const response = await fetch(`http://localhost:${second.port}/api/comments-json`);
+          const session = (await response.json()) as {
+            threads: Array<{ id: string }>;
+            viewedFiles: unknown[];
+          };
+          expect(session.threads.map((thread) => thread.id)).toEqual(['t1']);
+          expect(session.viewedFiles).toEqual([viewedFile]);
+        } finally {
+          await closeServer(second.server);
+        }
+      });
+
+      it('does not bring back command-line comments removed before a restart', async () => {
+        const imports: CommentImport[] = [
+          {
+            type: 'thread',
+            id: 'cli-1',
+            filePath: 'src/a.ts',
+            position: { side: 'new', line: 3 },
+            body: 'from --comment',
+          },
+        ];
+        const first = await startStoredServer(imports);
+        try {
+          const session = await getSession(first.port);
+          expect(session.threads).toHaveLength(1);
+          await fetch(
+            `http://localhost:${first.port}/api/comments/${session.threads[0]?.id ?? ''}`,
+            { method: 'DELETE' },
+          );
+          await waitForStoredSession((content) => content.includes('"threads": []'));
+        } finally {
+          await closeServer(first.server);
+        }
+
+        const second = await startStoredServer(imports);
+        try {
+          expect((await getSession(second.port)).threads).toHaveLength(0);
+        } finally {
+          await closeServer(second.server);
+        }
+      });
+    });
+
+    describe('git notes', () => {
+      const noteImports: CommentImport[] = [
+        {
+          type: 'thread',
+          id: 'note-1',
+          filePath: 'src/a.ts',
+          position: { side: 'new', line: 5 },
+          body: 'from a colleague',
+        },
+      ];
+
+      const startNotesServer = async (commentNotes: boolean) => {
+        const result = await startServer({
+          selection: { baseCommitish: 'HEAD^', targetCommitish: 'HEAD' },
+          preferredPort: await getAvailablePort(4966),
+          openBrowser: false,
+          commentNotes,
+        });
+        servers.push(result.server);
+        return result;
+      };
+
+      beforeEach(() => {
+        vi.mocked(readCommentNotes).mockClear();
+        vi.mocked(writeCommentNotes).mockClear();
+      });
+
+      it('shows threads noted on the target commit as startup comments', async () => {
+        vi.mocked(readCommentNotes).mockResolvedValueOnce(noteImports);
+        const { port } = await startNotesServer(true);
+
+        expect(readCommentNotes).toHaveBeenCalledWith(expect.any(String), 'HEAD');
+        const diff = (await (await fetch(`http://localhost:${port}/api/diff`)).json()) as {
+          commentImports?: CommentImport[];
+        };
+        expect(diff.commentImports).toEqual(noteImports);
+        expect((await getSession(port)).threads.map((thread) => thread.id)).toEqual(['note-1']);
+      });
+
+      it('writes thread changes back to the notes of the target commit', async () => {
+        const { port } = await startNotesServer(true);
+
+        await postThreads(port, [makeThread('t1', 'src/a.ts', 10, 'share me')]);
+
+        await vi.waitFor(() => {
+          expect(writeCommentNotes).toHaveBeenCalledWith(
+            expect.any(String),
+            'abc1234',
+            [expect.objectContaining({ id: 't1' })],
+            [],
+          );
+        });
+      });
+
+      it('tells the notes which threads this review removed', async () => {
+        const { port } = await startNotesServer(true);
+
+        await postThreads(port, [
+          makeThread('t1', 'src/a.ts', 10, 'keep me'),
+          makeThread('t2', 'src/a.ts', 12, 'resolve me'),
+        ]);
+        await postThreads(port, [makeThread('t1', 'src/a.ts', 10, 'keep me')]);
+
+        await vi.waitFor(() => {
+          expect(writeCommentNotes).toHaveBeenLastCalledWith(
+            expect.any(String),
+            'abc1234',
+            [expect.objectContaining({ id: 't1' })],
+            ['t2'],
+          );
+        });
+      });
+
+      it('leaves git notes alone unless asked to', async () => {
+        const { port } = await startNotesServer(false);
+
+        await postThreads(port, [makeThread('t1', 'src/a.ts', 10, 'local only')]);
+
+        expect(readCommentNotes).not.toHaveBeenCalled();
+        expect(writeCommentNotes).not.toHaveBeenCalled();
+      });
+    });
   });
 
   let servers: any[] = [];
@@ -355,6 +613,7 @@ describe('Server Integration Tests', () => {
     originalProcessExit = process.exit;
     process.exit = vi.fn() as any;
     parserInstances.length = 0;
+    stdinPatchSeries.length = 0;
   });
 
   afterEach(async () => {
@@ -591,6 +850,81 @@ describe('Server Integration Tests', () => {
       );
     });
 
+    it('GET /api/diff passes pathspecs through and caches them separately', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^' },
+      });
+      servers.push(result.server);
+
+      const parser = parserInstances.at(-1);
+      parser?.parseDiff.mockClear();
+
+      const filteredResponse = await fetch(
+        `http://localhost:${result.port}/api/diff?base=HEAD%5E&target=HEAD&pathspec=src%2F&pathspec=%3A!*.snap`,
+      );
+      const data = (await filteredResponse.json()) as any;
+      const unfilteredResponse = await fetch(
+        `http://localhost:${result.port}/api/diff?base=HEAD%5E&target=HEAD`,
+      );
+
+      expect(filteredResponse.ok).toBe(true);
+      expect(unfilteredResponse.ok).toBe(true);
+      expect(parser?.parseDiff).toHaveBeenCalledTimes(1);
+      expect(parser?.parseDiff).toHaveBeenCalledWith(
+        { targetCommitish: 'HEAD', baseCommitish: 'HEAD^', pathspecs: ['src/', ':!*.snap'] },
+        false,
+        undefined,
+      );
+      expect(data.requestedPathspecs).toEqual(['src/', ':!*.snap']);
+    });
+
+    it('GET /api/diff keeps the pathspecs passed on the command line', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^', pathspecs: ['packages/app'] },
+      });
+      servers.push(result.server);
+
+      const parser = parserInstances.at(-1);
+      expect(parser?.parseDiff).toHaveBeenCalledWith(
+        { targetCommitish: 'HEAD', baseCommitish: 'HEAD^', pathspecs: ['packages/app'] },
+        false,
+        undefined,
+      );
+
+      const response = await fetch(`http://localhost:${result.port}/api/diff`);
+      const data = (await response.json()) as any;
+
+      expect(data.requestedPathspecs).toEqual(['packages/app']);
+    });
+
+    it('keeps separate comment sessions per pathspec filter', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^' },
+      });
+      servers.push(result.server);
+
+      await fetch(
+        `http://localhost:${result.port}/api/comments?base=def4567&target=abc1234&pathspec=src%2F`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            comments: [{ file: 'src/test.js', line: 1, body: 'Filtered comment' }],
+          }),
+        },
+      );
+
+      const filtered = await fetch(
+        `http://localhost:${result.port}/api/comments-json?base=def4567&target=abc1234&pathspec=src%2F`,
+      );
+      const unfiltered = await fetch(
+        `http://localhost:${result.port}/api/comments-json?base=def4567&target=abc1234`,
+      );
+
+      expect(((await filtered.json()) as any).threads).toHaveLength(1);
+      expect(((await unfiltered.json()) as any).threads).toEqual([]);
+    });
+
     it('GET /api/diff evicts least recently used cached diff responses', async () => {
       const result = await startServer({
         selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^' },
@@ -925,6 +1259,23 @@ describe('Server Integration Tests', () => {
       expect(data.threads[0].messages[0].body).toBe('JSON test comment');
     });
 
+    it('POST /api/published-comments records what publish posted in comments-json', async () => {
+      const record = (publishedComments: unknown) =>
+        fetch(`http://localhost:${port}/api/published-comments`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ publishedComments }),
+        });
+
+      expect((await record({ a: 501 })).ok).toBe(true);
+      expect((await record({ b: 502 })).ok).toBe(true);
+      expect((await record({ c: 'not-an-id' })).status).toBe(400);
+
+      const response = await fetch(`http://localhost:${port}/api/comments-json`);
+      const data = (await response.json()) as any;
+      expect(data.publishedComments).toEqual({ a: 501, b: 502 });
+    });
+
     it('POST /api/comment-imports merges into server-side threads for comments-output', async () => {
       const imports = [
         {
@@ -1357,12 +1708,641 @@ describe('Server Integration Tests', () => {
       expect(data.commits).toEqual([
         { hash: 'abc1234', shortHash: 'abc1234', message: 'Test commit' },
       ]);
+      expect(data.stashes).toEqual([
+        {
+          ref: 'stash@{0}',
+          hash: 'fedcba9876',
+          shortHash: 'fedcba9',
+          message: 'WIP on main: abc1234 Test commit',
+        },
+      ]);
       expect(data.originDefaultBranch).toBe('origin/main');
       expect(data.resolvedBase).toBe('abc1234');
       expect(data.resolvedTarget).toBe('def5678');
     });
   });
 
+  describe('Commit range', () => {
+    it('includes the commits of the range passed via --commits in revisions', async () => {
+      const result = await startServer({
+        selection: { baseCommitish: 'main', targetCommitish: 'feature', baseMode: 'merge-base' },
+        commitRange: { baseCommitish: 'main', targetCommitish: 'feature' },
+      });
+      servers.push(result.server);
+
+      const response = await fetch(`http://localhost:${result.port}/api/revisions`);
+      const data = (await response.json()) as any;
+
+      expect(response.ok).toBe(true);
+      expect(data.commitRange).toEqual({
+        baseCommitish: 'main',
+        targetCommitish: 'feature',
+        commits: [
+          { hash: '1111111aaaa', shortHash: '1111111', message: 'First commit' },
+          { hash: '2222222bbbb', shortHash: '2222222', message: 'Second commit' },
+        ],
+      });
+      expect(parserInstances.at(-1).getRangeCommits).toHaveBeenCalledWith({
+        baseCommitish: 'main',
+        targetCommitish: 'feature',
+      });
+    });
+
+    it('omits the commit range when --commits was not used', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^' },
+      });
+      servers.push(result.server);
+
+      const response = await fetch(`http://localhost:${result.port}/api/revisions`);
+      const data = (await response.json()) as any;
+
+      expect(data).not.toHaveProperty('commitRange');
+      expect(parserInstances.at(-1).getRangeCommits).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('No-index diff', () => {
+    const noIndex = { oldPath: 'out-old', newPath: 'out-new' };
+
+    it('diffs the two paths and reads blobs through the parser', async () => {
+      const result = await startServer({ noIndex, contextLines: 5 });
+      servers.push(result.server);
+      const parser = parserInstances.at(-1);
+
+      const diffResponse = await fetch(
+        `http://localhost:${result.port}/api/diff?ignoreWhitespace=true`,
+      );
+      const data = (await diffResponse.json()) as any;
+
+      expect(data).toMatchObject({
+        commit: 'out-old vs out-new',
+        baseCommitish: 'out-old',
+        targetCommitish: 'out-new',
+        openInEditorAvailable: false,
+        applySuggestionsAvailable: false,
+        historyAvailable: false,
+        commitAvailable: false,
+        hunkActions: [],
+      });
+      expect(parser.validateCommit).not.toHaveBeenCalled();
+      expect(parser.parseDiff).not.toHaveBeenCalled();
+      expect(parser.parseNoIndexDiff).toHaveBeenCalledWith(true, 5);
+
+      const blobResponse = await fetch(
+        `http://localhost:${result.port}/api/blob/index.js?ref=out-old`,
+      );
+      expect(blobResponse.ok).toBe(true);
+      expect(parser.getBlobContent).toHaveBeenCalledWith('index.js', 'out-old');
+
+      const lineCountResponse = await fetch(
+        `http://localhost:${result.port}/api/line-count/index.js?oldRef=out-old&newRef=out-new`,
+      );
+      expect(await lineCountResponse.json()).toEqual({ oldLineCount: 42, newLineCount: 42 });
+    });
+
+    it('rejects endpoints that need git history', async () => {
+      const result = await startServer({ noIndex });
+      servers.push(result.server);
+
+      const blameResponse = await fetch(
+        `http://localhost:${result.port}/api/blame/index.js?ref=out-new`,
+      );
+      expect(blameResponse.status).toBe(404);
+      expect(await blameResponse.json()).toEqual({
+        error: 'Blame not available for --no-index diff',
+      });
+
+      const revisionsResponse = await fetch(`http://localhost:${result.port}/api/revisions`);
+      expect(revisionsResponse.status).toBe(400);
+    });
+  });
+
+  describe('Stdin patch series', () => {
+    const createPatch = (patchNumber: number, subject: string): DiffResponse => ({
+      commit: subject,
+      files: [{ path: 'COMMIT_MSG', status: 'modified', additions: 0, deletions: 0, chunks: [] }],
+      isEmpty: false,
+      baseCommitish: 'stdin',
+      targetCommitish: `stdin:patch-${patchNumber}`,
+      requestedBaseCommitish: 'stdin',
+      requestedTargetCommitish: `stdin:patch-${patchNumber}`,
+    });
+
+    beforeEach(() => {
+      stdinPatchSeries.push(createPatch(1, 'Add parser'), createPatch(2, 'Use parser'));
+    });
+
+    it('serves the first patch and switches patches by target', async () => {
+      const result = await startServer({ stdinDiff: 'From 1234 Mon Sep 17 00:00:00 2001' });
+      servers.push(result.server);
+
+      let response = await fetch(`http://localhost:${result.port}/api/diff`);
+      expect(((await response.json()) as any).commit).toBe('Add parser');
+
+      response = await fetch(
+        `http://localhost:${result.port}/api/diff?base=stdin&target=stdin:patch-2`,
+      );
+      const data = (await response.json()) as any;
+      expect(data).toMatchObject({
+        commit: 'Use parser',
+        targetCommitish: 'stdin:patch-2',
+        historyAvailable: false,
+      });
+      expect(parserInstances.at(-1).parseStdinDiff).not.toHaveBeenCalled();
+    });
+
+    it('keeps comments separate per patch', async () => {
+      const result = await startServer({ stdinDiff: 'From 1234 Mon Sep 17 00:00:00 2001' });
+      servers.push(result.server);
+
+      await fetch(`http://localhost:${result.port}/api/comments?base=stdin&target=stdin:patch-2`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          comments: [
+            {
+              id: '1',
+              file: 'COMMIT_MSG',
+              line: 4,
+              body: 'Reword the subject',
+              timestamp: '2024-01-01T00:00:00Z',
+            },
+          ],
+        }),
+      });
+
+      const firstOutput = await fetch(
+        `http://localhost:${result.port}/api/comments-output?base=stdin&target=stdin:patch-1`,
+      );
+      expect(await firstOutput.text()).toBe('');
+
+      const secondOutput = await fetch(
+        `http://localhost:${result.port}/api/comments-output?base=stdin&target=stdin:patch-2`,
+      );
+      expect(await secondOutput.text()).toContain('Reword the subject');
+    });
+  });
+
+  describe('Range diff API', () => {
+    it('returns the range-diff of the --interdiff tips', async () => {
+      const interdiff = { oldTip: 'feature-v1', newTip: 'feature', onto: 'main' };
+      const result = await startServer({
+        selection: { baseCommitish: 'main', targetCommitish: 'feature', baseMode: 'merge-base' },
+        interdiff,
+      });
+      servers.push(result.server);
+
+      const parser = parserInstances.at(-1);
+      expect(parser.validateCommit).toHaveBeenCalledWith('feature-v1');
+      expect(parser.validateCommit).toHaveBeenCalledWith('main');
+
+      const revisionsResponse = await fetch(`http://localhost:${result.port}/api/revisions`);
+      expect(((await revisionsResponse.json()) as any).interdiff).toEqual(interdiff);
+
+      const response = await fetch(`http://localhost:${result.port}/api/range-diff`);
+      const data = (await response.json()) as any;
+
+      expect(response.ok).toBe(true);
+      expect(parser.parseRangeDiff).toHaveBeenCalledWith(interdiff);
+      expect(data.onto).toBe('main');
+      expect(data.pairs).toHaveLength(1);
+      expect(data.pairs[0].status).toBe('modified');
+    });
+
+    it('returns 404 outside interdiff mode', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^' },
+      });
+      servers.push(result.server);
+
+      const response = await fetch(`http://localhost:${result.port}/api/range-diff`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('Submodule diff API', () => {
+    it('returns the diff between the two submodule commits', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^' },
+      });
+      servers.push(result.server);
+
+      const response = await fetch(
+        `http://localhost:${result.port}/api/submodule-diff/vendor%2Flib?old=1111111&new=2222222&ignoreWhitespace=true`,
+      );
+      const data = (await response.json()) as any;
+
+      expect(response.ok).toBe(true);
+      expect(parserInstances.at(-1).parseSubmoduleDiff).toHaveBeenCalledWith(
+        'vendor/lib',
+        { oldCommit: '1111111', newCommit: '2222222' },
+        true,
+        undefined,
+      );
+      expect(data.files[0].path).toBe('src/lib.ts');
+    });
+
+    it('rejects commits that are not object names', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^' },
+      });
+      servers.push(result.server);
+
+      const response = await fetch(
+        `http://localhost:${result.port}/api/submodule-diff/vendor%2Flib?new=--output%3D%2Ftmp%2Fx`,
+      );
+
+      expect(response.status).toBe(400);
+      expect(parserInstances.at(-1).parseSubmoduleDiff).not.toHaveBeenCalled();
+    });
+
+    it('rejects submodule paths outside the repository', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^' },
+      });
+      servers.push(result.server);
+
+      const response = await fetch(
+        `http://localhost:${result.port}/api/submodule-diff/..%2Foutside?new=2222222`,
+      );
+      const data = (await response.json()) as any;
+
+      expect(response.status).toBe(400);
+      expect(data).toHaveProperty('error', 'File path outside repository');
+    });
+  });
+
+  describe('Apply suggestions API', () => {
+    let repoPath: string;
+
+    beforeEach(async () => {
+      repoPath = await fs.mkdtemp(join(tmpdir(), 'difit-apply-suggestions-'));
+      await fs.writeFile(join(repoPath, 'example.ts'), 'const a = 1;\nconst b = 2;\n');
+    });
+
+    afterEach(async () => {
+      await fs.rm(repoPath, { recursive: true, force: true });
+    });
+
+    const workingSelection = { baseCommitish: 'HEAD', targetCommitish: 'working' };
+    const suggestion = {
+      threadId: 'thread-1',
+      filePath: 'example.ts',
+      side: 'new',
+      line: 1,
+      codeSnapshot: 'const a = 1;',
+      suggestedCode: 'const a = 2;',
+    };
+
+    const postSuggestions = (port: number, suggestions: unknown[]) =>
+      fetch(`http://localhost:${port}/api/apply-suggestions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ suggestions }),
+      });
+
+    it('writes suggestions into the working-tree file', async () => {
+      const result = await startServer({ repoPath, selection: workingSelection });
+      servers.push(result.server);
+
+      const response = await postSuggestions(result.port, [
+        {
+          threadId: 'thread-1',
+          filePath: 'example.ts',
+          side: 'new',
+          line: 2,
+          codeSnapshot: 'const b = 2;',
+          suggestedCode: 'const b = 3;',
+        },
+        {
+          threadId: 'stale',
+          filePath: 'example.ts',
+          side: 'new',
+          line: 1,
+          codeSnapshot: 'const a = 0;',
+          suggestedCode: 'const a = 2;',
+        },
+        {
+          threadId: 'missing',
+          filePath: 'missing.ts',
+          side: 'new',
+          line: 1,
+          codeSnapshot: 'x',
+          suggestedCode: 'y',
+        },
+      ]);
+
+      expect(await response.json()).toEqual({
+        applied: ['thread-1'],
+        failed: [
+          { threadId: 'stale', error: 'File has changed since the comment was made' },
+          { threadId: 'missing', error: 'File not found in the working tree' },
+        ],
+      });
+      expect(await fs.readFile(join(repoPath, 'example.ts'), 'utf8')).toBe(
+        'const a = 1;\nconst b = 3;\n',
+      );
+    });
+
+    it('refuses paths outside the repository', async () => {
+      const result = await startServer({ repoPath, selection: workingSelection });
+      servers.push(result.server);
+
+      const response = await postSuggestions(result.port, [
+        {
+          threadId: 'thread-1',
+          filePath: '../outside.ts',
+          side: 'new',
+          line: 1,
+          codeSnapshot: 'x',
+          suggestedCode: 'y',
+        },
+      ]);
+
+      expect(await response.json()).toEqual({
+        applied: [],
+        failed: [{ threadId: 'thread-1', error: 'File path outside repository' }],
+      });
+    });
+
+    it('rejects malformed payloads and stdin diffs', async () => {
+      const result = await startServer({ repoPath, selection: workingSelection });
+      servers.push(result.server);
+      const stdinResult = await startServer({
+        repoPath,
+        selection: workingSelection,
+        stdinDiff: 'diff --git a/x b/x',
+      });
+      servers.push(stdinResult.server);
+
+      const malformed = await postSuggestions(result.port, [{ threadId: 'thread-1' }]);
+      const stdin = await postSuggestions(stdinResult.port, [
+        {
+          threadId: 'thread-1',
+          filePath: 'example.ts',
+          side: 'new',
+          line: 1,
+          codeSnapshot: 'const a = 1;',
+          suggestedCode: 'const a = 2;',
+        },
+      ]);
+
+      expect(malformed.status).toBe(400);
+      expect(stdin.status).toBe(400);
+      expect(await fs.readFile(join(repoPath, 'example.ts'), 'utf8')).toBe(
+        'const a = 1;\nconst b = 2;\n',
+      );
+    });
+
+    it('rejects old-side comments and diffs whose new side is not the working tree', async () => {
+      const result = await startServer({ repoPath, selection: workingSelection });
+      servers.push(result.server);
+      const commitResult = await startServer({
+        repoPath,
+        selection: { baseCommitish: 'HEAD^', targetCommitish: 'HEAD' },
+      });
+      servers.push(commitResult.server);
+
+      const oldSide = await postSuggestions(result.port, [{ ...suggestion, side: 'old' }]);
+      const commitDiff = await postSuggestions(commitResult.port, [suggestion]);
+
+      expect(oldSide.status).toBe(400);
+      expect(await oldSide.json()).toEqual({
+        error: 'Suggestions can only be applied to new-side comments',
+      });
+      expect(commitDiff.status).toBe(400);
+      expect(await commitDiff.json()).toEqual({
+        error: 'Suggestions can only be applied to working tree diffs',
+      });
+      expect(await fs.readFile(join(repoPath, 'example.ts'), 'utf8')).toBe(
+        'const a = 1;\nconst b = 2;\n',
+      );
+    });
+  });
+
+  describe('Hunk action API', () => {
+    const hunkRequest = {
+      action: 'stage',
+      filePath: 'example.ts',
+      status: 'modified',
+      chunk: {
+        oldStart: 1,
+        newStart: 1,
+        lines: [
+          { type: 'normal', content: 'const a = 1;' },
+          { type: 'delete', content: 'const b = 2;' },
+          { type: 'add', content: 'const b = 3;' },
+        ],
+      },
+    };
+
+    const postHunkAction = (port: number, body: unknown) =>
+      fetch(`http://localhost:${port}/api/hunk-action`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    it('offers hunk actions only for uncommitted diffs', async () => {
+      const working = await startServer({
+        selection: { targetCommitish: 'working', baseCommitish: 'staged' },
+      });
+      servers.push(working.server);
+      const commits = await startServer({
+        selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^' },
+      });
+      servers.push(commits.server);
+
+      const getHunkActions = async (port: number) =>
+        ((await (await fetch(`http://localhost:${port}/api/diff`)).json()) as DiffResponse)
+          .hunkActions;
+
+      expect(await getHunkActions(working.port)).toEqual(['stage', 'discard']);
+      expect(await getHunkActions(commits.port)).toEqual([]);
+    });
+
+    it('applies the hunk as a patch with the options for the action', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'working', baseCommitish: 'staged' },
+      });
+      servers.push(result.server);
+      const parser = parserInstances.at(-1);
+
+      const staged = await postHunkAction(result.port, hunkRequest);
+      const discarded = await postHunkAction(result.port, {
+        ...hunkRequest,
+        action: 'discard',
+        lineIndices: [2],
+      });
+
+      expect(staged.status).toBe(200);
+      expect(discarded.status).toBe(200);
+      expect(parser.applyPatch).toHaveBeenNthCalledWith(
+        1,
+        [
+          'diff --git a/example.ts b/example.ts',
+          '--- a/example.ts',
+          '+++ b/example.ts',
+          '@@ -1,2 +1,2 @@',
+          ' const a = 1;',
+          '-const b = 2;',
+          '+const b = 3;',
+          '',
+        ].join('\n'),
+        { cached: true, reverse: false },
+      );
+      expect(parser.applyPatch).toHaveBeenNthCalledWith(
+        2,
+        [
+          'diff --git a/example.ts b/example.ts',
+          '--- a/example.ts',
+          '+++ b/example.ts',
+          '@@ -1,1 +1,2 @@',
+          ' const a = 1;',
+          '+const b = 3;',
+          '',
+        ].join('\n'),
+        { cached: false, reverse: true },
+      );
+    });
+
+    it('reports patches git refuses to apply', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'working', baseCommitish: 'staged' },
+      });
+      servers.push(result.server);
+      parserInstances
+        .at(-1)
+        .applyPatch.mockRejectedValueOnce(new Error('error: patch failed: example.ts:1'));
+
+      const response = await postHunkAction(result.port, hunkRequest);
+
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({ error: 'error: patch failed: example.ts:1' });
+    });
+
+    it('rejects actions the current selection does not offer', async () => {
+      const commits = await startServer({
+        selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^' },
+      });
+      servers.push(commits.server);
+      const staged = await startServer({
+        selection: { targetCommitish: 'staged', baseCommitish: 'HEAD' },
+      });
+      servers.push(staged.server);
+
+      const discardCommit = await postHunkAction(commits.port, {
+        ...hunkRequest,
+        action: 'discard',
+      });
+      const stageStaged = await postHunkAction(staged.port, hunkRequest);
+
+      expect(discardCommit.status).toBe(400);
+      expect(await discardCommit.json()).toEqual({ error: 'Cannot discard hunks of this diff' });
+      expect(stageStaged.status).toBe(400);
+      expect(parserInstances.at(-2).applyPatch).not.toHaveBeenCalled();
+      expect(parserInstances.at(-1).applyPatch).not.toHaveBeenCalled();
+    });
+
+    it('rejects malformed payloads, paths outside the repository and stdin diffs', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'working', baseCommitish: 'staged' },
+      });
+      servers.push(result.server);
+      const stdinResult = await startServer({ stdinDiff: 'diff --git a/x b/x' });
+      servers.push(stdinResult.server);
+
+      const malformed = await postHunkAction(result.port, { action: 'stage' });
+      const outside = await postHunkAction(result.port, {
+        ...hunkRequest,
+        filePath: '../outside.ts',
+      });
+      const stdin = await postHunkAction(stdinResult.port, hunkRequest);
+
+      expect(malformed.status).toBe(400);
+      expect(outside.status).toBe(400);
+      expect(stdin.status).toBe(400);
+      expect(parserInstances.at(-2).applyPatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Commit API', () => {
+    const postCommit = (port: number, body: unknown) =>
+      fetch(`http://localhost:${port}/api/commit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    it('offers committing for staged and uncommitted diffs only', async () => {
+      const staged = await startServer({
+        selection: { targetCommitish: 'staged', baseCommitish: 'HEAD' },
+      });
+      servers.push(staged.server);
+      const commits = await startServer({
+        selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^' },
+      });
+      servers.push(commits.server);
+
+      const isCommitAvailable = async (port: number) =>
+        ((await (await fetch(`http://localhost:${port}/api/diff`)).json()) as DiffResponse)
+          .commitAvailable;
+
+      expect(await isCommitAvailable(staged.port)).toBe(true);
+      expect(await isCommitAvailable(commits.port)).toBe(false);
+    });
+
+    it('commits with the requested options', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'staged', baseCommitish: 'HEAD' },
+      });
+      servers.push(result.server);
+
+      const response = await postCommit(result.port, {
+        message: 'Fix the thing',
+        amend: true,
+        signoff: true,
+      });
+
+      expect(await response.json()).toEqual({ commit: 'abc1234' });
+      expect(parserInstances.at(-1).commit).toHaveBeenCalledWith('Fix the thing', {
+        amend: true,
+        signoff: true,
+      });
+    });
+
+    it('reports hook failures with their output', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'staged', baseCommitish: 'HEAD' },
+      });
+      servers.push(result.server);
+      parserInstances.at(-1).commit.mockRejectedValueOnce(new Error('lint failed: src/index.ts'));
+
+      const response = await postCommit(result.port, { message: 'Fix the thing' });
+
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({ error: 'lint failed: src/index.ts' });
+    });
+
+    it('rejects empty messages and stdin diffs', async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'staged', baseCommitish: 'HEAD' },
+      });
+      servers.push(result.server);
+      const stdinResult = await startServer({ stdinDiff: 'diff --git a/x b/x' });
+      servers.push(stdinResult.server);
+
+      const empty = await postCommit(result.port, { message: '  ' });
+      const stdin = await postCommit(stdinResult.port, { message: 'Fix the thing' });
+
+      expect(empty.status).toBe(400);
+      expect(stdin.status).toBe(400);
+      expect(parserInstances.at(-2).commit).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Error handling', () => {
     it('handles malformed comment data', async () => {
       const result = await startServer({
@@ -1406,6 +2386,60 @@ describe('Server Integration Tests', () => {
     });
   });
 
+  describe('File history API', () => {
+    let port: number;
+
+    beforeEach(async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^' },
+        preferredPort: 9050,
+      });
+      servers.push(result.server);
+      port = result.port;
+    });
+
+    it('lists the commits that touched a file', async () => {
+      const response = await fetch(`http://localhost:${port}/api/file-history/src%2Fparser.ts`);
+      const data = (await response.json()) as any;
+
+      expect(response.ok).toBe(true);
+      expect(parserInstances.at(-1).getFileHistory).toHaveBeenCalledWith('src/parser.ts');
+      expect(data.path).toBe('src/parser.ts');
+      expect(data.entries[0]).toHaveProperty('oldPath', 'lib/parser.ts');
+    });
+
+    it('diffs two versions across a rename', async () => {
+      const response = await fetch(
+        `http://localhost:${port}/api/file-history-diff/src%2Fparser.ts?base=1111111&target=3333333&oldPath=lib%2Fparser.ts`,
+      );
+
+      expect(response.ok).toBe(true);
+      expect(parserInstances.at(-1).parseDiff).toHaveBeenLastCalledWith(
+        {
+          baseCommitish: '1111111',
+          targetCommitish: '3333333',
+          pathspecs: [':(literal)lib/parser.ts', ':(literal)src/parser.ts'],
+        },
+        false,
+        undefined,
+      );
+    });
+
+    it('rejects non-hex commits and paths outside the repository', async () => {
+      const badCommit = await fetch(
+        `http://localhost:${port}/api/file-history-diff/src%2Fparser.ts?base=HEAD&target=3333333`,
+      );
+      expect(badCommit.status).toBe(400);
+
+      const badPath = await fetch(
+        `http://localhost:${port}/api/file-history-diff/src%2Fparser.ts?base=1111111&target=3333333&oldPath=..%2Fsecret`,
+      );
+      const data = (await badPath.json()) as any;
+      expect(badPath.status).toBe(400);
+      expect(data).toHaveProperty('error', 'File path outside repository');
+    });
+  });
+
   describe('Line count API', () => {
     let port: number;
 
@@ -1450,6 +2484,47 @@ describe('Server Integration Tests', () => {
     });
   });
 
+  describe('Blame API', () => {
+    let port: number;
+
+    beforeEach(async () => {
+      const result = await startServer({
+        selection: { targetCommitish: 'HEAD', baseCommitish: 'HEAD^' },
+        preferredPort: 9055,
+      });
+      servers.push(result.server);
+      port = result.port;
+    });
+
+    it('returns blame data for the requested ref', async () => {
+      const response = await fetch(`http://localhost:${port}/api/blame/src%2Findex.ts?ref=HEAD~1`);
+      const data = (await response.json()) as any;
+
+      expect(response.ok).toBe(true);
+      expect(parserInstances.at(-1).getBlame).toHaveBeenCalledWith('src/index.ts', 'HEAD~1');
+      expect(data.lines).toEqual([0, 0]);
+      expect(data.commits[0]).toHaveProperty('summary', 'First commit');
+    });
+
+    it('returns 404 with the git error when blame fails', async () => {
+      parserInstances.at(-1).getBlame.mockRejectedValueOnce(new Error('no such path in HEAD'));
+
+      const response = await fetch(`http://localhost:${port}/api/blame/missing.ts?ref=HEAD`);
+      const data = (await response.json()) as any;
+
+      expect(response.status).toBe(404);
+      expect(data).toHaveProperty('error', 'no such path in HEAD');
+    });
+
+    it('rejects paths outside repository', async () => {
+      const response = await fetch(`http://localhost:${port}/api/blame/..%2Foutside.txt`);
+      const data = (await response.json()) as any;
+
+      expect(response.status).toBe(400);
+      expect(data).toHaveProperty('error', 'File path outside repository');
+    });
+  });
+
   describe('Blob API endpoints', () => {
     let port: number;
 
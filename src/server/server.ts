@@ -1,5 +1,6 @@
 import { spawn } from 'child_process';
 import { createHash } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
 import { type Server } from 'http';
 import { join, dirname, isAbsolute, resolve, sep } from 'path';
 import { fileURLToPath } from 'url';
@@ -9,7 +10,7 @@ import open from 'open';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
-import { type DiffMode } from '../types/watch.js';
+import { DiffMode } from '../types/watch.js';
 import { formatCommentsOutput } from '../utils/commentFormatting.js';
 import {
   mergeCommentImports,
@@ -25,8 +26,27 @@ import {
 } from '../utils/editorOptions.js';
 import { getFileExtension } from '../utils/fileUtils.js';
 
+import {
+  clearCommentSessions,
+  isPublishedComments,
+  isViewedFileRecord,
+  readCommentSessions,
+  writeCommentSession,
+} from './comment-store.js';
 import { FileWatcherService } from './file-watcher.js';
 import { GitDiffParser } from './git-diff.js';
+import { readCommentNotes, writeCommentNotes } from './git-notes.js';
+import {
+  buildHunkPatch,
+  getHunkActions,
+  getHunkApplyOptions,
+  parseHunkActionPayload,
+} from './hunk-patch.js';
+import {
+  applySuggestionsToContent,
+  canApplySuggestions,
+  parseSuggestionApplyPayload,
+} from './suggestion-apply.js';
 import { parseUserSettingsPatch, readUserConfig, updateUserClientSettings } from './user-config.js';
 
 import {
@@ -34,21 +54,35 @@ import {
   type CommentImport,
   type Comment,
   type CommentThread,
+  type CommitRange,
+  type CommitResponse,
   type DiffCommentThread,
   type DiffResponse,
   type DiffSelection,
+  type FileHistoryResponse,
   type GeneratedStatusResponse,
+  type HunkActionRequest,
+  type InterdiffRange,
+  type NoIndexPaths,
+  type RangeDiffResponse,
   type RevisionsResponse,
+  type SuggestionApplyRequest,
+  type SuggestionApplyResponse,
+  type ViewedFileRecord,
 } from '@/types/diff.js';
 import {
   createDiffSelection,
   diffSelectionsEqual,
   getDiffSelectionKey,
+  normalizePathspecs,
 } from '../utils/diffSelection.js';
 
-interface ServerOptions {
+export interface ServerOptions {
   selection?: DiffSelection;
+  commitRange?: CommitRange;
+  interdiff?: InterdiffRange;
   stdinDiff?: string;
+  noIndex?: NoIndexPaths;
   preferredPort?: number;
   host?: string;
   openBrowser?: boolean;
@@ -59,6 +93,10 @@ interface ServerOptions {
   diffMode?: DiffMode;
   repoPath?: string;
   contextLines?: number;
+  // Directory comment sessions are saved to and restored from; unset keeps them in memory
+  commentStoreDir?: string;
+  // Read startup threads from and write threads back to `refs/notes/difit` on the target commit
+  commentNotes?: boolean;
 }
 
 const GENERATED_STATUS_CACHE_TTL_MS = 60_000;
@@ -99,7 +137,12 @@ function setCachedDiffResponse(cache: Map<string, DiffResponse>, key: string, va
 }
 
 interface CommentSessionState {
+  selection: DiffSelection;
   threads: DiffCommentThread[];
+  viewedFiles: ViewedFileRecord[];
+  appliedCommentImportIds: string[];
+  // GitHub REST IDs of the comments `difit comment publish` posted, by message ID
+  publishedComments: Record<string, number>;
   version: number;
 }
 
@@ -113,27 +156,38 @@ function createResolvedCommentSelection(
   const targetCommitish =
     responseDiffData.targetCommitish ?? (stdinDiff ? 'stdin' : fallbackSelection.targetCommitish);
   const baseMode = responseDiffData.requestedBaseMode ?? fallbackSelection.baseMode;
+  const pathspecs = responseDiffData.requestedPathspecs ?? fallbackSelection.pathspecs;
 
-  return createDiffSelection(baseCommitish, targetCommitish, baseMode);
+  return createDiffSelection(baseCommitish, targetCommitish, baseMode, pathspecs);
 }
 
 function createCommentSessionKey(selection: DiffSelection): string {
   return getDiffSelectionKey(selection);
 }
 
-export async function startServer(
-  options: ServerOptions,
-): Promise<{ port: number; url: string; isEmpty?: boolean; server?: Server }> {
+// One review's routes and state, which `startServer` serves on its own port and the daemon
+// mounts under `/s/<sessionId>/` next to other reviews
+export interface ReviewApp {
+  app: Express;
+  isEmpty: boolean;
+  // Adds comments to the selection the review was started with, like `difit comment add`
+  importComments: (commentImports: CommentImport[]) => boolean;
+  startWatching: () => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+export async function createReviewApp(options: ServerOptions): Promise<ReviewApp> {
   const app = express();
   const repositoryPath = resolve(options.repoPath ?? process.cwd());
   const repositoryId = createHash('sha256').update(repositoryPath).digest('hex');
-  const initialCommentImports = options.commentImports || [];
   const initialSelection = options.selection ?? createDiffSelection('', '');
-  const commentImportId =
-    initialCommentImports.length > 0
-      ? createHash('sha256').update(serializeCommentImports(initialCommentImports)).digest('hex')
+  const parser = new GitDiffParser(repositoryPath, options.noIndex);
+  // Diffs that don't come from the repository can't use git refs, history or the working tree
+  const externalDiffLabel = options.stdinDiff
+    ? 'stdin diff'
+    : options.noIndex
+      ? '--no-index diff'
       : undefined;
-  const parser = new GitDiffParser(repositoryPath);
   const fileWatcher = new FileWatcherService();
   const generatedStatusCache = new Map<
     string,
@@ -148,6 +202,13 @@ export async function startServer(
 
     return undefined;
   };
+  // `?pathspec=` may be repeated; Express yields a string or an array of strings
+  const parsePathspecs = (value: unknown): string[] => {
+    const values = Array.isArray(value) ? value : [value];
+    return normalizePathspecs(
+      values.filter((pathspec): pathspec is string => typeof pathspec === 'string'),
+    );
+  };
 
   app.use(express.json());
   app.use(express.text()); // For sendBeacon text/plain requests
@@ -159,25 +220,58 @@ export async function startServer(
     next();
   });
 
-  // Skip validation if using stdin diff
-  if (!options.stdinDiff) {
+  // Skip validation if the diff doesn't come from the repository
+  if (!externalDiffLabel) {
     const isValidCommit = await parser.validateCommit(initialSelection.targetCommitish);
     if (!isValidCommit) {
       throw new Error(`Invalid or non-existent commit: ${initialSelection.targetCommitish}`);
     }
   }
 
+  if (options.interdiff) {
+    for (const commitish of [options.interdiff.oldTip, options.interdiff.onto]) {
+      if (commitish && !(await parser.validateCommit(commitish))) {
+        throw new Error(`Invalid or non-existent commit: ${commitish}`);
+      }
+    }
+  }
+
+  if (options.commitRange) {
+    const rangeCommits = await parser.getRangeCommits(options.commitRange);
+    if (rangeCommits.length === 0) {
+      throw new Error(
+        `No commits found in range ${options.commitRange.baseCommitish}..${options.commitRange.targetCommitish}`,
+      );
+    }
+  }
+
+  // Notes are applied like `--comment` imports, so they're deduplicated against the session and
+  // show up as startup comments
+  const commentNotes = Boolean(options.commentNotes) && !externalDiffLabel;
+  const noteCommentImports = commentNotes
+    ? await readCommentNotes(repositoryPath, initialSelection.targetCommitish)
+    : [];
+  const initialCommentImports = [...(options.commentImports || []), ...noteCommentImports];
+  const commentImportId =
+    initialCommentImports.length > 0
+      ? createHash('sha256').update(serializeCommentImports(initialCommentImports)).digest('hex')
+      : undefined;
+
+  // --no-index always compares the same two paths, whatever selection the client asks for
+  const parseSelectionDiff = (selection: DiffSelection, ignoreWhitespace: boolean) =>
+    options.noIndex
+      ? parser.parseNoIndexDiff(ignoreWhitespace, options.contextLines)
+      : parser.parseDiff(selection, ignoreWhitespace, options.contextLines);
+
   // Generate initial diff data for isEmpty check
   let initialDiffData: DiffResponse;
+  // A piped mbox or `git log -p` is reviewed one patch at a time, starting with the first
+  const stdinPatches = options.stdinDiff ? parser.parseStdinPatchSeries(options.stdinDiff) : [];
   if (options.stdinDiff) {
     // Parse stdin diff directly
-    initialDiffData = parser.parseStdinDiff(options.stdinDiff);
+    initialDiffData = stdinPatches[0] ?? parser.parseStdinDiff(options.stdinDiff);
   } else {
-    initialDiffData = await parser.parseDiff(
-      initialSelection,
-      initialIgnoreWhitespace,
-      options.contextLines,
-    );
+    initialDiffData = await parseSelectionDiff(initialSelection, initialIgnoreWhitespace);
     setCachedDiffResponse(
       diffDataCache,
       createDiffCacheKey(initialSelection, initialIgnoreWhitespace),
@@ -194,11 +288,13 @@ export async function startServer(
 
   // Track current revisions for cache invalidation
   let currentSelection = initialSelection;
-  let currentCommentSelection = createResolvedCommentSelection(
+  let currentIgnoreWhitespace = initialIgnoreWhitespace;
+  const initialCommentSelection = createResolvedCommentSelection(
     initialDiffData,
     initialSelection,
     Boolean(options.stdinDiff),
   );
+  let currentCommentSelection = initialCommentSelection;
 
   function parseRepositoryRelativePath(filepath: unknown):
     | { ok: true; path: string }
@@ -247,20 +343,85 @@ export async function startServer(
   }
 
   const commentSessions = new Map<string, CommentSessionState>();
+  const { commentStoreDir } = options;
+  if (commentStoreDir && options.clearComments) {
+    await clearCommentSessions(commentStoreDir);
+  }
+  const storedSessions = commentStoreDir ? await readCommentSessions(commentStoreDir) : [];
+  for (const stored of storedSessions) {
+    commentSessions.set(createCommentSessionKey(stored.selection), {
+      selection: stored.selection,
+      threads: stored.threads,
+      viewedFiles: stored.viewedFiles,
+      appliedCommentImportIds: stored.appliedCommentImportIds,
+      publishedComments: stored.publishedComments,
+      version: stored.threads.length > 0 ? 1 : 0,
+    });
+  }
+
+  // Writes are chained so an older snapshot can never land after a newer one
+  let commentStoreWrite = Promise.resolve();
+  function persistCommentSession(session: CommentSessionState) {
+    if (!commentStoreDir) return;
+    const snapshot = {
+      version: 1 as const,
+      selection: session.selection,
+      threads: session.threads,
+      viewedFiles: session.viewedFiles,
+      appliedCommentImportIds: session.appliedCommentImportIds,
+      publishedComments: session.publishedComments,
+      updatedAt: new Date().toISOString(),
+    };
+    commentStoreWrite = commentStoreWrite
+      .then(() => writeCommentSession(commentStoreDir, snapshot))
+      .catch((error: unknown) => {
+        console.warn('⚠️  Could not save the comment session:', error);
+      });
+  }
+
+  let commentNotesWrite = Promise.resolve();
+  const collectCommentIds = (threads: DiffCommentThread[]) =>
+    new Set(
+      threads.flatMap((thread) => [thread.id, ...thread.messages.map((message) => message.id)]),
+    );
+  function saveCommentNotes(session: CommentSessionState, previousThreads: DiffCommentThread[]) {
+    if (!commentNotes) return;
+    const { targetCommitish } = session.selection;
+    const threads = session.threads;
+    // Other reviews of the commit share the note, so only what this one removed is dropped
+    const remainingIds = collectCommentIds(threads);
+    const removedIds = [...collectCommentIds(previousThreads)].filter(
+      (id) => !remainingIds.has(id),
+    );
+    commentNotesWrite = commentNotesWrite
+      .then(() => writeCommentNotes(repositoryPath, targetCommitish, threads, removedIds))
+      .catch((error: unknown) => {
+        console.warn('⚠️  Could not write the review threads to git notes:', error);
+      });
+  }
+
+  // Imports from the command line are applied once per session, so a restart with the same
+  // `--comment` flags doesn't bring back threads that were resolved since
   const initialCommentThreads = mergeCommentImports([], initialCommentImports).threads;
   if (initialCommentThreads.length > 0) {
-    commentSessions.set(createCommentSessionKey(currentCommentSelection), {
-      threads: initialCommentThreads,
-      version: 1,
-    });
+    const session = getOrCreateCommentSession(initialCommentSelection);
+    if (!commentImportId || !session.appliedCommentImportIds.includes(commentImportId)) {
+      session.threads = mergeCommentImports(session.threads, initialCommentImports).threads;
+      session.appliedCommentImportIds = commentImportId
+        ? [...session.appliedCommentImportIds, commentImportId]
+        : session.appliedCommentImportIds;
+      session.version += 1;
+      persistCommentSession(session);
+    }
   }
 
   function getCommentSelectionFromQuery(query: Record<string, unknown>): DiffSelection {
     const hasBase = typeof query.base === 'string';
     const hasTarget = typeof query.target === 'string';
     const hasBaseMode = typeof query.baseMode === 'string';
+    const hasPathspecs = query.pathspec !== undefined;
 
-    if (!hasBase && !hasTarget && !hasBaseMode) {
+    if (!hasBase && !hasTarget && !hasBaseMode && !hasPathspecs) {
       return currentCommentSelection;
     }
 
@@ -272,6 +433,11 @@ export async function startServer(
         : hasBase || hasTarget
           ? undefined
           : currentCommentSelection.baseMode,
+      hasPathspecs
+        ? parsePathspecs(query.pathspec)
+        : hasBase || hasTarget
+          ? undefined
+          : currentCommentSelection.pathspecs,
     );
   }
 
@@ -283,7 +449,11 @@ export async function startServer(
     }
 
     const nextSession: CommentSessionState = {
+      selection,
       threads: [],
+      viewedFiles: [],
+      appliedCommentImportIds: [],
+      publishedComments: {},
       version: 0,
     };
     commentSessions.set(key, nextSession);
@@ -295,6 +465,7 @@ export async function startServer(
     const hasBase = typeof req.query.base === 'string';
     const hasTarget = typeof req.query.target === 'string';
     const hasBaseMode = typeof req.query.baseMode === 'string';
+    const hasPathspecs = req.query.pathspec !== undefined;
     const requestedSelection = createDiffSelection(
       hasBase ? (req.query.base as string) : currentSelection.baseCommitish,
       hasTarget ? (req.query.target as string) : currentSelection.targetCommitish,
@@ -303,12 +474,21 @@ export async function startServer(
         : hasBase || hasTarget
           ? undefined
           : currentSelection.baseMode,
+      hasPathspecs
+        ? parsePathspecs(req.query.pathspec)
+        : hasBase || hasTarget
+          ? undefined
+          : currentSelection.pathspecs,
     );
+    let responseDiffData =
+      stdinPatches.find((patch) => patch.targetCommitish === requestedSelection.targetCommitish) ??
+      initialDiffData;
+    // Imported comments belong to the first patch of a series, like they do to the initial diff
     const shouldIncludeCommentImports =
       initialCommentImports.length > 0 &&
-      (Boolean(options.stdinDiff) || diffSelectionsEqual(requestedSelection, initialSelection));
-
-    let responseDiffData = initialDiffData;
+      (options.stdinDiff
+        ? responseDiffData === initialDiffData
+        : diffSelectionsEqual(requestedSelection, initialSelection));
     if (!options.stdinDiff) {
       const cacheKey = createDiffCacheKey(requestedSelection, ignoreWhitespace);
       const cached = getCachedDiffResponse(diffDataCache, cacheKey);
@@ -316,11 +496,7 @@ export async function startServer(
         responseDiffData = cached;
       } else {
         try {
-          responseDiffData = await parser.parseDiff(
-            requestedSelection,
-            ignoreWhitespace,
-            options.contextLines,
-          );
+          responseDiffData = await parseSelectionDiff(requestedSelection, ignoreWhitespace);
         } catch (error) {
           console.error('Error fetching diff:', error);
           res.status(500).json({
@@ -334,6 +510,7 @@ export async function startServer(
     }
 
     currentSelection = requestedSelection;
+    currentIgnoreWhitespace = ignoreWhitespace;
 
     currentCommentSelection = createResolvedCommentSelection(
       responseDiffData,
@@ -352,16 +529,25 @@ export async function startServer(
       responseDiffData.requestedTargetCommitish ??
       (requestedSelection.targetCommitish || (options.stdinDiff ? 'stdin' : undefined));
     const requestedBaseMode = responseDiffData.requestedBaseMode ?? requestedSelection.baseMode;
+    const requestedPathspecs = responseDiffData.requestedPathspecs ?? requestedSelection.pathspecs;
 
     res.json({
       ...responseDiffData,
       ignoreWhitespace,
-      openInEditorAvailable: !options.stdinDiff,
+      openInEditorAvailable: !externalDiffLabel,
+      applySuggestionsAvailable: !externalDiffLabel && canApplySuggestions(requestedSelection),
+      historyAvailable: !externalDiffLabel,
+      hunkActions: externalDiffLabel ? [] : getHunkActions(requestedSelection, ignoreWhitespace),
+      commitAvailable:
+        !externalDiffLabel &&
+        (requestedSelection.targetCommitish === 'staged' ||
+          requestedSelection.targetCommitish === '.'),
       baseCommitish,
       targetCommitish,
       requestedBaseCommitish,
       requestedTargetCommitish,
       requestedBaseMode,
+      requestedPathspecs,
       clearComments: options.clearComments,
       repositoryId,
       commentImports: shouldIncludeCommentImports ? initialCommentImports : undefined,
@@ -412,13 +598,13 @@ export async function startServer(
 
   // Get available revisions for revision selector
   app.get('/api/revisions', async (_req, res) => {
-    if (options.stdinDiff) {
-      res.status(400).json({ error: 'Revision selection not available for stdin diff' });
+    if (externalDiffLabel) {
+      res.status(400).json({ error: `Revision selection not available for ${externalDiffLabel}` });
       return;
     }
 
     try {
-      const { branches, commits, originDefaultBranch, resolvedBase, resolvedTarget } =
+      const { branches, commits, stashes, originDefaultBranch, resolvedBase, resolvedTarget } =
         await parser.getRevisionOptions(
           currentSelection.baseCommitish,
           currentSelection.targetCommitish,
@@ -432,11 +618,23 @@ export async function startServer(
         ],
         branches,
         commits,
+        stashes,
         originDefaultBranch,
         resolvedBase,
         resolvedTarget,
       };
 
+      if (options.interdiff) {
+        response.interdiff = options.interdiff;
+      }
+
+      if (options.commitRange) {
+        response.commitRange = {
+          ...options.commitRange,
+          commits: await parser.getRangeCommits(options.commitRange),
+        };
+      }
+
       res.json(response);
     } catch (error) {
       console.error('Error fetching revisions:', error);
@@ -444,6 +642,131 @@ export async function startServer(
     }
   });
 
+  // Get the range-diff between the two branch versions passed via --interdiff
+  app.get('/api/range-diff', async (_req, res) => {
+    if (!options.interdiff) {
+      res.status(404).json({ error: 'Range diff not available' });
+      return;
+    }
+
+    try {
+      const response: RangeDiffResponse = await parser.parseRangeDiff(options.interdiff);
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching range diff:', error);
+      res.status(500).json({ error: 'Failed to fetch range diff' });
+    }
+  });
+
+  app.get(/^\/api\/submodule-diff\/(.*)$/, async (req, res) => {
+    if (externalDiffLabel) {
+      res.status(404).json({ error: `Submodule diff not available for ${externalDiffLabel}` });
+      return;
+    }
+
+    const filepathResult = parseRepositoryRelativePath(req.params[0]);
+    if (!filepathResult.ok) {
+      res.status(400).json({ error: filepathResult.error });
+      return;
+    }
+
+    const oldCommit = typeof req.query.old === 'string' ? req.query.old : undefined;
+    const newCommit = typeof req.query.new === 'string' ? req.query.new : undefined;
+    if (
+      (!oldCommit && !newCommit) ||
+      [oldCommit, newCommit].some((commit) => commit && !/^[0-9a-f]{7,40}$/.test(commit))
+    ) {
+      res.status(400).json({ error: 'Submodule commits must be hex object names' });
+      return;
+    }
+
+    try {
+      const response: DiffResponse = await parser.parseSubmoduleDiff(
+        filepathResult.path,
+        { oldCommit, newCommit },
+        req.query.ignoreWhitespace === 'true',
+        options.contextLines,
+      );
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching submodule diff:', error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to fetch submodule diff',
+      });
+    }
+  });
+
+  app.get(/^\/api\/file-history\/(.*)$/, async (req, res) => {
+    if (externalDiffLabel) {
+      res.status(404).json({ error: `File history not available for ${externalDiffLabel}` });
+      return;
+    }
+
+    const filepathResult = parseRepositoryRelativePath(req.params[0]);
+    if (!filepathResult.ok) {
+      res.status(400).json({ error: filepathResult.error });
+      return;
+    }
+
+    try {
+      const response: FileHistoryResponse = {
+        path: filepathResult.path,
+        entries: await parser.getFileHistory(filepathResult.path),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching file history:', error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to fetch file history',
+      });
+    }
+  });
+
+  app.get(/^\/api\/file-history-diff\/(.*)$/, async (req, res) => {
+    if (externalDiffLabel) {
+      res.status(404).json({ error: `File history not available for ${externalDiffLabel}` });
+      return;
+    }
+
+    const filepathResult = parseRepositoryRelativePath(req.params[0]);
+    if (!filepathResult.ok) {
+      res.status(400).json({ error: filepathResult.error });
+      return;
+    }
+    const oldPathResult = req.query.oldPath
+      ? parseRepositoryRelativePath(req.query.oldPath)
+      : filepathResult;
+    if (!oldPathResult.ok) {
+      res.status(400).json({ error: oldPathResult.error });
+      return;
+    }
+
+    const base = typeof req.query.base === 'string' ? req.query.base : '';
+    const target = typeof req.query.target === 'string' ? req.query.target : '';
+    if (![base, target].every((commit) => /^[0-9a-f]{7,40}$/.test(commit))) {
+      res.status(400).json({ error: 'History commits must be hex object names' });
+      return;
+    }
+
+    try {
+      // Both paths are needed for git to pair up a rename between the two versions
+      const pathspecs = [...new Set([oldPathResult.path, filepathResult.path])].map(
+        (path) => `:(literal)${path}`,
+      );
+      const response: DiffResponse = await parser.parseDiff(
+        createDiffSelection(base, target, undefined, pathspecs),
+        req.query.ignoreWhitespace === 'true',
+        options.contextLines,
+      );
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching file history diff:', error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to fetch file history diff',
+      });
+    }
+  });
+
   app.get(/^\/api\/line-count\/(.*)$/, async (req, res) => {
     try {
       if (options.stdinDiff) {
@@ -541,6 +864,29 @@ export async function startServer(
     }
   });
 
+  app.get(/^\/api\/blame\/(.*)$/, async (req, res) => {
+    if (externalDiffLabel) {
+      res.status(404).json({ error: `Blame not available for ${externalDiffLabel}` });
+      return;
+    }
+
+    const filepathResult = parseRepositoryRelativePath(req.params[0]);
+    if (!filepathResult.ok) {
+      res.status(400).json({ error: filepathResult.error });
+      return;
+    }
+    const ref = (req.query.ref as string) || 'HEAD';
+
+    try {
+      res.json(await parser.getBlame(filepathResult.path, ref));
+    } catch (error) {
+      console.error('Error fetching blame:', error);
+      res.status(404).json({
+        error: error instanceof Error ? error.message : 'Failed to blame file',
+      });
+    }
+  });
+
   function normalizeLineValue(line: unknown): DiffCommentThread['position']['line'] {
     if (Array.isArray(line) && line.length === 2) {
       const start = line[0] as unknown;
@@ -701,6 +1047,13 @@ export async function startServer(
     return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined;
   }
 
+  // Viewed files ride along with comment pushes; `undefined` leaves the stored ones untouched
+  function parseViewedFilesPayload(payload: unknown): ViewedFileRecord[] | undefined {
+    if (!payload || typeof payload !== 'object') return undefined;
+    const value = (payload as { viewedFiles?: unknown }).viewedFiles;
+    return Array.isArray(value) ? value.filter(isViewedFileRecord) : undefined;
+  }
+
   function parseCommentImportsPayload(body: unknown): CommentImport[] {
     if (typeof body === 'string') {
       return normalizeCommentImports(JSON.parse(body));
@@ -714,7 +1067,8 @@ export async function startServer(
     nextThreads: DiffCommentThread[],
   ): boolean {
     const session = getOrCreateCommentSession(selection);
-    const previous = JSON.stringify(session.threads);
+    const previousThreads = session.threads;
+    const previous = JSON.stringify(previousThreads);
     const next = JSON.stringify(nextThreads);
     session.threads = nextThreads;
 
@@ -723,6 +1077,8 @@ export async function startServer(
     }
 
     session.version += 1;
+    persistCommentSession(session);
+    saveCommentNotes(session, previousThreads);
     fileWatcher.broadcast({
       type: 'commentsChanged',
       version: session.version,
@@ -747,7 +1103,19 @@ export async function startServer(
         ? mergeCommentThreads(session.threads, nextThreads).threads
         : nextThreads;
 
-      updateCommentSession(selection, resolvedThreads);
+      const viewedFiles = parseViewedFilesPayload(body);
+      const viewedFilesChanged =
+        viewedFiles !== undefined &&
+        JSON.stringify(viewedFiles) !== JSON.stringify(session.viewedFiles);
+      if (viewedFiles && viewedFilesChanged) {
+        session.viewedFiles = viewedFiles;
+      }
+
+      const threadsChanged = updateCommentSession(selection, resolvedThreads);
+      // A thread change already saved the session
+      if (viewedFilesChanged && !threadsChanged) {
+        persistCommentSession(session);
+      }
 
       res.json({
         success: true,
@@ -761,23 +1129,31 @@ export async function startServer(
     }
   });
 
+  function applyCommentImports(selection: DiffSelection, commentImports: CommentImport[]) {
+    const session = getOrCreateCommentSession(selection);
+    const importId = createHash('sha256')
+      .update(serializeCommentImports(commentImports))
+      .digest('hex');
+    const merged = mergeCommentImports(session.threads, commentImports);
+    if (!session.appliedCommentImportIds.includes(importId)) {
+      session.appliedCommentImportIds = [...session.appliedCommentImportIds, importId];
+    }
+    const changed = updateCommentSession(selection, merged.threads);
+    return { changed, importId, warnings: merged.warnings };
+  }
+
   app.post('/api/comment-imports', (req, res) => {
     try {
       const selection = getCommentSelectionFromQuery(req.query as Record<string, unknown>);
-      const session = getOrCreateCommentSession(selection);
       const commentImports = parseCommentImportsPayload(req.body);
-      const importId = createHash('sha256')
-        .update(serializeCommentImports(commentImports))
-        .digest('hex');
-      const merged = mergeCommentImports(session.threads, commentImports);
-      const changed = updateCommentSession(selection, merged.threads);
+      const { changed, importId, warnings } = applyCommentImports(selection, commentImports);
 
       res.json({
         success: true,
         changed,
         count: commentImports.length,
         importId,
-        warnings: merged.warnings,
+        warnings,
       });
     } catch (error) {
       console.error('Error parsing comment imports:', error);
@@ -811,9 +1187,27 @@ export async function startServer(
     res.json({
       version: session.version,
       threads: session.threads,
+      viewedFiles: session.viewedFiles,
+      publishedComments: session.publishedComments,
     });
   });
 
+  // `difit comment publish` records what it posted so publishing again skips those messages
+  app.post('/api/published-comments', (req, res) => {
+    const publishedComments = (req.body as { publishedComments?: unknown } | undefined)
+      ?.publishedComments;
+    if (!isPublishedComments(publishedComments)) {
+      res.status(400).json({ error: 'Invalid published comment data' });
+      return;
+    }
+
+    const selection = getCommentSelectionFromQuery(req.query as Record<string, unknown>);
+    const session = getOrCreateCommentSession(selection);
+    session.publishedComments = { ...session.publishedComments, ...publishedComments };
+    persistCommentSession(session);
+    res.json({ success: true, count: Object.keys(publishedComments).length });
+  });
+
   app.get('/api/comments-output', (req, res) => {
     const selection = getCommentSelectionFromQuery(req.query as Record<string, unknown>);
     const session = getOrCreateCommentSession(selection);
@@ -855,9 +1249,161 @@ export async function startServer(
     }
   });
 
+  app.post('/api/apply-suggestions', async (req, res) => {
+    if (externalDiffLabel) {
+      res
+        .status(400)
+        .json({ error: `Applying suggestions is not available for ${externalDiffLabel}` });
+      return;
+    }
+    if (!canApplySuggestions(currentSelection)) {
+      res.status(400).json({ error: 'Suggestions can only be applied to working tree diffs' });
+      return;
+    }
+
+    let suggestions: SuggestionApplyRequest[];
+    try {
+      suggestions = parseSuggestionApplyPayload(req.body);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+      return;
+    }
+
+    const suggestionsByFile = new Map<string, SuggestionApplyRequest[]>();
+    for (const suggestion of suggestions) {
+      suggestionsByFile.set(suggestion.filePath, [
+        ...(suggestionsByFile.get(suggestion.filePath) ?? []),
+        suggestion,
+      ]);
+    }
+
+    const response: SuggestionApplyResponse = { applied: [], failed: [] };
+    for (const [filePath, fileSuggestions] of suggestionsByFile) {
+      const failAll = (error: string) =>
+        response.failed.push(
+          ...fileSuggestions.map((suggestion) => ({ threadId: suggestion.threadId, error })),
+        );
+
+      const filepathResult = parseRepositoryRelativePath(filePath);
+      if (!filepathResult.ok) {
+        failAll(filepathResult.error);
+        continue;
+      }
+
+      try {
+        const absolutePath = resolve(repositoryPath, filepathResult.path);
+        const outcome = applySuggestionsToContent(
+          await readFile(absolutePath, 'utf8'),
+          fileSuggestions,
+        );
+        if (outcome.applied.length > 0) {
+          await writeFile(absolutePath, outcome.content, 'utf8');
+        }
+        response.applied.push(...outcome.applied);
+        response.failed.push(...outcome.failed);
+      } catch (error) {
+        console.error(`Error applying suggestions to ${filePath}:`, error);
+        failAll(
+          (error as NodeJS.ErrnoException).code === 'ENOENT'
+            ? 'File not found in the working tree'
+            : 'Failed to write file',
+        );
+      }
+    }
+
+    if (response.applied.length > 0) {
+      invalidateCache();
+      fileWatcher.notifyChange();
+    }
+
+    res.json(response);
+  });
+
+  app.post('/api/hunk-action', async (req, res) => {
+    if (externalDiffLabel) {
+      res.status(400).json({ error: `Hunk actions are not available for ${externalDiffLabel}` });
+      return;
+    }
+
+    let request: HunkActionRequest;
+    let patch: string;
+    try {
+      request = parseHunkActionPayload(req.body);
+      const filepathResult = parseRepositoryRelativePath(request.filePath);
+      if (!filepathResult.ok) {
+        res.status(400).json({ error: filepathResult.error });
+        return;
+      }
+      patch = buildHunkPatch({ ...request, filePath: filepathResult.path });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+      return;
+    }
+
+    // Only the actions the diff offers, e.g. no discarding while comparing two commits
+    if (!getHunkActions(currentSelection, currentIgnoreWhitespace).includes(request.action)) {
+      res.status(400).json({ error: `Cannot ${request.action} hunks of this diff` });
+      return;
+    }
+
+    try {
+      await parser.applyPatch(patch, getHunkApplyOptions(request.action));
+    } catch (error) {
+      // git apply refuses patches that no longer match, e.g. after the file changed on disk
+      console.error(`Error applying ${request.action} to ${request.filePath}:`, error);
+      res.status(409).json({
+        error: error instanceof Error ? error.message : `Failed to ${request.action} hunk`,
+      });
+      return;
+    }
+
+    invalidateCache();
+    fileWatcher.notifyChange();
+    res.json({ success: true });
+  });
+
+  app.post('/api/commit', async (req, res) => {
+    if (externalDiffLabel) {
+      res.status(400).json({ error: `Committing is not available for ${externalDiffLabel}` });
+      return;
+    }
+
+    const { message, amend, signoff } = (req.body ?? {}) as {
+      message?: unknown;
+      amend?: unknown;
+      signoff?: unknown;
+    };
+    if (
+      typeof message !== 'string' ||
+      message.trim() === '' ||
+      (amend !== undefined && typeof amend !== 'boolean') ||
+      (signoff !== undefined && typeof signoff !== 'boolean')
+    ) {
+      res.status(400).json({ error: 'Commit message is required' });
+      return;
+    }
+
+    let response: CommitResponse;
+    try {
+      response = await parser.commit(message, { amend, signoff });
+    } catch (error) {
+      // Hook rejections and "nothing to commit" come back with git's own output
+      console.error('Error committing:', error);
+      res.status(409).json({
+        error: error instanceof Error ? error.message : 'Failed to commit',
+      });
+      return;
+    }
+
+    // The staged changes are now HEAD, so follow them there
+    invalidateCache();
+    await fileWatcher.switchMode(DiffMode.DEFAULT);
+    res.json(response);
+  });
+
   app.post('/api/open-in-editor', async (req, res) => {
-    if (options.stdinDiff) {
-      res.status(400).json({ error: 'Open in editor is not available for stdin diff' });
+    if (externalDiffLabel) {
+      res.status(400).json({ error: `Open in editor is not available for ${externalDiffLabel}` });
       return;
     }
 
@@ -959,6 +1505,20 @@ export async function startServer(
 
   // Function to output comments when server shuts down
   function outputFinalComments() {
+    if (stdinPatches.length > 0) {
+      // Comments on a patch series are kept per patch, so print each patch that has any
+      stdinPatches.forEach((patch, index) => {
+        const session = getOrCreateCommentSession(
+          createResolvedCommentSelection(patch, initialSelection, true),
+        );
+        if (session.threads.length > 0) {
+          console.log(`\n[PATCH ${index + 1}/${stdinPatches.length}] ${patch.commit}`);
+          console.log(formatCommentsOutput(session.threads.map(toCommentThread)));
+        }
+      });
+      return;
+    }
+
     const session = getOrCreateCommentSession(currentCommentSelection);
     if (session.threads.length > 0) {
       console.log(formatCommentsOutput(session.threads.map(toCommentThread)));
@@ -1047,8 +1607,34 @@ export async function startServer(
     });
   }
 
-  const { port, url, server } = await startServerWithFallback(
+  const startWatching = async () => {
+    if (!options.diffMode) {
+      return;
+    }
+    try {
+      await fileWatcher.start(options.diffMode, repositoryPath, 300, invalidateCache);
+    } catch (error) {
+      console.warn('⚠️  File watcher failed to start:', error);
+      console.warn('   Continuing without file watching...');
+    }
+  };
+
+  return {
     app,
+    isEmpty: initialDiffData.isEmpty || false,
+    importComments: (commentImports) =>
+      applyCommentImports(initialCommentSelection, commentImports).changed,
+    startWatching,
+    stop: () => fileWatcher.stop(),
+  };
+}
+
+export async function startServer(
+  options: ServerOptions,
+): Promise<{ port: number; url: string; isEmpty?: boolean; server?: Server }> {
+  const review = await createReviewApp(options);
+  const { port, url, server } = await startServerWithFallback(
+    review.app,
     options.preferredPort || 4966,
     options.host || 'localhost',
   );
@@ -1060,18 +1646,10 @@ export async function startServer(
     console.warn('   Make sure this is intended and your network is secure.\n');
   }
 
-  // Start file watcher
-  if (options.diffMode) {
-    try {
-      await fileWatcher.start(options.diffMode, repositoryPath, 300, invalidateCache);
-    } catch (error) {
-      console.warn('⚠️  File watcher failed to start:', error);
-      console.warn('   Continuing without file watching...');
-    }
-  }
+  await review.startWatching();
 
   // Check if diff is empty and skip browser opening
-  if (initialDiffData.isEmpty) {
+  if (review.isEmpty) {
     // Don't open browser if no differences found
   } else if (options.openBrowser) {
     try {
@@ -1081,10 +1659,10 @@ export async function startServer(
     }
   }
 
-  return { port, url, isEmpty: initialDiffData.isEmpty || false, server };
+  return { port, url, isEmpty: review.isEmpty, server };
 }
 
-async function startServerWithFallback(
+export async function startServerWithFallback(
   app: Express,
   preferredPort: number,
   host: string,
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+
+import type { SuggestionApplyRequest } from '../types/diff';
+
+import { applySuggestionsToContent } from './suggestion-apply';
+
+const createSuggestion = (
+  overrides: Partial<SuggestionApplyRequest> = {},
+): SuggestionApplyRequest => ({
+  threadId: 'thread-1',
+  filePath: 'src/example.ts',
+  side: 'new',
+  line: 2,
+  codeSnapshot: 'const b = 2;',
+  suggestedCode: 'const b = 3;',
+  ...overrides,
+});
+
+describe('applySuggestionsToContent', () => {
+  const content = 'const a = 1;\nconst b = 2;\nconst c = 3;\n';
+
+  it('replaces a single line', () => {
+    const result = applySuggestionsToContent(content, [createSuggestion()]);
+
+    expect(result).toEqual({
+      content: 'const a = 1;\nconst b = 3;\nconst c = 3;\n',
+      applied: ['thread-1'],
+      failed: [],
+    });
+  });
+
+  it('replaces a range with a different number of lines', () => {
+    const result = applySuggestionsToContent(content, [
+      createSuggestion({
+        line: { start: 1, end: 2 },
+        codeSnapshot: 'const a = 1;\nconst b = 2;',
+        suggestedCode: 'const [a, b] = [1, 2];',
+      }),
+    ]);
+
+    expect(result.content).toBe('const [a, b] = [1, 2];\nconst c = 3;\n');
+  });
+
+  it('removes the lines for an empty suggestion', () => {
+    const result = applySuggestionsToContent(content, [createSuggestion({ suggestedCode: '' })]);
+
+    expect(result.content).toBe('const a = 1;\nconst c = 3;\n');
+  });
+
+  it('applies several suggestions bottom-up so line numbers stay valid', () => {
+    const result = applySuggestionsToContent(content, [
+      createSuggestion({
+        threadId: 'top',
+        line: 1,
+        codeSnapshot: 'const a = 1;',
+        suggestedCode: '// a\nconst a = 1;',
+      }),
+      createSuggestion({
+        threadId: 'bottom',
+        line: 3,
+        codeSnapshot: 'const c = 3;',
+        suggestedCode: 'const c = 4;',
+      }),
+    ]);
+
+    expect(result.content).toBe('// a\nconst a = 1;\nconst b = 2;\nconst c = 4;\n');
+    expect(result.applied).toEqual(['bottom', 'top']);
+  });
+
+  it('refuses suggestions whose lines no longer match the snapshot', () => {
+    const result = applySuggestionsToContent(content, [
+      createSuggestion({ codeSnapshot: 'const b = 20;' }),
+      createSuggestion({ threadId: 'past-eof', line: 10 }),
+    ]);
+
+    expect(result.content).toBe(content);
+    expect(result.failed).toEqual([
+      { threadId: 'past-eof', error: 'File has changed since the comment was made' },
+      { threadId: 'thread-1', error: 'File has changed since the comment was made' },
+    ]);
+  });
+
+  it('refuses suggestions overlapping one that was already applied', () => {
+    const result = applySuggestionsToContent(content, [
+      createSuggestion({ threadId: 'first' }),
+      createSuggestion({
+        threadId: 'overlapping',
+        line: { start: 1, end: 2 },
+        codeSnapshot: 'const a = 1;\nconst b = 2;',
+      }),
+    ]);
+
+    expect(result.applied).toEqual(['first']);
+    expect(result.failed).toEqual([
+      { threadId: 'overlapping', error: 'Overlaps another suggestion in this file' },
+    ]);
+  });
+
+  it('keeps CRLF line endings and ignores trailing whitespace differences', () => {
+    const result = applySuggestionsToContent('one\r\ntwo  \r\nthree', [
+      createSuggestion({ codeSnapshot: 'two', suggestedCode: 'TWO\n2' }),
+      createSuggestion({ threadId: 'last', line: 3, codeSnapshot: 'three', suggestedCode: '3' }),
+    ]);
+
+    expect(result.content).toBe('one\r\nTWO\r\n2\r\n3');
+  });
+});
@@ -0,0 +1,135 @@
+import type {
+  DiffSelection,
+  SuggestionApplyRequest,
+  SuggestionApplyResponse,
+} from '../types/diff.js';
+
+interface SuggestionApplyOutcome extends SuggestionApplyResponse {
+  content: string;
+}
+
+function trimLineEnd(line: string): string {
+  return line.replace(/[ \t\r]+$/, '');
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function parseLine(value: unknown): SuggestionApplyRequest['line'] | null {
+  if (isPositiveInteger(value)) {
+    return value;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+
+  const { start, end } = value as { start?: unknown; end?: unknown };
+  return isPositiveInteger(start) && isPositiveInteger(end) && start <= end ? { start, end } : null;
+}
+
+/**
+ * Suggestions are written to the working tree at the comment's line numbers, which only
+ * point there when the new side of the diff is the working tree or the index.
+ */
+export function canApplySuggestions(selection: DiffSelection): boolean {
+  return ['working', 'staged', '.'].includes(selection.targetCommitish);
+}
+
+export function parseSuggestionApplyPayload(payload: unknown): SuggestionApplyRequest[] {
+  const suggestions = (payload as { suggestions?: unknown } | null)?.suggestions;
+  if (!Array.isArray(suggestions) || suggestions.length === 0) {
+    throw new Error('Invalid suggestions payload');
+  }
+
+  return suggestions.map((value: unknown) => {
+    const suggestion = (value ?? {}) as Record<string, unknown>;
+    const line = parseLine(suggestion.line);
+    if (
+      typeof suggestion.threadId !== 'string' ||
+      typeof suggestion.filePath !== 'string' ||
+      typeof suggestion.codeSnapshot !== 'string' ||
+      typeof suggestion.suggestedCode !== 'string' ||
+      line === null
+    ) {
+      throw new Error('Invalid suggestions payload');
+    }
+    if (suggestion.side !== 'new') {
+      throw new Error('Suggestions can only be applied to new-side comments');
+    }
+
+    return {
+      threadId: suggestion.threadId,
+      filePath: suggestion.filePath,
+      side: 'new',
+      line,
+      codeSnapshot: suggestion.codeSnapshot,
+      suggestedCode: suggestion.suggestedCode,
+    };
+  });
+}
+
+function getLineRange(line: SuggestionApplyRequest['line']): { start: number; end: number } {
+  return typeof line === 'number' ? { start: line, end: line } : line;
+}
+
+/**
+ * Replaces the commented lines of a file with each suggestion, bottom-up so earlier
+ * line numbers stay valid. A suggestion is refused when the lines no longer match the
+ * code the comment was made on, or when it overlaps one applied further down.
+ */
+export function applySuggestionsToContent(
+  content: string,
+  suggestions: SuggestionApplyRequest[],
+): SuggestionApplyOutcome {
+  const lines = content.split('\n');
+  const lineEnding = content.includes('\r\n') ? '\r' : '';
+  const applied: string[] = [];
+  const failed: SuggestionApplyResponse['failed'] = [];
+  let lowestAppliedStart = Infinity;
+
+  const sorted = [...suggestions].sort(
+    (left, right) => getLineRange(right.line).start - getLineRange(left.line).start,
+  );
+
+  for (const suggestion of sorted) {
+    const { start, end } = getLineRange(suggestion.line);
+    if (end >= lowestAppliedStart) {
+      failed.push({
+        threadId: suggestion.threadId,
+        error: 'Overlaps another suggestion in this file',
+      });
+      continue;
+    }
+
+    const current = lines.slice(start - 1, end).map(trimLineEnd);
+    const expected = suggestion.codeSnapshot.replace(/\r\n/g, '\n').split('\n').map(trimLineEnd);
+    const matches =
+      end <= lines.length &&
+      current.length === expected.length &&
+      current.every((line, index) => line === expected[index]);
+    if (!matches) {
+      failed.push({
+        threadId: suggestion.threadId,
+        error: 'File has changed since the comment was made',
+      });
+      continue;
+    }
+
+    // An empty suggestion removes the lines, as on GitHub
+    const lastLineEnding = lines[end - 1]?.endsWith('\r') ? lineEnding : '';
+    const replacement =
+      suggestion.suggestedCode === ''
+        ? []
+        : suggestion.suggestedCode
+            .split('\n')
+            .map((line, index, all) =>
+              index === all.length - 1 ? `${line}${lastLineEnding}` : `${line}${lineEnding}`,
+            );
+    lines.splice(start - 1, end - start + 1, ...replacement);
+    lowestAppliedStart = start;
+    applied.push(suggestion.threadId);
+  }
+
+  return { content: lines.join('\n'), applied, failed };
+}
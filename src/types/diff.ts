@@ -1,11 +1,24 @@
 export interface DiffFile {
   path: string;
   oldPath?: string;
-  status: 'modified' | 'added' | 'deleted' | 'renamed';
+  status: 'modified' | 'added' | 'deleted' | 'renamed' | 'copied' | 'typechanged' | 'submodule';
   additions: number;
   deletions: number;
   chunks: DiffChunk[];
   isGenerated?: boolean;
+  // Octal git file modes (e.g. 100644, 100755, 120000 for symlinks)
+  oldMode?: string;
+  newMode?: string;
+  // Rename/copy similarity percentage reported by git
+  similarity?: number;
+  submodule?: SubmoduleChange;
+}
+
+// Commits a submodule pointer moved between; a side is missing when the
+// submodule was added or removed
+export interface SubmoduleChange {
+  oldCommit?: string;
+  newCommit?: string;
 }
 
 export interface DiffChunk {
@@ -15,6 +28,8 @@ export interface DiffChunk {
   newStart: number;
   newLines: number;
   lines: DiffLine[];
+  // Start line in each parent of a combined merge diff (`@@@ -a -b +c @@@`); oldStart is the first parent's
+  parentStarts?: number[];
 }
 
 export interface DiffLine {
@@ -22,9 +37,21 @@ export interface DiffLine {
   content: string;
   oldLineNumber?: number;
   newLineNumber?: number;
+  // One ' ', '+' or '-' per parent for lines of a combined merge diff
+  parentMarkers?: string;
+  // Set on deleted and added lines that belong to a block moved elsewhere in the diff
+  moved?: MovedLineLink;
 }
 
-export type DiffViewMode = 'split' | 'unified';
+// The counterpart of a moved line: where a deleted line went to, or where an added line came from
+export interface MovedLineLink {
+  path: string;
+  side: DiffSide;
+  lineNumber: number;
+}
+
+// `full` renders the whole file like unified, with every unchanged line expanded
+export type DiffViewMode = 'split' | 'unified' | 'full';
 export type DiffSide = 'old' | 'new';
 export type DiffLineRange = number | { start: number; end: number };
 
@@ -44,6 +71,8 @@ export interface DiffSelection {
   baseCommitish: string;
   targetCommitish: string;
   baseMode?: BaseMode;
+  // Git pathspecs limiting the diff (e.g. `src/`, `:!*.snap`)
+  pathspecs?: string[];
 }
 
 export interface DiffResponse {
@@ -52,15 +81,36 @@ export interface DiffResponse {
   ignoreWhitespace?: boolean;
   isEmpty?: boolean;
   openInEditorAvailable?: boolean;
+  applySuggestionsAvailable?: boolean;
+  // Blame and file history need git history, which stdin and --no-index diffs don't have
+  historyAvailable?: boolean;
+  hunkActions?: HunkAction[];
+  commitAvailable?: boolean;
   baseCommitish?: string;
   targetCommitish?: string;
   requestedBaseCommitish?: string;
   requestedTargetCommitish?: string;
   requestedBaseMode?: BaseMode;
+  requestedPathspecs?: string[];
   clearComments?: boolean;
   repositoryId?: string;
   commentImports?: CommentImport[];
   commentImportId?: string;
+  // Every patch of a mbox or `git log -p` series piped to difit; each is its own diff
+  patchSeries?: PatchSeriesEntry[];
+  // Short hashes of the target's parents when it is a merge commit viewed on its own
+  mergeParents?: string[];
+}
+
+// One commit of a `git format-patch` mbox or `git log -p` output read from stdin
+export interface PatchSeriesEntry {
+  // Target revision the patch is reviewed under (see createStdinPatchRef)
+  ref: string;
+  hash?: string;
+  author?: string;
+  date?: string;
+  subject: string;
+  body: string;
 }
 
 export interface GeneratedStatusResponse {
@@ -144,6 +194,62 @@ export interface ReplyCommentImport extends CommentImportBase {
 
 export type CommentImport = ThreadCommentImport | ReplyCommentImport;
 
+// A ```suggestion block to write over new-side lines of the working-tree file
+export interface SuggestionApplyRequest {
+  threadId: string;
+  filePath: string;
+  // Only new-side lines are lines of the working tree
+  side: 'new';
+  line: DiffLineRange;
+  codeSnapshot: string;
+  suggestedCode: string;
+}
+
+export interface SuggestionApplyResponse {
+  applied: string[];
+  failed: Array<{ threadId: string; error: string }>;
+}
+
+// Index/working-tree edits offered on hunks of uncommitted diffs
+export type HunkAction = 'stage' | 'unstage' | 'discard';
+
+export interface HunkActionRequest {
+  action: HunkAction;
+  filePath: string;
+  status: DiffFile['status'];
+  oldMode?: string;
+  newMode?: string;
+  chunk: Pick<DiffChunk, 'oldStart' | 'newStart'> & {
+    lines: Array<Pick<DiffLine, 'type' | 'content'>>;
+  };
+  // Indices into chunk.lines; all changed lines when omitted
+  lineIndices?: number[];
+}
+
+export interface CommitRequest {
+  message: string;
+  amend?: boolean;
+  signoff?: boolean;
+}
+
+export interface CommitResponse {
+  commit: string;
+}
+
+export interface BlameCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  authorTime: number; // Unix seconds
+  summary: string;
+}
+
+export interface BlameResponse {
+  commits: BlameCommit[];
+  // Index into `commits` for each line of the file, in file order
+  lines: number[];
+}
+
 export interface ViewedFileRecord {
   filePath: string;
   viewedAt: string; // ISO 8601 format
@@ -214,15 +320,89 @@ export interface CommitInfo {
   hash: string;
   shortHash: string;
   message: string;
+  // Set by the commit range listing for commits without a parent
+  isRoot?: boolean;
+}
+
+export interface FileHistoryEntry {
+  hash: string;
+  shortHash: string;
+  author: string;
+  authorTime: number; // Unix seconds
+  summary: string;
+  // Path of the file in this commit; `oldPath` is set when the commit renamed it
+  path: string;
+  oldPath?: string;
+}
+
+export interface FileHistoryResponse {
+  path: string;
+  entries: FileHistoryEntry[];
+}
+
+export interface StashInfo {
+  ref: string; // e.g. stash@{0}
+  hash: string;
+  shortHash: string;
+  message: string;
 }
 
 export interface RevisionsResponse {
   specialOptions: RevisionOption[];
   branches: BranchInfo[];
   commits: CommitInfo[];
+  stashes?: StashInfo[];
   originDefaultBranch?: string;
   resolvedBase?: string;
   resolvedTarget?: string;
+  commitRange?: CommitRangeResponse;
+  interdiff?: InterdiffRange;
+}
+
+// Commit range reviewed one commit at a time (difit --commits base..target)
+export interface CommitRange {
+  baseCommitish: string;
+  targetCommitish: string;
+}
+
+export interface CommitRangeResponse extends CommitRange {
+  // Oldest first, matching the order the commits were made
+  commits: CommitInfo[];
+}
+
+// Two versions of a rebased branch compared with git range-diff (difit --interdiff)
+export interface InterdiffRange {
+  oldTip: string;
+  newTip: string;
+  onto?: string;
+}
+
+// Two files or directories outside git compared with git diff --no-index (difit --no-index).
+// The paths are kept as given and double as the refs the blob endpoints read from
+export interface NoIndexPaths {
+  oldPath: string;
+  newPath: string;
+}
+
+// Mirrors the `=`, `!`, `<` and `>` markers of git range-diff
+export type RangeDiffPairStatus = 'unchanged' | 'modified' | 'removed' | 'added';
+
+interface RangeDiffCommitRef {
+  index: number;
+  shortHash: string;
+}
+
+export interface RangeDiffPair {
+  status: RangeDiffPairStatus;
+  old?: RangeDiffCommitRef;
+  new?: RangeDiffCommitRef;
+  title: string;
+  // Patch of the two patches: add/delete lines changed between the old and new version
+  lines: DiffLine[];
+}
+
+export interface RangeDiffResponse extends InterdiffRange {
+  pairs: RangeDiffPair[];
 }
 
 // Expanded lines types for showing more context in diffs
@@ -238,7 +418,7 @@ export interface FileExpandedState {
   newTotalLines?: number;
 }
 
-interface ExpandedRange {
+export interface ExpandedRange {
   chunkIndex: number;
   direction: 'up' | 'down';
   count: number;
@@ -1,5 +1,6 @@
 import type { BaseMode, Comment, CommentThread, DiffSide } from '../types/diff';
 
+import { isStdinRef } from './diffSelection.js';
 import { hasSuggestionBlock, parseSuggestionBlocks } from './suggestionUtils.js';
 
 function getLineInfo(line: number | number[]): string {
@@ -21,7 +22,7 @@ function formatCommentLocation(file: string, line: number | number[], side?: Dif
 
 function isNonRangeCommitish(commitish: string): boolean {
   return (
-    commitish === 'working' || commitish === 'staged' || commitish === '.' || commitish === 'stdin'
+    commitish === 'working' || commitish === 'staged' || commitish === '.' || isStdinRef(commitish)
   );
 }
 
@@ -6,6 +6,7 @@ import {
   mergeCommentImports,
   parseCommentImportValue,
   serializeCommentImports,
+  threadsToCommentImports,
 } from './commentImports';
 
 function createThread({
@@ -146,6 +147,60 @@ describe('commentImports', () => {
     });
   });
 
+  describe('threadsToCommentImports', () => {
+    it('turns each thread into a thread import followed by its replies', () => {
+      const thread = createThread({ id: 'thread-1', body: 'Root' });
+      thread.messages.push({
+        id: 'reply-1',
+        body: 'Reply',
+        author: 'AI',
+        createdAt: '2024-01-02T00:00:00.000Z',
+        updatedAt: '2024-01-02T00:00:00.000Z',
+      });
+
+      expect(threadsToCommentImports([thread])).toEqual([
+        {
+          type: 'thread',
+          id: 'thread-1',
+          filePath: 'src/example.ts',
+          position: { side: 'new', line: 10 },
+          body: 'Root',
+          author: 'User',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z',
+          codeSnapshot: undefined,
+        },
+        {
+          type: 'reply',
+          id: 'reply-1',
+          filePath: 'src/example.ts',
+          position: { side: 'new', line: 10 },
+          body: 'Reply',
+          author: 'AI',
+          createdAt: '2024-01-02T00:00:00.000Z',
+          updatedAt: '2024-01-02T00:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('round-trips through mergeCommentImports without duplicating threads', () => {
+      const thread = createThread({ id: 'thread-1', body: 'Root' });
+      thread.messages.push({
+        id: 'reply-1',
+        body: 'Reply',
+        createdAt: '2024-01-02T00:00:00.000Z',
+        updatedAt: '2024-01-02T00:00:00.000Z',
+      });
+      const commentImports = threadsToCommentImports([thread]);
+
+      const { threads } = mergeCommentImports([], commentImports);
+
+      expect(threads).toHaveLength(1);
+      expect(threads[0]?.messages.map((message) => message.id)).toEqual(['thread-1', 'reply-1']);
+      expect(mergeCommentImports(threads, commentImports).threads).toEqual(threads);
+    });
+  });
+
   describe('mergeCommentImports', () => {
     it('adds a new thread import', () => {
       vi.useFakeTimers();
@@ -453,6 +453,32 @@ function serializeLineRange(line: DiffLineRange): number | { start: number; end:
   return { start: line.start, end: line.end };
 }
 
+// The reverse of importing: each thread becomes a thread import followed by its replies, keeping
+// ids so re-importing the result is deduplicated against the threads it came from
+export function threadsToCommentImports(threads: DiffCommentThread[]): CommentImport[] {
+  return threads.flatMap((thread) =>
+    thread.messages.map((message, index): CommentImport => {
+      const base = {
+        filePath: thread.filePath,
+        position: clonePosition(thread.position),
+        body: message.body,
+        author: message.author,
+        createdAt: message.createdAt,
+        updatedAt: message.updatedAt,
+      };
+
+      return index === 0
+        ? {
+            ...base,
+            type: 'thread',
+            id: thread.id,
+            codeSnapshot: cloneCodeSnapshot(thread.codeSnapshot),
+          }
+        : { ...base, type: 'reply', id: message.id };
+    }),
+  );
+}
+
 export function serializeCommentImports(commentImports: CommentImport[]): string {
   return JSON.stringify(
     commentImports.map((commentImport) => ({
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createDiffSelection,
+  createMergeSelection,
+  createStashSelection,
+  diffSelectionsEqual,
+  getDiffSelectionKey,
+  getMergeView,
+  isStdinRef,
+  parseStashTarget,
+  withPathspecs,
+} from './diffSelection';
+
+describe('pathspecs', () => {
+  it('only records non-empty pathspecs on a selection', () => {
+    expect(createDiffSelection('HEAD^', 'HEAD', undefined, [])).toEqual({
+      baseCommitish: 'HEAD^',
+      targetCommitish: 'HEAD',
+    });
+    expect(createDiffSelection('main', '.', 'merge-base', ['src/', ' '])).toEqual({
+      baseCommitish: 'main',
+      targetCommitish: '.',
+      baseMode: 'merge-base',
+      pathspecs: ['src/'],
+    });
+  });
+
+  it('keys and compares selections by their pathspecs', () => {
+    const unfiltered = createDiffSelection('HEAD^', 'HEAD');
+    const filtered = withPathspecs(unfiltered, ['src/', ':!*.snap']);
+
+    expect(getDiffSelectionKey(unfiltered)).toBe('HEAD^:HEAD:direct');
+    expect(getDiffSelectionKey(filtered)).toBe('HEAD^:HEAD:direct:src/\u0000:!*.snap');
+    expect(diffSelectionsEqual(unfiltered, filtered)).toBe(false);
+    expect(diffSelectionsEqual(withPathspecs(filtered), unfiltered)).toBe(true);
+  });
+});
+
+describe('parseStashTarget', () => {
+  it('recognizes the working-tree and index parts of a stash', () => {
+    expect(parseStashTarget('stash@{2}')).toEqual({ stashRef: 'stash@{2}', part: 'working' });
+    expect(parseStashTarget('stash@{2}^2')).toEqual({ stashRef: 'stash@{2}', part: 'index' });
+    expect(parseStashTarget('stash')).toEqual({ stashRef: 'stash', part: 'working' });
+  });
+
+  it('ignores other revisions', () => {
+    expect(parseStashTarget('HEAD')).toBeNull();
+    expect(parseStashTarget('stash@{0}^')).toBeNull();
+    expect(parseStashTarget('stash@{0}^3')).toBeNull();
+    expect(parseStashTarget('feature/stash')).toBeNull();
+  });
+});
+
+describe('createStashSelection', () => {
+  it('diffs both parts against the commit the stash was made on', () => {
+    expect(createStashSelection('stash@{1}', 'working')).toEqual({
+      baseCommitish: 'stash@{1}^',
+      targetCommitish: 'stash@{1}',
+    });
+    expect(createStashSelection('stash@{1}', 'index')).toEqual({
+      baseCommitish: 'stash@{1}^',
+      targetCommitish: 'stash@{1}^2',
+    });
+  });
+});
+
+describe('isStdinRef', () => {
+  it('matches stdin and the patches of a piped series', () => {
+    expect(isStdinRef('stdin')).toBe(true);
+    expect(isStdinRef('stdin:patch-12')).toBe(true);
+    expect(isStdinRef('stdin:patch-')).toBe(false);
+    expect(isStdinRef('HEAD')).toBe(false);
+    expect(isStdinRef(undefined)).toBe(false);
+  });
+});
+
+describe('merge views', () => {
+  it('round-trips every view of a merge commit', () => {
+    for (const view of ['combined', 'first-parent', 'second-parent', 'remerge'] as const) {
+      expect(getMergeView(createMergeSelection('abc1234', view))).toBe(view);
+    }
+    expect(createMergeSelection('abc1234', 'combined').baseCommitish).toBe('abc1234^@');
+    expect(getMergeView(createDiffSelection('abc1234^1', 'abc1234'))).toBe('first-parent');
+  });
+
+  it('ignores other selections', () => {
+    expect(getMergeView(createDiffSelection('main', 'abc1234'))).toBeNull();
+    expect(getMergeView(createDiffSelection('abc1234^', 'abc1234', 'merge-base'))).toBeNull();
+    expect(getMergeView(createStashSelection('stash@{0}', 'working'))).toBeNull();
+  });
+});
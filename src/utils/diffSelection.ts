@@ -1,5 +1,8 @@
 import type { BaseMode, DiffSelection } from '../types/diff.js';
 
+// Well-known hash of git's empty tree, used to diff root-like commits
+export const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
 export function normalizeBaseMode(baseMode?: BaseMode): BaseMode {
   return baseMode ?? 'direct';
 }
@@ -8,19 +11,37 @@ export function createDiffSelection(
   baseCommitish: string,
   targetCommitish: string,
   baseMode?: BaseMode,
+  pathspecs?: string[],
 ): DiffSelection {
-  if (normalizeBaseMode(baseMode) === 'merge-base') {
-    return {
-      baseCommitish,
-      targetCommitish,
-      baseMode: 'merge-base',
-    };
-  }
-
-  return {
+  const selection: DiffSelection = {
     baseCommitish,
     targetCommitish,
   };
+
+  if (normalizeBaseMode(baseMode) === 'merge-base') {
+    selection.baseMode = 'merge-base';
+  }
+
+  const normalizedPathspecs = normalizePathspecs(pathspecs);
+  if (normalizedPathspecs.length > 0) {
+    selection.pathspecs = normalizedPathspecs;
+  }
+
+  return selection;
+}
+
+// Pathspecs are passed to git as-is; only blank entries are dropped
+export function normalizePathspecs(pathspecs?: string[]): string[] {
+  return (pathspecs ?? []).filter((pathspec) => pathspec.trim().length > 0);
+}
+
+export function withPathspecs(selection: DiffSelection, pathspecs?: string[]): DiffSelection {
+  return createDiffSelection(
+    selection.baseCommitish,
+    selection.targetCommitish,
+    selection.baseMode,
+    pathspecs,
+  );
 }
 
 export function diffSelectionsEqual(
@@ -30,12 +51,20 @@ export function diffSelectionsEqual(
   return (
     left?.baseCommitish === right?.baseCommitish &&
     left?.targetCommitish === right?.targetCommitish &&
-    normalizeBaseMode(left?.baseMode) === normalizeBaseMode(right?.baseMode)
+    normalizeBaseMode(left?.baseMode) === normalizeBaseMode(right?.baseMode) &&
+    getPathspecsKey(left?.pathspecs) === getPathspecsKey(right?.pathspecs)
   );
 }
 
+function getPathspecsKey(pathspecs?: string[]): string {
+  return normalizePathspecs(pathspecs).join('\u0000');
+}
+
 export function getDiffSelectionKey(selection: DiffSelection): string {
-  return `${selection.baseCommitish}:${selection.targetCommitish}:${normalizeBaseMode(selection.baseMode)}`;
+  const key = `${selection.baseCommitish}:${selection.targetCommitish}:${normalizeBaseMode(selection.baseMode)}`;
+  const pathspecsKey = getPathspecsKey(selection.pathspecs);
+  // Unfiltered selections keep their original key so stored sessions stay reachable
+  return pathspecsKey ? `${key}:${pathspecsKey}` : key;
 }
 
 export function getMergeBaseTargetRef(targetCommitish: string): string {
@@ -45,3 +74,80 @@ export function getMergeBaseTargetRef(targetCommitish: string): string {
 
   return targetCommitish;
 }
+
+// Each patch of a series piped to difit is reviewed as its own target, so comments
+// stay with the patch they were made on
+const STDIN_PATCH_REF_PATTERN = /^stdin:patch-\d+$/;
+
+export function createStdinPatchRef(patchNumber: number): string {
+  return `stdin:patch-${patchNumber}`;
+}
+
+// Stdin diffs have no revisions to read file contents, blame or history from
+export function isStdinRef(ref: string | undefined): boolean {
+  return ref === 'stdin' || (ref !== undefined && STDIN_PATCH_REF_PATTERN.test(ref));
+}
+
+// Ways to review a merge commit M. `M^@` is git's notation for all of M's parents, which a
+// combined (`--cc`) diff compares against at once; a remerge diff compares M with git's own
+// re-merge of its parents, conflict markers included, so manual resolutions stand out.
+export type MergeView = 'combined' | 'first-parent' | 'second-parent' | 'remerge';
+
+const REMERGE_PREFIX = 'remerge:';
+
+export function createMergeSelection(mergeCommitish: string, view: MergeView): DiffSelection {
+  switch (view) {
+    case 'combined':
+      return createDiffSelection(`${mergeCommitish}^@`, mergeCommitish);
+    case 'second-parent':
+      return createDiffSelection(`${mergeCommitish}^2`, mergeCommitish);
+    case 'remerge':
+      return createDiffSelection(`${REMERGE_PREFIX}${mergeCommitish}`, mergeCommitish);
+    default:
+      // Same pair as reviewing any single commit, so comments stay with it
+      return createDiffSelection(`${mergeCommitish}^`, mergeCommitish);
+  }
+}
+
+export function getMergeView(selection: DiffSelection): MergeView | null {
+  const { baseCommitish, targetCommitish } = selection;
+  // Stashes are merge commits too, but are reviewed through their working and index parts
+  if (normalizeBaseMode(selection.baseMode) === 'merge-base' || parseStashTarget(targetCommitish)) {
+    return null;
+  }
+
+  switch (baseCommitish) {
+    case `${targetCommitish}^@`:
+      return 'combined';
+    case `${targetCommitish}^`:
+    case `${targetCommitish}^1`:
+      return 'first-parent';
+    case `${targetCommitish}^2`:
+      return 'second-parent';
+    case `${REMERGE_PREFIX}${targetCommitish}`:
+      return 'remerge';
+    default:
+      return null;
+  }
+}
+
+export type StashPart = 'working' | 'index';
+
+// `stash@{n}` records the working tree at stash time and its second parent
+// `stash@{n}^2` records the index; both are diffed against the first parent.
+const STASH_TARGET_PATTERN = /^(stash(?:@\{\d+\})?)(\^2)?$/;
+
+export function parseStashTarget(
+  targetCommitish: string,
+): { stashRef: string; part: StashPart } | null {
+  const match = targetCommitish.match(STASH_TARGET_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return { stashRef: match[1], part: match[2] ? 'index' : 'working' };
+}
+
+export function createStashSelection(stashRef: string, part: StashPart): DiffSelection {
+  return createDiffSelection(`${stashRef}^`, part === 'index' ? `${stashRef}^2` : stashRef);
+}